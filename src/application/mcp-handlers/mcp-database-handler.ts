@@ -4,7 +4,8 @@
  * FIXED: Race condition protection and proper validation
  */
 import { DIContainer } from '../../container/di-container';
-import { MCPDatabaseError, MCPValidationError, MCPErrorCodes } from '../../infrastructure/errors';
+import { getDatabaseAccess } from '../../infrastructure/auth';
+import { MCPDatabaseError, MCPPermissionError, MCPValidationError, MCPErrorCodes } from '../../infrastructure/errors';
 
 export class McpDatabaseHandler {
   private container: DIContainer;
@@ -37,12 +38,30 @@ export class McpDatabaseHandler {
     // Input validation - fail fast
     this.validateDatabaseName(databaseName);
     
+    const databaseManager = this.container.getDatabaseManager();
+    // Policies grant on the normalized name - the database the switch will actually use
+    const access = getDatabaseAccess();
+    const target = access ? databaseManager.normalizeDatabaseName(databaseName) : databaseName;
+    if (access) {
+      access.policy.assertAllowed(access.caller, 'switch', target);
+    }
+
     await this.ensureDatabaseInitialized();
     
     try {
-      const databaseManager = this.container.getDatabaseManager();
-      return await databaseManager.switchDatabase(databaseName);
+      // Under a policy, only identities granted createDatabases may switch to a database that does not exist
+      return access
+        ? await databaseManager.switchDatabase(databaseName, { createIfMissing: access.policy.canCreateDatabases(access.caller) })
+        : await databaseManager.switchDatabase(databaseName);
     } catch (error) {
+      if (access && error instanceof MCPDatabaseError && error.code === MCPErrorCodes.DATABASE_NOT_FOUND) {
+        throw new MCPPermissionError(
+          `Identity '${access.caller.id}' may not create database '${target}'`,
+          MCPErrorCodes.PERMISSION_DENIED,
+          { identity: access.caller.id, action: 'create', database: target }
+        );
+      }
+
       // Specific error types based on actual failure
       if (error instanceof Error) {
         if (error.message.includes('Invalid database name')) {
@@ -5,6 +5,7 @@
 import { DIContainer } from '../../container/di-container';
 import { createErrorMessage } from '../../infrastructure/utilities';
 import { MCPValidationError, MCPOperationError, MCPErrorCodes } from '../../infrastructure/errors';
+import { SearchOptions, SearchOrder, SearchResult } from '../../domain/repositories/search-repository';
 
 export class McpMemoryHandler {
   private container: DIContainer;
@@ -57,7 +58,7 @@ export class McpMemoryHandler {
     }
   }
 
-  async handleMemoryRetrieve(identifiers: string[]): Promise<any> {
+  async handleMemoryRetrieve(identifiers: string[], order?: SearchOrder): Promise<any> {
     // Input validation - fail fast
     this.validateIdentifiers(identifiers);
     
@@ -65,7 +66,7 @@ export class McpMemoryHandler {
     const currentDb = this.container.getCurrentDatabase();
     const memoryRepo = this.container.getMemoryRepository();
     
-    const memories = await memoryRepo.findByIds(identifiers);
+    const memories = await memoryRepo.findByIds(identifiers, order);
     
     return {
       memories: memories.map(memory => this.stripEmbeddings(memory)),
@@ -81,7 +82,8 @@ export class McpMemoryHandler {
     limit: number,
     includeGraphContext: boolean,
     memoryTypes?: string[],
-    threshold?: number
+    threshold?: number,
+    options?: SearchOptions
   ): Promise<any> {
     // Input validation - fail fast
     this.validateSearchRequest(query, limit, threshold);
@@ -96,14 +98,12 @@ export class McpMemoryHandler {
       limit,
       includeGraphContext,
       memoryTypes,
-      threshold
+      threshold,
+      ...options
     });
 
     return {
-      memories: results.map(result => ({
-        ...this.stripEmbeddings(result.memory),
-        score: result.score
-      })),
+      memories: this.toSearchResponseMemories(results),
       _meta: {
         database: currentDb.database,
         total: results.length,
@@ -113,6 +113,54 @@ export class McpMemoryHandler {
     };
   }
 
+  /**
+   * Several searches over one database session - results come back in request order
+   */
+  async handleMemorySearchBatch(searches: Array<{
+    query: string;
+    limit: number;
+    includeGraphContext: boolean;
+    memoryTypes?: string[];
+    threshold?: number;
+    options?: SearchOptions;
+  }>): Promise<any> {
+    // Input validation - fail fast, before any query runs
+    searches.forEach(search => this.validateSearchRequest(search.query, search.limit, search.threshold));
+
+    await this.ensureDatabaseInitialized();
+
+    const currentDb = this.container.getCurrentDatabase();
+    const searchUseCase = this.container.getSearchMemoriesUseCase();
+
+    const batches = await searchUseCase.executeBatch(searches.map(search => ({
+      query: search.query,
+      limit: search.limit,
+      includeGraphContext: search.includeGraphContext,
+      memoryTypes: search.memoryTypes,
+      threshold: search.threshold,
+      ...search.options
+    })));
+
+    return {
+      results: batches.map(results => ({
+        memories: this.toSearchResponseMemories(results),
+        total: results.length
+      })),
+      _meta: {
+        database: currentDb.database,
+        queryTime: Date.now()
+      }
+    };
+  }
+
+  private toSearchResponseMemories(results: SearchResult[]): any[] {
+    return results.map(result => ({
+      ...this.stripEmbeddings(result.memory),
+      score: result.score,
+      ...(result.explanation && { explanation: result.explanation })
+    }));
+  }
+
   private async handleCreateMemories(memories: any[], currentDb: any): Promise<any> {
     if (!memories || !Array.isArray(memories) || memories.length === 0) {
       throw new MCPValidationError(
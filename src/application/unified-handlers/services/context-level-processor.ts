@@ -4,6 +4,8 @@
  * THE IMPLEMENTOR'S RULE: Strip exactly what's not needed for each context level
  */
 
+import type { SearchExplanation } from '../../../domain/repositories/search-repository';
+
 export type ContextLevel = "minimal" | "full" | "relations-only";
 
 export interface MemoryResult {
@@ -11,6 +13,7 @@ export interface MemoryResult {
   name: string;
   memoryType: string;
   score?: number;
+  explanation?: SearchExplanation;  // Requested explicitly, kept at every context level
   observations?: Array<{id?: string, content: string, createdAt: string}>;
   metadata?: Record<string, any>;
   createdAt?: string;
@@ -49,7 +52,8 @@ export class ContextLevelProcessor {
       id: result.id,
       name: result.name,
       memoryType: result.memoryType,
-      ...(result.score !== undefined && { score: result.score })
+      ...(result.score !== undefined && { score: result.score }),
+      ...(result.explanation && { explanation: result.explanation })
     }));
   }
 
@@ -63,6 +67,7 @@ export class ContextLevelProcessor {
       name: result.name,
       memoryType: result.memoryType,
       ...(result.score !== undefined && { score: result.score }),
+      ...(result.explanation && { explanation: result.explanation }),
       ...(result.related && { related: result.related })
     }));
   }
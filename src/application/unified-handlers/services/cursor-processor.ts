@@ -0,0 +1,105 @@
+/**
+ * Cursor Processor
+ * Single responsibility: Encode and decode opaque memory_find pagination cursors
+ * THE IMPLEMENTOR'S RULE: Cursors carry keyset positions, never offsets into a moving list
+ */
+
+import { SearchCursor, SearchOrder } from '../../../domain/repositories/search-repository';
+import { MISSING_TIMESTAMP } from '../../../infrastructure/utilities/keyset-pagination';
+
+/**
+ * Sort key a cursor was issued for - a cursor is only valid for the same ordering
+ */
+export type CursorSortKey = 'relevance' | 'distance' | SearchOrder['property'];
+
+interface CursorPayload {
+  s: CursorSortKey;
+  v: string | number;
+  id: string;
+  n: number;
+  t?: number;  // Boost reference time of relevance listings
+}
+
+export class CursorProcessor {
+
+  /**
+   * Encode keyset position as opaque token
+   */
+  encodeCursor(sortKey: CursorSortKey, position: SearchCursor): string {
+    const payload: CursorPayload = {
+      s: sortKey,
+      v: position.value,
+      id: position.id,
+      n: position.offset,
+      ...(position.boostTime !== undefined && { t: position.boostTime })
+    };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+  }
+
+  /**
+   * Decode opaque token back to keyset position
+   * Zero-fallback: Malformed or mismatched cursors throw immediately
+   */
+  decodeCursor(cursor: string, sortKey: CursorSortKey): SearchCursor {
+    let payload: CursorPayload;
+    try {
+      payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error(`Invalid cursor: ${cursor}`);
+    }
+
+    if (!payload || typeof payload.id !== 'string' ||
+        (typeof payload.v !== 'string' && typeof payload.v !== 'number') ||
+        typeof payload.n !== 'number' ||
+        (payload.t !== undefined && typeof payload.t !== 'number')) {
+      throw new Error(`Invalid cursor: ${cursor}`);
+    }
+
+    if (payload.s !== sortKey) {
+      throw new Error(`Invalid cursor: issued for '${payload.s}' ordering, request uses '${sortKey}'`);
+    }
+
+    return {
+      value: payload.v,
+      id: payload.id,
+      offset: payload.n,
+      ...(payload.t !== undefined && { boostTime: payload.t })
+    };
+  }
+
+  /**
+   * Build cursor for the page after the given one
+   * Only a full page can have a successor - short pages end the listing
+   */
+  buildNextCursor(
+    sortKey: CursorSortKey,
+    pageSize: number,
+    limit: number,
+    last: { value: any; id: string } | undefined,
+    previous?: SearchCursor,
+    boostTime?: number
+  ): string | undefined {
+    if (!last || pageSize < limit) {
+      return undefined;
+    }
+
+    let value = last.value instanceof Date ? last.value.toISOString() : last.value;
+    if (value == null && this.isTimestampKey(sortKey)) {
+      value = MISSING_TIMESTAMP; // Memory without the timestamp - same position the Cypher sort key gives it
+    }
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return undefined; // Missing score or distance - position cannot be resumed
+    }
+
+    return this.encodeCursor(sortKey, {
+      value,
+      id: last.id,
+      offset: (previous?.offset ?? 0) + pageSize,
+      boostTime
+    });
+  }
+
+  private isTimestampKey(sortKey: CursorSortKey): boolean {
+    return sortKey !== 'relevance' && sortKey !== 'distance';
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Database Access Guard
+ * Single responsibility: Check the caller's policy grant on the active database before a tool touches data
+ *
+ * Runs ahead of each handler's own error translation so a denial reaches the client as a
+ * permission error, not as a generic operation failure.
+ */
+
+import { DIContainer } from '../../../container/di-container';
+import { getDatabaseAccess, DatabaseAction } from '../../../infrastructure/auth';
+
+export function assertDatabaseAccess(action: Exclude<DatabaseAction, 'switch'>): void {
+  const access = getDatabaseAccess();
+  if (!access) {
+    return;
+  }
+
+  const { database } = DIContainer.getInstance().getCurrentDatabase();
+  access.policy.assertAllowed(access.caller, action, database);
+}
@@ -5,12 +5,20 @@
  */
 
 import { getLimitsConfig } from '../../../config';
+import neo4j from 'neo4j-driver';
+import { SearchOrder, SearchCursor, MetadataFilter } from '../../../domain/repositories/search-repository';
+import { buildKeysetClause, timestampSortKey } from '../../../infrastructure/utilities/keyset-pagination';
+import { buildMetadataFilterClause } from '../../../infrastructure/utilities/metadata-properties';
 
 export interface GraphTraversalOptions {
   traverseFrom: string;
   traverseRelations?: string[];
   maxDepth?: number;
   traverseDirection?: "outbound" | "inbound" | "both";
+  order?: SearchOrder;
+  limit?: number;
+  after?: SearchCursor;
+  metadataFilter?: MetadataFilter; // Applies to reached memories - paths may pass through others
 }
 
 export interface TraversalResult {
@@ -46,7 +54,8 @@ export class GraphTraversalProcessor {
     let cypher: string;
     const params: Record<string, any> = {
       startId: options.traverseFrom,
-      maxDepth
+      maxDepth,
+      limit: neo4j.int(options.limit || 50)
     };
     
     if (relationTypes && relationTypes.length > 0) {
@@ -55,16 +64,24 @@ export class GraphTraversalProcessor {
     
     switch (direction) {
       case "outbound":
-        cypher = this.buildOutboundTraversal(maxDepth, relationTypes);
+        cypher = this.buildOutboundTraversal(maxDepth, relationTypes, options.order, options.after,
+          this.buildMetadataCondition('end', options.metadataFilter, params));
         break;
       case "inbound":
-        cypher = this.buildInboundTraversal(maxDepth, relationTypes);
+        cypher = this.buildInboundTraversal(maxDepth, relationTypes, options.order, options.after,
+          this.buildMetadataCondition('start', options.metadataFilter, params));
         break;
       case "both":
       default:
-        cypher = this.buildBidirectionalTraversal(maxDepth, relationTypes);
+        cypher = this.buildBidirectionalTraversal(maxDepth, relationTypes, options.order, options.after,
+          this.buildMetadataCondition('connected', options.metadataFilter, params));
         break;
     }
+
+    if (options.after) {
+      params.cursorValue = options.after.value;
+      params.cursorId = options.after.id;
+    }
     
     return { cypher, params };
   }
@@ -72,16 +89,23 @@ export class GraphTraversalProcessor {
   /**
    * Build outbound traversal query (what this memory influences)
    */
-  private buildOutboundTraversal(maxDepth: number, relationTypes?: string[]): string {
+  private buildOutboundTraversal(
+    maxDepth: number,
+    relationTypes?: string[],
+    order?: SearchOrder,
+    after?: SearchCursor,
+    metadataCondition: string = ''
+  ): string {
     const relationFilter = relationTypes 
       ? `ALL(rel IN relationships(path) WHERE rel.relationType IN $relationTypes) AND`
       : '';
+    const sort = this.buildSort('end', order, after);
     
     return `
       MATCH (start:Memory {id: $startId})
       MATCH path = (start)-[r:RELATES_TO*1..${maxDepth}]->(end:Memory)
-      WHERE ${relationFilter} end <> start AND end.id IS NOT NULL
-      WITH end, length(path) as distance, relationships(path)[0] as firstRel
+      WHERE ${relationFilter} end <> start AND end.id IS NOT NULL${metadataCondition}
+      WITH end, length(path) as distance, relationships(path)[0] as firstRel${sort.keysetFilter}
       RETURN DISTINCT end.id as id,
                       end.name as name,
                       end.memoryType as type,
@@ -89,25 +113,32 @@ export class GraphTraversalProcessor {
                       firstRel.relationType as relation,
                       firstRel.strength as strength,
                       firstRel.source as source,
-                      firstRel.createdAt as createdAt
-      ORDER BY distance ASC, end.name ASC
-      LIMIT 50
+                      firstRel.createdAt as createdAt${sort.projection}
+      ORDER BY ${sort.orderBy}
+      LIMIT $limit
     `;
   }
 
   /**
    * Build inbound traversal query (what influences this memory)
    */
-  private buildInboundTraversal(maxDepth: number, relationTypes?: string[]): string {
+  private buildInboundTraversal(
+    maxDepth: number,
+    relationTypes?: string[],
+    order?: SearchOrder,
+    after?: SearchCursor,
+    metadataCondition: string = ''
+  ): string {
     const relationFilter = relationTypes 
       ? `ALL(rel IN relationships(path) WHERE rel.relationType IN $relationTypes) AND`
       : '';
+    const sort = this.buildSort('start', order, after);
     
     return `
       MATCH (target:Memory {id: $startId})
       MATCH path = (start:Memory)-[r:RELATES_TO*1..${maxDepth}]->(target)
-      WHERE ${relationFilter} start <> target AND start.id IS NOT NULL
-      WITH start, length(path) as distance, relationships(path)[-1] as lastRel
+      WHERE ${relationFilter} start <> target AND start.id IS NOT NULL${metadataCondition}
+      WITH start, length(path) as distance, relationships(path)[-1] as lastRel${sort.keysetFilter}
       RETURN DISTINCT start.id as id,
                       start.name as name,
                       start.memoryType as type,
@@ -115,28 +146,35 @@ export class GraphTraversalProcessor {
                       lastRel.relationType as relation,
                       lastRel.strength as strength,
                       lastRel.source as source,
-                      lastRel.createdAt as createdAt
-      ORDER BY distance ASC, start.name ASC
-      LIMIT 50
+                      lastRel.createdAt as createdAt${sort.projection}
+      ORDER BY ${sort.orderBy}
+      LIMIT $limit
     `;
   }
 
   /**
    * Build bidirectional traversal query (all connected memories)
    */
-  private buildBidirectionalTraversal(maxDepth: number, relationTypes?: string[]): string {
+  private buildBidirectionalTraversal(
+    maxDepth: number,
+    relationTypes?: string[],
+    order?: SearchOrder,
+    after?: SearchCursor,
+    metadataCondition: string = ''
+  ): string {
     const relationFilter = relationTypes 
       ? `ALL(rel IN relationships(path) WHERE rel.relationType IN $relationTypes) AND`
       : '';
+    const sort = this.buildSort('connected', order, after);
     
     return `
       MATCH (center:Memory {id: $startId})
       MATCH path = (center)-[r:RELATES_TO*1..${maxDepth}]-(connected:Memory)
-      WHERE ${relationFilter} connected <> center AND connected.id IS NOT NULL
+      WHERE ${relationFilter} connected <> center AND connected.id IS NOT NULL${metadataCondition}
       WITH connected, length(path) as distance, 
            CASE WHEN startNode(relationships(path)[0]) = center 
                 THEN relationships(path)[0] 
-                ELSE relationships(path)[-1] END as relevantRel
+                ELSE relationships(path)[-1] END as relevantRel${sort.keysetFilter}
       RETURN DISTINCT connected.id as id,
                       connected.name as name,
                       connected.memoryType as type,
@@ -144,12 +182,59 @@ export class GraphTraversalProcessor {
                       relevantRel.relationType as relation,
                       relevantRel.strength as strength,
                       relevantRel.source as source,
-                      relevantRel.createdAt as createdAt
-      ORDER BY distance ASC, connected.name ASC
-      LIMIT 50
+                      relevantRel.createdAt as createdAt${sort.projection}
+      ORDER BY ${sort.orderBy}
+      LIMIT $limit
     `;
   }
 
+  /**
+   * Metadata filter over the reached memory, as an AND-prefixed WHERE fragment
+   * Filter params are merged into the traversal params
+   */
+  private buildMetadataCondition(
+    variable: string,
+    metadataFilter: MetadataFilter | undefined,
+    params: Record<string, any>
+  ): string {
+    if (!metadataFilter) {
+      return '';
+    }
+
+    const clause = buildMetadataFilterClause(metadataFilter, variable);
+    Object.assign(params, clause.params);
+    return clause.cypher ? ` AND ${clause.cypher}` : '';
+  }
+
+  /**
+   * Build sort and keyset filter for traversal results
+   * Default: nearest first. Timestamp order projects the sort key so DISTINCT can use it.
+   * Memory ID is the final tie-breaker so cursors resume at an exact position
+   */
+  private buildSort(
+    variable: string,
+    order?: SearchOrder,
+    after?: SearchCursor
+  ): { projection: string; orderBy: string; keysetFilter: string } {
+    const sortExpression = order ? timestampSortKey(`${variable}.${order.property}`) : 'distance';
+    const direction = order ? order.direction : 'ASC';
+    const keysetFilter = after
+      ? `
+      WHERE ${buildKeysetClause(sortExpression, `${variable}.id`, direction, after).cypher}`
+      : '';
+
+    if (!order) {
+      return { projection: '', orderBy: `distance ASC, ${variable}.id ASC`, keysetFilter };
+    }
+
+    return {
+      projection: `,
+                      ${sortExpression} as orderValue`,
+      orderBy: `orderValue ${order.direction}, ${variable}.id ${order.direction}`,
+      keysetFilter
+    };
+  }
+
   /**
    * Validate traversal options
    */
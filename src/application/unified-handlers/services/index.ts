@@ -12,9 +12,17 @@ export type { ContextLevel, MemoryResult } from './context-level-processor';
 export { DateFilterProcessor } from './date-filter-processor';
 export type { DateFilterOptions, ProcessedDateFilter } from './date-filter-processor';
 
+export { OrderByProcessor } from './order-by-processor';
+export type { OrderByOption, OrderDirection } from './order-by-processor';
+
+export { CursorProcessor } from './cursor-processor';
+export type { CursorSortKey } from './cursor-processor';
+
 export { GraphTraversalProcessor } from './graph-traversal-processor';
 export type { 
   GraphTraversalOptions, 
   TraversalResult, 
   ProcessedTraversal 
 } from './graph-traversal-processor';
+
+export { assertDatabaseAccess } from './database-access-guard';
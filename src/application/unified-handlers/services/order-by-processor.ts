@@ -0,0 +1,47 @@
+/**
+ * Order By Processor
+ * Single responsibility: Translate memory_find ordering options into a Cypher sort specification
+ * THE IMPLEMENTOR'S RULE: Sorting happens in the database, not after the LIMIT
+ */
+
+import { SearchOrder } from '../../../domain/repositories/search-repository';
+
+export type OrderByOption = "relevance" | "created" | "modified" | "accessed";
+export type OrderDirection = "asc" | "desc";
+
+const ORDER_PROPERTIES: Record<Exclude<OrderByOption, "relevance">, SearchOrder['property']> = {
+  created: 'createdAt',
+  modified: 'modifiedAt',
+  accessed: 'lastAccessed'
+};
+
+export class OrderByProcessor {
+
+  /**
+   * Map orderBy/direction to a Cypher sort specification
+   * Relevance (or no orderBy) returns undefined - score order is kept by the caller
+   */
+  processOrderBy(orderBy?: OrderByOption, direction?: OrderDirection): SearchOrder | undefined {
+    if (!orderBy || orderBy === "relevance") {
+      return undefined;
+    }
+
+    return {
+      property: ORDER_PROPERTIES[orderBy],
+      direction: direction === "asc" ? 'ASC' : 'DESC' // Newest first by default
+    };
+  }
+
+  /**
+   * Get supported orderings for user guidance
+   */
+  getSupportedOptions(): string[] {
+    return [
+      'relevance: Best score first (default)',
+      'created: By creation timestamp',
+      'modified: By last modification timestamp',
+      'accessed: By last access timestamp',
+      'orderDirection: "desc" (default, newest first) or "asc" - applies to timestamp orderings'
+    ];
+  }
+}
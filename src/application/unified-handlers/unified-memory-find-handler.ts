@@ -9,13 +9,32 @@ import { DIContainer } from '../../container/di-container';
 import { 
   ContextLevelProcessor,
   DateFilterProcessor,
+  OrderByProcessor,
+  CursorProcessor,
   GraphTraversalProcessor,
+  assertDatabaseAccess,
   type ContextLevel,
   type DateFilterOptions,
   type ProcessedDateFilter,
+  type OrderByOption,
+  type OrderDirection,
+  type CursorSortKey,
   type GraphTraversalOptions
 } from './services';
 import { WildcardSearchService } from '../../infrastructure/services/search/wildcard-search-service';
+import { SimilarMemorySearch } from '../../infrastructure/services/search/similar-memory-search';
+import { compileSearchQuery, withQueryFilter } from '../../infrastructure/services/search/query-language';
+import type {
+  SearchOptions,
+  SearchOrder,
+  SearchCursor,
+  SearchScoring,
+  SearchBoost,
+  SearchDateFilter,
+  MetadataFilter,
+  SimilarityMode
+} from '../../domain/repositories/search-repository';
+import { withMetadataFilter } from '../../infrastructure/utilities/metadata-properties';
 import { 
   MCPValidationError, 
   MCPServiceError,
@@ -28,7 +47,15 @@ export interface MemoryFindRequest {
   memoryTypes?: string[];
   includeContext?: ContextLevel;
   threshold?: number;
-  orderBy?: "relevance" | "created" | "modified" | "accessed";
+  orderBy?: OrderByOption;
+  orderDirection?: OrderDirection;
+  cursor?: string; // Opaque _meta.nextCursor from the previous page
+  scoring?: SearchScoring; // Hybrid scoring overrides, defaults from SEARCH_* settings
+  boost?: SearchBoost; // Recency and access-frequency boosting, defaults from SEARCH_* settings
+  explain?: boolean; // Per-result match and score breakdown (scored search, not "*", ID lookup or traversal)
+  matchedObservations?: number; // Top-k matched observations with highlights instead of all (scored search)
+  metadataFilter?: MetadataFilter; // Conditions on top-level metadata keys (search, "*" listing, traversal)
+  mmrLambda?: number; // MMR diversification of scored search (1 = pure relevance, 0 = maximum diversity)
   
   // Date-based filtering
   createdAfter?: string;
@@ -36,21 +63,56 @@ export interface MemoryFindRequest {
   modifiedSince?: string;
   accessedSince?: string;
   
+  // Similarity ("more like this")
+  similarTo?: string;              // Memory ID whose stored vectors are the query
+  similarityMode?: SimilarityMode; // max (default) or centroid
+  excludeRelated?: boolean;        // Skip memories already directly related to similarTo
+  
   // Graph traversal
   traverseFrom?: string;
   traverseRelations?: string[];
   maxDepth?: number;
   traverseDirection?: "outbound" | "inbound" | "both";
+
+  // Batch search
+  queries?: FindSubQuery[];        // Named searches run together, results grouped by name
+}
+
+/**
+ * Per-search fields shared by a single search and every named sub-query of a batch
+ */
+export type SearchFields = Pick<
+  MemoryFindRequest,
+  | 'limit' | 'memoryTypes' | 'threshold' | 'orderBy' | 'orderDirection'
+  | 'scoring' | 'boost' | 'explain' | 'matchedObservations' | 'metadataFilter' | 'mmrLambda'
+  | 'createdAfter' | 'createdBefore' | 'modifiedSince' | 'accessedSince'
+>;
+
+export interface FindSubQuery extends SearchFields {
+  name: string;
+  query: string;
+}
+
+export interface FindResultGroup {
+  name: string;
+  query: string;
+  memories: any[];
+  total: number;
 }
 
+// One batch shares one session - keep it from monopolizing the connection
+export const MAX_BATCH_QUERIES = 10;
+
 export interface MemoryFindResponse {
   memories: any[];
+  groups?: FindResultGroup[];
   _meta: {
     database: string;
     total: number;
     query: string | string[];
     queryTime: number;
     contextLevel: ContextLevel;
+    nextCursor?: string;
   };
 }
 
@@ -58,17 +120,22 @@ export class UnifiedMemoryFindHandler {
   private memoryHandler: McpMemoryHandler;
   private contextProcessor: ContextLevelProcessor;
   private dateProcessor: DateFilterProcessor;
+  private orderProcessor: OrderByProcessor;
+  private cursorProcessor: CursorProcessor;
   private graphProcessor: GraphTraversalProcessor;
 
   constructor(memoryHandler: McpMemoryHandler) {
     this.memoryHandler = memoryHandler;
     this.contextProcessor = new ContextLevelProcessor();
     this.dateProcessor = new DateFilterProcessor();
+    this.orderProcessor = new OrderByProcessor();
+    this.cursorProcessor = new CursorProcessor();
     this.graphProcessor = new GraphTraversalProcessor();
   }
 
   async handleMemoryFind(request: MemoryFindRequest): Promise<MemoryFindResponse> {
     const startTime = Date.now();
+    assertDatabaseAccess('read');
     
     try {
       // Validate and process request
@@ -78,7 +145,13 @@ export class UnifiedMemoryFindHandler {
       let result: any;
       
       // Route based on operation type
-      if (request.traverseFrom) {
+      if (request.queries) {
+        // Named sub-queries over one session
+        result = await this.handleBatchSearch(request);
+      } else if (request.similarTo) {
+        // Similarity search from a stored memory
+        result = await this.handleSimilarSearch(request);
+      } else if (request.traverseFrom) {
         // Graph traversal operation
         result = await this.handleGraphTraversal(request);
       } else if (Array.isArray(request.query) || this.isStringifiedArray(request.query)) {
@@ -96,6 +169,25 @@ export class UnifiedMemoryFindHandler {
       );
       
       const currentDb = DIContainer.getInstance().getCurrentDatabase();
+
+      if (result.groups) {
+        const groups: FindResultGroup[] = result.groups.map((group: FindResultGroup) => {
+          const memories = this.contextProcessor.applyContextLevel(group.memories, contextLevel);
+          return { ...group, memories, total: memories.length };
+        });
+
+        return {
+          memories: [],
+          groups,
+          _meta: {
+            database: currentDb.database,
+            total: groups.reduce((sum, group) => sum + group.total, 0),
+            query: request.query,
+            queryTime: Date.now() - startTime,
+            contextLevel
+          }
+        };
+      }
       
       return {
         memories: processedMemories,
@@ -104,7 +196,8 @@ export class UnifiedMemoryFindHandler {
           total: processedMemories.length,
           query: request.query,
           queryTime: Date.now() - startTime,
-          contextLevel
+          contextLevel,
+          ...(result.nextCursor && { nextCursor: result.nextCursor })
         }
       };
       
@@ -116,6 +209,13 @@ export class UnifiedMemoryFindHandler {
           MCPErrorCodes.INVALID_CONTEXT_LEVEL
         );
       }
+
+      if (error instanceof Error && error.message.startsWith('Invalid cursor')) {
+        throw new MCPValidationError(
+          error.message,
+          MCPErrorCodes.INVALID_CURSOR
+        );
+      }
       
       throw new MCPServiceError(
         `Memory find failed: ${error instanceof Error ? error.message : String(error)}`,
@@ -125,6 +225,33 @@ export class UnifiedMemoryFindHandler {
     }
   }
 
+  /**
+   * Handle named sub-queries as one batch - each keeps its own filters, results stay grouped
+   * Sub-queries share one database session and one embedding batch; there is no paging
+   */
+  private async handleBatchSearch(request: MemoryFindRequest): Promise<any> {
+    const subQueries = request.queries!;
+    const includeGraphContext = request.includeContext !== "minimal";
+
+    const result = await this.memoryHandler.handleMemorySearchBatch(subQueries.map(subQuery => ({
+      query: subQuery.query,
+      limit: subQuery.limit || 10,
+      includeGraphContext,
+      memoryTypes: subQuery.memoryTypes,
+      threshold: subQuery.threshold || 0.1,
+      options: this.buildSearchOptions(subQuery, this.resolveOrder(subQuery))
+    })));
+
+    return {
+      groups: subQueries.map((subQuery, index) => ({
+        name: subQuery.name,
+        query: subQuery.query,
+        memories: result.results[index].memories,
+        total: result.results[index].total
+      }))
+    };
+  }
+
   /**
    * Handle graph traversal operation
    */
@@ -136,11 +263,20 @@ export class UnifiedMemoryFindHandler {
       );
     }
 
+    const order = this.resolveOrder(request);
+    const sortKey: CursorSortKey = order ? order.property : 'distance';
+    const limit = request.limit || 50; // Traversal keeps its historical page size
+    const after = this.decodeCursor(request, sortKey);
+
     const traversalOptions: GraphTraversalOptions = {
       traverseFrom: request.traverseFrom,
       traverseRelations: request.traverseRelations,
       maxDepth: request.maxDepth,
-      traverseDirection: request.traverseDirection
+      traverseDirection: request.traverseDirection,
+      order,
+      limit,
+      after,
+      metadataFilter: request.metadataFilter
     };
 
     // Process traversal options to get the proper Cypher query
@@ -174,9 +310,22 @@ export class UnifiedMemoryFindHandler {
       if (foundIds.length === 0) {
         return { memories: [] };
       }
+
+      // Cursor follows traversal row order, not the enriched (name-ordered) list
+      const lastRow = traversalResults[traversalResults.length - 1];
+      const nextCursor = this.cursorProcessor.buildNextCursor(
+        sortKey,
+        traversalResults.length,
+        limit,
+        {
+          value: order ? result.records[result.records.length - 1].get('orderValue') : lastRow.distance,
+          id: lastRow.id
+        },
+        after
+      );
       
       // Get full memory data for traversal results
-      const enrichedMemories = await this.memoryHandler.handleMemoryRetrieve(foundIds);
+      const enrichedMemories = await this.memoryHandler.handleMemoryRetrieve(foundIds, traversalOptions.order);
       
       // Build proper traversal response with relationship context
       const memories = enrichedMemories.memories.map((memory: any) => {
@@ -199,13 +348,56 @@ export class UnifiedMemoryFindHandler {
         };
       });
       
-      return { memories };
+      return { memories, nextCursor };
       
     } finally {
       await session.close();
     }
   }
 
+  /**
+   * Handle similarity search from the stored vectors of a memory
+   * Neighbours keep similarity order; the source memory is never among them
+   */
+  private async handleSimilarSearch(request: MemoryFindRequest): Promise<any> {
+    const processedDateFilter = this.processDateFilters(request);
+    const filter = withMetadataFilter(
+      processedDateFilter.cypher ? processedDateFilter : undefined,
+      request.metadataFilter
+    );
+
+    const container = DIContainer.getInstance();
+    const { database } = container.getCurrentDatabase();
+    const session = container.getSessionFactory().createSession(database);
+
+    try {
+      const similarSearch = new SimilarMemorySearch(session, container.getEmbeddingService(), database);
+      const neighbours = await similarSearch.findSimilar(request.similarTo!, {
+        limit: request.limit || 10,
+        threshold: request.threshold || 0.1,
+        mode: request.similarityMode,
+        excludeRelated: request.excludeRelated,
+        memoryTypes: request.memoryTypes,
+        filter
+      });
+
+      if (neighbours.length === 0) {
+        return { memories: [] };
+      }
+
+      const enriched = await this.memoryHandler.handleMemoryRetrieve(neighbours.map(neighbour => neighbour.id));
+      const memoriesById = new Map<string, any>(enriched.memories.map((memory: any) => [memory.id, memory]));
+
+      return {
+        memories: neighbours
+          .filter(neighbour => memoriesById.has(neighbour.id))
+          .map(neighbour => ({ ...memoriesById.get(neighbour.id), score: neighbour.score }))
+      };
+    } finally {
+      await session.close();
+    }
+  }
+
   /**
    * Build proper relationship context for traversal results
    * THE IMPLEMENTOR'S RULE: Direction matters - ancestors vs descendants vs both
@@ -259,7 +451,7 @@ export class UnifiedMemoryFindHandler {
       // Note: Could be optimized with pre-filtering at query level
     }
 
-    const result = await this.memoryHandler.handleMemoryRetrieve(idsToRetrieve);
+    const result = await this.memoryHandler.handleMemoryRetrieve(idsToRetrieve, this.resolveOrder(request));
     
     // Apply memory type filtering if specified
     if (request.memoryTypes && request.memoryTypes.length > 0) {
@@ -284,41 +476,138 @@ export class UnifiedMemoryFindHandler {
     }
 
     // Process date filters if provided
-    const dateFilters = this.extractDateFilters(request);
-    let processedDateFilter = { cypher: '', params: {} };
-    
-    if (Object.keys(dateFilters).length > 0) {
-      this.dateProcessor.validateDateFilters(dateFilters);
-      processedDateFilter = this.dateProcessor.processDateFilters(dateFilters);
-    }
+    const processedDateFilter = this.processDateFilters(request);
+
+    const order = this.resolveOrder(request);
+    const limit = request.limit || 10;
+
+    // Query-language filters without free text have nothing to score - list them like '*'
+    const structured = request.query === '*' ? undefined : compileSearchQuery(request.query);
 
     // Execute wildcard search with date filtering
-    if (request.query === '*') {
-      return await this.executeWildcardSearchWithDateFilters(
-        request.limit || 10,
+    if (request.query === '*' || (structured && !structured.freeText)) {
+      const wildcardOrder = order || { property: 'createdAt', direction: 'DESC' };
+      const after = this.decodeCursor(request, wildcardOrder.property);
+
+      const result = await this.executeWildcardSearchWithDateFilters(
+        limit,
         request.includeContext !== "minimal",
         request.memoryTypes,
-        processedDateFilter
+        withQueryFilter(withMetadataFilter(processedDateFilter, request.metadataFilter), structured),
+        order,
+        after
       );
+
+      return {
+        ...result,
+        nextCursor: this.buildPageCursor(result.memories, limit, wildcardOrder.property, after)
+      };
     }
 
-    // For non-wildcard queries, delegate to existing search handler
-    // TODO: Implement date filtering for semantic search
+    // Non-wildcard queries: date filters, ordering and paging are applied inside the search service
+    const sortKey: CursorSortKey = order ? order.property : 'relevance';
+    const after = this.decodeCursor(request, sortKey);
+
+    // Every page of a relevance listing boosts recency from the first page's time - scores must not drift under the cursor
+    const boostTime = order ? undefined : after?.boostTime ?? Date.now();
+
     const result = await this.memoryHandler.handleMemorySearch(
       request.query,
-      request.limit || 10,
+      limit,
       request.includeContext !== "minimal", // includeGraphContext
       request.memoryTypes,
-      request.threshold || 0.1
+      request.threshold || 0.1,
+      this.buildSearchOptions(request, order, after, boostTime)
     );
 
-    return result;
+    // MMR picks a diverse page from a candidate pool - there is no score position to resume from
+    return {
+      ...result,
+      nextCursor: request.mmrLambda === undefined
+        ? this.buildPageCursor(result.memories || [], limit, sortKey, after, boostTime)
+        : undefined
+    };
+  }
+
+  /**
+   * Scored search options from request fields, undefined when none apply
+   */
+  private buildSearchOptions(
+    request: SearchFields,
+    order?: SearchOrder,
+    after?: SearchCursor,
+    boostTime?: number
+  ): SearchOptions | undefined {
+    const processedDateFilter = this.processDateFilters(request);
+
+    const searchOptions: SearchOptions = {};
+    if (processedDateFilter.cypher) searchOptions.dateFilter = processedDateFilter;
+    if (request.metadataFilter) searchOptions.metadataFilter = request.metadataFilter;
+    if (request.mmrLambda !== undefined) searchOptions.mmrLambda = request.mmrLambda;
+    if (order) searchOptions.order = order;
+    if (after) searchOptions.after = after;
+    if (request.scoring) searchOptions.scoring = request.scoring;
+    if (request.boost) searchOptions.boost = request.boost;
+    if (boostTime !== undefined) searchOptions.boostTime = boostTime;
+    if (request.explain) searchOptions.explain = true;
+    if (request.matchedObservations !== undefined) searchOptions.matchedObservations = request.matchedObservations;
+
+    return Object.keys(searchOptions).length > 0 ? searchOptions : undefined;
+  }
+
+  /**
+   * Decode request cursor for the ordering in effect
+   */
+  private decodeCursor(request: MemoryFindRequest, sortKey: CursorSortKey): SearchCursor | undefined {
+    return request.cursor ? this.cursorProcessor.decodeCursor(request.cursor, sortKey) : undefined;
+  }
+
+  /**
+   * Build next cursor from the last memory of a page
+   */
+  private buildPageCursor(
+    memories: any[],
+    limit: number,
+    sortKey: CursorSortKey,
+    after?: SearchCursor,
+    boostTime?: number
+  ): string | undefined {
+    const last = memories[memories.length - 1];
+    return this.cursorProcessor.buildNextCursor(
+      sortKey,
+      memories.length,
+      limit,
+      last && { value: sortKey === 'relevance' ? last.score : last[sortKey], id: last.id },
+      after,
+      boostTime
+    );
+  }
+
+  /**
+   * Resolve orderBy/orderDirection into a Cypher sort specification
+   * Undefined means relevance ordering
+   */
+  private resolveOrder(request: SearchFields): SearchOrder | undefined {
+    return this.orderProcessor.processOrderBy(request.orderBy, request.orderDirection);
+  }
+
+  /**
+   * Validate and convert request date filters (empty cypher when none given)
+   */
+  private processDateFilters(request: SearchFields): ProcessedDateFilter {
+    const dateFilters = this.extractDateFilters(request);
+    if (Object.keys(dateFilters).length === 0) {
+      return { cypher: '', params: {} };
+    }
+
+    this.dateProcessor.validateDateFilters(dateFilters);
+    return this.dateProcessor.processDateFilters(dateFilters);
   }
 
   /**
    * Extract date filter options from request
    */
-  private extractDateFilters(request: MemoryFindRequest): DateFilterOptions {
+  private extractDateFilters(request: SearchFields): DateFilterOptions {
     return {
       createdAfter: request.createdAfter,
       createdBefore: request.createdBefore,
@@ -335,7 +624,9 @@ export class UnifiedMemoryFindHandler {
     limit: number,
     includeGraphContext: boolean,
     memoryTypes?: string[],
-    dateFilter?: ProcessedDateFilter
+    dateFilter?: SearchDateFilter,
+    order?: SearchOrder,
+    after?: SearchCursor
   ): Promise<any> {
     // Get container and session factory directly
     const container = (this.memoryHandler as any).container;
@@ -354,7 +645,9 @@ export class UnifiedMemoryFindHandler {
         includeGraphContext,
         memoryTypes,
         dateFilter?.cypher,
-        dateFilter?.params
+        dateFilter?.params,
+        order,
+        after
       );
 
       return {
@@ -456,6 +749,41 @@ export class UnifiedMemoryFindHandler {
       );
     }
 
+    const validDirections = ["asc", "desc"];
+    if (request.orderDirection && !validDirections.includes(request.orderDirection)) {
+      throw new MCPValidationError(
+        `Invalid orderDirection: ${request.orderDirection}. Valid options: ${validDirections.join(', ')}`,
+        MCPErrorCodes.VALIDATION_FAILED,
+        { providedOrderDirection: request.orderDirection, validOptions: validDirections }
+      );
+    }
+
+    // Validate similarity parameters
+    if (request.similarityMode || request.excludeRelated !== undefined) {
+      if (!request.similarTo) {
+        throw new MCPValidationError(
+          'similarTo is required when using similarityMode or excludeRelated',
+          MCPErrorCodes.INVALID_PARAMS
+        );
+      }
+    }
+
+    const validSimilarityModes = ["max", "centroid"];
+    if (request.similarityMode && !validSimilarityModes.includes(request.similarityMode)) {
+      throw new MCPValidationError(
+        `Invalid similarityMode: ${request.similarityMode}. Valid options: ${validSimilarityModes.join(', ')}`,
+        MCPErrorCodes.VALIDATION_FAILED,
+        { providedSimilarityMode: request.similarityMode, validOptions: validSimilarityModes }
+      );
+    }
+
+    if (request.similarTo && request.traverseFrom) {
+      throw new MCPValidationError(
+        'similarTo and traverseFrom cannot be combined',
+        MCPErrorCodes.INVALID_PARAMS
+      );
+    }
+
     // Validate graph traversal parameters
     if (request.traverseFrom || request.traverseRelations || request.maxDepth || request.traverseDirection) {
       if (!request.traverseFrom) {
@@ -465,5 +793,60 @@ export class UnifiedMemoryFindHandler {
         );
       }
     }
+
+    if (request.queries !== undefined) {
+      this.validateBatchQueries(request);
+    }
+  }
+
+  /**
+   * Batch mode stands alone: no similarity, traversal or paging, every sub-query named and valid
+   */
+  private validateBatchQueries(request: MemoryFindRequest): void {
+    const queries = request.queries;
+    if (!Array.isArray(queries) || queries.length === 0 || queries.length > MAX_BATCH_QUERIES) {
+      throw new MCPValidationError(
+        `queries must be an array of 1 to ${MAX_BATCH_QUERIES} named sub-queries`,
+        MCPErrorCodes.INVALID_PARAMS,
+        { count: Array.isArray(queries) ? queries.length : undefined }
+      );
+    }
+
+    if (request.similarTo || request.traverseFrom || request.cursor) {
+      throw new MCPValidationError(
+        'queries cannot be combined with similarTo, traverseFrom or cursor',
+        MCPErrorCodes.INVALID_PARAMS
+      );
+    }
+
+    const names = new Set<string>();
+    for (const subQuery of queries) {
+      if (!subQuery || typeof subQuery.name !== 'string' || subQuery.name.trim().length === 0) {
+        throw new MCPValidationError(
+          'Every sub-query needs a non-empty name',
+          MCPErrorCodes.INVALID_PARAMS
+        );
+      }
+
+      if (names.has(subQuery.name)) {
+        throw new MCPValidationError(
+          `Duplicate sub-query name: ${subQuery.name}`,
+          MCPErrorCodes.INVALID_PARAMS,
+          { name: subQuery.name }
+        );
+      }
+      names.add(subQuery.name);
+
+      if (typeof subQuery.query !== 'string' || subQuery.query.trim().length === 0) {
+        throw new MCPValidationError(
+          `Sub-query ${subQuery.name} needs a non-empty query string`,
+          MCPErrorCodes.INVALID_QUERY,
+          { name: subQuery.name }
+        );
+      }
+
+      // Same rules as a single search: limit, threshold, ordering
+      this.validateFindRequest(subQuery);
+    }
   }
 }
@@ -18,6 +18,7 @@ import {
   MCPOperationError,
   MCPErrorCodes
 } from '../../infrastructure/errors';
+import { assertDatabaseAccess } from './services';
 
 export type ModifyOperation = 
   | "update" | "delete" | "batch-delete"
@@ -92,6 +93,8 @@ export class UnifiedMemoryModifyHandler {
   }
 
   async handleMemoryModify(request: MemoryModifyRequest): Promise<MemoryModifyResponse> {
+    assertDatabaseAccess('write');
+
     try {
       this.validateModifyRequest(request);
       
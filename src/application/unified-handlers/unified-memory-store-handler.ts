@@ -12,6 +12,7 @@ import {
 import { generateCompactId } from '../../id_generator';
 import { DIContainer } from '../../container/di-container';
 import { getLimitsConfig } from '../../config';
+import { toMetadataProperties } from '../../infrastructure/utilities/metadata-properties';
 import { 
   MCPValidationError, 
   MCPDatabaseError, 
@@ -19,6 +20,7 @@ import {
   MCPErrorCodes,
   detectNeo4jError 
 } from '../../infrastructure/errors';
+import { assertDatabaseAccess } from './services';
 
 export interface MemoryDefinition {
   name: string;
@@ -44,6 +46,15 @@ export interface StoreOptions {
   maxRelations?: number;
 }
 
+/**
+ * Batch vectors in [name, ...observations, ...chunks] order per memory
+ */
+interface StoreEmbeddings {
+  embeddingModel: string;
+  chunkTexts: string[][][];  // Chunks per observation per memory
+  vectors: number[][];
+}
+
 export interface MemoryStoreRequest {
   memories: MemoryDefinition[];
   relations?: RelationDefinition[];
@@ -88,11 +99,20 @@ export class UnifiedMemoryStoreHandler {
   }
 
   async handleMemoryStore(request: MemoryStoreRequest): Promise<MemoryStoreResponse> {
+    assertDatabaseAccess('write');
     const options = this.applyDefaultOptions(request.options);
     
     // ZERO-FALLBACK FIX: Use proper transactional scope
     if (options.transactional) {
-      return this.handleTransactionalStore(request, options);
+      // Validate and embed before the transaction opens - model latency must not hold it open
+      let embeddings: StoreEmbeddings;
+      try {
+        this.validateStoreRequest(request, options);
+        embeddings = await this.calculateEmbeddings(request.memories);
+      } catch (error) {
+        return this.buildErrorResponse(error, options);
+      }
+      return this.handleTransactionalStore(request, options, embeddings);
     } else {
       // Non-transactional mode (legacy compatibility)
       return this.handleNonTransactionalStore(request, options);
@@ -105,7 +125,8 @@ export class UnifiedMemoryStoreHandler {
    */
   private async handleTransactionalStore(
     request: MemoryStoreRequest, 
-    options: Required<StoreOptions>
+    options: Required<StoreOptions>,
+    embeddings: StoreEmbeddings
   ): Promise<MemoryStoreResponse> {
     const container = DIContainer.getInstance();
     const sessionFactory = container.getSessionFactory();
@@ -113,16 +134,14 @@ export class UnifiedMemoryStoreHandler {
     const tx = session.beginTransaction();
     
     try {
-      // Step 1: Validate request
-      this.validateStoreRequest(request, options);
-      
-      // Step 2: Create memories in transaction
+      // Step 1: Create memories in transaction
       const createdMemories = await this.createMemoriesInTransaction(
         tx, 
-        request.memories
+        request.memories,
+        embeddings
       );
       
-      // Step 3: Build localId → realId mapping
+      // Step 2: Build localId → realId mapping
       const localIdMapping = this.localIdResolver.buildMapping(
         request.memories.map((mem, index) => ({
           localId: mem.localId,
@@ -130,17 +149,17 @@ export class UnifiedMemoryStoreHandler {
         }))
       );
       
-      // Step 4: Create relations in same transaction
+      // Step 3: Create relations in same transaction
       const connectionResults = await this.createRelationsInTransaction(
         tx,
         request.relations || [], 
         localIdMapping
       );
       
-      // Step 5: Commit transaction
+      // Step 4: Commit transaction
       await tx.commit();
       
-      // Step 6: Build successful response
+      // Step 5: Build successful response
       return this.buildSuccessResponse(
         createdMemories,
         connectionResults,
@@ -165,16 +184,40 @@ export class UnifiedMemoryStoreHandler {
   }
 
   /**
-   * Create memories within transaction
+   * Embed names, observations and observation chunks of all memories in one batch
+   */
+  private async calculateEmbeddings(memories: MemoryDefinition[]): Promise<StoreEmbeddings> {
+    const container = DIContainer.getInstance();
+    const embeddingService = container.getEmbeddingService();
+    const chunker = container.getObservationChunker();
+
+    // Flatten [name, ...observations, ...chunks] per memory - one model pass for the whole store
+    const chunkTexts = memories.map(memory => memory.observations.map(observation => chunker.split(observation)));
+    const texts = memories.flatMap((memory, index) =>
+      [memory.name, ...memory.observations, ...chunkTexts[index].flat()]
+    );
+
+    return {
+      embeddingModel: embeddingService.getModelIdentity(),
+      chunkTexts,
+      vectors: await embeddingService.calculateEmbeddings(texts)
+    };
+  }
+
+  /**
+   * Create memories within transaction from vectors calculated before it opened
    */
   private async createMemoriesInTransaction(
     tx: any, 
-    memories: MemoryDefinition[]
+    memories: MemoryDefinition[],
+    { embeddingModel, chunkTexts, vectors: embeddings }: StoreEmbeddings
   ): Promise<string[]> {
     const createdIds: string[] = [];
+    let cursor = 0;
     
-    for (const memory of memories) {
+    for (const [memoryIndex, memory] of memories.entries()) {
       const memoryId = generateCompactId();
+      const nameEmbedding = embeddings[cursor++];
       
       // Create memory node
       const createMemoryQuery = `
@@ -185,8 +228,12 @@ export class UnifiedMemoryStoreHandler {
           metadata: $metadata,
           createdAt: $createdAt,
           modifiedAt: $modifiedAt,
-          lastAccessed: $lastAccessed
+          lastAccessed: $lastAccessed,
+          nameEmbedding: $nameEmbedding,
+          embeddingModel: $embeddingModel,
+          embeddingDimensions: $embeddingDimensions
         })
+        SET m += $metadataProperties
         RETURN m.id as id
       `;
       
@@ -196,29 +243,61 @@ export class UnifiedMemoryStoreHandler {
         name: memory.name,
         memoryType: memory.memoryType,
         metadata: JSON.stringify(memory.metadata || {}),
+        metadataProperties: toMetadataProperties(memory.metadata),
         createdAt: timestamp,
         modifiedAt: timestamp,
-        lastAccessed: timestamp
+        lastAccessed: timestamp,
+        nameEmbedding,
+        embeddingModel,
+        embeddingDimensions: nameEmbedding.length
       });
       
+      // Observation vectors first, then chunk vectors in observation order
+      const observationEmbeddings = embeddings.slice(cursor, cursor + memory.observations.length);
+      cursor += memory.observations.length;
+
       // Create observations
-      for (const observation of memory.observations) {
+      for (let i = 0; i < memory.observations.length; i++) {
         const obsId = generateCompactId();
+        const embedding = observationEmbeddings[i];
+        const chunks = chunkTexts[memoryIndex][i].map((content, position) => ({
+          id: generateCompactId(),
+          position,
+          content,
+          embedding: embeddings[cursor++]
+        }));
         const createObsQuery = `
           MATCH (m:Memory {id: $memoryId})
           CREATE (o:Observation {
             id: $obsId,
             content: $content,
-            createdAt: $timestamp
+            createdAt: $timestamp,
+            embedding: $embedding,
+            embeddingModel: $embeddingModel,
+            embeddingDimensions: $embeddingDimensions
           })
           CREATE (m)-[:HAS_OBSERVATION]->(o)
+          WITH o
+          UNWIND $chunks as chunk
+          CREATE (o)-[:HAS_CHUNK]->(:ObservationChunk {
+            id: chunk.id,
+            position: chunk.position,
+            content: chunk.content,
+            embedding: chunk.embedding,
+            embeddingModel: $embeddingModel,
+            embeddingDimensions: $embeddingDimensions
+          })
         `;
         
         await tx.run(createObsQuery, {
           memoryId,
           obsId,
-          content: observation,
-          timestamp: new Date().toISOString()
+          content: memory.observations[i],
+          timestamp: new Date().toISOString(),
+          embedding,
+          embeddingModel,
+          embeddingDimensions: embedding.length,
+          chunks
         });
       }
       
@@ -479,6 +558,13 @@ export class UnifiedMemoryStoreHandler {
           { memoryName: memory.name }
         );
       }
+      if (memory.observations.some(observation => typeof observation !== 'string' || !observation.trim())) {
+        throw new MCPValidationError(
+          `Memory "${memory.name}" has an empty observation`,
+          MCPErrorCodes.INVALID_OBSERVATION_CONTENT,
+          { memoryName: memory.name }
+        );
+      }
     }
 
     // Validate relations
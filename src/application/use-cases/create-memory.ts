@@ -42,8 +42,9 @@ export class CreateMemoryUseCase {
     // Validate domain entity
     MemoryValidator.validate(memory);
 
-    // Add nameEmbedding to memory object for persistence
+    // Add nameEmbedding and the model that produced it to memory object for persistence
     (memory as any).nameEmbedding = nameEmbedding;
+    (memory as any).embeddingModel = this.embeddingService.getModelIdentity();
 
     // Persist through repository
     const createdMemory = await this.memoryRepository.create(memory);
@@ -10,6 +10,28 @@ export class SearchMemoriesUseCase {
   constructor(private searchRepository: SearchRepository) {}
 
   async execute(request: SearchRequest): Promise<SearchResult[]> {
+    this.validateRequest(request);
+
+    // Execute search through repository
+    return await this.searchRepository.search(request);
+  }
+
+  /**
+   * Several searches in one go - every request is validated before any runs
+   */
+  async executeBatch(requests: SearchRequest[]): Promise<SearchResult[][]> {
+    if (!Array.isArray(requests) || requests.length === 0) {
+      throw new MCPValidationError(
+        'Batch search needs at least one query',
+        MCPErrorCodes.EMPTY_ARRAY
+      );
+    }
+
+    requests.forEach(request => this.validateRequest(request));
+    return await this.searchRepository.searchBatch(requests);
+  }
+
+  private validateRequest(request: SearchRequest): void {
     // Validate search request
     if (!request.query || request.query.trim().length === 0) {
       throw new MCPValidationError(
@@ -31,8 +53,5 @@ export class SearchMemoriesUseCase {
         MCPErrorCodes.INVALID_THRESHOLD
       );
     }
-
-    // Execute search through repository
-    return await this.searchRepository.search(request);
   }
 }
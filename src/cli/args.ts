@@ -0,0 +1,31 @@
+/**
+ * CLI Arguments
+ * Single responsibility: Parse command line flags for the maintenance CLIs
+ * Zero-fallback: unknown flags and flags without a value throw before any database work
+ */
+
+/**
+ * Applies one flag to the options - value() consumes the argument after the flag
+ */
+export type FlagHandler<T> = (options: T, value: () => string) => void;
+
+export function parseArgs<T>(argv: string[], defaults: T, flags: Record<string, FlagHandler<T>>): T {
+  const options = { ...defaults };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const handler = Object.prototype.hasOwnProperty.call(flags, arg) ? flags[arg] : undefined;
+    if (!handler) {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+    handler(options, () => requireValue(arg, argv[++i]));
+  }
+  return options;
+}
+
+function requireValue(flag: string, value: string | undefined): string {
+  if (!value || value.startsWith('--')) {
+    throw new Error(`${flag} requires a value`);
+  }
+  return value;
+}
@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+
+/**
+ * Centrality CLI
+ * Single responsibility: Run CentralityJob against one database from the command line
+ * Usage: mcp-neo4j-memory-centrality [--database <name>] [--algorithm pagerank|degree]
+ * Schedule it (cron) or set CENTRALITY_REFRESH_INTERVAL to refresh inside the server
+ */
+
+// CRITICAL: Load environment variables FIRST, before any other imports
+import { config } from "dotenv";
+config();
+
+import { DIContainer } from "../container/di-container";
+import { getSearchConfig } from "../config";
+import type { CentralityAlgorithm } from "../domain/repositories/search-repository";
+import { parseArgs, FlagHandler } from "./args";
+
+const ALGORITHMS: CentralityAlgorithm[] = ['pagerank', 'degree'];
+
+interface CliOptions {
+  database?: string;
+  algorithm?: CentralityAlgorithm;
+}
+
+const FLAGS: Record<string, FlagHandler<CliOptions>> = {
+  '--database': (options, value) => {
+    options.database = value();
+  },
+  '--algorithm': (options, value) => {
+    const algorithm = value() as CentralityAlgorithm;
+    if (!ALGORITHMS.includes(algorithm)) {
+      throw new Error(`--algorithm must be one of ${ALGORITHMS.join(', ')}, got ${algorithm}`);
+    }
+    options.algorithm = algorithm;
+  }
+};
+
+const main = async () => {
+  const options = parseArgs<CliOptions>(process.argv.slice(2), {}, FLAGS);
+  const container = DIContainer.getInstance();
+
+  try {
+    if (options.database) {
+      container.switchDatabase(options.database);
+    }
+
+    const report = await container.createCentralityJob().run({
+      algorithm: options.algorithm ?? getSearchConfig().centralityAlgorithm
+    });
+
+    process.stdout.write(
+      `Algorithm: ${report.algorithm}${report.iterations ? ` (${report.iterations} iterations)` : ''}\n` +
+      `Scored: ${report.memories} memories over ${report.relations} relations at ${report.computedAt}\n`
+    );
+  } finally {
+    await container.close();
+  }
+};
+
+main().catch((error) => {
+  process.stderr.write(`[centrality] ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
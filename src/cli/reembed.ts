@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+
+/**
+ * Re-embedding CLI
+ * Single responsibility: Run ReembeddingJob against one database from the command line
+ * Usage: mcp-neo4j-memory-reembed [--database <name>] [--batch-size <n>] [--dry-run]
+ */
+
+// CRITICAL: Load environment variables FIRST, before any other imports
+import { config } from "dotenv";
+config();
+
+import { DIContainer } from "../container/di-container";
+import { ReembeddingReport } from "../infrastructure/database";
+import { parseArgs, FlagHandler } from "./args";
+
+interface CliOptions {
+  database?: string;
+  batchSize?: number;
+  dryRun: boolean;
+}
+
+const FLAGS: Record<string, FlagHandler<CliOptions>> = {
+  '--database': (options, value) => {
+    options.database = value();
+  },
+  '--batch-size': (options, value) => {
+    const raw = value();
+    const parsed = parseInt(raw, 10);
+    if (isNaN(parsed) || parsed <= 0) {
+      throw new Error(`--batch-size must be a positive integer, got ${raw}`);
+    }
+    options.batchSize = parsed;
+  },
+  '--dry-run': (options) => {
+    options.dryRun = true;
+  }
+};
+
+function formatReport(report: ReembeddingReport, dryRun: boolean): string {
+  const { before, after } = report;
+  const lines = [
+    `Model: ${before.expectedModel} (${before.expectedDimensions} dimensions)`,
+    `Vector indexes: ${JSON.stringify(before.indexDimensions)}`,
+    `Stale before: ${before.staleMemories} memories, ${before.staleObservations} observations, ${before.staleChunks} chunks`
+  ];
+
+  if (dryRun) {
+    lines.push('Dry run - nothing changed');
+  } else {
+    lines.push(
+      `Re-embedded: ${report.memoriesUpdated} memories, ${report.observationsUpdated} observations, ${report.chunksUpdated} chunks`,
+      `Vector indexes rebuilt: ${report.indexesRebuilt ? 'yes' : 'no'}`,
+      `Stale after: ${after.staleMemories} memories, ${after.staleObservations} observations, ${after.staleChunks} chunks`
+    );
+  }
+  return lines.join('\n');
+}
+
+const main = async () => {
+  const options = parseArgs<CliOptions>(process.argv.slice(2), { dryRun: false }, FLAGS);
+  const container = DIContainer.getInstance();
+
+  try {
+    if (options.database) {
+      container.switchDatabase(options.database);
+    }
+
+    const report = await container.createReembeddingJob().run({
+      batchSize: options.batchSize,
+      dryRun: options.dryRun,
+      onProgress: ({ label, processed, remaining }) => {
+        process.stderr.write(`[reembed] ${label}: ${processed} done, ${remaining} remaining\n`);
+      }
+    });
+
+    process.stdout.write(`${formatReport(report, options.dryRun)}\n`);
+    if (!options.dryRun && !report.after.consistent) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await container.close();
+  }
+};
+
+main().catch((error) => {
+  process.stderr.write(`[reembed] ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
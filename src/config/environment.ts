@@ -5,6 +5,60 @@
  */
 
 import { MCPValidationError, MCPErrorCodes } from '../infrastructure/errors';
+import type { ScoringStrategy, CentralityAlgorithm } from '../domain/repositories/search-repository';
+
+export type EmbeddingProviderName = 'xenova' | 'openai' | 'hash';
+
+const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = ['xenova', 'openai', 'hash'];
+
+export type ChunkingStrategy = 'none' | 'sentence' | 'token';
+
+const CHUNKING_STRATEGIES: ChunkingStrategy[] = ['none', 'sentence', 'token'];
+
+const SCORING_STRATEGIES: ScoringStrategy[] = ['fixed', 'weighted', 'rrf'];
+
+const CENTRALITY_ALGORITHMS: CentralityAlgorithm[] = ['pagerank', 'degree'];
+
+export type HttpEventStoreKind = 'memory' | 'file' | 'none';
+
+const HTTP_EVENT_STORES: HttpEventStoreKind[] = ['memory', 'file', 'none'];
+
+export type HttpAuthMethod = 'api-key' | 'jwt' | 'mtls';
+
+const HTTP_AUTH_METHODS: HttpAuthMethod[] = ['api-key', 'jwt', 'mtls'];
+
+/**
+ * HTTP transport security - read separately from EnvironmentConfig so the server can
+ * enforce it before any Neo4j settings are needed (tool scanning)
+ */
+export interface HttpAuthConfig {
+  methods: HttpAuthMethod[];  // Tried in order, empty leaves /mcp open
+  corsOrigin: string;
+  apiKeys?: string;           // id:key pairs, comma separated
+  apiKeysFile?: string;       // One id:key pair per line
+  jwtSecret?: string;         // HS256/384/512 shared secret
+  jwtJwksFile?: string;       // Local JWKS for RS/PS/ES signatures
+  jwtIssuer?: string;
+  jwtAudience?: string;
+  jwtRequireExp: boolean;     // Reject tokens without an exp claim
+  tlsCert?: string;           // Server certificate file - enables HTTPS
+  tlsKey?: string;
+  tlsClientCa?: string;       // CA file for client certificates (mtls)
+  databasePolicyFile?: string;  // JSON rules: which identities may read, write or switch to which databases
+  adminIdentities: string[];    // Caller ids allowed on /admin endpoints, none when empty
+}
+
+/**
+ * HTTP session lifecycle - abandoned sessions expire instead of holding transports forever
+ */
+export interface HttpSessionConfig {
+  idleTimeout: number;  // ms without a request before a session is closed
+  maxSessions: number;  // Open sessions cap - the least recently used session makes room, 0 disables
+  eventStore: HttpEventStoreKind;  // Where SSE events are kept for Last-Event-ID replay
+  eventStoreDir?: string;          // One JSON-lines file per session (eventStore: file)
+  eventRetentionCount: number;     // Events kept per session, oldest dropped first
+  eventRetentionMs: number;        // Age after which an event can no longer be replayed
+}
 
 export interface EnvironmentConfig {
   neo4j: {
@@ -17,10 +71,34 @@ export interface EnvironmentConfig {
     level: string;
   };
   vector: {
+    provider: EmbeddingProviderName;
     modelName: string;
     dimensions: number | 'auto';
     idleTimeout: number;
     preload: boolean;
+    apiUrl: string;      // OpenAI-compatible endpoint base (provider: openai)
+    apiKey?: string;
+    apiTimeout: number;  // ms per embeddings request (provider: openai)
+    batchSize: number;   // Texts per model call when embedding in bulk
+    cacheSize: number;   // LRU entries, 0 disables the embedding cache
+    cacheFile?: string;  // Optional JSON file persisting the cache across restarts
+    workers: number;     // Embedding worker threads, 0 runs inference on the main thread
+    chunkStrategy: ChunkingStrategy;  // How long observations are split before embedding
+    chunkSize: number;                // Whitespace tokens per chunk
+    chunkOverlap: number;             // Tokens repeated between neighbouring chunks
+  };
+  search: {
+    scoring: ScoringStrategy;   // Default hybrid scoring strategy
+    exactWeight: number;        // Weight of exact evidence (weighted, rrf)
+    vectorWeight: number;       // Weight of vector similarity (weighted, rrf)
+    rrfK: number;               // Reciprocal rank fusion damping constant
+    recencyWeight: number;      // Share of the score decaying with age, 0 disables
+    recencyHalfLifeDays: number;  // Age at which the recency signal halves
+    accessWeight: number;       // Share of the score earned by access frequency, 0 disables
+    centralityWeight: number;   // Share of the score earned by graph centrality, 0 disables
+    centralityAlgorithm: CentralityAlgorithm;  // How m.centrality is computed
+    centralityRefreshInterval: number;         // ms between in-process centrality runs, 0 disables
+    metadataIndexedKeys: string[];  // Metadata keys whose meta_* properties get a range index
   };
   limits: {
     maxMemoriesPerOperation: number;
@@ -62,6 +140,7 @@ export function getEnvironmentConfig(): EnvironmentConfig {
       level: process.env.LOG_LEVEL || 'info',
     },
     vector: {
+      provider: parseEmbeddingProvider(process.env.EMBEDDING_PROVIDER),
       modelName: process.env.VECTOR_MODEL || 'sentence-transformers/paraphrase-multilingual-MiniLM-L12-v2',
       dimensions: process.env.VECTOR_DIMENSIONS ? 
         (process.env.VECTOR_DIMENSIONS === 'auto' ? 'auto' : parseInt(process.env.VECTOR_DIMENSIONS, 10)) 
@@ -70,7 +149,64 @@ export function getEnvironmentConfig(): EnvironmentConfig {
         const parsed = parseInt(process.env.VECTOR_IDLE_TIMEOUT || '600000', 10);
         return isNaN(parsed) ? 600000 : parsed;
       })(), // 10 minutes
-      preload: process.env.VECTOR_PRELOAD !== 'false' // Default true
+      preload: process.env.VECTOR_PRELOAD !== 'false', // Default true
+      apiUrl: (process.env.EMBEDDING_API_URL || 'http://localhost:11434/v1').replace(/\/+$/, ''), // Ollama default
+      apiKey: process.env.EMBEDDING_API_KEY || undefined,
+      apiTimeout: (() => {
+        const parsed = parseInt(process.env.EMBEDDING_API_TIMEOUT || '30000', 10);
+        return isNaN(parsed) || parsed <= 0 ? 30000 : parsed;
+      })(), // 30 seconds
+      batchSize: (() => {
+        const parsed = parseInt(process.env.EMBEDDING_BATCH_SIZE || '32', 10);
+        return isNaN(parsed) || parsed <= 0 ? 32 : parsed;
+      })(),
+      cacheSize: (() => {
+        const parsed = parseInt(process.env.EMBEDDING_CACHE_SIZE || '1000', 10);
+        return isNaN(parsed) || parsed < 0 ? 1000 : parsed;
+      })(),
+      cacheFile: process.env.EMBEDDING_CACHE_FILE || undefined,
+      workers: (() => {
+        const parsed = parseInt(process.env.EMBEDDING_WORKERS || '1', 10);
+        return isNaN(parsed) || parsed < 0 ? 1 : parsed;
+      })(),
+      ...parseChunking()
+    },
+    search: {
+      scoring: parseScoringStrategy(process.env.SEARCH_SCORING),
+      exactWeight: (() => {
+        const parsed = parseFloat(process.env.SEARCH_EXACT_WEIGHT || '0.5');
+        return isNaN(parsed) || parsed < 0 ? 0.5 : parsed;
+      })(),
+      vectorWeight: (() => {
+        const parsed = parseFloat(process.env.SEARCH_VECTOR_WEIGHT || '0.5');
+        return isNaN(parsed) || parsed < 0 ? 0.5 : parsed;
+      })(),
+      rrfK: (() => {
+        const parsed = parseInt(process.env.SEARCH_RRF_K || '60', 10);
+        return isNaN(parsed) || parsed < 1 ? 60 : parsed;
+      })(),
+      recencyWeight: (() => {
+        const parsed = parseFloat(process.env.SEARCH_RECENCY_WEIGHT || '0');
+        return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+      })(),
+      recencyHalfLifeDays: (() => {
+        const parsed = parseFloat(process.env.SEARCH_RECENCY_HALF_LIFE_DAYS || '30');
+        return isNaN(parsed) || parsed <= 0 ? 30 : parsed;
+      })(),
+      accessWeight: (() => {
+        const parsed = parseFloat(process.env.SEARCH_ACCESS_WEIGHT || '0');
+        return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+      })(),
+      centralityWeight: (() => {
+        const parsed = parseFloat(process.env.SEARCH_CENTRALITY_WEIGHT || '0');
+        return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+      })(),
+      centralityAlgorithm: parseCentralityAlgorithm(process.env.CENTRALITY_ALGORITHM),
+      centralityRefreshInterval: (() => {
+        const parsed = parseInt(process.env.CENTRALITY_REFRESH_INTERVAL || '0', 10);
+        return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+      })(),
+      metadataIndexedKeys: parseMetadataIndexedKeys(process.env.METADATA_INDEXED_KEYS),
     },
     limits: {
       maxMemoriesPerOperation: (() => {
@@ -89,6 +225,229 @@ export function getEnvironmentConfig(): EnvironmentConfig {
   };
 }
 
+/**
+ * HTTP authentication and TLS settings
+ * Zero-fallback: an enabled method without its credentials source fails at startup instead of
+ * leaving the endpoint open
+ */
+export function getHttpAuthConfig(): HttpAuthConfig {
+  const methods = parseHttpAuthMethods(process.env.HTTP_AUTH);
+  const config: HttpAuthConfig = {
+    methods,
+    corsOrigin: process.env.HTTP_CORS_ORIGIN || '*',
+    apiKeys: process.env.HTTP_API_KEYS || undefined,
+    apiKeysFile: process.env.HTTP_API_KEYS_FILE || undefined,
+    jwtSecret: process.env.HTTP_JWT_SECRET || undefined,
+    jwtJwksFile: process.env.HTTP_JWT_JWKS_FILE || undefined,
+    jwtIssuer: process.env.HTTP_JWT_ISSUER || undefined,
+    jwtAudience: process.env.HTTP_JWT_AUDIENCE || undefined,
+    jwtRequireExp: process.env.HTTP_JWT_REQUIRE_EXP !== 'false', // Default true - a leaked token must expire
+    tlsCert: process.env.HTTP_TLS_CERT || undefined,
+    tlsKey: process.env.HTTP_TLS_KEY || undefined,
+    tlsClientCa: process.env.HTTP_TLS_CLIENT_CA || undefined,
+    databasePolicyFile: process.env.HTTP_DATABASE_POLICY_FILE || undefined,
+    adminIdentities: (process.env.HTTP_ADMIN_IDENTITIES || '').split(',').map(id => id.trim()).filter(id => id.length > 0)
+  };
+
+  const missing = (condition: boolean, message: string) => {
+    if (condition) {
+      throw new MCPValidationError(message, MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG);
+    }
+  };
+
+  missing(
+    methods.includes('api-key') && !config.apiKeys && !config.apiKeysFile,
+    'HTTP_AUTH api-key needs HTTP_API_KEYS or HTTP_API_KEYS_FILE'
+  );
+  missing(
+    methods.includes('jwt') && !config.jwtSecret && !config.jwtJwksFile,
+    'HTTP_AUTH jwt needs HTTP_JWT_SECRET or HTTP_JWT_JWKS_FILE'
+  );
+  missing(
+    methods.includes('mtls') && (!config.tlsCert || !config.tlsKey || !config.tlsClientCa),
+    'HTTP_AUTH mtls needs HTTP_TLS_CERT, HTTP_TLS_KEY and HTTP_TLS_CLIENT_CA'
+  );
+  missing(
+    Boolean(config.tlsCert) !== Boolean(config.tlsKey),
+    'HTTP_TLS_CERT and HTTP_TLS_KEY must be set together'
+  );
+
+  return config;
+}
+
+/**
+ * HTTP session idle timeout, capacity and resumability
+ * Zero-fallback: a file event store without a directory fails at startup
+ */
+export function getHttpSessionConfig(): HttpSessionConfig {
+  const eventStore = parseHttpEventStore(process.env.HTTP_EVENT_STORE);
+  const eventStoreDir = process.env.HTTP_EVENT_STORE_DIR || undefined;
+  if (eventStore === 'file' && !eventStoreDir) {
+    throw new MCPValidationError(
+      'HTTP_EVENT_STORE file needs HTTP_EVENT_STORE_DIR',
+      MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+    );
+  }
+
+  return {
+    idleTimeout: (() => {
+      const parsed = parseInt(process.env.HTTP_SESSION_IDLE_TIMEOUT || '1800000', 10);
+      return isNaN(parsed) || parsed <= 0 ? 1800000 : parsed;
+    })(), // 30 minutes
+    maxSessions: (() => {
+      const parsed = parseInt(process.env.HTTP_MAX_SESSIONS || '100', 10);
+      return isNaN(parsed) || parsed < 0 ? 100 : parsed;
+    })(),
+    eventStore,
+    eventStoreDir,
+    eventRetentionCount: (() => {
+      const parsed = parseInt(process.env.HTTP_EVENT_RETENTION_COUNT || '1000', 10);
+      return isNaN(parsed) || parsed <= 0 ? 1000 : parsed;
+    })(),
+    eventRetentionMs: (() => {
+      const parsed = parseInt(process.env.HTTP_EVENT_RETENTION_MS || '300000', 10);
+      return isNaN(parsed) || parsed <= 0 ? 300000 : parsed;
+    })() // 5 minutes
+  };
+}
+
+function parseHttpEventStore(value: string | undefined): HttpEventStoreKind {
+  if (!value) {
+    return 'memory';
+  }
+
+  const eventStore = value.toLowerCase() as HttpEventStoreKind;
+  if (!HTTP_EVENT_STORES.includes(eventStore)) {
+    throw new MCPValidationError(
+      `Invalid HTTP_EVENT_STORE: ${value}. Valid options: ${HTTP_EVENT_STORES.join(', ')}`,
+      MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+    );
+  }
+  return eventStore;
+}
+
+/**
+ * Parse comma-separated HTTP authentication methods
+ * Zero-fallback: a typo must not silently disable authentication
+ */
+function parseHttpAuthMethods(value: string | undefined): HttpAuthMethod[] {
+  const methods = (value || '').split(',').map(method => method.trim().toLowerCase()).filter(method => method.length > 0);
+  if (methods.length === 1 && methods[0] === 'none') {
+    return [];
+  }
+
+  const invalid = methods.filter(method => !HTTP_AUTH_METHODS.includes(method as HttpAuthMethod));
+  if (invalid.length > 0) {
+    throw new MCPValidationError(
+      `Invalid HTTP_AUTH: ${invalid.join(', ')}. Valid options: ${HTTP_AUTH_METHODS.join(', ')} or none`,
+      MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+    );
+  }
+  return Array.from(new Set(methods)) as HttpAuthMethod[];
+}
+
+/**
+ * Parse embedding provider selection
+ * Zero-fallback: Unknown providers fail fast instead of silently using xenova
+ */
+function parseEmbeddingProvider(value: string | undefined): EmbeddingProviderName {
+  if (!value) {
+    return 'xenova';
+  }
+
+  const provider = value.toLowerCase() as EmbeddingProviderName;
+  if (!EMBEDDING_PROVIDERS.includes(provider)) {
+    throw new MCPValidationError(
+      `Invalid EMBEDDING_PROVIDER: ${value}. Valid options: ${EMBEDDING_PROVIDERS.join(', ')}`,
+      MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+    );
+  }
+  return provider;
+}
+
+/**
+ * Parse default search scoring strategy
+ * Zero-fallback: A typo must not silently keep the fixed formula
+ */
+function parseScoringStrategy(value: string | undefined): ScoringStrategy {
+  if (!value) {
+    return 'fixed';
+  }
+
+  const strategy = value.toLowerCase() as ScoringStrategy;
+  if (!SCORING_STRATEGIES.includes(strategy)) {
+    throw new MCPValidationError(
+      `Invalid SEARCH_SCORING: ${value}. Valid options: ${SCORING_STRATEGIES.join(', ')}`,
+      MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+    );
+  }
+  return strategy;
+}
+
+/**
+ * Parse centrality algorithm selection
+ * Zero-fallback: A typo must not silently compute another ranking signal
+ */
+function parseCentralityAlgorithm(value: string | undefined): CentralityAlgorithm {
+  if (!value) {
+    return 'pagerank';
+  }
+
+  const algorithm = value.toLowerCase() as CentralityAlgorithm;
+  if (!CENTRALITY_ALGORITHMS.includes(algorithm)) {
+    throw new MCPValidationError(
+      `Invalid CENTRALITY_ALGORITHM: ${value}. Valid options: ${CENTRALITY_ALGORITHMS.join(', ')}`,
+      MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+    );
+  }
+  return algorithm;
+}
+
+/**
+ * Parse comma-separated metadata keys to index
+ * Keys become property names (meta_<key>) and index names, so only identifiers are accepted
+ */
+function parseMetadataIndexedKeys(value: string | undefined): string[] {
+  const keys = (value || '').split(',').map(key => key.trim()).filter(key => key.length > 0);
+  const invalid = keys.filter(key => !/^[A-Za-z_][A-Za-z0-9_]*$/.test(key));
+  if (invalid.length > 0) {
+    throw new MCPValidationError(
+      `Invalid METADATA_INDEXED_KEYS: ${invalid.join(', ')}. Keys must be letters, digits and underscores, not starting with a digit`,
+      MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+    );
+  }
+  return Array.from(new Set(keys));
+}
+
+/**
+ * Parse observation chunking settings
+ * Defaults fit MiniLM-class models - 128 wordpieces is roughly 80 words
+ */
+function parseChunking(): { chunkStrategy: ChunkingStrategy; chunkSize: number; chunkOverlap: number } {
+  const value = process.env.OBSERVATION_CHUNKING;
+  const chunkStrategy = (value ? value.toLowerCase() : 'sentence') as ChunkingStrategy;
+  if (!CHUNKING_STRATEGIES.includes(chunkStrategy)) {
+    throw new MCPValidationError(
+      `Invalid OBSERVATION_CHUNKING: ${value}. Valid options: ${CHUNKING_STRATEGIES.join(', ')}`,
+      MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+    );
+  }
+
+  const size = parseInt(process.env.OBSERVATION_CHUNK_SIZE || '80', 10);
+  const chunkSize = isNaN(size) || size <= 0 ? 80 : size;
+  const overlap = parseInt(process.env.OBSERVATION_CHUNK_OVERLAP || '16', 10);
+  const chunkOverlap = isNaN(overlap) || overlap < 0 ? 16 : overlap;
+
+  // Zero-fallback: A window that never advances would chunk forever
+  if (chunkOverlap >= chunkSize) {
+    throw new MCPValidationError(
+      `OBSERVATION_CHUNK_OVERLAP (${chunkOverlap}) must be smaller than OBSERVATION_CHUNK_SIZE (${chunkSize})`,
+      MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+    );
+  }
+  return { chunkStrategy, chunkSize, chunkOverlap };
+}
+
 /**
  * Get Neo4j configuration specifically
  * Used by database components
@@ -115,3 +474,12 @@ export function getLimitsConfig() {
   const config = getEnvironmentConfig();
   return config.limits;
 }
+
+/**
+ * Get Search configuration specifically
+ * Used by search scoring
+ */
+export function getSearchConfig() {
+  const config = getEnvironmentConfig();
+  return config.search;
+}
@@ -8,5 +8,14 @@ export {
   getNeo4jConfig, 
   getVectorConfig,
   getLimitsConfig,
-  type EnvironmentConfig 
+  getSearchConfig,
+  getHttpAuthConfig,
+  getHttpSessionConfig,
+  type EnvironmentConfig,
+  type HttpAuthConfig,
+  type HttpAuthMethod,
+  type HttpSessionConfig,
+  type HttpEventStoreKind,
+  type EmbeddingProviderName,
+  type ChunkingStrategy
 } from './environment';
@@ -3,7 +3,18 @@
  * Single responsibility: Wire up all dependencies with clean database management
  */
 
-import { Neo4jDriverManager, SessionFactory, IndexManager, CleanDatabaseManager } from '../infrastructure/database';
+import {
+  Neo4jDriverManager,
+  SessionFactory,
+  IndexManager,
+  CleanDatabaseManager,
+  EmbeddingConsistencyReport,
+  ReembeddingJob,
+  CentralityJob,
+  createDatabaseScope,
+  runInDatabaseScope,
+  runOutsideDatabaseScope
+} from '../infrastructure/database';
 import { CompositeMemoryRepository } from '../infrastructure/repositories/memory';
 import { Neo4jSearchRepository } from '../infrastructure/repositories/neo4j-search-repository';
 import { CreateMemoryUseCase } from '../application/use-cases/create-memory';
@@ -12,8 +23,11 @@ import { UpdateMemoryUseCase } from '../application/use-cases/update-memory';
 import { DeleteMemoryUseCase } from '../application/use-cases/delete-memory';
 import { ManageObservationsUseCase } from '../application/use-cases/manage-observations';
 import { ManageRelationsUseCase } from '../application/use-cases/manage-relations';
-import { XenovaEmbeddingService } from '../infrastructure/services/embedding-service';
-import { getVectorConfig } from '../config';
+import { ProviderEmbeddingService } from '../infrastructure/services/embedding-service';
+import { createEmbeddingProvider } from '../infrastructure/services/embedding-provider-factory';
+import { EmbeddingCache, EmbeddingCacheStats } from '../infrastructure/services/embedding-cache';
+import { ObservationChunker } from '../infrastructure/services/observation-chunker';
+import { getVectorConfig, getSearchConfig } from '../config';
 
 // Configuration constants
 const MODEL_INITIALIZATION_DELAY = 100; // ms - delay for non-blocking model loading
@@ -28,7 +42,8 @@ export class DIContainer {
   private databaseManager!: CleanDatabaseManager;
   
   // Services
-  private embeddingService!: XenovaEmbeddingService;
+  private embeddingService!: ProviderEmbeddingService;
+  private observationChunker!: ObservationChunker;
   
   // Repositories
   private memoryRepository!: CompositeMemoryRepository;
@@ -45,6 +60,12 @@ export class DIContainer {
   // Session tracking for cleanup
   private activeSessions: any[] = [];
 
+  // Last startup comparison of stored vectors against the configured model
+  private embeddingConsistency: EmbeddingConsistencyReport | null = null;
+
+  // Periodic centrality recomputation (CENTRALITY_REFRESH_INTERVAL)
+  private centralityTimer: NodeJS.Timeout | null = null;
+
   private constructor() {
     this.initializeInfrastructure();
     this.initializeServices();
@@ -66,14 +87,28 @@ export class DIContainer {
   }
 
   private initializeServices(): void {
-    this.embeddingService = new XenovaEmbeddingService();
+    // EMBEDDING_PROVIDER selects the backend: xenova (local, default), openai (HTTP), hash (offline)
+    const vectorConfig = getVectorConfig();
+    this.embeddingService = new ProviderEmbeddingService(
+      createEmbeddingProvider(vectorConfig),
+      new EmbeddingCache(vectorConfig.cacheSize, vectorConfig.cacheFile)
+    );
+    this.observationChunker = new ObservationChunker({
+      strategy: vectorConfig.chunkStrategy,
+      chunkSize: vectorConfig.chunkSize,
+      overlap: vectorConfig.chunkOverlap
+    });
     
     // Note: Search orchestrator removed - SimplifiedSearchService used directly in repositories
   }
 
   private initializeRepositories(): void {
-    this.memoryRepository = new CompositeMemoryRepository(this.sessionFactory);
-    this.searchRepository = new Neo4jSearchRepository(this.sessionFactory);
+    this.memoryRepository = new CompositeMemoryRepository(
+      this.sessionFactory,
+      this.embeddingService,
+      this.observationChunker
+    );
+    this.searchRepository = new Neo4jSearchRepository(this.sessionFactory, this.embeddingService);
   }
 
   private initializeUseCases(): void {
@@ -116,10 +151,14 @@ export class DIContainer {
   }
 
   // Public getters for services
-  getEmbeddingService(): XenovaEmbeddingService {
+  getEmbeddingService(): ProviderEmbeddingService {
     return this.embeddingService;
   }
 
+  getObservationChunker(): ObservationChunker {
+    return this.observationChunker;
+  }
+
   getDatabaseManager(): CleanDatabaseManager {
     return this.databaseManager;
   }
@@ -132,6 +171,22 @@ export class DIContainer {
     return this.sessionFactory;
   }
 
+  getEmbeddingCacheStats(): EmbeddingCacheStats | null {
+    return this.embeddingService.getCacheStats();
+  }
+
+  getEmbeddingConsistency(): EmbeddingConsistencyReport | null {
+    return this.embeddingConsistency;
+  }
+
+  createReembeddingJob(): ReembeddingJob {
+    return new ReembeddingJob(this.sessionFactory, this.embeddingService);
+  }
+
+  createCentralityJob(): CentralityJob {
+    return new CentralityJob(this.sessionFactory);
+  }
+
   getCurrentDatabase(): { database: string } {
     return this.driverManager.getCurrentDatabase();
   }
@@ -140,7 +195,15 @@ export class DIContainer {
     this.driverManager.switchDatabase(database);
   }
 
+  /**
+   * Schema, model loading and refresh timers belong to the process-wide database,
+   * not to whichever HTTP session happens to trigger the first initialization
+   */
   async initializeDatabase(): Promise<void> {
+    return runOutsideDatabaseScope(() => this.initializeDefaultDatabase());
+  }
+
+  private async initializeDefaultDatabase(): Promise<void> {
     // Vector indexes will be created when model becomes available
     const session = this.sessionFactory.createSession();
     
@@ -152,9 +215,14 @@ export class DIContainer {
       if (!hasSchema) {
         await this.indexManager.initializeSchema();
       }
+
+      // Metadata filters read meta_* properties - index configured keys, promote pre-existing memories
+      await this.indexManager.ensureMetadataIndexes(getSearchConfig().metadataIndexedKeys);
+      await this.indexManager.promoteLegacyMetadata();
       
       // Background model loading - non-blocking
       this.initializeModelInBackground();
+      this.scheduleCentralityRefresh();
       
     } finally {
       await session.close();
@@ -179,6 +247,7 @@ export class DIContainer {
           const dimensions = await this.embeddingService.getModelDimensions();
           const vectorIndexManager = new IndexManager(session, dimensions);
           await vectorIndexManager.ensureVectorIndexes();
+          await this.checkEmbeddingConsistency(vectorIndexManager);
         } finally {
           await session.close();
         }
@@ -188,9 +257,60 @@ export class DIContainer {
     }, MODEL_INITIALIZATION_DELAY);
   }
 
+  /**
+   * Recompute m.centrality on an interval, first run right away
+   * Covers the default database and every database switched to since startup, one after another
+   * A failed run is reported and retried on the next tick - search keeps the stored scores
+   */
+  private scheduleCentralityRefresh(): void {
+    const { centralityRefreshInterval, centralityAlgorithm } = getSearchConfig();
+    if (centralityRefreshInterval <= 0 || this.centralityTimer) {
+      return;
+    }
+
+    const refresh = async () => {
+      for (const database of this.driverManager.getKnownDatabases()) {
+        try {
+          await runInDatabaseScope(createDatabaseScope(database), () =>
+            this.createCentralityJob().run({ algorithm: centralityAlgorithm })
+          );
+        } catch (error) {
+          process.stderr.write(
+            `[MCP Server] Centrality refresh failed for ${database}: ${error instanceof Error ? error.message : String(error)}\n`
+          );
+        }
+      }
+    };
+
+    setTimeout(refresh, MODEL_INITIALIZATION_DELAY).unref();
+    this.centralityTimer = setInterval(refresh, centralityRefreshInterval);
+    this.centralityTimer.unref();
+  }
+
+  /**
+   * Detect vectors from another model or index dimensions that no longer match
+   * Mixed vector spaces make similarity scores meaningless - tell the operator how to migrate
+   */
+  private async checkEmbeddingConsistency(indexManager: IndexManager): Promise<void> {
+    const report = await indexManager.detectEmbeddingMismatch(this.embeddingService.getModelIdentity());
+    this.embeddingConsistency = report;
+
+    if (!report.consistent) {
+      process.stderr.write(
+        `[MCP Server] Embedding mismatch for ${report.expectedModel} (${report.expectedDimensions} dims): ` +
+        `${report.staleMemories} memories, ${report.staleObservations} observations, ${report.staleChunks} chunks stale, ` +
+        `vector indexes ${JSON.stringify(report.indexDimensions)}. Run: npx mcp-neo4j-memory-reembed\n`
+      );
+    }
+  }
+
   async close(): Promise<void> {
     // Clean shutdown sequence
-    
+    if (this.centralityTimer) {
+      clearInterval(this.centralityTimer);
+      this.centralityTimer = null;
+    }
+
     // Close active sessions first
     for (const session of this.activeSessions) {
       try {
@@ -8,6 +8,16 @@ export interface MemoryObservation {
   id?: string;
   content: string;
   createdAt: string;
+  match?: ObservationMatch;  // Set when search returns matched observations only
+}
+
+/**
+ * Why an observation was selected for a search result
+ */
+export interface ObservationMatch {
+  score: number;                          // Best of normalized Lucene score and cosine similarity
+  channels: Array<'fulltext' | 'vector'>;
+  highlights: string[];                   // Fragments around query terms, terms wrapped in **
 }
 
 export interface RelatedMemory {
@@ -26,9 +36,9 @@ export interface Memory {
   readonly name: string;
   readonly memoryType: string;
   readonly metadata: Record<string, any>;
-  readonly createdAt: Date | string;
-  modifiedAt: Date | string;
-  lastAccessed: Date | string;
+  readonly createdAt?: Date | string;
+  modifiedAt?: Date | string;
+  lastAccessed?: Date | string;
   observations?: MemoryObservation[];
   related?: {
     ancestors?: RelatedMemory[];
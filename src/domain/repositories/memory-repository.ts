@@ -4,6 +4,7 @@
  */
 
 import { Memory } from '../entities/memory';
+import { SearchOrder } from './search-repository';
 
 export interface MemoryRepository {
   /**
@@ -18,8 +19,9 @@ export interface MemoryRepository {
 
   /**
    * Find memories by multiple IDs
+   * Ordered by name unless a timestamp order is given
    */
-  findByIds(ids: string[]): Promise<Memory[]>;
+  findByIds(ids: string[], order?: SearchOrder): Promise<Memory[]>;
 
   /**
    * Find memories by type
@@ -5,7 +5,163 @@
 
 import { Memory } from '../entities/memory';
 
-export interface SearchRequest {
+/**
+ * Pre-built date constraint over the Memory node (bound as `m`)
+ * Produced by DateFilterProcessor, applied by every search channel
+ * The search service ANDs the metadata filter clause into it, hence non-string params
+ */
+export interface SearchDateFilter {
+  cypher: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * Metadata value comparable through promoted meta_* node properties
+ */
+export type MetadataScalar = string | number | boolean;
+
+/**
+ * Condition on one top-level metadata key - all given operators must hold
+ * Range bounds are numbers or ISO dates (compared as strings)
+ */
+export interface MetadataCondition {
+  eq?: MetadataScalar;
+  in?: MetadataScalar[];
+  exists?: boolean;
+  gt?: number | string;
+  gte?: number | string;
+  lt?: number | string;
+  lte?: number | string;
+}
+
+/**
+ * Structured metadata filter: key -> scalar (equality) or condition, keys ANDed
+ * Example: { status: "open", priority: { gte: 2 }, dueDate: { lt: "2025-07-01" } }
+ */
+export type MetadataFilter = Record<string, MetadataScalar | MetadataCondition>;
+
+/**
+ * Timestamp ordering applied in Cypher
+ * Absent order means relevance (score) ordering
+ */
+export interface SearchOrder {
+  property: 'createdAt' | 'modifiedAt' | 'lastAccessed';
+  direction: 'ASC' | 'DESC';
+}
+
+/**
+ * Keyset position of the last item on the previous page
+ * value is the sort key (score, timestamp or distance), id breaks ties
+ */
+export interface SearchCursor {
+  value: string | number;
+  id: string;
+  offset: number; // Items already returned - sizes candidate pools for scored search
+  boostTime?: number; // Relevance order: the time recency boosting was measured from on the first page
+}
+
+/**
+ * How exact and vector evidence combine into one relevance score
+ * - fixed: exact hits score 0.85 plus up to 0.15 from vectors
+ * - weighted: linear blend of normalized exact relevance and vector similarity
+ * - rrf: reciprocal rank fusion over the exact and vector rankings
+ */
+export type ScoringStrategy = 'fixed' | 'weighted' | 'rrf';
+
+/**
+ * Per-request scoring overrides - absent fields fall back to SEARCH_* environment settings
+ */
+export interface SearchScoring {
+  strategy?: ScoringStrategy;
+  exactWeight?: number;
+  vectorWeight?: number;
+  rrfK?: number;       // RRF rank damping constant
+}
+
+/**
+ * Graph centrality stored on Memory nodes (m.centrality, normalized to 0-1)
+ * - pagerank: weighted PageRank over RELATES_TO, importance propagates from connected hubs
+ * - degree: sum of RELATES_TO strengths touching the memory
+ */
+export type CentralityAlgorithm = 'pagerank' | 'degree';
+
+/**
+ * Per-request freshness, usage and centrality boosts - absent fields fall back to SEARCH_* environment settings
+ * multiplier = 1 − Σ weights + recencyWeight × recency + accessWeight × usage + centralityWeight × centrality
+ */
+export interface SearchBoost {
+  recencyWeight?: number;     // Share of the score that decays with age (0 disables)
+  halfLifeDays?: number;      // Age at which the recency signal halves
+  accessWeight?: number;      // Share of the score earned by access frequency (0 disables)
+  centralityWeight?: number;  // Share of the score earned by graph centrality (0 disables)
+}
+
+/**
+ * Where the best vector similarity of a memory came from
+ */
+export type VectorMatchSource = 'name' | 'observation' | 'chunk';
+
+/**
+ * How a final score was derived - formula carries the actual values
+ */
+export interface ScoreComputation {
+  strategy: ScoringStrategy | 'wildcard';
+  formula: string;
+  components: Record<string, number>;
+}
+
+/**
+ * Per-result account of why a memory was returned
+ */
+export interface SearchExplanation {
+  channels: {
+    name: boolean;
+    metadataFulltext: boolean;
+    observationFulltext: boolean;
+    vector: boolean;
+  };
+  scores: {
+    lucene?: number;        // Best raw FULLTEXT score
+    nameCoverage?: number;  // Share of the name covered by the query
+    cosine?: number;        // Best raw vector similarity
+  };
+  bestVectorMatch?: {
+    source: VectorMatchSource;
+    observationId?: string; // Observation owning the best matching text (observation or chunk)
+  };
+  computation: ScoreComputation;
+  boost?: {
+    recency: number;     // 0.5 ^ (age / half-life), age since the last modification or access
+    usage: number;       // Saturating access count signal in [0,1)
+    centrality: number;  // Stored m.centrality, 0 until the centrality job ran
+    multiplier: number;  // Factor applied to the relevance score
+  };
+}
+
+/**
+ * How the stored vectors of a memory are compared in "more like this" search
+ * - max: best similarity of any name/observation vector (catches one shared topic)
+ * - centroid: similarity to the mean vector (overall resemblance)
+ */
+export type SimilarityMode = 'max' | 'centroid';
+
+/**
+ * Optional search refinements passed through handler, repository and search service
+ */
+export interface SearchOptions {
+  dateFilter?: SearchDateFilter;
+  metadataFilter?: MetadataFilter;
+  order?: SearchOrder;
+  after?: SearchCursor;
+  scoring?: SearchScoring;
+  boost?: SearchBoost;  // Recency and access-frequency boosting of relevance scores
+  boostTime?: number;  // ms since epoch recency is measured from - the same for every page of a listing
+  explain?: boolean;   // Attach a SearchExplanation to every result
+  matchedObservations?: number;  // Return only the top-k matched observations per result, with highlights
+  mmrLambda?: number;  // Diversify relevance order with MMR - 1 = pure relevance, 0 = maximum diversity
+}
+
+export interface SearchRequest extends SearchOptions {
   query: string;
   memoryTypes?: string[];
   limit?: number;
@@ -17,6 +173,7 @@ export interface SearchResult {
   memory: Memory;
   score: number;
   matchType: 'vector' | 'metadata';
+  explanation?: SearchExplanation;
 }
 
 export interface SearchRepository {
@@ -25,4 +182,10 @@ export interface SearchRepository {
    * Handles all search types: exact, semantic, wildcard
    */
   search(request: SearchRequest): Promise<SearchResult[]>;
+
+  /**
+   * Several searches over one session, query embeddings computed in one batch
+   * Results are returned in request order
+   */
+  searchBatch(requests: SearchRequest[]): Promise<SearchResult[][]>;
 }
@@ -30,7 +30,7 @@ export const ENHANCED_PARAMETER_DESCRIPTIONS = {
   relations: "Connect memories: from/to (localId or memoryId), type (semantic meaning), strength (0.1-1.0 importance).",
   
   // memory_find parameters  
-  query: "Search text, array of memory IDs, or '*' for all. **Semantic search**: finds meaning, not just keywords.",
+  query: "Search text, array of memory IDs, or '*' for all. **Semantic search**: finds meaning, not just keywords. **Syntax**: name:\"OAuth\", type:decision, obs:timeout, AND/OR/NOT, (groups), \"exact phrase\", -exclude - free-text parts are scored semantically, the rest filters.",
   
   includeContext: "Detail level: **minimal** (id/name/type only - for lists), **full** (everything - default work mode), **relations-only** (graph analysis only).",
   
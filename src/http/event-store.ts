@@ -0,0 +1,237 @@
+/**
+ * Event Store
+ * Single responsibility: Keep the SSE events of one HTTP session for Last-Event-ID replay
+ *
+ * The transport stores every message it sends on an SSE stream and gets an event id back.
+ * A client whose connection dropped reconnects with GET /mcp and the last id it saw, and
+ * the store sends it everything that followed on the same stream - a long memory_store batch
+ * still delivers its response.
+ *
+ * Stores are per session: the SDK uses the same stream id for every session's standalone
+ * GET stream, and one session must never replay another one's events.
+ */
+
+import { mkdirSync } from "node:fs";
+import { appendFile, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import type { HttpSessionConfig } from "../config";
+import { MCPResourceNotFoundError, MCPErrorCodes } from "../infrastructure/errors";
+
+export interface EventRetention {
+  maxEvents: number;  // Oldest events are dropped first
+  maxAge: number;     // ms - older events can no longer be replayed
+}
+
+export interface ResumableEventStore extends EventStore {
+  /**
+   * Whether replay from this id is still possible - false once retention dropped it
+   */
+  hasEvent(eventId: EventId): Promise<boolean>;
+
+  /**
+   * Drop every event - the session is gone
+   */
+  dispose(): Promise<void>;
+}
+
+interface StoredEvent {
+  eventId: EventId;
+  streamId: StreamId;
+  storedAt: number;
+}
+
+type ReplaySender = { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> };
+
+// Stream ids are UUIDs or the SDK's "_GET_stream" - '#' never occurs in either
+const SEQUENCE_SEPARATOR = '#';
+
+function formatEventId(streamId: StreamId, sequence: number): EventId {
+  return `${streamId}${SEQUENCE_SEPARATOR}${sequence}`;
+}
+
+/**
+ * Number of events at the front of a chronological list that retention drops
+ */
+function expiredEventCount(events: StoredEvent[], retention: EventRetention, now: number = Date.now()): number {
+  let count = Math.max(0, events.length - retention.maxEvents);
+  while (count < events.length && now - events[count].storedAt > retention.maxAge) {
+    count++;
+  }
+  return count;
+}
+
+function eventNotFound(eventId: EventId): MCPResourceNotFoundError {
+  return new MCPResourceNotFoundError('Event', eventId, MCPErrorCodes.RESOURCE_NOT_FOUND);
+}
+
+export class InMemoryEventStore implements ResumableEventStore {
+  private events: Array<StoredEvent & { message: JSONRPCMessage }> = [];
+  private sequence = 0;
+
+  constructor(private retention: EventRetention) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = formatEventId(streamId, ++this.sequence);
+    this.events.push({ eventId, streamId, storedAt: Date.now(), message });
+    this.prune();
+    return eventId;
+  }
+
+  async replayEventsAfter(lastEventId: EventId, { send }: ReplaySender): Promise<StreamId> {
+    this.prune();
+    const index = this.events.findIndex(event => event.eventId === lastEventId);
+    if (index === -1) {
+      throw eventNotFound(lastEventId);
+    }
+
+    const streamId = this.events[index].streamId;
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.eventId, event.message);
+      }
+    }
+    return streamId;
+  }
+
+  async hasEvent(eventId: EventId): Promise<boolean> {
+    this.prune();
+    return this.events.some(event => event.eventId === eventId);
+  }
+
+  async dispose(): Promise<void> {
+    this.events = [];
+  }
+
+  private prune(): void {
+    const expired = expiredEventCount(this.events, this.retention);
+    if (expired > 0) {
+      this.events.splice(0, expired);
+    }
+  }
+}
+
+/**
+ * Events as JSON lines in <directory>/<sessionId>.jsonl - large batch responses stay out of memory
+ * Only ids and timestamps are indexed in memory. Dropped events are removed from the file by a
+ * rewrite once as many have accumulated as retention keeps, so the file stays under twice the limit.
+ */
+export class FileEventStore implements ResumableEventStore {
+  private readonly file: string;
+  private index: StoredEvent[] = [];
+  private sequence = 0;
+  private droppedSinceCompaction = 0;
+  // File operations run one after another - an append never interleaves with a compaction
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(directory: string, sessionId: string, private retention: EventRetention) {
+    this.file = join(directory, `${sessionId}.jsonl`);
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const event: StoredEvent = { eventId: formatEventId(streamId, ++this.sequence), streamId, storedAt: Date.now() };
+    this.index.push(event);
+
+    await this.enqueue(async () => {
+      await appendFile(this.file, JSON.stringify({ ...event, message }) + '\n', 'utf8');
+      this.prune();
+      if (this.droppedSinceCompaction >= this.retention.maxEvents) {
+        await this.compact();
+      }
+    });
+    return event.eventId;
+  }
+
+  async replayEventsAfter(lastEventId: EventId, { send }: ReplaySender): Promise<StreamId> {
+    const events = await this.enqueue(async () => {
+      this.prune();
+      return this.readRetained();
+    });
+
+    const index = events.findIndex(event => event.eventId === lastEventId);
+    if (index === -1) {
+      throw eventNotFound(lastEventId);
+    }
+
+    const streamId = events[index].streamId;
+    for (const event of events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.eventId, event.message);
+      }
+    }
+    return streamId;
+  }
+
+  async hasEvent(eventId: EventId): Promise<boolean> {
+    this.prune();
+    return this.index.some(event => event.eventId === eventId);
+  }
+
+  async dispose(): Promise<void> {
+    await this.enqueue(async () => {
+      this.index = [];
+      await rm(this.file, { force: true });
+    });
+  }
+
+  private prune(): void {
+    const expired = expiredEventCount(this.index, this.retention);
+    if (expired > 0) {
+      this.index.splice(0, expired);
+      this.droppedSinceCompaction += expired;
+    }
+  }
+
+  private async readRetained(): Promise<Array<StoredEvent & { message: JSONRPCMessage }>> {
+    let content: string;
+    try {
+      content = await readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const retained = new Set(this.index.map(event => event.eventId));
+    return content
+      .split('\n')
+      .filter(line => line.length > 0)
+      .map(line => JSON.parse(line))
+      .filter(event => retained.has(event.eventId));
+  }
+
+  private async compact(): Promise<void> {
+    const events = await this.readRetained();
+    await writeFile(this.file, events.map(event => JSON.stringify(event) + '\n').join(''), 'utf8');
+    this.droppedSinceCompaction = 0;
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Per-session store factory for HTTP_EVENT_STORE, undefined when resumability is off
+ */
+export function createEventStoreFactory(
+  config: HttpSessionConfig
+): ((sessionId: string) => ResumableEventStore) | undefined {
+  const retention: EventRetention = { maxEvents: config.eventRetentionCount, maxAge: config.eventRetentionMs };
+
+  switch (config.eventStore) {
+    case 'memory':
+      return () => new InMemoryEventStore(retention);
+    case 'file': {
+      const directory = config.eventStoreDir!;
+      mkdirSync(directory, { recursive: true });
+      return (sessionId) => new FileEventStore(directory, sessionId, retention);
+    }
+    case 'none':
+      return undefined;
+  }
+}
@@ -11,37 +11,45 @@ config();
 
 import express from "express";
 import { randomUUID } from "node:crypto";
+import { createServer as createHttpsServer } from "node:https";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 
 // Import lazy handlers for HTTP
 import { createLazyHandlers } from "./lazy-handlers";
+import { SessionManager } from "./session";
+import { createEventStoreFactory, ResumableEventStore } from "./event-store";
+import { SessionInfo } from "./types";
 import {
   MCPValidationError,
   MCPDatabaseError,
   MCPServiceError,
+  MCPAuthenticationError,
+  MCPPermissionError,
+  MCPErrorCodes,
   isMCPError
 } from "../infrastructure/errors";
+import { createDatabaseScope, runInDatabaseScope } from "../infrastructure/database";
+import {
+  AuthenticatorChain,
+  CallerIdentity,
+  createAuthenticatorChain,
+  getDatabasePolicy,
+  loadTlsOptions,
+  isSameCaller,
+  runAsCaller
+} from "../infrastructure/auth";
+import { getHttpAuthConfig, getHttpSessionConfig, HttpAuthConfig } from "../config";
 import { registerPrompts } from "../prompts";
 import { registerMemoryTools, HandlerSet } from "../shared-tool-definitions";
 
 /**
- * Create and configure MCP server with tools
- * Based on index.ts - exact same functionality
+ * Lazy handler factory shared by every session - safe for tool scanning
  */
-function createMCPServer(): McpServer {
-  const server = new McpServer({
-    name: "neo4j-memory-server",
-    version: "3.2.0"
-  });
-
-  // Register prompts first
-  registerPrompts(server);
-
-  // Lazy handler factory - safe for tool scanning
+function createHandlerFactory(): () => Promise<HandlerSet> {
   let handlerPromise: Promise<HandlerSet> | null = null;
-  const getHandlers = async (): Promise<HandlerSet> => {
+  return async (): Promise<HandlerSet> => {
     if (!handlerPromise) {
       handlerPromise = (async () => {
         // Use lazy handlers that don't initialize until first use
@@ -60,6 +68,21 @@ function createMCPServer(): McpServer {
     }
     return handlerPromise;
   };
+}
+
+/**
+ * Create and configure MCP server with tools
+ * Based on index.ts - exact same functionality
+ * One per session: an McpServer answers over a single transport, the last one connected
+ */
+function createMCPServer(getHandlers: () => Promise<HandlerSet>): McpServer {
+  const server = new McpServer({
+    name: "neo4j-memory-server",
+    version: "3.2.0"
+  });
+
+  // Register prompts first
+  registerPrompts(server);
 
   // =============================================================================
   // UNIFIED TOOLS IMPLEMENTATION (Exactly 4 tools as specified)
@@ -77,12 +100,24 @@ function createMCPServer(): McpServer {
  */
 class SimpleHTTPServer {
   private app: express.Application;
-  private mcpServer: McpServer;
-  private transports: Map<string, StreamableHTTPServerTransport> = new Map();
+  private getHandlers: () => Promise<HandlerSet>;
+  // Transport, MCP server, owner and active database per Mcp-Session-Id, closed when idle or evicted
+  private sessionManager: SessionManager;
+  // Per-session SSE event history for Last-Event-ID replay, unset with HTTP_EVENT_STORE=none
+  private createEventStore?: (sessionId: string) => ResumableEventStore;
+  private authConfig: HttpAuthConfig;
+  private authenticator: AuthenticatorChain;
 
   constructor() {
+    // Zero-fallback: broken auth settings stop the server instead of serving /mcp open
+    this.authConfig = getHttpAuthConfig();
+    this.authenticator = createAuthenticatorChain(this.authConfig);
+    getDatabasePolicy(); // Parse the policy file now - handlers check it on every tool call
+    const sessionConfig = getHttpSessionConfig();
+    this.sessionManager = new SessionManager(sessionConfig);
+    this.createEventStore = createEventStoreFactory(sessionConfig);
     this.app = express();
-    this.mcpServer = createMCPServer();
+    this.getHandlers = createHandlerFactory();
     this.setupMiddleware();
     this.setupRoutes();
   }
@@ -90,11 +125,16 @@ class SimpleHTTPServer {
   private setupMiddleware(): void {
     this.app.use(express.json({ limit: '10mb' }));
     
-    // CORS
+    // CORS - credential headers are only announced for the enabled methods
+    const allowedHeaders = ['Content-Type', 'Accept', 'Mcp-Session-Id'];
+    if (this.createEventStore) allowedHeaders.push('Last-Event-ID');
+    if (this.authConfig.methods.includes('jwt')) allowedHeaders.push('Authorization');
+    if (this.authConfig.methods.includes('api-key')) allowedHeaders.push('X-API-Key');
+
     this.app.use((req, res, next) => {
-      res.setHeader('Access-Control-Allow-Origin', '*');
+      res.setHeader('Access-Control-Allow-Origin', this.authConfig.corsOrigin);
       res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Mcp-Session-Id');
+      res.setHeader('Access-Control-Allow-Headers', allowedHeaders.join(', '));
       res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
       
       if (req.method === 'OPTIONS') {
@@ -107,19 +147,56 @@ class SimpleHTTPServer {
 
   private setupRoutes(): void {
     // Health check
-    this.app.get('/health', (_req, res) => {
+    this.app.get('/health', async (_req, res) => {
+      const stats = this.sessionManager.getStats();
+      const { DIContainer } = await import("../container/di-container");
+      const container = DIContainer.getInstance();
       res.json({ 
         status: 'healthy', 
-        sessions: this.transports.size,
-        transport: 'streamable-http'
+        sessions: stats.active,
+        transport: 'streamable-http',
+        maxSessions: stats.maxSessions,
+        idleTimeoutMs: stats.idleTimeout,
+        expiredSessions: stats.expired,
+        evictedSessions: stats.evicted,
+        embeddingCache: container.getEmbeddingCacheStats(),
+        // Startup check of the default database - consistent: false means a re-embed is needed
+        embeddingConsistency: container.getEmbeddingConsistency()
       });
     });
 
+    // Open sessions with their client, caller and database - HTTP_ADMIN_IDENTITIES only
+    this.app.get('/admin/sessions', async (req, res) => {
+      try {
+        const identity = await this.authenticator.authenticate(req);
+        if (!this.authConfig.adminIdentities.includes(identity.id)) {
+          throw new MCPPermissionError(
+            `Identity '${identity.id}' is not an admin`,
+            MCPErrorCodes.PERMISSION_DENIED,
+            { identity: identity.id }
+          );
+        }
+        res.json({ ...this.sessionManager.getStats(), sessions: this.sessionManager.listSessions() });
+      } catch (error) {
+        if (error instanceof MCPAuthenticationError || error instanceof MCPPermissionError) {
+          this.sendAuthenticationError(res, error);
+          return;
+        }
+        res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+
     // MCP endpoint - stateful session pattern
     this.app.all('/mcp', async (req, res) => {
       try {
-        await this.handleMCPRequest(req, res);
+        const identity = await this.authenticator.authenticate(req);
+        await this.handleMCPRequest(req, res, identity);
       } catch (error) {
+        if (error instanceof MCPAuthenticationError) {
+          this.sendAuthenticationError(res, error, (req.body as any)?.id);
+          return;
+        }
+
         let errorCode = -32603; // Default internal error
         let errorMessage = 'Internal server error';
         let errorData: any = undefined;
@@ -154,19 +231,44 @@ class SimpleHTTPServer {
       }
     });
   }
-  private async handleMCPRequest(req: express.Request, res: express.Response): Promise<void> {
+  /**
+   * 401 for missing or invalid credentials, 403 for a session owned by another caller or a denied admin call
+   */
+  private sendAuthenticationError(res: express.Response, error: MCPAuthenticationError | MCPPermissionError, id?: unknown): void {
+    const unauthenticated = error.code === MCPErrorCodes.UNAUTHORIZED;
+    if (unauthenticated && this.authConfig.methods.includes('jwt')) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+    }
+
+    res.status(unauthenticated ? 401 : 403).json({
+      jsonrpc: "2.0",
+      error: error.toJsonRpc(),
+      id: id ?? null
+    });
+  }
+
+  /**
+   * Reject requests for a session from anyone but the caller who initialized it
+   */
+  private assertSessionOwner(session: SessionInfo, identity: CallerIdentity): void {
+    const owner = session.identity;
+    if (owner && !isSameCaller(owner, identity)) {
+      throw new MCPAuthenticationError(
+        'Session belongs to another caller',
+        MCPErrorCodes.INVALID_SESSION
+      );
+    }
+  }
+
+  private async handleMCPRequest(req: express.Request, res: express.Response, identity: CallerIdentity): Promise<void> {
     const sessionId = req.headers['mcp-session-id'] as string;
     
     if (req.method === 'DELETE') {
       // Session termination
-      if (sessionId && this.transports.has(sessionId)) {
-        const transport = this.transports.get(sessionId)!;
-        try {
-          await transport.close?.();
-        } catch (error) {
-          // Ignore close errors
-        }
-        this.transports.delete(sessionId);
+      const session = sessionId ? this.sessionManager.getSessionInfo(sessionId) : null;
+      if (session) {
+        this.assertSessionOwner(session, identity);
+        this.sessionManager.terminateSession(sessionId);
         res.status(204).send();
       } else {
         res.status(404).json({ error: 'Session not found' });
@@ -174,6 +276,36 @@ class SimpleHTTPServer {
       return;
     }
 
+    if (req.method === 'GET' && sessionId) {
+      // Session SSE stream - with Last-Event-ID, replay of what a dropped connection missed
+      const session = this.sessionManager.getSessionInfo(sessionId);
+      if (!session) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      this.assertSessionOwner(session, identity);
+      const transport = this.sessionManager.getSession(sessionId)!;
+
+      const lastEventId = req.headers['last-event-id'] as string | undefined;
+      if (lastEventId && session.eventStore && !(await session.eventStore.hasEvent(lastEventId))) {
+        res.status(404).json({
+          jsonrpc: "2.0",
+          error: {
+            code: MCPErrorCodes.RESOURCE_NOT_FOUND,
+            message: "Event not found: no longer retained, resend the request",
+            data: { lastEventId }
+          },
+          id: null
+        });
+        return;
+      }
+
+      await runAsCaller(session.identity!, () =>
+        runInDatabaseScope(session.databaseScope!, () => transport.handleRequest(req, res))
+      );
+      return;
+    }
+
     if (req.method === 'GET') {
       // MCP status endpoint for deployment verification
       res.json({
@@ -191,28 +323,49 @@ class SimpleHTTPServer {
     if (req.method === 'POST') {
       let transport: StreamableHTTPServerTransport;
       let responseSessionId: string | undefined;
+      let session: SessionInfo;
 
       try {
-        if (sessionId && this.transports.has(sessionId)) {
+        const existingSession = sessionId ? this.sessionManager.getSessionInfo(sessionId) : null;
+        if (sessionId && !existingSession) {
+          // Expired, evicted or terminated - 404 tells the client to initialize a new session
+          res.status(404).json({
+            jsonrpc: "2.0",
+            error: { code: -32001, message: "Session not found" },
+            id: (req.body as any)?.id || null
+          });
+          return;
+        } else if (existingSession) {
           // Use existing session
-          transport = this.transports.get(sessionId)!;
+          this.assertSessionOwner(existingSession, identity);
+          session = existingSession;
+          transport = this.sessionManager.getSession(sessionId)!;
           responseSessionId = sessionId;
         } else if (isInitializeRequest(req.body)) {
           // Create new session for initialize request
           responseSessionId = randomUUID();
+          const eventStore = this.createEventStore?.(responseSessionId);
           transport = new StreamableHTTPServerTransport({
             sessionIdGenerator: () => responseSessionId!,
+            ...(eventStore && { eventStore })
           });
           
-          // Store transport before connecting
-          this.transports.set(responseSessionId, transport);
+          // Store transport before connecting - may close the least recently used session
+          const { name, version } = req.body.params.clientInfo;
+          const mcpServer = createMCPServer(this.getHandlers);
+          this.sessionManager.createSession(
+            transport,
+            { server: mcpServer, clientInfo: { name, version }, identity, databaseScope: createDatabaseScope(), eventStore },
+            responseSessionId
+          );
+          session = this.sessionManager.getSessionInfo(responseSessionId)!;
           
           try {
-            // Connect to MCP server
-            await this.mcpServer.connect(transport);
+            // Connect to the session's own MCP server
+            await mcpServer.connect(transport);
           } catch (connectionError) {
             // Clean up on connection failure
-            this.transports.delete(responseSessionId);
+            this.sessionManager.terminateSession(responseSessionId);
             
             const errorMessage = connectionError instanceof Error ? connectionError.message : String(connectionError);
             res.status(500).json({
@@ -240,9 +393,14 @@ class SimpleHTTPServer {
           res.setHeader('Mcp-Session-Id', responseSessionId);
         }
 
-        // Handle the request using transport
-        await transport.handleRequest(req, res, req.body);
+        // Handle the request using transport - tool calls see the session's owner and own database
+        await runAsCaller(session.identity!, () =>
+          runInDatabaseScope(session.databaseScope!, () => transport.handleRequest(req, res, req.body))
+        );
       } catch (handlingError) {
+        if (handlingError instanceof MCPAuthenticationError) {
+          throw handlingError;
+        }
         const errorMessage = handlingError instanceof Error ? handlingError.message : String(handlingError);
         res.status(500).json({
           jsonrpc: "2.0",
@@ -258,11 +416,20 @@ class SimpleHTTPServer {
   }
 
   public async start(port: number = 3000): Promise<void> {
+    // HTTPS when HTTP_TLS_CERT/HTTP_TLS_KEY are set, client certificates with HTTP_TLS_CLIENT_CA
+    const tlsOptions = loadTlsOptions(this.authConfig);
+
     return new Promise((resolve) => {
-      this.app.listen(port, '0.0.0.0', () => {
+      const onListening = () => {
         // Silent startup for deployment compatibility
         resolve();
-      });
+      };
+
+      if (tlsOptions) {
+        createHttpsServer(tlsOptions, this.app).listen(port, '0.0.0.0', onListening);
+      } else {
+        this.app.listen(port, '0.0.0.0', onListening);
+      }
     });
   }
 }
@@ -2,31 +2,63 @@
  * Session Manager
  * Handles session lifecycle for streamable HTTP transport
  * Zero-fallback architecture: sessions work or fail fast
+ *
+ * Sessions close after an idle timeout, and when maxSessions is reached the least recently
+ * used session is closed to make room - an abandoned client never holds a transport forever.
  */
 
 import { randomUUID } from "node:crypto";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { SessionInfo } from "./types.js";
+import { SessionInfo, SessionStats, SessionSummary } from "./types.js";
+
+export type SessionMetadata = Pick<SessionInfo, 'server' | 'clientInfo' | 'identity' | 'databaseScope' | 'eventStore'>;
+
+export interface SessionManagerOptions {
+  idleTimeout?: number;  // ms, default 30 minutes
+  maxSessions?: number;  // 0 or unset for no cap
+}
 
 export class SessionManager {
+  // Insertion order is recency order - the first entry is the least recently used
   private sessions = new Map<string, SessionInfo>();
-  private readonly sessionTimeout = 30 * 60 * 1000; // 30 minutes
+  private cleanupTimers = new Map<string, NodeJS.Timeout>();
+  private readonly sessionTimeout: number;
+  private readonly maxSessions: number;
+  private expired = 0;
+  private evicted = 0;
+
+  constructor(options: SessionManagerOptions = {}) {
+    this.sessionTimeout = options.idleTimeout ?? 30 * 60 * 1000; // 30 minutes
+    this.maxSessions = options.maxSessions ?? 0;
+  }
 
   /**
    * Create new session with transport
+   * The HTTP server passes the id its transport was created with
    */
-  createSession(transport: StreamableHTTPServerTransport): string {
-    const sessionId = randomUUID();
+  createSession(
+    transport: StreamableHTTPServerTransport,
+    metadata: SessionMetadata = {},
+    sessionId: string = randomUUID()
+  ): string {
+    while (this.maxSessions > 0 && this.sessions.size >= this.maxSessions) {
+      const leastRecentlyUsed = this.sessions.keys().next().value!;
+      this.terminateSession(leastRecentlyUsed);
+      this.evicted++;
+    }
+
+    const now = new Date();
     const sessionInfo: SessionInfo = {
       sessionId,
       transport,
-      createdAt: new Date(),
-      lastAccessed: new Date()
+      createdAt: now,
+      lastAccessed: now,
+      ...metadata
     };
-    
+
     this.sessions.set(sessionId, sessionInfo);
-    this.scheduleCleanup(sessionId);
-    
+    this.scheduleCleanup(sessionId, this.sessionTimeout);
+
     return sessionId;
   }
 
@@ -39,11 +71,20 @@ export class SessionManager {
       return null;
     }
 
-    // Update last accessed
+    // Update last accessed and move to the most recently used end
     session.lastAccessed = new Date();
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, session);
     return session.transport;
   }
 
+  /**
+   * Session metadata without counting as activity
+   */
+  getSessionInfo(sessionId: string): SessionInfo | null {
+    return this.sessions.get(sessionId) ?? null;
+  }
+
   /**
    * Explicitly terminate session
    */
@@ -53,12 +94,24 @@ export class SessionManager {
       return false;
     }
 
-    // Clean transport connection
+    clearTimeout(this.cleanupTimers.get(sessionId));
+    this.cleanupTimers.delete(sessionId);
+
+    // Clean transport connection - closing the session's MCP server closes its transport
     try {
-      session.transport.close?.();
+      if (session.server) {
+        session.server.close().catch(() => {
+          // Transport cleanup failed - log but continue
+        });
+      } else {
+        session.transport.close?.();
+      }
     } catch (error) {
       // Transport cleanup failed - log but continue
     }
+    session.eventStore?.dispose().catch(() => {
+      // Replay history is gone with the session either way
+    });
 
     this.sessions.delete(sessionId);
     return true;
@@ -67,21 +120,26 @@ export class SessionManager {
   /**
    * Schedule automatic session cleanup
    */
-  private scheduleCleanup(sessionId: string): void {
-    setTimeout(() => {
+  private scheduleCleanup(sessionId: string, delay: number): void {
+    const timer = setTimeout(() => {
       const session = this.sessions.get(sessionId);
       if (session) {
         const now = new Date();
         const timeSinceLastAccess = now.getTime() - session.lastAccessed.getTime();
-        
+
         if (timeSinceLastAccess >= this.sessionTimeout) {
           this.terminateSession(sessionId);
+          this.expired++;
         } else {
-          // Reschedule cleanup
-          this.scheduleCleanup(sessionId);
+          // Reschedule for the rest of the idle window
+          this.scheduleCleanup(sessionId, this.sessionTimeout - timeSinceLastAccess);
         }
       }
-    }, this.sessionTimeout);
+    }, delay);
+
+    // Idle sessions never keep the process alive
+    timer.unref?.();
+    this.cleanupTimers.set(sessionId, timer);
   }
 
   /**
@@ -90,4 +148,30 @@ export class SessionManager {
   getActiveSessionCount(): number {
     return this.sessions.size;
   }
+
+  /**
+   * Open sessions, most recently used first
+   */
+  listSessions(): SessionSummary[] {
+    const now = Date.now();
+    return Array.from(this.sessions.values()).reverse().map(session => ({
+      sessionId: session.sessionId,
+      createdAt: session.createdAt.toISOString(),
+      lastAccessed: session.lastAccessed.toISOString(),
+      idleMs: now - session.lastAccessed.getTime(),
+      ...(session.clientInfo && { clientInfo: session.clientInfo }),
+      ...(session.identity && { identity: { id: session.identity.id, method: session.identity.method } }),
+      database: session.databaseScope?.database ?? null
+    }));
+  }
+
+  getStats(): SessionStats {
+    return {
+      active: this.sessions.size,
+      maxSessions: this.maxSessions,
+      idleTimeout: this.sessionTimeout,
+      expired: this.expired,
+      evicted: this.evicted
+    };
+  }
 }
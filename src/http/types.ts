@@ -3,6 +3,11 @@
  * Minimal type definitions for streamable HTTP transport
  */
 
+import type { CallerIdentity } from "../infrastructure/auth";
+import type { DatabaseScope } from "../infrastructure/database";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ResumableEventStore } from "./event-store";
+
 export interface HTTPServerConfig {
   port: number;
   endpoint: string;
@@ -10,11 +15,40 @@ export interface HTTPServerConfig {
   corsOrigin: string;
 }
 
+export interface SessionClientInfo {
+  name: string;
+  version: string;
+}
+
 export interface SessionInfo {
   sessionId: string;
   transport: any; // StreamableHTTPServerTransport
+  server?: McpServer;              // Answers this session's transport only
   createdAt: Date;
   lastAccessed: Date;
+  clientInfo?: SessionClientInfo;  // From the initialize request
+  identity?: CallerIdentity;       // Caller that initialized the session
+  databaseScope?: DatabaseScope;   // Active database, moved by database_switch
+  eventStore?: ResumableEventStore;  // SSE events kept for Last-Event-ID replay
+}
+
+// JSON-safe view of a session for /admin/sessions - never the transport or credentials
+export interface SessionSummary {
+  sessionId: string;
+  createdAt: string;
+  lastAccessed: string;
+  idleMs: number;
+  clientInfo?: SessionClientInfo;
+  identity?: { id: string; method: string };
+  database: string | null;  // null until database_switch - the server's default database
+}
+
+export interface SessionStats {
+  active: number;
+  maxSessions: number;   // 0 when unlimited
+  idleTimeout: number;   // ms
+  expired: number;       // Closed after idleTimeout without requests
+  evicted: number;       // Closed to make room under maxSessions
 }
 
 export interface HTTPRequestContext {
@@ -81,6 +81,14 @@ const main = async () => {
     await server.connect(transport);
 
     const cleanup = async () => {
+      // Cache effectiveness for the session - only when tools ever ran
+      const cacheStats = handlerPromise ? DIContainer.getInstance().getEmbeddingCacheStats() : null;
+      if (cacheStats) {
+        process.stderr.write(
+          `[MCP Server] Embedding cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses ` +
+          `(${(cacheStats.hitRate * 100).toFixed(1)}% hit rate), ${cacheStats.size}/${cacheStats.maxSize} entries\n`
+        );
+      }
       process.exit(0);
     };
 
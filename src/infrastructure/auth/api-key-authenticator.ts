@@ -0,0 +1,82 @@
+/**
+ * API Key Authenticator
+ * Single responsibility: Match the X-API-Key header against static keys
+ *
+ * Keys come as id:key pairs from HTTP_API_KEYS and/or HTTP_API_KEYS_FILE (one pair per line,
+ * # comments). The id - never the key - becomes the caller identity.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import { MCPAuthenticationError, MCPValidationError, MCPErrorCodes } from '../errors';
+import { Authenticator } from './authenticator';
+import { CallerIdentity } from './caller-identity';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+interface StoredKey {
+  id: string;
+  digest: Buffer;
+}
+
+/**
+ * Parse id:key pairs separated by commas or newlines
+ * Zero-fallback: a malformed pair or a duplicate id fails at startup
+ */
+export function parseApiKeys(source: string, origin: string): Array<{ id: string; key: string }> {
+  const entries = source
+    .split(/[,\n]/)
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0 && !entry.startsWith('#'));
+
+  const seen = new Set<string>();
+  return entries.map(entry => {
+    const separator = entry.indexOf(':');
+    const id = separator > 0 ? entry.slice(0, separator).trim() : '';
+    const key = separator > 0 ? entry.slice(separator + 1).trim() : '';
+    if (!id || !key) {
+      throw new MCPValidationError(
+        `Invalid API key entry in ${origin}: expected id:key`,
+        MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+      );
+    }
+    if (seen.has(id)) {
+      throw new MCPValidationError(
+        `Duplicate API key id in ${origin}: ${id}`,
+        MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+      );
+    }
+    seen.add(id);
+    return { id, key };
+  });
+}
+
+export class ApiKeyAuthenticator implements Authenticator {
+  readonly method = 'api-key' as const;
+  private keys: StoredKey[];
+
+  constructor(keys: Array<{ id: string; key: string }>) {
+    this.keys = keys.map(({ id, key }) => ({ id, digest: digest(key) }));
+  }
+
+  async authenticate(request: IncomingMessage): Promise<CallerIdentity | null> {
+    const header = request.headers[API_KEY_HEADER];
+    const provided = Array.isArray(header) ? header[0] : header;
+    if (!provided) {
+      return null;
+    }
+
+    // Compare fixed-length digests so timing reveals neither the key nor its length
+    const providedDigest = digest(provided);
+    const match = this.keys.find(key => timingSafeEqual(key.digest, providedDigest));
+    if (!match) {
+      throw new MCPAuthenticationError('Invalid API key', undefined, { method: this.method });
+    }
+
+    return { id: match.id, method: this.method, authenticatedAt: new Date().toISOString() };
+  }
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
@@ -0,0 +1,51 @@
+/**
+ * Authenticator Chain
+ * Single responsibility: Turn request credentials into a caller identity
+ *
+ * Each authenticator recognizes its own kind of credential and returns null when the request
+ * carries none. Credentials that are present but wrong throw - a bad token is never retried as
+ * another method. When no enabled method recognizes the request, it is rejected.
+ */
+
+import type { IncomingMessage } from 'node:http';
+import { MCPAuthenticationError } from '../errors';
+import { CallerIdentity, anonymousIdentity } from './caller-identity';
+
+export interface Authenticator {
+  readonly method: CallerIdentity['method'];
+  authenticate(request: IncomingMessage): Promise<CallerIdentity | null>;
+}
+
+export class AuthenticatorChain {
+  constructor(private authenticators: Authenticator[]) {}
+
+  /**
+   * Whether any method is enabled - an empty chain leaves the endpoint open
+   */
+  isEnabled(): boolean {
+    return this.authenticators.length > 0;
+  }
+
+  getMethods(): string[] {
+    return this.authenticators.map(authenticator => authenticator.method);
+  }
+
+  async authenticate(request: IncomingMessage): Promise<CallerIdentity> {
+    if (!this.isEnabled()) {
+      return anonymousIdentity();
+    }
+
+    for (const authenticator of this.authenticators) {
+      const identity = await authenticator.authenticate(request);
+      if (identity) {
+        return identity;
+      }
+    }
+
+    throw new MCPAuthenticationError(
+      `Authentication required. Accepted methods: ${this.getMethods().join(', ')}`,
+      undefined,
+      { methods: this.getMethods() }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Caller Identity
+ * Single responsibility: Who is calling, carried through async calls of one HTTP session
+ *
+ * The HTTP server authenticates every request and runs the MCP handling inside the identity
+ * of the session's owner - handlers read it for auditing and per-database authorization.
+ * Outside the HTTP transport (stdio, CLIs) there is no caller identity.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export type CallerAuthMethod = 'api-key' | 'jwt' | 'mtls' | 'anonymous';
+
+export interface CallerIdentity {
+  id: string;                          // Key id, JWT subject or certificate common name
+  method: CallerAuthMethod;
+  claims?: Record<string, unknown>;    // Verified JWT payload
+  fingerprint?: string;                // SHA-256 fingerprint of the client certificate
+  authenticatedAt: string;
+}
+
+// Open HTTP server (HTTP_AUTH unset) - still a caller, just not a verified one
+export function anonymousIdentity(): CallerIdentity {
+  return { id: 'anonymous', method: 'anonymous', authenticatedAt: new Date().toISOString() };
+}
+
+/**
+ * Same principal through the same method - a session never changes hands
+ */
+export function isSameCaller(a: CallerIdentity, b: CallerIdentity): boolean {
+  return a.method === b.method && a.id === b.id;
+}
+
+const storage = new AsyncLocalStorage<CallerIdentity>();
+
+export function runAsCaller<T>(identity: CallerIdentity, operation: () => T): T {
+  return storage.run(identity, operation);
+}
+
+export function getCallerIdentity(): CallerIdentity | undefined {
+  return storage.getStore();
+}
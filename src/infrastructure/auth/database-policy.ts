@@ -0,0 +1,135 @@
+/**
+ * Database Policy
+ * Single responsibility: Decide which caller identities may read, write or switch to which databases
+ *
+ * Policy file (HTTP_DATABASE_POLICY_FILE):
+ *   {
+ *     "rules": [
+ *       { "identity": "team-a-*", "read": ["team-a-*"], "write": ["team-a-*"], "switch": ["team-a-*"], "createDatabases": true },
+ *       { "identity": "auditor", "read": ["*"], "switch": ["*"] }
+ *     ]
+ *   }
+ *
+ * Identity patterns match the caller id (key id, JWT subject, certificate CN, or "anonymous"),
+ * database patterns match normalized database names. `*` is any run of characters, `?` one.
+ * Every matching rule contributes its grants - once a policy is loaded, anything not granted is denied.
+ */
+
+import { MCPPermissionError, MCPValidationError, MCPErrorCodes } from '../errors';
+import { CallerIdentity } from './caller-identity';
+
+export type DatabaseAction = 'read' | 'write' | 'switch';
+
+export interface DatabasePolicyRule {
+  identity: string;
+  read?: string[];
+  write?: string[];
+  switch?: string[];
+  createDatabases?: boolean;  // May database_switch create a database that does not exist yet
+}
+
+interface CompiledRule {
+  identity: RegExp;
+  grants: Record<DatabaseAction, RegExp[]>;
+  createDatabases: boolean;
+}
+
+const ACTIONS: DatabaseAction[] = ['read', 'write', 'switch'];
+const RULE_KEYS = ['identity', ...ACTIONS, 'createDatabases'];
+
+export class DatabasePolicy {
+  private rules: CompiledRule[];
+
+  constructor(rules: DatabasePolicyRule[]) {
+    this.rules = rules.map(rule => ({
+      identity: globToRegExp(rule.identity, false),
+      grants: {
+        read: (rule.read || []).map(pattern => globToRegExp(pattern, true)),
+        write: (rule.write || []).map(pattern => globToRegExp(pattern, true)),
+        switch: (rule.switch || []).map(pattern => globToRegExp(pattern, true))
+      },
+      createDatabases: rule.createDatabases === true
+    }));
+  }
+
+  /**
+   * Parse and validate a policy document
+   * Zero-fallback: unknown keys and malformed rules fail at startup - a typo must not silently deny or grant
+   */
+  static parse(content: string, origin: string): DatabasePolicy {
+    const invalid = (message: string) => new MCPValidationError(
+      `Invalid database policy in ${origin}: ${message}`,
+      MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+    );
+
+    let document: any;
+    try {
+      document = JSON.parse(content);
+    } catch (error) {
+      throw invalid(error instanceof Error ? error.message : String(error));
+    }
+
+    if (!document || !Array.isArray(document.rules)) {
+      throw invalid('expected {"rules": [...]}');
+    }
+
+    const rules = document.rules.map((rule: any, index: number): DatabasePolicyRule => {
+      if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+        throw invalid(`rule ${index} must be an object`);
+      }
+
+      const unknown = Object.keys(rule).filter(key => !RULE_KEYS.includes(key));
+      if (unknown.length > 0) {
+        throw invalid(`rule ${index} has unknown keys: ${unknown.join(', ')}. Valid keys: ${RULE_KEYS.join(', ')}`);
+      }
+      if (typeof rule.identity !== 'string' || rule.identity.trim().length === 0) {
+        throw invalid(`rule ${index} needs a non-empty identity pattern`);
+      }
+      for (const action of ACTIONS) {
+        const patterns = rule[action];
+        if (patterns !== undefined &&
+            (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string' || pattern.trim().length === 0))) {
+          throw invalid(`rule ${index} ${action} must be an array of non-empty database patterns`);
+        }
+      }
+      if (rule.createDatabases !== undefined && typeof rule.createDatabases !== 'boolean') {
+        throw invalid(`rule ${index} createDatabases must be a boolean`);
+      }
+
+      return rule;
+    });
+
+    return new DatabasePolicy(rules);
+  }
+
+  isAllowed(caller: CallerIdentity, action: DatabaseAction, database: string): boolean {
+    return this.rulesFor(caller).some(rule => rule.grants[action].some(pattern => pattern.test(database)));
+  }
+
+  canCreateDatabases(caller: CallerIdentity): boolean {
+    return this.rulesFor(caller).some(rule => rule.createDatabases);
+  }
+
+  assertAllowed(caller: CallerIdentity, action: DatabaseAction, database: string): void {
+    if (!this.isAllowed(caller, action, database)) {
+      throw new MCPPermissionError(
+        `Identity '${caller.id}' may not ${action} database '${database}'`,
+        MCPErrorCodes.PERMISSION_DENIED,
+        { identity: caller.id, action, database }
+      );
+    }
+  }
+
+  private rulesFor(caller: CallerIdentity): CompiledRule[] {
+    return this.rules.filter(rule => rule.identity.test(caller.id));
+  }
+}
+
+function globToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  const source = pattern
+    .trim()
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, caseInsensitive ? 'i' : '');
+}
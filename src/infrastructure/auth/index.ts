@@ -0,0 +1,138 @@
+/**
+ * Authentication Infrastructure Export
+ * Single import point for HTTP caller authentication
+ */
+
+import { readFileSync } from 'node:fs';
+import { getHttpAuthConfig, type HttpAuthConfig } from '../../config';
+import { MCPValidationError, MCPErrorCodes } from '../errors';
+import { Authenticator, AuthenticatorChain } from './authenticator';
+import { ApiKeyAuthenticator, parseApiKeys } from './api-key-authenticator';
+import { JwtAuthenticator } from './jwt-authenticator';
+import { MtlsAuthenticator } from './mtls-authenticator';
+import { DatabasePolicy } from './database-policy';
+import { CallerIdentity, getCallerIdentity } from './caller-identity';
+
+export { Authenticator, AuthenticatorChain } from './authenticator';
+export { ApiKeyAuthenticator, API_KEY_HEADER, parseApiKeys } from './api-key-authenticator';
+export { JwtAuthenticator, JwtAuthenticatorOptions } from './jwt-authenticator';
+export { MtlsAuthenticator } from './mtls-authenticator';
+export { DatabasePolicy, DatabasePolicyRule, DatabaseAction } from './database-policy';
+export {
+  CallerIdentity,
+  CallerAuthMethod,
+  anonymousIdentity,
+  isSameCaller,
+  runAsCaller,
+  getCallerIdentity
+} from './caller-identity';
+
+/**
+ * Build the authenticators enabled by HTTP_AUTH, in the configured order
+ * Key files are read once at startup - rotate by restarting the server
+ */
+export function createAuthenticatorChain(config: HttpAuthConfig): AuthenticatorChain {
+  const authenticators: Authenticator[] = config.methods.map(method => {
+    switch (method) {
+      case 'api-key':
+        return new ApiKeyAuthenticator([
+          ...(config.apiKeys ? parseApiKeys(config.apiKeys, 'HTTP_API_KEYS') : []),
+          ...(config.apiKeysFile ? parseApiKeys(readConfigFile(config.apiKeysFile, 'HTTP_API_KEYS_FILE'), config.apiKeysFile) : [])
+        ]);
+      case 'jwt':
+        return new JwtAuthenticator({
+          secret: config.jwtSecret,
+          jwks: config.jwtJwksFile ? parseJwks(readConfigFile(config.jwtJwksFile, 'HTTP_JWT_JWKS_FILE'), config.jwtJwksFile) : undefined,
+          issuer: config.jwtIssuer,
+          audience: config.jwtAudience,
+          requireExpiration: config.jwtRequireExp
+        });
+      case 'mtls':
+        return new MtlsAuthenticator();
+    }
+  });
+
+  return new AuthenticatorChain(authenticators);
+}
+
+/**
+ * HTTPS server options, undefined for plain HTTP
+ * A client CA makes the server ask for certificates without requiring them
+ */
+export function loadTlsOptions(config: HttpAuthConfig): {
+  cert: Buffer;
+  key: Buffer;
+  ca?: Buffer;
+  requestCert: boolean;
+  rejectUnauthorized: boolean;
+} | undefined {
+  if (!config.tlsCert || !config.tlsKey) {
+    return undefined;
+  }
+
+  return {
+    cert: Buffer.from(readConfigFile(config.tlsCert, 'HTTP_TLS_CERT')),
+    key: Buffer.from(readConfigFile(config.tlsKey, 'HTTP_TLS_KEY')),
+    ...(config.tlsClientCa && { ca: Buffer.from(readConfigFile(config.tlsClientCa, 'HTTP_TLS_CLIENT_CA')) }),
+    requestCert: Boolean(config.tlsClientCa),
+    rejectUnauthorized: false // MtlsAuthenticator rejects unverified certificates with a JSON-RPC error
+  };
+}
+
+let loadedPolicy: { path: string; policy: DatabasePolicy } | undefined;
+
+/**
+ * Policy from HTTP_DATABASE_POLICY_FILE, undefined when none is configured
+ * Read once per path - edit the file and restart the server to change grants
+ */
+export function getDatabasePolicy(): DatabasePolicy | undefined {
+  const path = getHttpAuthConfig().databasePolicyFile;
+  if (!path) {
+    return undefined;
+  }
+
+  if (loadedPolicy?.path !== path) {
+    loadedPolicy = { path, policy: DatabasePolicy.parse(readConfigFile(path, 'HTTP_DATABASE_POLICY_FILE'), path) };
+  }
+  return loadedPolicy.policy;
+}
+
+/**
+ * Caller and policy to check against, undefined when nothing restricts the current call:
+ * stdio and CLI calls have no caller identity, and without a policy every caller is trusted
+ */
+export function getDatabaseAccess(): { caller: CallerIdentity; policy: DatabasePolicy } | undefined {
+  const caller = getCallerIdentity();
+  if (!caller) {
+    return undefined;
+  }
+
+  const policy = getDatabasePolicy();
+  return policy ? { caller, policy } : undefined;
+}
+
+function readConfigFile(path: string, variable: string): string {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new MCPValidationError(
+      `Cannot read ${variable} (${path}): ${error instanceof Error ? error.message : String(error)}`,
+      MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+    );
+  }
+}
+
+function parseJwks(content: string, path: string): { keys: any[] } {
+  try {
+    const jwks = JSON.parse(content);
+    if (Array.isArray(jwks?.keys) && jwks.keys.length > 0) {
+      return jwks;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new MCPValidationError(
+    `Invalid JWKS in ${path}: expected {"keys": [...]} with at least one key`,
+    MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+  );
+}
@@ -0,0 +1,177 @@
+/**
+ * JWT Authenticator
+ * Single responsibility: Verify Authorization: Bearer tokens against a local secret or JWKS
+ *
+ *   HS256/384/512          HTTP_JWT_SECRET
+ *   RS*, PS*, ES256/384/512  keys of a local JWKS file (HTTP_JWT_JWKS_FILE), picked by kid
+ *
+ * No key is ever fetched over the network and "alg": "none" is never accepted. exp is required
+ * unless HTTP_JWT_REQUIRE_EXP=false; exp and nbf are enforced with a small clock skew, iss and
+ * aud when configured. The sub claim is the identity.
+ */
+
+import { createHmac, createPublicKey, timingSafeEqual, verify, constants, KeyObject, JsonWebKey } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import { MCPAuthenticationError, MCPValidationError, MCPErrorCodes } from '../errors';
+import { Authenticator } from './authenticator';
+import { CallerIdentity } from './caller-identity';
+
+const CLOCK_SKEW_SECONDS = 30;
+
+const HASHES: Record<string, string> = { '256': 'sha256', '384': 'sha384', '512': 'sha512' };
+
+export interface JwtAuthenticatorOptions {
+  secret?: string;
+  jwks?: { keys: JsonWebKey[] };
+  issuer?: string;
+  audience?: string;
+  requireExpiration?: boolean;  // Default true
+}
+
+interface VerificationKey {
+  kid?: string;
+  key: KeyObject;
+}
+
+export class JwtAuthenticator implements Authenticator {
+  readonly method = 'jwt' as const;
+  private publicKeys: VerificationKey[];
+
+  constructor(private options: JwtAuthenticatorOptions) {
+    this.publicKeys = (options.jwks?.keys || []).map(jwk => {
+      try {
+        return { kid: typeof jwk.kid === 'string' ? jwk.kid : undefined, key: createPublicKey({ key: jwk, format: 'jwk' }) };
+      } catch (error) {
+        throw new MCPValidationError(
+          `Invalid key in JWKS: ${error instanceof Error ? error.message : String(error)}`,
+          MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+        );
+      }
+    });
+  }
+
+  async authenticate(request: IncomingMessage): Promise<CallerIdentity | null> {
+    const header = request.headers.authorization;
+    const match = header?.match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      return null;
+    }
+
+    const claims = this.verifyToken(match[1]);
+    return {
+      id: claims.sub as string,
+      method: this.method,
+      claims,
+      authenticatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Verified payload of a compact JWS
+   */
+  verifyToken(token: string, now: number = Date.now()): Record<string, unknown> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw invalidToken('Malformed token');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = decodeSegment(encodedHeader);
+    const claims = decodeSegment(encodedPayload);
+
+    const signedData = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    if (!this.verifySignature(String(header.alg), header.kid, signedData, signature)) {
+      throw invalidToken('Invalid signature');
+    }
+
+    this.verifyClaims(claims, now / 1000);
+    return claims;
+  }
+
+  private verifySignature(alg: string, kid: unknown, data: Buffer, signature: Buffer): boolean {
+    const family = alg.slice(0, 2);
+    const hash = HASHES[alg.slice(2)];
+    if (!hash || !['HS', 'RS', 'PS', 'ES'].includes(family)) {
+      throw invalidToken(`Unsupported algorithm: ${alg}`);
+    }
+
+    if (family === 'HS') {
+      if (!this.options.secret) {
+        throw invalidToken(`No secret configured for ${alg}`);
+      }
+      const expected = createHmac(hash, this.options.secret).update(data).digest();
+      return expected.length === signature.length && timingSafeEqual(expected, signature);
+    }
+
+    const key = this.findPublicKey(kid);
+    try {
+      return verify(hash, data, {
+        key,
+        ...(family === 'PS' && { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST }),
+        ...(family === 'ES' && { dsaEncoding: 'ieee-p1363' as const })
+      }, signature);
+    } catch {
+      // Key type not matching alg, or a signature of the wrong shape - a bad token, not a server error
+      throw invalidToken('Invalid signature');
+    }
+  }
+
+  private findPublicKey(kid: unknown): KeyObject {
+    const candidates = typeof kid === 'string'
+      ? this.publicKeys.filter(key => key.kid === kid)
+      : this.publicKeys.length === 1 ? this.publicKeys : [];
+
+    if (candidates.length === 0) {
+      throw invalidToken(typeof kid === 'string' ? `Unknown key id: ${kid}` : 'Token has no kid and the JWKS has several keys');
+    }
+    return candidates[0].key;
+  }
+
+  private verifyClaims(claims: Record<string, unknown>, nowSeconds: number): void {
+    if (typeof claims.sub !== 'string' || claims.sub.length === 0) {
+      throw invalidToken('Token has no sub claim');
+    }
+
+    if (claims.exp === undefined) {
+      if (this.options.requireExpiration !== false) {
+        throw invalidToken('Token has no exp claim');
+      }
+    } else if (typeof claims.exp !== 'number') {
+      throw invalidToken('Token exp claim is not a number');
+    } else if (nowSeconds > claims.exp + CLOCK_SKEW_SECONDS) {
+      throw invalidToken('Token expired');
+    }
+
+    if (typeof claims.nbf === 'number' && nowSeconds < claims.nbf - CLOCK_SKEW_SECONDS) {
+      throw invalidToken('Token not yet valid');
+    }
+
+    if (this.options.issuer && claims.iss !== this.options.issuer) {
+      throw invalidToken('Unexpected issuer');
+    }
+
+    if (this.options.audience) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(this.options.audience)) {
+        throw invalidToken('Unexpected audience');
+      }
+    }
+  }
+}
+
+function decodeSegment(segment: string): Record<string, any> {
+  try {
+    const decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (decoded && typeof decoded === 'object' && !Array.isArray(decoded)) {
+      return decoded;
+    }
+  } catch {
+    // Reported below as a malformed token
+  }
+  throw invalidToken('Malformed token');
+}
+
+function invalidToken(reason: string): MCPAuthenticationError {
+  return new MCPAuthenticationError(`Invalid bearer token: ${reason}`, undefined, { method: 'jwt' });
+}
@@ -0,0 +1,50 @@
+/**
+ * mTLS Authenticator
+ * Single responsibility: Identify callers by a client certificate signed by HTTP_TLS_CLIENT_CA
+ *
+ * The HTTPS server requests a certificate but lets the handshake complete without one, so a
+ * request without a certificate can still use another method. The certificate subject CN is
+ * the identity.
+ */
+
+import type { IncomingMessage } from 'node:http';
+import type { TLSSocket } from 'node:tls';
+import { MCPAuthenticationError } from '../errors';
+import { Authenticator } from './authenticator';
+import { CallerIdentity } from './caller-identity';
+
+export class MtlsAuthenticator implements Authenticator {
+  readonly method = 'mtls' as const;
+
+  async authenticate(request: IncomingMessage): Promise<CallerIdentity | null> {
+    const socket = request.socket as TLSSocket;
+    if (typeof socket.getPeerCertificate !== 'function') {
+      return null; // Plain HTTP
+    }
+
+    const certificate = socket.getPeerCertificate();
+    if (!certificate || Object.keys(certificate).length === 0) {
+      return null;
+    }
+
+    if (!socket.authorized) {
+      throw new MCPAuthenticationError(
+        `Client certificate rejected: ${socket.authorizationError || 'not signed by HTTP_TLS_CLIENT_CA'}`,
+        undefined,
+        { method: this.method }
+      );
+    }
+
+    const commonName = Array.isArray(certificate.subject?.CN) ? certificate.subject.CN[0] : certificate.subject?.CN;
+    if (!commonName) {
+      throw new MCPAuthenticationError('Client certificate has no subject CN', undefined, { method: this.method });
+    }
+
+    return {
+      id: commonName,
+      method: this.method,
+      fingerprint: certificate.fingerprint256,
+      authenticatedAt: new Date().toISOString()
+    };
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Centrality Job
+ * Single responsibility: Compute graph centrality in-process and store it as m.centrality
+ * No GDS required - the RELATES_TO graph is loaded once and scored in memory
+ *
+ * Relations count in both directions: an architecture overview is a hub whether it points
+ * to its parts or its parts point to it. Scores are divided by the maximum, so the most
+ * central memory has 1.0 and isolated memories sit near (pagerank) or at (degree) 0.
+ */
+
+import { Session } from 'neo4j-driver';
+import { SessionFactory } from './session-factory';
+import { CentralityAlgorithm } from '../../domain/repositories/search-repository';
+
+export interface CentralityOptions {
+  algorithm?: CentralityAlgorithm;   // Default: pagerank
+  batchSize?: number;                // Memories written per statement
+}
+
+export interface CentralityReport {
+  algorithm: CentralityAlgorithm;
+  memories: number;
+  relations: number;
+  iterations: number;                // PageRank power iterations, 0 for degree
+  computedAt: string;
+}
+
+export interface WeightedEdge {
+  from: number;
+  to: number;
+  weight: number;
+}
+
+const DEFAULT_BATCH_SIZE = 1000;
+const DEFAULT_STRENGTH = 0.5;        // Relations stored before strength existed
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-6;
+
+export class CentralityJob {
+  constructor(private sessionFactory: SessionFactory) {}
+
+  /**
+   * Recompute centrality for every memory of the current database
+   */
+  async run(options: CentralityOptions = {}): Promise<CentralityReport> {
+    const algorithm = options.algorithm ?? 'pagerank';
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+      throw new Error(`batchSize must be a positive integer, got ${batchSize}`);
+    }
+
+    const session = this.sessionFactory.createSession();
+    try {
+      const ids = await this.loadMemoryIds(session);
+      const edges = await this.loadEdges(session, new Map(ids.map((id, index) => [id, index])));
+
+      const { scores, iterations } = algorithm === 'degree'
+        ? { scores: weightedDegree(ids.length, edges), iterations: 0 }
+        : pageRank(ids.length, edges);
+
+      const computedAt = new Date().toISOString();
+      await this.writeScores(session, ids, normalize(scores), computedAt, batchSize);
+
+      return { algorithm, memories: ids.length, relations: edges.length, iterations, computedAt };
+    } finally {
+      await session.close();
+    }
+  }
+
+  private async loadMemoryIds(session: Session): Promise<string[]> {
+    const result = await session.run('MATCH (m:Memory) RETURN m.id as id');
+    return result.records.map(record => record.get('id'));
+  }
+
+  private async loadEdges(session: Session, indexById: Map<string, number>): Promise<WeightedEdge[]> {
+    const result = await session.run(`
+      MATCH (a:Memory)-[r:RELATES_TO]->(b:Memory)
+      WHERE a <> b
+      RETURN a.id as fromId, b.id as toId, toFloat(coalesce(r.strength, $defaultStrength)) as strength
+    `, { defaultStrength: DEFAULT_STRENGTH });
+
+    const edges: WeightedEdge[] = [];
+    for (const record of result.records) {
+      const from = indexById.get(record.get('fromId'));
+      const to = indexById.get(record.get('toId'));
+      const weight = Number(record.get('strength'));
+      if (from === undefined || to === undefined || !(weight > 0)) continue;
+      edges.push({ from, to, weight });
+    }
+    return edges;
+  }
+
+  private async writeScores(
+    session: Session,
+    ids: string[],
+    scores: number[],
+    computedAt: string,
+    batchSize: number
+  ): Promise<void> {
+    for (let start = 0; start < ids.length; start += batchSize) {
+      const rows = ids.slice(start, start + batchSize).map((id, offset) => ({ id, score: scores[start + offset] }));
+      await session.run(`
+        UNWIND $rows as row
+        MATCH (m:Memory {id: row.id})
+        SET m.centrality = row.score, m.centralityUpdatedAt = $computedAt
+      `, { rows, computedAt });
+    }
+  }
+}
+
+/**
+ * Sum of relation strengths touching each memory
+ */
+export function weightedDegree(nodeCount: number, edges: WeightedEdge[]): number[] {
+  const degree = new Array<number>(nodeCount).fill(0);
+  for (const { from, to, weight } of edges) {
+    degree[from] += weight;
+    degree[to] += weight;
+  }
+  return degree;
+}
+
+/**
+ * Weighted PageRank by power iteration over the undirected relation graph
+ * Memories without relations spread their rank evenly (dangling mass)
+ */
+export function pageRank(nodeCount: number, edges: WeightedEdge[]): { scores: number[]; iterations: number } {
+  if (nodeCount === 0) {
+    return { scores: [], iterations: 0 };
+  }
+
+  const strength = weightedDegree(nodeCount, edges);
+  let rank = new Array<number>(nodeCount).fill(1 / nodeCount);
+  let iterations = 0;
+
+  while (iterations < MAX_ITERATIONS) {
+    iterations++;
+    const dangling = rank.reduce((sum, value, node) => (strength[node] === 0 ? sum + value : sum), 0);
+    const next = new Array<number>(nodeCount).fill((1 - DAMPING + DAMPING * dangling) / nodeCount);
+
+    for (const { from, to, weight } of edges) {
+      next[to] += DAMPING * rank[from] * weight / strength[from];
+      next[from] += DAMPING * rank[to] * weight / strength[to];
+    }
+
+    const delta = next.reduce((sum, value, node) => sum + Math.abs(value - rank[node]), 0);
+    rank = next;
+    if (delta < TOLERANCE) break;
+  }
+
+  return { scores: rank, iterations };
+}
+
+function normalize(scores: number[]): number[] {
+  const max = scores.reduce((best, score) => Math.max(best, score), 0);
+  return max > 0 ? scores.map(score => score / max) : scores.map(() => 0);
+}
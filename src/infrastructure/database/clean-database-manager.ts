@@ -7,6 +7,11 @@ import { SessionFactory } from './session-factory';
 import { IndexManager } from './index-manager';
 import { DatabaseInfo } from '../../types';
 import { MCPDatabaseError, MCPValidationError, MCPErrorCodes } from '../errors';
+import { getSearchConfig } from '../../config';
+
+export interface SwitchDatabaseOptions {
+  createIfMissing?: boolean;  // Default true - false fails with DATABASE_NOT_FOUND instead of creating
+}
 
 export class CleanDatabaseManager {
   private driverManager: Neo4jDriverManager;
@@ -17,7 +22,9 @@ export class CleanDatabaseManager {
     this.sessionFactory = sessionFactory;
   }
 
-  async switchDatabase(databaseName: string): Promise<DatabaseInfo> {
+  async switchDatabase(databaseName: string, options: SwitchDatabaseOptions = {}): Promise<DatabaseInfo> {
+    const createIfMissing = options.createIfMissing ?? true;
+
     try {
       // Normalize database name to Neo4j standards
       const normalizedName = this.normalizeDatabaseName(databaseName);
@@ -46,8 +53,14 @@ export class CleanDatabaseManager {
       // Check if database exists
       const exists = await this.databaseExists(normalizedName);
       
-      // Always create database if needed
       if (!exists) {
+        if (!createIfMissing) {
+          throw new MCPDatabaseError(
+            `Database '${normalizedName}' does not exist`,
+            MCPErrorCodes.DATABASE_NOT_FOUND,
+            { databaseName: normalizedName }
+          );
+        }
         await this.createDatabase(normalizedName);
       }
 
@@ -63,6 +76,9 @@ export class CleanDatabaseManager {
         created: !exists
       };
     } catch (error) {
+      if (error instanceof MCPDatabaseError && error.code === MCPErrorCodes.DATABASE_NOT_FOUND) {
+        throw error;
+      }
       throw new MCPDatabaseError(
         `Failed to switch to database '${databaseName}': ${error instanceof Error ? error.message : String(error)}`,
         MCPErrorCodes.DATABASE_OPERATION_FAILED,
@@ -80,6 +96,8 @@ export class CleanDatabaseManager {
     // Pass undefined dimensions - vector indexes will be skipped
     const indexManager = new IndexManager(userSession, undefined);
     await indexManager.initializeSchema();
+    await indexManager.ensureMetadataIndexes(getSearchConfig().metadataIndexedKeys);
+    await indexManager.promoteLegacyMetadata();
     await userSession.close();
   }
 
@@ -97,6 +115,8 @@ export class CleanDatabaseManager {
       if (!hasSchema) {
         await indexManager.initializeSchema();
       }
+      await indexManager.ensureMetadataIndexes(getSearchConfig().metadataIndexedKeys);
+      await indexManager.promoteLegacyMetadata();
     } finally {
       await userSession.close();
     }
@@ -134,7 +154,10 @@ export class CleanDatabaseManager {
     }
   }
 
-  private normalizeDatabaseName(name: string): string {
+  /**
+   * Neo4j form of a user-supplied name - the name switchDatabase will actually use
+   */
+  normalizeDatabaseName(name: string): string {
     if (!name || typeof name !== 'string') {
       throw new MCPValidationError(
         'Database name must be a non-empty string',
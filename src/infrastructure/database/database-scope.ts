@@ -0,0 +1,43 @@
+/**
+ * Database Scope
+ * Single responsibility: Carry the active database of one client connection through async calls
+ *
+ * The HTTP transport serves many MCP sessions from one process and one DIContainer. Each session
+ * runs its requests inside its own scope, so database_switch and every Neo4j session opened
+ * afterwards stay with that client. Outside a scope (stdio, CLIs, background jobs) the
+ * process-wide database of Neo4jDriverManager applies as before.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export interface DatabaseScope {
+  database?: string;  // Unset until the first switch - the process-wide database applies
+}
+
+const storage = new AsyncLocalStorage<DatabaseScope>();
+
+/**
+ * New scope, starting on the process-wide database unless one is given
+ * Reads no configuration - HTTP sessions open before Neo4j settings are known (tool scanning)
+ */
+export function createDatabaseScope(database?: string): DatabaseScope {
+  return { database };
+}
+
+/**
+ * Run an operation - and everything it awaits or schedules - against the scope's database
+ */
+export function runInDatabaseScope<T>(scope: DatabaseScope, operation: () => T): T {
+  return storage.run(scope, operation);
+}
+
+/**
+ * Run process-wide work (schema setup, timers) detached from the caller's scope
+ */
+export function runOutsideDatabaseScope<T>(operation: () => T): T {
+  return storage.exit(operation);
+}
+
+export function getDatabaseScope(): DatabaseScope | undefined {
+  return storage.getStore();
+}
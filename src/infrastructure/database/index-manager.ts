@@ -2,7 +2,27 @@
  * Database Index Management
  */
 
-import { Session } from 'neo4j-driver';
+import neo4j, { Session } from 'neo4j-driver';
+import { metadataPropertyName, toMetadataProperties, METADATA_KEYS_PROPERTY } from '../utilities/metadata-properties';
+
+export const VECTOR_INDEX_NAMES = [
+  'memory_name_vector_idx',
+  'observation_embedding_vector_idx',
+  'observation_chunk_vector_idx'
+] as const;
+
+/**
+ * Which stored vectors and vector indexes disagree with the configured embedding model
+ */
+export interface EmbeddingConsistencyReport {
+  expectedModel: string;
+  expectedDimensions: number;
+  indexDimensions: Record<string, number | null>;  // null: index missing
+  staleMemories: number;
+  staleObservations: number;
+  staleChunks: number;
+  consistent: boolean;
+}
 
 export class IndexManager {
   constructor(
@@ -120,7 +140,66 @@ export class IndexManager {
   }
 
   /**
-   * Ensure vector indexes exist (GDS Plugin)
+   * Ensure range indexes on promoted metadata properties (METADATA_INDEXED_KEYS)
+   * Idempotent - keys added to the setting later are indexed on the next start
+   */
+  async ensureMetadataIndexes(keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+      return;
+    }
+
+    // ZERO-FALLBACK: Fail fast if wrong database context
+    await this.validateUserDatabase();
+
+    for (const key of keys) {
+      // USAGE: metadataFilter - WHERE m.meta_<key> = $metaFilter0
+      await this.session.run(
+        `CREATE INDEX memory_meta_${key}_idx IF NOT EXISTS FOR (m:Memory) ON (m.${metadataPropertyName(key)})`
+      );
+    }
+  }
+
+  /**
+   * Promote metadata of memories written before meta_* properties existed
+   * Batches until none are left; unparseable metadata promotes nothing but is marked done
+   * Nodes are addressed by elementId - a legacy memory without an id must not be selected forever
+   */
+  async promoteLegacyMetadata(batchSize: number = 500): Promise<number> {
+    let promoted = 0;
+
+    while (true) {
+      const result = await this.session.run(`
+        MATCH (m:Memory)
+        WHERE m.${METADATA_KEYS_PROPERTY} IS NULL
+        RETURN elementId(m) as elementId, m.metadata as metadata
+        LIMIT $batchSize`, { batchSize: neo4j.int(batchSize) });
+
+      if (result.records.length === 0) {
+        return promoted;
+      }
+
+      const rows = result.records.map(record => ({
+        elementId: record.get('elementId'),
+        properties: toMetadataProperties(parseMetadata(record.get('metadata')))
+      }));
+
+      const update = await this.session.run(`
+        UNWIND $rows as row
+        MATCH (m:Memory) WHERE elementId(m) = row.elementId
+        SET m += row.properties
+        RETURN count(m) as updated`, { rows });
+
+      const updated = toNumber(update.records[0]?.get('updated'));
+      if (updated === 0) {
+        return promoted; // Nothing changed - selecting again would return the same batch
+      }
+      promoted += updated;
+    }
+  }
+
+  /**
+   * Ensure vector indexes exist (Neo4j 5.11+)
+   * VectorSearchChannel queries them natively and only falls back to GDS when they are missing
    */
   async ensureVectorIndexes(): Promise<void> {
     // ZERO-FALLBACK: Fail fast if wrong database context
@@ -139,7 +218,7 @@ export class IndexManager {
         throw new Error(`INVALID VECTOR DIMENSIONS: ${dimensions}. Model may not be loaded properly. Check embedding service configuration.`);
       }
       
-      // VERIFIED USAGE: gds.similarity.cosine(m.nameEmbedding, $queryVector)
+      // VERIFIED USAGE: db.index.vector.queryNodes('memory_name_vector_idx', $k, $queryVector)
       const memoryVectorIndex = `
         CREATE VECTOR INDEX memory_name_vector_idx IF NOT EXISTS 
         FOR (m:Memory) ON (m.nameEmbedding)
@@ -150,7 +229,7 @@ export class IndexManager {
       `;
       await this.session.run(memoryVectorIndex);
 
-      // POTENTIAL USAGE: Future observation-level vector search
+      // VERIFIED USAGE: db.index.vector.queryNodes('observation_embedding_vector_idx', $k, $queryVector)
       const observationVectorIndex = `
         CREATE VECTOR INDEX observation_embedding_vector_idx IF NOT EXISTS 
         FOR (o:Observation) ON (o.embedding)
@@ -160,9 +239,99 @@ export class IndexManager {
         }}
       `;
       await this.session.run(observationVectorIndex);
+
+      // VERIFIED USAGE: db.index.vector.queryNodes('observation_chunk_vector_idx', $k, $queryVector)
+      const chunkVectorIndex = `
+        CREATE VECTOR INDEX observation_chunk_vector_idx IF NOT EXISTS 
+        FOR (c:ObservationChunk) ON (c.embedding)
+        OPTIONS {indexConfig: {
+          \`vector.dimensions\`: ${dimensions},
+          \`vector.similarity_function\`: 'cosine'
+        }}
+      `;
+      await this.session.run(chunkVectorIndex);
       
     } catch (error) {
-      // Expected for Community Edition - silent operation
+      // Expected before Neo4j 5.11 - vector search falls back to GDS
+    }
+  }
+
+  /**
+   * Compare stored vectors and vector index dimensions with the configured model
+   * Vectors without embeddingModel predate model tracking and count as stale
+   */
+  async detectEmbeddingMismatch(expectedModel: string): Promise<EmbeddingConsistencyReport> {
+    if (!this.vectorDimensions) {
+      throw new Error('Vector dimensions required to detect embedding mismatch');
+    }
+    const expectedDimensions = this.vectorDimensions;
+
+    const indexDimensions = await this.getVectorIndexDimensions();
+    const params = { model: expectedModel, dimensions: expectedDimensions };
+
+    const memoryResult = await this.session.run(`
+      MATCH (m:Memory)
+      WHERE ${staleEmbeddingPredicate('m', 'nameEmbedding')}
+      RETURN count(m) as stale`, params);
+    const observationResult = await this.session.run(`
+      MATCH (o:Observation)
+      WHERE o.content IS NOT NULL AND trim(o.content) <> ''
+        AND ${staleEmbeddingPredicate('o', 'embedding')}
+      RETURN count(o) as stale`, params);
+    const chunkResult = await this.session.run(`
+      MATCH (c:ObservationChunk)
+      WHERE ${staleEmbeddingPredicate('c', 'embedding')}
+      RETURN count(c) as stale`, params);
+
+    const staleMemories = toNumber(memoryResult.records[0]?.get('stale'));
+    const staleObservations = toNumber(observationResult.records[0]?.get('stale'));
+    const staleChunks = toNumber(chunkResult.records[0]?.get('stale'));
+    const indexesMatch = Object.values(indexDimensions)
+      .every(dimensions => dimensions === null || dimensions === expectedDimensions);
+
+    return {
+      expectedModel,
+      expectedDimensions,
+      indexDimensions,
+      staleMemories,
+      staleObservations,
+      staleChunks,
+      consistent: indexesMatch && staleMemories === 0 && staleObservations === 0 && staleChunks === 0
+    };
+  }
+
+  /**
+   * Read configured dimensions of each vector index (null when index is missing)
+   */
+  async getVectorIndexDimensions(): Promise<Record<string, number | null>> {
+    const dimensions: Record<string, number | null> = {};
+    for (const name of VECTOR_INDEX_NAMES) {
+      dimensions[name] = null;
+    }
+
+    const result = await this.session.run(`
+      SHOW INDEXES YIELD name, type, options
+      WHERE type = 'VECTOR'
+      RETURN name, options`);
+
+    for (const record of result.records) {
+      const name = record.get('name');
+      if (name in dimensions) {
+        const configured = record.get('options')?.indexConfig?.['vector.dimensions'];
+        dimensions[name] = configured === undefined || configured === null ? null : toNumber(configured);
+      }
+    }
+    return dimensions;
+  }
+
+  /**
+   * Drop vector indexes so they can be recreated with new dimensions
+   * IF NOT EXISTS would otherwise keep the old dimensions forever
+   */
+  async dropVectorIndexes(): Promise<void> {
+    await this.validateUserDatabase();
+    for (const name of VECTOR_INDEX_NAMES) {
+      await this.session.run(`DROP INDEX ${name} IF EXISTS`);
     }
   }
 
@@ -264,3 +433,27 @@ export class IndexManager {
     }
   }
 }
+
+/**
+ * Cypher predicate matching vectors not produced by $model with $dimensions
+ * Shared with ReembeddingJob so detection and migration agree on what is stale
+ */
+export function staleEmbeddingPredicate(variable: string, property: string): string {
+  return `(${variable}.${property} IS NULL OR ${variable}.embeddingModel IS NULL OR ` +
+    `${variable}.embeddingModel <> $model OR size(${variable}.${property}) <> $dimensions)`;
+}
+
+function parseMetadata(metadata: string | null): Record<string, any> {
+  try {
+    const parsed = metadata ? JSON.parse(metadata) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toNumber(value: any): number {
+  if (typeof value === 'number') return value;
+  if (value && typeof value.toNumber === 'function') return value.toNumber();
+  return 0;
+}
@@ -5,5 +5,14 @@
 
 export { Neo4jDriverManager } from './neo4j-driver';
 export { SessionFactory } from './session-factory';
-export { IndexManager } from './index-manager';
-export { CleanDatabaseManager } from './clean-database-manager';
+export {
+  DatabaseScope,
+  createDatabaseScope,
+  runInDatabaseScope,
+  runOutsideDatabaseScope,
+  getDatabaseScope
+} from './database-scope';
+export { IndexManager, EmbeddingConsistencyReport } from './index-manager';
+export { CleanDatabaseManager, SwitchDatabaseOptions } from './clean-database-manager';
+export { ReembeddingJob, ReembeddingReport } from './reembedding-job';
+export { CentralityJob, CentralityReport } from './centrality-job';
@@ -5,16 +5,20 @@
 
 import neo4j, { Driver } from 'neo4j-driver';
 import { getNeo4jConfig } from '../../config';
+import { getDatabaseScope } from './database-scope';
 
 export class Neo4jDriverManager {
   private driver: Driver | null = null;
   private isConnected = false;
   private currentDatabase: string;
+  // Default database plus every database any client switched to - background jobs cover them all
+  private knownDatabases = new Set<string>();
 
   constructor() {
     // Initialize with default database from environment
     const config = getNeo4jConfig();
     this.currentDatabase = config.database;
+    this.knownDatabases.add(config.database);
   }
   /**
    * Initialize driver connection
@@ -67,15 +71,30 @@ export class Neo4jDriverManager {
 
   /**
    * Get current database configuration
+   * Inside a database scope (one HTTP session) the scope's database wins
    */
   getCurrentDatabase(): { database: string } {
-    return { database: this.currentDatabase };
+    return { database: getDatabaseScope()?.database ?? this.currentDatabase };
   }
 
   /**
    * Switch to a different database
+   * Inside a database scope only that scope moves - other HTTP sessions keep their database
    */
   switchDatabase(databaseName: string): void {
-    this.currentDatabase = databaseName;
+    this.knownDatabases.add(databaseName);
+    const scope = getDatabaseScope();
+    if (scope) {
+      scope.database = databaseName;
+    } else {
+      this.currentDatabase = databaseName;
+    }
+  }
+
+  /**
+   * Databases this process has served, in first-use order
+   */
+  getKnownDatabases(): string[] {
+    return [...this.knownDatabases];
   }
 }
@@ -0,0 +1,185 @@
+/**
+ * Re-embedding Job
+ * Single responsibility: Migrate stored vectors to the configured embedding model
+ * Resumable by construction - each batch commits on its own and stale nodes are re-selected
+ * on every pass, so an interrupted run continues where it stopped when started again
+ */
+
+import neo4j, { Session } from 'neo4j-driver';
+import { SessionFactory } from './session-factory';
+import { IndexManager, EmbeddingConsistencyReport, staleEmbeddingPredicate } from './index-manager';
+import { EmbeddingService } from '../services/embedding-service';
+
+export interface ReembeddingOptions {
+  batchSize?: number;
+  dryRun?: boolean;                                   // Report only, change nothing
+  onProgress?: (progress: ReembeddingProgress) => void;
+}
+
+type ReembeddingLabel = 'Memory' | 'Observation' | 'ObservationChunk';
+
+export interface ReembeddingProgress {
+  label: ReembeddingLabel;
+  processed: number;
+  remaining: number;
+}
+
+export interface ReembeddingReport {
+  before: EmbeddingConsistencyReport;
+  after: EmbeddingConsistencyReport;
+  memoriesUpdated: number;
+  observationsUpdated: number;
+  chunksUpdated: number;
+  indexesRebuilt: boolean;
+}
+
+interface StaleTarget {
+  label: ReembeddingLabel;
+  property: string;
+  textExpression: string;
+  textFilter: string;
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+
+const TARGETS: StaleTarget[] = [
+  { label: 'Memory', property: 'nameEmbedding', textExpression: 'n.name', textFilter: 'n.name IS NOT NULL' },
+  {
+    label: 'Observation',
+    property: 'embedding',
+    textExpression: 'n.content',
+    textFilter: "n.content IS NOT NULL AND trim(n.content) <> ''"
+  },
+  { label: 'ObservationChunk', property: 'embedding', textExpression: 'n.content', textFilter: 'n.content IS NOT NULL' }
+];
+
+export class ReembeddingJob {
+  constructor(
+    private sessionFactory: SessionFactory,
+    private embeddingService: EmbeddingService
+  ) {}
+
+  /**
+   * Recompute stale vectors and rebuild vector indexes when their dimensions changed
+   * Zero-fallback: An embedding failure aborts the run - committed batches are kept
+   */
+  async run(options: ReembeddingOptions = {}): Promise<ReembeddingReport> {
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+      throw new Error(`batchSize must be a positive integer, got ${batchSize}`);
+    }
+
+    const model = this.embeddingService.getModelIdentity();
+    const dimensions = await this.embeddingService.getModelDimensions();
+
+    const session = this.sessionFactory.createSession();
+    try {
+      const indexManager = new IndexManager(session, dimensions);
+      const before = await indexManager.detectEmbeddingMismatch(model);
+
+      if (options.dryRun || before.consistent) {
+        return {
+          before,
+          after: before,
+          memoriesUpdated: 0,
+          observationsUpdated: 0,
+          chunksUpdated: 0,
+          indexesRebuilt: false
+        };
+      }
+
+      // Old-dimension indexes would skip the new vectors - drop them before writing
+      const indexesRebuilt = Object.values(before.indexDimensions)
+        .some(indexDimensions => indexDimensions !== null && indexDimensions !== dimensions);
+      if (indexesRebuilt) {
+        await indexManager.dropVectorIndexes();
+      }
+
+      const remaining = {
+        Memory: before.staleMemories,
+        Observation: before.staleObservations,
+        ObservationChunk: before.staleChunks
+      };
+      const updated = { Memory: 0, Observation: 0, ObservationChunk: 0 };
+
+      for (const target of TARGETS) {
+        let batch: number;
+        do {
+          batch = await this.reembedBatch(session, target, model, dimensions, batchSize);
+          updated[target.label] += batch;
+          options.onProgress?.({
+            label: target.label,
+            processed: updated[target.label],
+            remaining: Math.max(remaining[target.label] - updated[target.label], 0)
+          });
+        } while (batch === batchSize);
+      }
+
+      await indexManager.ensureVectorIndexes();
+      const after = await indexManager.detectEmbeddingMismatch(model);
+
+      return {
+        before,
+        after,
+        memoriesUpdated: updated.Memory,
+        observationsUpdated: updated.Observation,
+        chunksUpdated: updated.ObservationChunk,
+        indexesRebuilt
+      };
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Re-embed one batch of stale nodes and commit it, returning how many were written
+   * Timestamps are left alone - re-embedding is not a user modification
+   * Nodes are addressed by elementId - a node with a missing or duplicate id must not be selected forever
+   */
+  private async reembedBatch(
+    session: Session,
+    target: StaleTarget,
+    model: string,
+    dimensions: number,
+    batchSize: number
+  ): Promise<number> {
+    const result = await session.run(`
+      MATCH (n:${target.label})
+      WHERE ${target.textFilter}
+        AND ${staleEmbeddingPredicate('n', target.property)}
+      RETURN elementId(n) as elementId, n.id as id, ${target.textExpression} as text
+      LIMIT $batchSize`,
+      { model, dimensions, batchSize: neo4j.int(batchSize) }
+    );
+
+    if (result.records.length === 0) {
+      return 0;
+    }
+
+    const embeddings = await this.embeddingService.calculateEmbeddings(
+      result.records.map(record => record.get('text'))
+    );
+    const rows = result.records.map((record, index) => {
+      const embedding = embeddings[index];
+      if (embedding.length !== dimensions) {
+        // Node would stay stale and be selected again forever
+        throw new Error(`Embedding for ${target.label} ${record.get('id')} has ${embedding.length} dimensions, expected ${dimensions}`);
+      }
+      return { elementId: record.get('elementId') as string, embedding };
+    });
+
+    // Auto-commit per batch - progress survives interruption
+    const update = await session.run(`
+      UNWIND $rows as row
+      MATCH (n:${target.label}) WHERE elementId(n) = row.elementId
+      SET n.${target.property} = row.embedding,
+          n.embeddingModel = $model,
+          n.embeddingDimensions = $dimensions
+      RETURN count(n) as updated`,
+      { rows, model, dimensions }
+    );
+
+    // Nothing written ends the target - selecting again would return the same batch
+    return neo4j.integer.toNumber(update.records[0]?.get('updated') ?? 0);
+  }
+}
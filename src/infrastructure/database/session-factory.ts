@@ -23,6 +23,13 @@ export class SessionFactory {
     });
   }
 
+  /**
+   * Database createSession() opens without an explicit name
+   */
+  getCurrentDatabase(): { database: string } {
+    return this.driverManager.getCurrentDatabase();
+  }
+
   /**
    * Create system session for database management
    */
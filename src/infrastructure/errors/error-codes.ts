@@ -40,6 +40,7 @@ export const MCPErrorCodes = {
   EMPTY_QUERY: -29024,
   INVALID_LIMIT: -29025,
   INVALID_THRESHOLD: -29026,
+  INVALID_CURSOR: -29027,
 
   // Resource errors (-30xxx range)
   MEMORY_NOT_FOUND: -30001,
@@ -66,6 +67,7 @@ export const MCPErrorCodes = {
   UNAUTHORIZED: -32001,
   INVALID_SESSION: -32002,
   SESSION_EXPIRED: -32003,
+  PERMISSION_DENIED: -32004,
 
   // Operation errors (-33xxx range)
   OPERATION_TIMEOUT: -33001,
@@ -93,6 +93,34 @@ export class MCPResourceNotFoundError extends MCPError {
   }
 }
 
+/**
+ * Authentication Error - Missing, invalid or mismatched caller credentials
+ * Maps to HTTP 401 on the streamable HTTP transport
+ */
+export class MCPAuthenticationError extends MCPError {
+  constructor(
+    message: string,
+    code: MCPErrorCode = MCPErrorCodes.UNAUTHORIZED,
+    data?: unknown
+  ) {
+    super(message, code, data);
+  }
+}
+
+/**
+ * Permission Error - Authenticated caller not allowed by the database policy
+ * Raised by the handler layer before any database work starts
+ */
+export class MCPPermissionError extends MCPError {
+  constructor(
+    message: string,
+    code: MCPErrorCode = MCPErrorCodes.PERMISSION_DENIED,
+    data?: unknown
+  ) {
+    super(message, code, data);
+  }
+}
+
 /**
  * Operation Error - Operation-specific failures
  * Maps to JSON-RPC error code -32603 (Internal error)
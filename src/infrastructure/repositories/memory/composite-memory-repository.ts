@@ -6,7 +6,10 @@
 
 import { Memory } from '../../../domain/entities/memory';
 import { MemoryRepository } from '../../../domain/repositories/memory-repository';
+import { SearchOrder } from '../../../domain/repositories/search-repository';
 import { SessionFactory } from '../../database/session-factory';
+import { EmbeddingService } from '../../services/embedding-service';
+import { ObservationChunker } from '../../services/observation-chunker';
 import { Session } from 'neo4j-driver';
 
 import { CoreMemoryRepository, CoreMemoryData } from './core-memory-repository';
@@ -20,10 +23,14 @@ export class CompositeMemoryRepository implements MemoryRepository {
   private obsRepo: ObservationRepository;
   private relRepo: RelationRepository;
 
-  constructor(private sessionFactory: SessionFactory) {
+  constructor(
+    private sessionFactory: SessionFactory,
+    embeddingService: EmbeddingService,
+    chunker?: ObservationChunker
+  ) {
     this.coreRepo = new CoreMemoryRepository();
     this.graphRepo = new GraphContextRepository();
-    this.obsRepo = new ObservationRepository();
+    this.obsRepo = new ObservationRepository(embeddingService, chunker);
     this.relRepo = new RelationRepository();
   }
 
@@ -47,14 +54,14 @@ export class CompositeMemoryRepository implements MemoryRepository {
     return memories.length > 0 ? memories[0] : null;
   }
 
-  async findByIds(ids: string[]): Promise<Memory[]> {
+  async findByIds(ids: string[], order?: SearchOrder): Promise<Memory[]> {
     if (!ids || ids.length === 0) {
       return [];
     }
 
     return await this.sessionFactory.withSession(async (session: Session) => {
       // Get core memory data
-      const coreMemories = await this.coreRepo.getCoreMemoryData(session, ids);
+      const coreMemories = await this.coreRepo.getCoreMemoryData(session, ids, order);
       
       if (coreMemories.length === 0) {
         return [];
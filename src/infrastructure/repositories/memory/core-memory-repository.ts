@@ -6,7 +6,10 @@
 
 import { Session } from 'neo4j-driver';
 import { Memory } from '../../../domain/entities/memory';
+import { SearchOrder } from '../../../domain/repositories/search-repository';
 import { MCPDatabaseError, MCPValidationError, MCPErrorCodes } from '../../errors';
+import { METADATA_KEYS_PROPERTY, toMetadataProperties } from '../../utilities/metadata-properties';
+import { timestampSortKey } from '../../utilities/keyset-pagination';
 
 export interface CoreMemoryData {
   id: string;
@@ -33,8 +36,11 @@ export class CoreMemoryRepository {
         createdAt: $createdAt,
         modifiedAt: $modifiedAt,
         lastAccessed: $lastAccessed,
-        nameEmbedding: $nameEmbedding
+        nameEmbedding: $nameEmbedding,
+        embeddingModel: $embeddingModel,
+        embeddingDimensions: $embeddingDimensions
       })
+      SET m += $metadataProperties
       RETURN m`;
 
     try {
@@ -43,10 +49,13 @@ export class CoreMemoryRepository {
         name: memory.name,
         memoryType: memory.memoryType,
         metadata: JSON.stringify(memory.metadata || {}),
+        metadataProperties: toMetadataProperties(memory.metadata),
         createdAt: this.toISOString(memory.createdAt),
         modifiedAt: this.toISOString(memory.modifiedAt),
         lastAccessed: this.toISOString(memory.lastAccessed),
-        nameEmbedding: (memory as any).nameEmbedding || null
+        nameEmbedding: (memory as any).nameEmbedding || null,
+        embeddingModel: (memory as any).embeddingModel || null,
+        embeddingDimensions: (memory as any).nameEmbedding?.length ?? null
       });
 
       if (result.records.length === 0) {
@@ -84,17 +93,12 @@ export class CoreMemoryRepository {
   /**
    * Get core memory data by IDs (no graph context, no observations)
    */
-  async getCoreMemoryData(session: Session, ids: string[]): Promise<CoreMemoryData[]> {
+  async getCoreMemoryData(session: Session, ids: string[], order?: SearchOrder): Promise<CoreMemoryData[]> {
     if (!ids || ids.length === 0) {
       return [];
     }
 
-    // Update lastAccessed for all requested memories
-    await session.run(
-      'MATCH (m:Memory) WHERE m.id IN $ids SET m.lastAccessed = $timestamp',
-      { ids, timestamp: new Date().toISOString() }
-    );
-
+    // Read and sort before access tracking - ordering by lastAccessed must see the previous values
     const cypher = `
       MATCH (m:Memory)
       WHERE m.id IN $ids
@@ -105,10 +109,17 @@ export class CoreMemoryRepository {
              m.createdAt as createdAt,
              m.modifiedAt as modifiedAt,
              m.lastAccessed as lastAccessed
-      ORDER BY m.name
+      ORDER BY ${order ? `${timestampSortKey(`m.${order.property}`)} ${order.direction}, m.name` : 'm.name'}
     `;
 
     const result = await session.run(cypher, { ids });
+
+    // Update lastAccessed and the access count (search boosting signal) for all requested memories
+    const timestamp = new Date().toISOString();
+    await session.run(
+      'MATCH (m:Memory) WHERE m.id IN $ids SET m.lastAccessed = $timestamp, m.accessCount = coalesce(m.accessCount, 0) + 1',
+      { ids, timestamp }
+    );
     
     return result.records.map(record => ({
       id: record.get('id'),
@@ -117,7 +128,7 @@ export class CoreMemoryRepository {
       metadata: this.parseMetadata(record.get('metadata')),
       createdAt: record.get('createdAt'),
       modifiedAt: record.get('modifiedAt'),
-      lastAccessed: record.get('lastAccessed')
+      lastAccessed: timestamp
     }));
   }
 
@@ -160,14 +171,26 @@ export class CoreMemoryRepository {
           m.memoryType = $memoryType,
           m.metadata = $metadata,
           m.modifiedAt = $modifiedAt
+      SET m += $metadataProperties
       RETURN m`;
     
     try {
+      // Promoted keys are dynamic property names - read them to null out removed keys
+      const promoted = await session.run(
+        `MATCH (m:Memory {id: $id}) RETURN m.${METADATA_KEYS_PROPERTY} as metaKeys`,
+        { id: memory.id }
+      );
+      const previousKeys = promoted.records[0]?.get('metaKeys');
+
       const result = await session.run(updateCypher, {
         id: memory.id,
         name: memory.name,
         memoryType: memory.memoryType,
         metadata: JSON.stringify(memory.metadata || {}),
+        metadataProperties: toMetadataProperties(
+          memory.metadata,
+          Array.isArray(previousKeys) ? previousKeys : []
+        ),
         modifiedAt: this.toISOString(memory.modifiedAt)
       });
       
@@ -216,9 +239,10 @@ export class CoreMemoryRepository {
     const cypher = `
       MATCH (m:Memory {id: $memoryId})
       
-      // Delete observations
+      // Delete observations and their chunks
       OPTIONAL MATCH (m)-[:HAS_OBSERVATION]->(o:Observation)
-      DETACH DELETE o
+      OPTIONAL MATCH (o)-[:HAS_CHUNK]->(c:ObservationChunk)
+      DETACH DELETE o, c
       
       WITH m
       // Delete memory relationships
@@ -6,7 +6,8 @@
 
 import { Session } from 'neo4j-driver';
 import { generateCompactId } from '../../../id_generator';
-import { calculateEmbedding } from '../../utilities';
+import { EmbeddingService } from '../../services/embedding-service';
+import { ObservationChunker } from '../../services/observation-chunker';
 import { MCPDatabaseError, MCPValidationError, MCPServiceError, MCPErrorCodes } from '../../errors';
 
 export interface ObservationData {
@@ -15,21 +16,48 @@ export interface ObservationData {
   createdAt: string;
 }
 
+interface ChunkData {
+  id: string;
+  position: number;
+  content: string;
+  embedding: number[];
+}
+
 export class ObservationRepository {
 
+  constructor(
+    private embeddingService: EmbeddingService,
+    private chunker: ObservationChunker = new ObservationChunker()
+  ) {}
+
   /**
    * Create observations for a memory (batch operation)
+   * All contents and their chunks are validated and embedded in one batch before the first write
    */
   async createObservations(session: Session, memoryId: string, contents: string[]): Promise<void> {
     for (const content of contents) {
-      await this.createSingleObservation(session, memoryId, content);
+      this.validateContent(content, memoryId);
+    }
+    if (contents.length === 0) {
+      return;
+    }
+
+    const chunkTexts = contents.map(content => this.chunker.split(content));
+    const embeddings = await this.calculateEmbeddings(memoryId, [...contents, ...chunkTexts.flat()]);
+    let cursor = contents.length;
+
+    for (let i = 0; i < contents.length; i++) {
+      const chunks = chunkTexts[i].map((content, position) => ({
+        id: generateCompactId(),
+        position,
+        content,
+        embedding: embeddings[cursor++]
+      }));
+      await this.createSingleObservation(session, memoryId, contents[i], embeddings[i], chunks);
     }
   }
 
-  /**
-   * Create single observation with embedding calculation
-   */
-  private async createSingleObservation(session: Session, memoryId: string, content: string): Promise<void> {
+  private validateContent(content: unknown, memoryId: string): void {
     // THE VETERAN'S PARANOIA: Someone is passing objects instead of strings
     if (typeof content !== 'string' || !content.trim()) {
       throw new MCPValidationError(
@@ -38,50 +66,78 @@ export class ObservationRepository {
         { receivedType: typeof content, memoryId }
       );
     }
-    
+  }
+
+  /**
+   * ZERO-FALLBACK ARCHITECTURE: Embedding calculation must succeed or operation fails
+   */
+  private async calculateEmbeddings(memoryId: string, contents: string[]): Promise<number[][]> {
+    try {
+      return await this.embeddingService.calculateEmbeddings(contents);
+    } catch (error) {
+      if (error instanceof MCPValidationError || error instanceof MCPServiceError) {
+        throw error;
+      }
+      throw new MCPServiceError(
+        `Embedding service failed: ${error instanceof Error ? error.message : String(error)}`,
+        MCPErrorCodes.EMBEDDING_SERVICE_ERROR,
+        { memoryId, observationCount: contents.length }
+      );
+    }
+  }
+
+  /**
+   * Create single observation with precomputed embeddings
+   * Chunks hang off the observation so search can score it by its best passage
+   */
+  private async createSingleObservation(
+    session: Session,
+    memoryId: string,
+    content: string,
+    embedding: number[],
+    chunks: ChunkData[]
+  ): Promise<void> {
     const obsId = generateCompactId();
     
     try {
-      // ZERO-FALLBACK ARCHITECTURE: Embedding calculation must succeed or operation fails
-      const embedding = await calculateEmbedding(content);
-
       await session.run(`
         MATCH (m:Memory {id: $memoryId})
         CREATE (o:Observation {
           id: $obsId,
           content: $content,
           createdAt: $timestamp,
-          embedding: $embedding
+          embedding: $embedding,
+          embeddingModel: $embeddingModel,
+          embeddingDimensions: $embeddingDimensions
         })
-        CREATE (m)-[:HAS_OBSERVATION]->(o)`,
+        CREATE (m)-[:HAS_OBSERVATION]->(o)
+        WITH o
+        UNWIND $chunks as chunk
+        CREATE (o)-[:HAS_CHUNK]->(:ObservationChunk {
+          id: chunk.id,
+          position: chunk.position,
+          content: chunk.content,
+          embedding: chunk.embedding,
+          embeddingModel: $embeddingModel,
+          embeddingDimensions: $embeddingDimensions
+        })`,
         { 
           memoryId, 
           obsId, 
           content, 
           timestamp: new Date().toISOString(),
-          embedding
+          embedding,
+          embeddingModel: this.embeddingService.getModelIdentity(),
+          embeddingDimensions: embedding.length,
+          chunks
         }
       );
     } catch (error) {
-      if (error instanceof MCPValidationError) {
-        throw error; // Re-throw validation errors
-      }
-      
-      if (error instanceof Error) {
-        if (error.message.includes('Cannot calculate embedding')) {
-          throw new MCPServiceError(
-            `Embedding service failed: ${error.message}`,
-            MCPErrorCodes.EMBEDDING_SERVICE_ERROR,
-            { observationId: obsId, memoryId }
-          );
-        }
-        
-        if (error.message.includes('ServiceUnavailable')) {
-          throw new MCPDatabaseError(
-            'Database service unavailable',
-            MCPErrorCodes.DATABASE_UNAVAILABLE
-          );
-        }
+      if (error instanceof Error && error.message.includes('ServiceUnavailable')) {
+        throw new MCPDatabaseError(
+          'Database service unavailable',
+          MCPErrorCodes.DATABASE_UNAVAILABLE
+        );
       }
       
       throw new MCPDatabaseError(
@@ -93,13 +149,14 @@ export class ObservationRepository {
   }
 
   /**
-   * Delete observations by IDs
+   * Delete observations by IDs, together with their chunks
    */
   async deleteObservations(session: Session, memoryId: string, observationIds: string[]): Promise<void> {
     await session.run(`
       MATCH (m:Memory {id: $memoryId})-[:HAS_OBSERVATION]->(o:Observation)
       WHERE o.id IN $observationIds
-      DETACH DELETE o`,
+      OPTIONAL MATCH (o)-[:HAS_CHUNK]->(c:ObservationChunk)
+      DETACH DELETE o, c`,
       { memoryId, observationIds }
     );
   }
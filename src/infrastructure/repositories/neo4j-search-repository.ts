@@ -7,40 +7,80 @@
 
 import { SearchRepository, SearchRequest, SearchResult } from '../../domain/repositories/search-repository';
 import { SessionFactory } from '../database/session-factory';
+import { EmbeddingService, PrecomputedEmbeddingService } from '../services/embedding-service';
 import { SimplifiedSearchService, SimpleSearchResult } from '../services/search/simplified-search-service';
+import { QueryClassifier, QueryType } from '../services/search/query-classifier';
 
 /**
  * Simplified search repository implementation
  * Direct execution with mathematical scoring
  */
 export class Neo4jSearchRepository implements SearchRepository {
-  constructor(private sessionFactory: SessionFactory) {}
+  constructor(
+    private sessionFactory: SessionFactory,
+    private embeddingService: EmbeddingService
+  ) {}
 
   /**
    * Execute search with simplified service
    * Performance targets: <100ms exact, <500ms vector
    */
   async search(request: SearchRequest): Promise<SearchResult[]> {
-    const session = this.sessionFactory.createSession();
+    const { database } = this.sessionFactory.getCurrentDatabase();
+    const session = this.sessionFactory.createSession(database);
     
     try {
-      const searchService = new SimplifiedSearchService(session);
-      
-      const results = await searchService.search(
-        request.query,
-        request.limit || 10,
-        request.includeGraphContext !== false, // Default true
-        request.memoryTypes,
-        request.threshold || 0.1
-      );
+      const searchService = new SimplifiedSearchService(session, this.embeddingService, database);
+      return await this.executeSearch(searchService, request);
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Execute several searches over one session
+   * Semantic query texts are embedded in one batch up front and reused by every channel
+   */
+  async searchBatch(requests: SearchRequest[]): Promise<SearchResult[][]> {
+    const classifier = new QueryClassifier();
+    const semanticTexts = requests
+      .map(request => classifier.classify(request.query))
+      .filter(intent => intent.type === QueryType.SEMANTIC_SEARCH)
+      .map(intent => intent.preprocessing.normalized);
 
-      // Convert SimpleSearchResult to SearchResult format
-      return this.convertToSearchResults(results);
+    const embeddingService = await PrecomputedEmbeddingService.prepare(this.embeddingService, semanticTexts);
+    const { database } = this.sessionFactory.getCurrentDatabase();
+    const session = this.sessionFactory.createSession(database);
+
+    try {
+      const searchService = new SimplifiedSearchService(session, embeddingService, database);
+      const results: SearchResult[][] = [];
+      // One session runs one query at a time - sequential by design
+      for (const request of requests) {
+        results.push(await this.executeSearch(searchService, request));
+      }
+      return results;
     } finally {
       await session.close();
     }
   }
 
+  private async executeSearch(searchService: SimplifiedSearchService, request: SearchRequest): Promise<SearchResult[]> {
+    const { query, limit, includeGraphContext, memoryTypes, threshold, ...options } = request;
+
+    const results = await searchService.search(
+      query,
+      limit || 10,
+      includeGraphContext !== false, // Default true
+      memoryTypes,
+      threshold || 0.1,
+      options
+    );
+
+    // Convert SimpleSearchResult to SearchResult format
+    return this.convertToSearchResults(results);
+  }
+
   /**
    * Convert simplified results to legacy SearchResult format
    * Maintains backward compatibility with existing use cases
@@ -53,13 +93,14 @@ export class Neo4jSearchRepository implements SearchRepository {
         memoryType: result.type,
         observations: result.observations,
         metadata: result.metadata,
-        createdAt: result.createdAt ? new Date(result.createdAt) : new Date(),
-        modifiedAt: result.modifiedAt ? new Date(result.modifiedAt) : new Date(),
-        lastAccessed: result.lastAccessed ? new Date(result.lastAccessed) : new Date(),
+        createdAt: result.createdAt ? new Date(result.createdAt) : undefined,
+        modifiedAt: result.modifiedAt ? new Date(result.modifiedAt) : undefined,
+        lastAccessed: result.lastAccessed ? new Date(result.lastAccessed) : undefined,
         related: result.related
       },
       score: result.score || 0,
-      matchType: this.determineMatchType(result.matchType)
+      matchType: this.determineMatchType(result.matchType),
+      ...(result.explanation && { explanation: result.explanation })
     }));
   }
 
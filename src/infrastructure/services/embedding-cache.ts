@@ -0,0 +1,172 @@
+/**
+ * Embedding Cache
+ * Single responsibility: LRU memo of vectors keyed by content hash of (model, normalized text)
+ * Agents repeat searches and re-store near-identical observations - identical text never
+ * needs a second model call
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+export interface EmbeddingCacheStats {
+  size: number;
+  maxSize: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+const FLUSH_DELAY = 5000; // ms - batch writes after bursts of new embeddings
+
+interface PersistedCache {
+  version: 1;
+  entries: Array<[string, number[]]>;
+}
+
+export class EmbeddingCache {
+  // Map keeps insertion order - first key is least recently used
+  private entries = new Map<string, number[]>();
+  private hits = 0;
+  private misses = 0;
+  private loadPromise: Promise<void> | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private maxSize: number,
+    private filePath?: string
+  ) {}
+
+  /**
+   * Cache key: whitespace and Unicode form do not change meaning, case does
+   */
+  static keyFor(model: string, text: string): string {
+    const normalized = text.normalize('NFC').trim().replace(/\s+/g, ' ');
+    return createHash('sha256').update(model).update('\0').update(normalized).digest('hex');
+  }
+
+  async get(model: string, text: string): Promise<number[] | undefined> {
+    if (this.maxSize === 0) {
+      return undefined;
+    }
+    await this.ensureLoaded();
+
+    const key = EmbeddingCache.keyFor(model, text);
+    const vector = this.entries.get(key);
+    if (!vector) {
+      this.misses++;
+      return undefined;
+    }
+
+    // Refresh recency
+    this.entries.delete(key);
+    this.entries.set(key, vector);
+    this.hits++;
+    return [...vector];
+  }
+
+  async set(model: string, text: string, vector: number[]): Promise<void> {
+    if (this.maxSize === 0) {
+      return;
+    }
+    await this.ensureLoaded();
+    this.store(EmbeddingCache.keyFor(model, text), [...vector]);
+    this.scheduleFlush();
+  }
+
+  getStats(): EmbeddingCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.entries.size,
+      maxSize: this.maxSize,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups
+    };
+  }
+
+  /**
+   * Write cache to disk (no-op without file)
+   * Written to a temp file first - a crash mid-write never leaves a truncated cache
+   */
+  async persist(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.filePath || this.maxSize === 0) {
+      return;
+    }
+    await this.ensureLoaded();
+
+    const payload: PersistedCache = { version: 1, entries: [...this.entries] };
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(payload));
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  private store(key: string, vector: number[]): void {
+    this.entries.delete(key);
+    this.entries.set(key, vector);
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Debounced background write - stdio servers exit without a graceful shutdown
+   */
+  private scheduleFlush(): void {
+    if (!this.filePath || this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.persist().catch(() => {
+        // Persistence is best effort - next flush retries
+      });
+    }, FLUSH_DELAY);
+    this.flushTimer.unref();
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Load persisted entries once
+   * A missing or unreadable file only means a cold cache - vectors are recomputable
+   */
+  private async load(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    let payload: PersistedCache;
+    try {
+      payload = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch {
+      return;
+    }
+
+    if (payload?.version !== 1 || !Array.isArray(payload.entries)) {
+      return;
+    }
+    for (const [key, vector] of payload.entries) {
+      if (typeof key === 'string' && Array.isArray(vector)) {
+        this.store(key, vector);
+      }
+    }
+  }
+}
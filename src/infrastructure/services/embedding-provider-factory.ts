@@ -0,0 +1,33 @@
+/**
+ * Embedding Provider Factory
+ * Single responsibility: Select embedding backend from EMBEDDING_PROVIDER configuration
+ */
+
+import { getVectorConfig } from '../../config';
+import { EmbeddingProvider } from './embedding-provider';
+import { SmartEmbeddingManager } from './smart-embedding-manager';
+import { OpenAICompatibleEmbeddingProvider } from './openai-embedding-provider';
+import { HashEmbeddingProvider, DEFAULT_HASH_DIMENSIONS } from './hash-embedding-provider';
+
+type VectorConfig = ReturnType<typeof getVectorConfig>;
+
+export function createEmbeddingProvider(config: VectorConfig = getVectorConfig()): EmbeddingProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAICompatibleEmbeddingProvider({
+        apiUrl: config.apiUrl,
+        apiKey: config.apiKey,
+        timeout: config.apiTimeout,
+        modelName: config.modelName,
+        dimensions: config.dimensions,
+        batchSize: config.batchSize
+      });
+    case 'hash':
+      return new HashEmbeddingProvider(
+        typeof config.dimensions === 'number' ? config.dimensions : DEFAULT_HASH_DIMENSIONS
+      );
+    case 'xenova':
+    default:
+      return new SmartEmbeddingManager();
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Embedding Provider Contract
+ * Single responsibility: Define what every embedding backend must offer
+ * Implementations: SmartEmbeddingManager (xenova), OpenAICompatibleEmbeddingProvider (openai),
+ * HashEmbeddingProvider (hash)
+ */
+
+import { EmbeddingProviderName } from '../../config';
+import { MCPServiceError, MCPErrorCodes } from '../errors';
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly modelName: string;  // Model identity within the provider - recorded on every stored vector
+  calculateEmbedding(text: string): Promise<number[]>;
+  calculateEmbeddings(texts: string[]): Promise<number[][]>;  // Same order as input
+  getModelDimensions(): Promise<number>;
+  preloadModel(): Promise<void>;
+  shutdown(): Promise<void>;
+}
+
+/**
+ * Split texts into model-call sized chunks
+ */
+export function chunkTexts(texts: string[], size: number): string[][] {
+  const chunks: string[][] = [];
+  for (let i = 0; i < texts.length; i += size) {
+    chunks.push(texts.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Cosine similarity shared by all providers - vector math does not depend on the backend
+ */
+export function cosineSimilarity(vector1: number[], vector2: number[]): number {
+  // Safety checks
+  if (!vector1 || !vector2 || !Array.isArray(vector1) || !Array.isArray(vector2)) {
+    return 0;
+  }
+  
+  // Ensure same length
+  if (vector1.length !== vector2.length) {
+    return 0;
+  }
+  
+  try {
+    let dotProduct = 0;
+    let mag1 = 0;
+    let mag2 = 0;
+    
+    for (let i = 0; i < vector1.length; i++) {
+      if (typeof vector1[i] !== 'number' || typeof vector2[i] !== 'number') {
+        continue;
+      }
+      dotProduct += vector1[i] * vector2[i];
+      mag1 += vector1[i] * vector1[i];
+      mag2 += vector2[i] * vector2[i];
+    }
+    
+    mag1 = Math.sqrt(mag1);
+    mag2 = Math.sqrt(mag2);
+    
+    if (mag1 === 0 || mag2 === 0) {
+      return 0;
+    }
+    
+    return dotProduct / (mag1 * mag2);
+  } catch (error) {
+    throw new MCPServiceError(
+      `Similarity calculation failed: ${error instanceof Error ? error.message : String(error)}`,
+      MCPErrorCodes.EMBEDDING_SERVICE_ERROR,
+      { operation: 'calculateSimilarity' }
+    );
+  }
+}
+
+/**
+ * Mean of unit-normalized vectors - each source text weighs the same regardless of its norm
+ */
+export function centroidVector(vectors: number[][]): number[] {
+  const sum = new Array<number>(vectors[0].length).fill(0);
+  for (const vector of vectors) {
+    const norm = Math.sqrt(vector.reduce((acc, value) => acc + value * value, 0)) || 1;
+    for (let i = 0; i < vector.length; i++) {
+      sum[i] += vector[i] / norm;
+    }
+  }
+  return sum.map(value => value / vectors.length);
+}
@@ -1,44 +1,150 @@
 /**
  * Vector Embedding Service - Clean Architecture Wrapper
- * Single responsibility: Interface adapter for smart embedding manager
+ * Single responsibility: Interface adapter for the configured embedding provider
  */
 
-import { SmartEmbeddingManager } from './smart-embedding-manager';
+import { EmbeddingProviderName } from '../../config';
+import { EmbeddingProvider, cosineSimilarity } from './embedding-provider';
+import { EmbeddingCache, EmbeddingCacheStats } from './embedding-cache';
 
 export interface EmbeddingService {
   calculateEmbedding(text: string): Promise<number[]>;
+  calculateEmbeddings(texts: string[]): Promise<number[][]>;
   calculateSimilarity(vector1: number[], vector2: number[]): number;
   getModelDimensions(): Promise<number>;
+  getModelIdentity(): string;
 }
 
 /**
- * Clean implementation that wraps the smart embedding manager
- * Eliminates code duplication and centralizes embedding logic
+ * Clean implementation that wraps any embedding provider
+ * Provider selection lives in createEmbeddingProvider - this class stays backend-agnostic
+ * Optional cache sits here so every caller (observations, search, memory names) shares it
  */
-export class XenovaEmbeddingService implements EmbeddingService {
-  private embeddingManager: SmartEmbeddingManager;
+export class ProviderEmbeddingService implements EmbeddingService {
 
-  constructor() {
-    this.embeddingManager = new SmartEmbeddingManager();
+  constructor(
+    private provider: EmbeddingProvider,
+    private cache?: EmbeddingCache
+  ) {}
+
+  get providerName(): EmbeddingProviderName {
+    return this.provider.name;
   }
 
   async calculateEmbedding(text: string): Promise<number[]> {
-    return this.embeddingManager.calculateEmbedding(text);
+    if (!this.cache) {
+      return this.provider.calculateEmbedding(text);
+    }
+
+    const model = this.getModelIdentity();
+    const cached = await this.cache.get(model, text);
+    if (cached) {
+      return cached;
+    }
+
+    const embedding = await this.provider.calculateEmbedding(text);
+    await this.cache.set(model, text, embedding);
+    return embedding;
+  }
+
+  /**
+   * Batch path for bulk writes - cached texts are skipped and duplicates embedded once
+   */
+  async calculateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (!this.cache) {
+      return this.provider.calculateEmbeddings(texts);
+    }
+
+    const model = this.getModelIdentity();
+    const results: Array<number[] | undefined> = [];
+    const pending = new Map<string, number[]>();  // text -> result positions
+
+    for (let i = 0; i < texts.length; i++) {
+      const cached = await this.cache.get(model, texts[i]);
+      results.push(cached);
+      if (!cached) {
+        pending.set(texts[i], [...(pending.get(texts[i]) || []), i]);
+      }
+    }
+
+    if (pending.size > 0) {
+      const missing = [...pending.keys()];
+      const embeddings = await this.provider.calculateEmbeddings(missing);
+      for (let i = 0; i < missing.length; i++) {
+        await this.cache.set(model, missing[i], embeddings[i]);
+        for (const position of pending.get(missing[i])!) {
+          results[position] = embeddings[i];
+        }
+      }
+    }
+
+    return results as number[][];
   }
 
   calculateSimilarity(vector1: number[], vector2: number[]): number {
-    return this.embeddingManager.calculateSimilarity(vector1, vector2);
+    return cosineSimilarity(vector1, vector2);
   }
 
   async getModelDimensions(): Promise<number> {
-    return this.embeddingManager.getModelDimensions();
+    return this.provider.getModelDimensions();
+  }
+
+  /**
+   * Identity stored as embeddingModel next to every vector - provider and model both shape the vector space
+   */
+  getModelIdentity(): string {
+    return `${this.provider.name}:${this.provider.modelName}`;
   }
 
   async preloadModel(): Promise<void> {
-    return this.embeddingManager.preloadModel();
+    return this.provider.preloadModel();
+  }
+
+  getCacheStats(): EmbeddingCacheStats | null {
+    return this.cache ? this.cache.getStats() : null;
   }
 
   async shutdown(): Promise<void> {
-    return this.embeddingManager.shutdown();
+    if (this.cache) {
+      await this.cache.persist();
+    }
+    return this.provider.shutdown();
+  }
+}
+
+/**
+ * Request-scoped embeddings computed up front in one batch
+ * Lets several searches of one request reuse their query vectors - with or without the cache
+ */
+export class PrecomputedEmbeddingService implements EmbeddingService {
+  private constructor(
+    private inner: EmbeddingService,
+    private embeddings: Map<string, number[]>
+  ) {}
+
+  static async prepare(inner: EmbeddingService, texts: string[]): Promise<PrecomputedEmbeddingService> {
+    const unique = [...new Set(texts)];
+    const vectors = unique.length > 0 ? await inner.calculateEmbeddings(unique) : [];
+    return new PrecomputedEmbeddingService(inner, new Map(unique.map((text, i) => [text, vectors[i]])));
+  }
+
+  async calculateEmbedding(text: string): Promise<number[]> {
+    return this.embeddings.get(text) ?? this.inner.calculateEmbedding(text);
+  }
+
+  async calculateEmbeddings(texts: string[]): Promise<number[][]> {
+    return this.inner.calculateEmbeddings(texts);
+  }
+
+  calculateSimilarity(vector1: number[], vector2: number[]): number {
+    return this.inner.calculateSimilarity(vector1, vector2);
+  }
+
+  async getModelDimensions(): Promise<number> {
+    return this.inner.getModelDimensions();
+  }
+
+  getModelIdentity(): string {
+    return this.inner.getModelIdentity();
   }
 }
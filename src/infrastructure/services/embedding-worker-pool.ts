@@ -0,0 +1,312 @@
+/**
+ * Embedding Worker Pool
+ * Single responsibility: Schedule xenova inference on worker threads through a request queue
+ * Inference is CPU-bound - on the main event loop one long observation stalls every HTTP session
+ * Size 0 runs the same queue inline on the main thread (tests, single-core deployments)
+ */
+
+import { Worker } from 'worker_threads';
+import { existsSync } from 'fs';
+import { MCPServiceError, MCPErrorCodes } from '../errors';
+import { loadXenovaPipeline, embedWithPipeline } from './xenova-pipeline';
+import type { EmbeddingWorkerReply } from './embedding-worker';
+
+/**
+ * One inference slot - runs one request at a time
+ */
+export interface EmbeddingExecutor {
+  embed(texts: string[]): Promise<number[][]>;
+  isAlive(): boolean;
+  terminate(): Promise<void>;
+}
+
+export type EmbeddingExecutorFactory = () => EmbeddingExecutor;
+
+export interface EmbeddingWorkerPoolOptions {
+  size: number;                              // Worker threads, 0 = inline on main thread
+  modelName: string;
+  idleTimeout: number;                       // ms without requests before executors are torn down
+  createExecutor?: EmbeddingExecutorFactory; // Override for tests
+}
+
+interface QueuedRequest {
+  texts: string[];
+  resolve: (embeddings: number[][]) => void;
+  reject: (error: Error) => void;
+}
+
+interface Slot {
+  executor: EmbeddingExecutor;
+  busy: boolean;
+}
+
+export class EmbeddingWorkerPool {
+  private slots: Slot[] = [];
+  private queue: QueuedRequest[] = [];
+  private idleTimer: NodeJS.Timeout | null = null;
+  private readonly capacity: number;
+  private readonly createExecutor: EmbeddingExecutorFactory;
+
+  constructor(private options: EmbeddingWorkerPoolOptions) {
+    if (!Number.isInteger(options.size) || options.size < 0) {
+      throw new MCPServiceError(
+        `Embedding worker pool size must be a non-negative integer, got ${options.size}`,
+        MCPErrorCodes.EMBEDDING_SERVICE_ERROR
+      );
+    }
+    this.capacity = Math.max(options.size, 1);
+    this.createExecutor = options.createExecutor ?? (options.size === 0
+      ? () => new InlineExecutor(options.modelName)
+      : () => new WorkerExecutor(resolveWorkerScript(), options.modelName));
+  }
+
+  /**
+   * Queue texts for inference - resolves with one vector per text, in order
+   * Zero-fallback: Executor failures reject with MCPServiceError
+   */
+  embed(texts: string[]): Promise<number[][]> {
+    this.clearIdleTimer();
+    return new Promise((resolve, reject) => {
+      this.queue.push({ texts, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  getStats(): { workers: number; busy: number; queued: number } {
+    return {
+      workers: this.slots.length,
+      busy: this.slots.filter(slot => slot.busy).length,
+      queued: this.queue.length
+    };
+  }
+
+  /**
+   * Terminate executors and reject queued requests
+   * The pool stays usable - the next request spawns fresh executors
+   */
+  async shutdown(): Promise<void> {
+    this.clearIdleTimer();
+    const queued = this.queue.splice(0);
+    for (const request of queued) {
+      request.reject(new MCPServiceError(
+        'Embedding worker pool shut down before request was processed',
+        MCPErrorCodes.EMBEDDING_SERVICE_ERROR
+      ));
+    }
+    await this.terminateAll();
+  }
+
+  private dispatch(): void {
+    // Crashed executors give their slot back
+    this.slots = this.slots.filter(slot => slot.executor.isAlive());
+
+    while (this.queue.length > 0) {
+      let slot: Slot | null;
+      try {
+        slot = this.acquireSlot();
+      } catch (error) {
+        // Executor could not start - fail the request instead of leaving it queued forever
+        this.queue.shift()!.reject(toServiceError(error));
+        continue;
+      }
+      if (!slot) {
+        return; // All executors busy - request waits in queue
+      }
+      this.run(slot, this.queue.shift()!);
+    }
+  }
+
+  private acquireSlot(): Slot | null {
+    const idle = this.slots.find(slot => !slot.busy);
+    if (idle) {
+      return idle;
+    }
+    if (this.slots.length >= this.capacity) {
+      return null;
+    }
+
+    const slot: Slot = { executor: this.createExecutor(), busy: false };
+    this.slots.push(slot);
+    return slot;
+  }
+
+  private run(slot: Slot, request: QueuedRequest): void {
+    slot.busy = true;
+    slot.executor.embed(request.texts)
+      .then(request.resolve, error => request.reject(toServiceError(error)))
+      .finally(() => {
+        slot.busy = false;
+        this.dispatch();
+        this.scheduleIdleTeardown();
+      });
+  }
+
+  /**
+   * Release models after idleTimeout without requests - each worker holds its own copy
+   */
+  private scheduleIdleTeardown(): void {
+    if (this.queue.length > 0 || this.slots.some(slot => slot.busy)) {
+      return;
+    }
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      this.terminateAll().catch(() => {
+        // Termination is best effort - executors are dropped either way
+      });
+    }, this.options.idleTimeout);
+    this.idleTimer.unref();
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  private async terminateAll(): Promise<void> {
+    const slots = this.slots.splice(0);
+    await Promise.all(slots.map(slot => slot.executor.terminate()));
+  }
+}
+
+/**
+ * Runs the pipeline on the calling thread - used when EMBEDDING_WORKERS=0
+ */
+class InlineExecutor implements EmbeddingExecutor {
+  private modelPromise: Promise<any> | null = null;
+
+  constructor(private modelName: string) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    let model: any;
+    try {
+      if (!this.modelPromise) {
+        this.modelPromise = loadXenovaPipeline(this.modelName);
+      }
+      model = await this.modelPromise;
+    } catch (error) {
+      this.modelPromise = null; // Next request retries the load
+      throw embeddingFailure('load', errorMessage(error), this.modelName);
+    }
+
+    try {
+      return await embedWithPipeline(model, texts);
+    } catch (error) {
+      throw embeddingFailure('embed', errorMessage(error), this.modelName);
+    }
+  }
+
+  isAlive(): boolean {
+    return true;
+  }
+
+  async terminate(): Promise<void> {
+    this.modelPromise = null;
+  }
+}
+
+/**
+ * Runs the pipeline in a dedicated worker thread with its own model copy
+ */
+class WorkerExecutor implements EmbeddingExecutor {
+  private worker: Worker;
+  private alive = true;
+  private nextId = 0;
+  private pending: { id: number; resolve: (embeddings: number[][]) => void; reject: (error: Error) => void } | null = null;
+
+  constructor(script: URL, private modelName: string) {
+    this.worker = new Worker(script, { workerData: { modelName } });
+    this.worker.on('message', (reply: EmbeddingWorkerReply) => this.handleReply(reply));
+    this.worker.on('error', (error) => this.fail(`Embedding worker crashed: ${error.message}`));
+    this.worker.on('exit', (code) => this.fail(`Embedding worker exited with code ${code}`));
+  }
+
+  embed(texts: string[]): Promise<number[][]> {
+    if (!this.alive) {
+      return Promise.reject(embeddingFailure('embed', 'Embedding worker is not running', this.modelName));
+    }
+    return new Promise((resolve, reject) => {
+      this.pending = { id: ++this.nextId, resolve, reject };
+      this.worker.postMessage({ id: this.nextId, texts });
+    });
+  }
+
+  isAlive(): boolean {
+    return this.alive;
+  }
+
+  async terminate(): Promise<void> {
+    this.alive = false;
+    await this.worker.terminate();
+  }
+
+  private handleReply(reply: EmbeddingWorkerReply): void {
+    const pending = this.pending;
+    if (!pending || pending.id !== reply.id) {
+      return;
+    }
+    this.pending = null;
+
+    if ('error' in reply) {
+      pending.reject(embeddingFailure(reply.stage, reply.error, this.modelName));
+    } else {
+      pending.resolve(reply.embeddings);
+    }
+  }
+
+  private fail(message: string): void {
+    this.alive = false;
+    const pending = this.pending;
+    this.pending = null;
+    pending?.reject(embeddingFailure('embed', message, this.modelName));
+  }
+}
+
+/**
+ * Locate the bundled worker entry - dist/embedding-worker.mjs next to the importing chunk
+ */
+function resolveWorkerScript(): URL {
+  const candidates = [
+    new URL('./embedding-worker.mjs', import.meta.url),
+    new URL('../embedding-worker.mjs', import.meta.url)
+  ];
+  const script = candidates.find(candidate => existsSync(candidate));
+  if (!script) {
+    throw new MCPServiceError(
+      'Embedding worker script not found - run from the built package or set EMBEDDING_WORKERS=0',
+      MCPErrorCodes.EMBEDDING_SERVICE_ERROR,
+      { searched: candidates.map(candidate => candidate.pathname) }
+    );
+  }
+  return script;
+}
+
+function embeddingFailure(stage: 'load' | 'embed', message: string, model: string): MCPServiceError {
+  return stage === 'load'
+    ? new MCPServiceError(
+        `Failed to load embedding model: ${message}`,
+        MCPErrorCodes.EMBEDDING_SERVICE_ERROR,
+        { model, originalError: message }
+      )
+    : new MCPServiceError(
+        `Embedding calculation failed: ${message}`,
+        MCPErrorCodes.EMBEDDING_SERVICE_ERROR,
+        { originalError: message }
+      );
+}
+
+function toServiceError(error: unknown): Error {
+  return error instanceof MCPServiceError
+    ? error
+    : new MCPServiceError(
+        `Embedding calculation failed: ${errorMessage(error)}`,
+        MCPErrorCodes.EMBEDDING_SERVICE_ERROR,
+        { originalError: errorMessage(error) }
+      );
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
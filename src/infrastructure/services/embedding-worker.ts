@@ -0,0 +1,43 @@
+/**
+ * Embedding Worker
+ * Single responsibility: Run xenova inference off the main event loop
+ * Protocol: receives { id, texts }, replies { id, embeddings } or { id, stage, error }
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { loadXenovaPipeline, embedWithPipeline } from './xenova-pipeline';
+
+export interface EmbeddingWorkerRequest {
+  id: number;
+  texts: string[];
+}
+
+export type EmbeddingWorkerReply =
+  | { id: number; embeddings: number[][] }
+  | { id: number; stage: 'load' | 'embed'; error: string };
+
+let modelPromise: Promise<any> | null = null;
+
+parentPort?.on('message', async ({ id, texts }: EmbeddingWorkerRequest) => {
+  let model: any;
+  try {
+    if (!modelPromise) {
+      modelPromise = loadXenovaPipeline(workerData.modelName);
+    }
+    model = await modelPromise;
+  } catch (error) {
+    modelPromise = null; // Next request retries the load
+    parentPort!.postMessage({ id, stage: 'load', error: errorMessage(error) });
+    return;
+  }
+
+  try {
+    parentPort!.postMessage({ id, embeddings: await embedWithPipeline(model, texts) });
+  } catch (error) {
+    parentPort!.postMessage({ id, stage: 'embed', error: errorMessage(error) });
+  }
+});
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
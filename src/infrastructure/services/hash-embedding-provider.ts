@@ -0,0 +1,75 @@
+/**
+ * Hash Embedding Provider
+ * Single responsibility: Deterministic, model-free embeddings for tests and offline development
+ * Feature hashing of word tokens - same text always yields the same vector and texts sharing
+ * words score higher cosine similarity. Lexical only, not semantic.
+ */
+
+import { MCPValidationError, MCPErrorCodes } from '../errors';
+import { EmbeddingProvider } from './embedding-provider';
+
+export const DEFAULT_HASH_DIMENSIONS = 384; // Matches the default xenova model
+
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hash' as const;
+  readonly modelName = 'fnv1a';
+
+  constructor(private dimensions: number = DEFAULT_HASH_DIMENSIONS) {
+    if (!Number.isInteger(dimensions) || dimensions <= 0) {
+      throw new MCPValidationError(
+        `Hash embedding dimensions must be a positive integer, got ${dimensions}`,
+        MCPErrorCodes.INVALID_ENVIRONMENT_CONFIG
+      );
+    }
+  }
+
+  async calculateEmbedding(text: string): Promise<number[]> {
+    if (!text || text.trim() === '') {
+      throw new MCPValidationError(
+        'Cannot calculate embedding for empty text',
+        MCPErrorCodes.VALIDATION_FAILED
+      );
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [text.trim()];
+
+    for (const token of tokens) {
+      const hash = this.fnv1a(token);
+      const sign = hash & 0x80000000 ? -1 : 1; // Signed hashing keeps collisions unbiased
+      vector[hash % this.dimensions] += sign;
+    }
+
+    // L2 normalize like the model-backed providers
+    const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return magnitude === 0 ? vector : vector.map(value => value / magnitude);
+  }
+
+  async calculateEmbeddings(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.calculateEmbedding(text)));
+  }
+
+  async getModelDimensions(): Promise<number> {
+    return this.dimensions;
+  }
+
+  async preloadModel(): Promise<void> {
+    // Nothing to load
+  }
+
+  async shutdown(): Promise<void> {
+    // Nothing to release
+  }
+
+  /**
+   * 32-bit FNV-1a - stable across processes and platforms
+   */
+  private fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -1,2 +1,6 @@
 export * from './search';
-export { EmbeddingService } from './embedding-service';
+export { EmbeddingService, ProviderEmbeddingService, PrecomputedEmbeddingService } from './embedding-service';
+export { EmbeddingProvider, cosineSimilarity } from './embedding-provider';
+export { createEmbeddingProvider } from './embedding-provider-factory';
+export { EmbeddingCache, EmbeddingCacheStats } from './embedding-cache';
+export { ObservationChunker, ChunkingOptions } from './observation-chunker';
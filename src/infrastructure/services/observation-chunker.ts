@@ -0,0 +1,110 @@
+/**
+ * Observation Chunker
+ * Single responsibility: Split long observations into overlapping windows for embedding
+ * MiniLM-class models truncate input - a long note embedded whole keeps only its opening
+ * Tokens are whitespace-separated words, a model-independent approximation of wordpieces
+ */
+
+import { getVectorConfig, ChunkingStrategy } from '../../config';
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategy;
+  chunkSize: number;   // Tokens per chunk
+  overlap: number;     // Tokens shared with the previous chunk
+}
+
+export class ObservationChunker {
+  private options: ChunkingOptions;
+
+  constructor(options?: ChunkingOptions) {
+    if (options) {
+      this.options = options;
+    } else {
+      const config = getVectorConfig();
+      this.options = { strategy: config.chunkStrategy, chunkSize: config.chunkSize, overlap: config.chunkOverlap };
+    }
+  }
+
+  /**
+   * Chunks for content, or [] when it fits in one window
+   * Short observations are fully represented by their own embedding
+   */
+  split(content: string): string[] {
+    const tokens = tokenize(content);
+    if (this.options.strategy === 'none' || tokens.length <= this.options.chunkSize) {
+      return [];
+    }
+
+    const windows = this.options.strategy === 'sentence'
+      ? this.packSentences(content)
+      : this.slidingWindows(tokens);
+    return windows.map(window => window.join(' '));
+  }
+
+  /**
+   * Fixed windows of chunkSize tokens advancing by chunkSize - overlap
+   */
+  private slidingWindows(tokens: string[]): string[][] {
+    const { chunkSize, overlap } = this.options;
+    const windows: string[][] = [];
+    for (let start = 0; ; start += chunkSize - overlap) {
+      windows.push(tokens.slice(start, start + chunkSize));
+      if (start + chunkSize >= tokens.length) {
+        return windows;
+      }
+    }
+  }
+
+  /**
+   * Whole sentences packed up to chunkSize tokens
+   * Trailing sentences of up to overlap tokens are repeated at the start of the next chunk;
+   * sentences longer than a chunk fall back to sliding windows
+   */
+  private packSentences(content: string): string[][] {
+    const { chunkSize, overlap } = this.options;
+    const units = splitSentences(content).flatMap(sentence => {
+      const tokens = tokenize(sentence);
+      return tokens.length > chunkSize ? this.slidingWindows(tokens) : [tokens];
+    });
+
+    const chunks: string[][] = [];
+    let current: string[][] = [];
+    let currentSize = 0;
+
+    for (const unit of units) {
+      if (current.length > 0 && currentSize + unit.length > chunkSize) {
+        chunks.push(current.flat());
+
+        // Carry trailing sentences into the next chunk while they fit the overlap
+        const carried: string[][] = [];
+        let carriedSize = 0;
+        for (let i = current.length - 1; i >= 0; i--) {
+          const size = current[i].length;
+          if (carriedSize + size > overlap || carriedSize + size + unit.length > chunkSize) {
+            break;
+          }
+          carried.unshift(current[i]);
+          carriedSize += size;
+        }
+        current = carried;
+        currentSize = carriedSize;
+      }
+      current.push(unit);
+      currentSize += unit.length;
+    }
+
+    chunks.push(current.flat());
+    return chunks;
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(token => token.length > 0);
+}
+
+function splitSentences(content: string): string[] {
+  return content
+    .split(/(?<=[.!?…])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
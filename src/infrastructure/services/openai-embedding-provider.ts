@@ -0,0 +1,146 @@
+/**
+ * OpenAI-Compatible Embedding Provider
+ * Single responsibility: Embeddings from any /v1/embeddings endpoint (OpenAI, Ollama, LM Studio, vLLM)
+ * ZERO-FALLBACK: Unreachable endpoints and malformed responses fail with the endpoint in the error
+ */
+
+import { MCPServiceError, MCPValidationError, MCPErrorCodes } from '../errors';
+import { EmbeddingProvider, chunkTexts } from './embedding-provider';
+
+export interface OpenAICompatibleConfig {
+  apiUrl: string;
+  apiKey?: string;
+  modelName: string;
+  dimensions: number | 'auto';
+  batchSize?: number;
+  timeout?: number;  // ms per request - a hung endpoint must not hold a write forever
+}
+
+const DEFAULT_BATCH_SIZE = 32;
+const DEFAULT_TIMEOUT = 30000;
+
+interface EmbeddingsResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  private modelDimensions: number = 0;
+
+  constructor(private config: OpenAICompatibleConfig) {}
+
+  get modelName(): string {
+    return this.config.modelName;
+  }
+
+  async calculateEmbedding(text: string): Promise<number[]> {
+    if (!text || text.trim() === '') {
+      throw new MCPValidationError(
+        'Cannot calculate embedding for empty text',
+        MCPErrorCodes.VALIDATION_FAILED
+      );
+    }
+
+    const [embedding] = await this.requestEmbeddings([text]);
+    return embedding;
+  }
+
+  async calculateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (texts.some(text => !text || text.trim() === '')) {
+      throw new MCPValidationError(
+        'Cannot calculate embedding for empty text',
+        MCPErrorCodes.VALIDATION_FAILED
+      );
+    }
+
+    // Endpoints cap inputs per request - one request per chunk
+    const embeddings: number[][] = [];
+    for (const chunk of chunkTexts(texts, this.config.batchSize || DEFAULT_BATCH_SIZE)) {
+      embeddings.push(...await this.requestEmbeddings(chunk));
+    }
+    return embeddings;
+  }
+
+  async getModelDimensions(): Promise<number> {
+    if (this.modelDimensions === 0) {
+      // Auto-detect dimensions with a probe request, same as the local model
+      this.modelDimensions = this.config.dimensions === 'auto'
+        ? (await this.calculateEmbedding('test')).length
+        : this.config.dimensions;
+    }
+    return this.modelDimensions;
+  }
+
+  async preloadModel(): Promise<void> {
+    // Remote model - preloading verifies the endpoint answers
+    await this.getModelDimensions();
+  }
+
+  async shutdown(): Promise<void> {
+    this.modelDimensions = 0;
+  }
+
+  /**
+   * POST {apiUrl}/embeddings and return vectors in input order
+   */
+  private async requestEmbeddings(input: string[]): Promise<number[][]> {
+    const endpoint = `${this.config.apiUrl}/embeddings`;
+    const timeout = this.config.timeout || DEFAULT_TIMEOUT;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model: this.config.modelName, input }),
+        signal: AbortSignal.timeout(timeout)
+      });
+    } catch (error) {
+      const reason = error instanceof Error && error.name === 'TimeoutError'
+        ? `no response within ${timeout}ms`
+        : error instanceof Error ? error.message : String(error);
+      throw new MCPServiceError(
+        `Embedding endpoint unreachable: ${reason}`,
+        MCPErrorCodes.EMBEDDING_SERVICE_ERROR,
+        { endpoint, model: this.config.modelName }
+      );
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new MCPServiceError(
+        `Embedding endpoint returned ${response.status}: ${body.slice(0, 200)}`,
+        MCPErrorCodes.EMBEDDING_SERVICE_ERROR,
+        { endpoint, model: this.config.modelName, status: response.status }
+      );
+    }
+
+    let payload: EmbeddingsResponse;
+    try {
+      payload = await response.json() as EmbeddingsResponse;
+    } catch (error) {
+      throw new MCPServiceError(
+        `Embedding endpoint returned invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        MCPErrorCodes.EMBEDDING_SERVICE_ERROR,
+        { endpoint, model: this.config.modelName, status: response.status }
+      );
+    }
+
+    if (!Array.isArray(payload?.data) || payload.data.length !== input.length ||
+        payload.data.some(item => !Array.isArray(item?.embedding))) {
+      throw new MCPServiceError(
+        'Embedding endpoint returned malformed response',
+        MCPErrorCodes.EMBEDDING_SERVICE_ERROR,
+        { endpoint, model: this.config.modelName, expected: input.length }
+      );
+    }
+
+    return [...payload.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
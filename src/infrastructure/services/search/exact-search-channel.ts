@@ -6,6 +6,8 @@
 import { Session } from 'neo4j-driver';
 import neo4j from 'neo4j-driver';
 import { MCPServiceError, MCPErrorCodes } from '../../errors';
+import { SearchDateFilter } from '../../../domain/repositories/search-repository';
+import { sanitizeLuceneQuery } from '../../utilities/lucene-query';
 
 export interface ExactMatchCandidate {
   id: string;
@@ -16,6 +18,8 @@ export interface ExactMatchCandidate {
     exactName: boolean;
     exactContent: boolean;
   };
+  luceneScore?: number;  // Best FULLTEXT score across metadata and content (unbounded)
+  nameScore?: number;    // Share of the name covered by the query, 1.0 for an exact name
 }
 
 export class ExactSearchChannel {
@@ -28,17 +32,24 @@ export class ExactSearchChannel {
   async search(
     normalizedQuery: string,
     limit: number,
-    memoryTypes?: string[]
+    memoryTypes?: string[],
+    dateFilter?: SearchDateFilter,
+    luceneQuery?: string   // Pre-compiled by the query language, otherwise the sanitized query
   ): Promise<ExactMatchCandidate[]> {
     // Strategy: Use FULLTEXT for content, exact matching for structured data
     
     // Step 1: Get FULLTEXT candidates for metadata and observations
-    const fulltextCandidates = await this.searchFulltext(normalizedQuery, limit, memoryTypes);
+    const fulltextCandidates = await this.searchFulltext(
+      luceneQuery ?? sanitizeLuceneQuery(normalizedQuery),
+      limit,
+      memoryTypes,
+      dateFilter
+    );
     
     // Step 2: Get exact name matches (case-insensitive)  
-    const nameMatches = await this.searchExactName(normalizedQuery, limit, memoryTypes);
+    const nameMatches = await this.searchExactName(normalizedQuery, limit, memoryTypes, dateFilter);
     
-    // Step 3: Combine and deduplicate - memory type filtering already applied at Cypher level
+    // Step 3: Combine and deduplicate - type and date filtering already applied at Cypher level
     const candidateMap = new Map<string, ExactMatchCandidate>();
     
     // Add name matches first (highest priority)
@@ -52,6 +63,7 @@ export class ExactSearchChannel {
         const existing = candidateMap.get(candidate.id)!;
         existing.matchTypes.exactMetadata = existing.matchTypes.exactMetadata || candidate.matchTypes.exactMetadata;
         existing.matchTypes.exactContent = existing.matchTypes.exactContent || candidate.matchTypes.exactContent;
+        existing.luceneScore = maxScore(existing.luceneScore, candidate.luceneScore);
       } else {
         candidateMap.set(candidate.id, candidate);
       }
@@ -79,30 +91,27 @@ export class ExactSearchChannel {
    * THE FIX: Actually use the indexes we created instead of bypassing them
    */
   private async searchFulltext(
-    query: string,
+    sanitizedQuery: string,
     limit: number,
-    memoryTypes?: string[]
+    memoryTypes?: string[],
+    dateFilter?: SearchDateFilter
   ): Promise<ExactMatchCandidate[]> {
     const candidates: ExactMatchCandidate[] = [];
     
-    // Sanitize query for Lucene to prevent ParseException
-    const sanitizedQuery = this.sanitizeLuceneQuery(query);
-    
     try {
-      // Build memory type filter for FULLTEXT queries
-      let memoryTypeJoin = '';
-      if (memoryTypes && memoryTypes.length > 0) {
-        memoryTypeJoin = 'WHERE node.memoryType IN $memoryTypes';
-      }
+      // Memory type and date filters share the same WHERE clause for both FULLTEXT queries
+      const memoryFilter = this.buildMemoryFilter(memoryTypes, dateFilter);
+      const filterParams = { memoryTypes, ...(dateFilter?.params || {}) };
 
-      // Search memory metadata using FULLTEXT index with type filtering
+      // Search memory metadata using FULLTEXT index with type/date filtering
       const metadataQuery = `
         CALL db.index.fulltext.queryNodes('memory_metadata_idx', $query)
         YIELD node, score
-        ${memoryTypeJoin}
-        RETURN node.id as id, 
-               node.name as name, 
-               node.metadata as metadata,
+        WITH node AS m, score
+        ${memoryFilter}
+        RETURN m.id as id, 
+               m.name as name, 
+               m.metadata as metadata,
                score
         LIMIT $limit
       `;
@@ -110,7 +119,7 @@ export class ExactSearchChannel {
       const metadataResult = await this.session.run(metadataQuery, { 
         query: sanitizedQuery, 
         limit: neo4j.int(limit),
-        memoryTypes
+        ...filterParams
       });
       
       for (const record of metadataResult.records) {
@@ -122,16 +131,17 @@ export class ExactSearchChannel {
             exactMetadata: true,
             exactName: false,
             exactContent: false
-          }
+          },
+          luceneScore: toScore(record.get('score'))
         });
       }
       
-      // Search observation content using FULLTEXT index with type filtering
+      // Search observation content using FULLTEXT index with type/date filtering
       const contentQuery = `
         CALL db.index.fulltext.queryNodes('observation_content_idx', $query)
         YIELD node, score
         MATCH (m:Memory)-[:HAS_OBSERVATION]->(node)
-        ${memoryTypes && memoryTypes.length > 0 ? 'WHERE m.memoryType IN $memoryTypes' : ''}
+        ${memoryFilter}
         RETURN DISTINCT m.id as id,
                         m.name as name,
                         m.metadata as metadata,
@@ -142,7 +152,7 @@ export class ExactSearchChannel {
       const contentResult = await this.session.run(contentQuery, { 
         query: sanitizedQuery, 
         limit: neo4j.int(limit),
-        memoryTypes
+        ...filterParams
       });
       
       for (const record of contentResult.records) {
@@ -151,6 +161,7 @@ export class ExactSearchChannel {
         
         if (existing) {
           existing.matchTypes.exactContent = true;
+          existing.luceneScore = maxScore(existing.luceneScore, toScore(record.get('score')));
         } else {
           candidates.push({
             id,
@@ -160,7 +171,8 @@ export class ExactSearchChannel {
               exactMetadata: false,
               exactName: false,
               exactContent: true
-            }
+            },
+            luceneScore: toScore(record.get('score'))
           });
         }
       }
@@ -197,7 +209,8 @@ export class ExactSearchChannel {
   private async searchExactName(
     normalizedQuery: string,
     limit: number,
-    memoryTypes?: string[]
+    memoryTypes?: string[],
+    dateFilter?: SearchDateFilter
   ): Promise<ExactMatchCandidate[]> {
     let whereClause = 'WHERE toLower(m.name) CONTAINS $query';
     
@@ -205,6 +218,10 @@ export class ExactSearchChannel {
       whereClause += ' AND m.memoryType IN $memoryTypes';
     }
     
+    if (dateFilter?.cypher) {
+      whereClause += ` AND ${dateFilter.cypher}`;
+    }
+    
     const cypher = `
       MATCH (m:Memory)
       ${whereClause}
@@ -219,7 +236,8 @@ export class ExactSearchChannel {
     const result = await this.session.run(cypher, {
       query: normalizedQuery,
       memoryTypes,
-      limit: neo4j.int(limit)
+      limit: neo4j.int(limit),
+      ...(dateFilter?.params || {})
     });
 
     return result.records.map(record => ({
@@ -230,53 +248,36 @@ export class ExactSearchChannel {
         exactMetadata: false,
         exactName: true,
         exactContent: false
-      }
+      },
+      nameScore: this.calculateNameScore(record.get('name'), normalizedQuery)
     }));
   }
 
   /**
-   * Sanitize query for Lucene FULLTEXT search to prevent ParseException
-   * Escape special characters that break Lucene parser
-   * DOUBLE-ESCAPE PROTECTION: Check for existing escapes before adding new ones
-   * SECURITY FIX: Escape ALL BASE85 special characters to prevent injection
-   * 
-   * Lucene special characters: + - && || ! ( ) { } [ ] ^ " ~ * ? : \ /
-   * BASE85 additional risky chars: @ . # $ % = ; _ `
-   * Lucene operators: AND, OR, NOT, TO (must be uppercase to be operators)
+   * Name coverage: a query matching the whole name scores 1.0, a short substring of a long name scores low
    */
-  private sanitizeLuceneQuery(query: string): string {
-    if (!query || typeof query !== 'string') {
-      return '';
-    }
-    
-    // First pass: neutralize Lucene operators by converting to lowercase
-    let neutralized = query
-      .replace(/\bAND\b/g, 'and')
-      .replace(/\bOR\b/g, 'or')
-      .replace(/\bNOT\b/g, 'not')
-      .replace(/\bTO\b/g, 'to');
+  private calculateNameScore(name: string | null, normalizedQuery: string): number {
+    if (!name) return 0;
+    const lowerName = name.toLowerCase();
+    if (lowerName === normalizedQuery) return 1.0;
+    return Math.min(normalizedQuery.length / lowerName.length, 1.0);
+  }
+
+  /**
+   * Build WHERE clause for memory type and date constraints on `m`
+   */
+  private buildMemoryFilter(memoryTypes?: string[], dateFilter?: SearchDateFilter): string {
+    const clauses: string[] = [];
     
-    // Second pass: Escape all non-alphanumeric except backslash
-    let result = '';
+    if (memoryTypes && memoryTypes.length > 0) {
+      clauses.push('m.memoryType IN $memoryTypes');
+    }
     
-    for (let i = 0; i < neutralized.length; i++) {
-      const char = neutralized[i];
-      const prevChar = i > 0 ? neutralized[i - 1] : '';
-      
-      // Check if this is alphanumeric, space, or backslash
-      if (/^[0-9A-Za-z\s\\]$/.test(char)) {
-        result += char;
-      } else {
-        // It's a special character - escape if not already escaped
-        if (prevChar !== '\\') {
-          result += '\\' + char;
-        } else {
-          result += char;
-        }
-      }
+    if (dateFilter?.cypher) {
+      clauses.push(dateFilter.cypher);
     }
     
-    return result;
+    return clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
   }
 
   private parseMetadata(metadata: string | null): Record<string, any> {
@@ -288,3 +289,13 @@ export class ExactSearchChannel {
     }
   }
 }
+
+function toScore(value: unknown): number | undefined {
+  return typeof value === 'number' && !isNaN(value) ? value : undefined;
+}
+
+function maxScore(a?: number, b?: number): number | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Math.max(a, b);
+}
@@ -4,7 +4,36 @@
  */
 
 export { QueryClassifier, QueryIntent, QueryType } from './query-classifier';
+export {
+  QueryNode,
+  QueryField,
+  CompiledQuery,
+  hasQuerySyntax,
+  parseSearchQuery,
+  compileSearchQuery,
+  withQueryFilter
+} from './query-language';
 export { ExactSearchChannel, ExactMatchCandidate } from './exact-search-channel';
-export { VectorSearchChannel, VectorCandidate } from './vector-search-channel';
+export { VectorSearchChannel, VectorCandidate, VectorSearchStrategy } from './vector-search-channel';
 export { WildcardSearchService } from './wildcard-search-service';
 export { SimplifiedSearchService, SimpleSearchResult } from './simplified-search-service';
+export { ObservationMatcher, highlightFragments } from './observation-matcher';
+export { MmrReranker, MmrCandidate } from './mmr-reranker';
+export {
+  RankingBooster,
+  ResolvedBoost,
+  BoostCandidate,
+  BoostSignals,
+  resolveSearchBoost,
+  isBoostEnabled
+} from './ranking-booster';
+export { SimilarMemorySearch, SimilarMemoryOptions, SimilarMemoryCandidate } from './similar-memory-search';
+export {
+  SearchScorer,
+  ScoringCandidate,
+  ScoredCandidate,
+  FixedScorer,
+  WeightedScorer,
+  ReciprocalRankFusionScorer,
+  createSearchScorer
+} from './search-scorer';
@@ -0,0 +1,93 @@
+/**
+ * MMR Reranker - Maximal Marginal Relevance Diversification
+ * Single responsibility: Reorder scored candidates so the top results cover distinct facets
+ *
+ * Greedy selection of argmax  λ · relevance − (1 − λ) · max similarity to already selected.
+ * λ = 1 keeps pure relevance order, λ = 0 maximizes diversity.
+ * A memory is represented by the centroid of its stored name and observation vectors;
+ * memories without vectors of the current model count as dissimilar to everything.
+ */
+
+import { Session } from 'neo4j-driver';
+import { EmbeddingService } from '../embedding-service';
+import { centroidVector } from '../embedding-provider';
+
+export interface MmrCandidate {
+  id: string;
+  score: number;
+}
+
+export class MmrReranker {
+  constructor(
+    private session: Session,
+    private embeddingService: EmbeddingService
+  ) {}
+
+  /**
+   * Pick `limit` candidates from the pool in MMR order
+   * Scores are left untouched - only the order and the cut change
+   */
+  async rerank<T extends MmrCandidate>(candidates: T[], lambda: number, limit: number): Promise<T[]> {
+    if (candidates.length <= 1 || lambda >= 1) {
+      return candidates.slice(0, limit);
+    }
+
+    const vectors = await this.loadMemoryVectors(candidates.map(candidate => candidate.id));
+    const remaining = [...candidates];
+    const selected: T[] = [];
+    const redundancy = new Map<string, number>(candidates.map(candidate => [candidate.id, 0]));
+
+    while (selected.length < limit && remaining.length > 0) {
+      let bestIndex = 0;
+      let bestValue = -Infinity;
+      for (let i = 0; i < remaining.length; i++) {
+        const candidate = remaining[i];
+        const value = lambda * candidate.score - (1 - lambda) * redundancy.get(candidate.id)!;
+        if (value > bestValue) {
+          bestValue = value;
+          bestIndex = i;
+        }
+      }
+
+      const [picked] = remaining.splice(bestIndex, 1);
+      selected.push(picked);
+
+      // Redundancy is the max similarity to anything selected so far - update against the new pick
+      const pickedVector = vectors.get(picked.id);
+      if (!pickedVector) continue;
+      for (const candidate of remaining) {
+        const vector = vectors.get(candidate.id);
+        if (!vector) continue;
+        const similarity = this.embeddingService.calculateSimilarity(pickedVector, vector);
+        redundancy.set(candidate.id, Math.max(redundancy.get(candidate.id)!, similarity));
+      }
+    }
+
+    return selected;
+  }
+
+  /**
+   * Centroid of the current-model vectors stored on each memory and its observations
+   */
+  private async loadMemoryVectors(memoryIds: string[]): Promise<Map<string, number[]>> {
+    const result = await this.session.run(`
+      MATCH (m:Memory)
+      WHERE m.id IN $memoryIds
+      OPTIONAL MATCH (m)-[:HAS_OBSERVATION]->(o:Observation)
+      WHERE o.embedding IS NOT NULL AND o.embeddingModel = $model
+      RETURN m.id as id,
+             CASE WHEN m.embeddingModel = $model THEN m.nameEmbedding ELSE null END as nameEmbedding,
+             collect(o.embedding) as observationEmbeddings
+    `, { memoryIds, model: this.embeddingService.getModelIdentity() });
+
+    const vectors = new Map<string, number[]>();
+    for (const record of result.records) {
+      const embeddings = [record.get('nameEmbedding'), ...(record.get('observationEmbeddings') || [])]
+        .filter((embedding): embedding is number[] => Array.isArray(embedding) && embedding.length > 0);
+      if (embeddings.length > 0) {
+        vectors.set(record.get('id'), centroidVector(embeddings));
+      }
+    }
+    return vectors;
+  }
+}
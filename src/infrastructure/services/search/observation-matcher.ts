@@ -0,0 +1,169 @@
+/**
+ * Observation Matcher - Matched Observation Snippets
+ * Single responsibility: Pick the observations of each search result that actually matched the query
+ *
+ * A memory with 40 observations returns only its top-k matches, each with the observation ID
+ * (for citing or editing) and highlighted fragments around the query terms.
+ * Fulltext evidence comes from observation_content_idx, vector evidence from the observation
+ * embedding and its chunk embeddings - whichever is stronger ranks the observation.
+ */
+
+import { Session } from 'neo4j-driver';
+import { EmbeddingService } from '../embedding-service';
+import { MemoryObservation, ObservationMatch } from '../../../domain/entities/memory';
+import { sanitizeLuceneQuery } from '../../utilities/lucene-query';
+
+const FRAGMENT_RADIUS = 60;   // Characters of context on each side of a term
+const MAX_FRAGMENTS = 3;
+
+export class ObservationMatcher {
+  constructor(
+    private session: Session,
+    private embeddingService: EmbeddingService
+  ) {}
+
+  /**
+   * Top-k matched observations per memory, best match first
+   * Observations matching neither channel are dropped - a memory found by name alone returns none
+   */
+  async match(
+    memoryIds: string[],
+    normalizedQuery: string,
+    topK: number,
+    useVectors: boolean,
+    threshold: number
+  ): Promise<Map<string, MemoryObservation[]>> {
+    const matches = new Map<string, MemoryObservation[]>();
+    if (memoryIds.length === 0) {
+      return matches;
+    }
+
+    const luceneScores = await this.fulltextScores(memoryIds, normalizedQuery);
+    const queryVector = useVectors ? await this.embeddingService.calculateEmbedding(normalizedQuery) : undefined;
+
+    const result = await this.session.run(`
+      MATCH (m:Memory)-[:HAS_OBSERVATION]->(o:Observation)
+      WHERE m.id IN $memoryIds
+      ${queryVector ? 'OPTIONAL MATCH (o)-[:HAS_CHUNK]->(c:ObservationChunk)' : ''}
+      RETURN m.id AS memoryId,
+             o.id AS id,
+             o.content AS content,
+             o.createdAt AS createdAt,
+             ${queryVector ? 'o.embedding AS embedding, collect(c.embedding) AS chunkEmbeddings' : 'null AS embedding, [] AS chunkEmbeddings'}
+    `, { memoryIds });
+
+    for (const record of result.records) {
+      const content: string | null = record.get('content');
+      if (!content) continue;
+
+      const id: string = record.get('id');
+      const lucene = luceneScores.get(id);
+      const cosine = queryVector
+        ? this.bestCosine(queryVector, [record.get('embedding'), ...(record.get('chunkEmbeddings') || [])])
+        : undefined;
+
+      const channels: ObservationMatch['channels'] = [];
+      if (lucene !== undefined) channels.push('fulltext');
+      if (cosine !== undefined && cosine >= threshold) channels.push('vector');
+      if (channels.length === 0) continue;
+
+      const memoryId: string = record.get('memoryId');
+      const observations = matches.get(memoryId) ?? [];
+      observations.push({
+        id,
+        content,
+        createdAt: record.get('createdAt'),
+        match: {
+          score: Math.max(lucene !== undefined ? lucene / (lucene + 1) : 0, cosine ?? 0),
+          channels,
+          highlights: highlightFragments(content, normalizedQuery)
+        }
+      });
+      matches.set(memoryId, observations);
+    }
+
+    for (const [memoryId, observations] of matches) {
+      observations.sort((a, b) =>
+        b.match!.score - a.match!.score || (a.createdAt || '').localeCompare(b.createdAt || '')
+      );
+      matches.set(memoryId, observations.slice(0, topK));
+    }
+    return matches;
+  }
+
+  /**
+   * Raw Lucene score per observation of the given memories
+   */
+  private async fulltextScores(memoryIds: string[], normalizedQuery: string): Promise<Map<string, number>> {
+    const sanitizedQuery = sanitizeLuceneQuery(normalizedQuery);
+    if (!sanitizedQuery.trim()) {
+      return new Map();
+    }
+
+    const result = await this.session.run(`
+      CALL db.index.fulltext.queryNodes('observation_content_idx', $query)
+      YIELD node, score
+      MATCH (m:Memory)-[:HAS_OBSERVATION]->(node)
+      WHERE m.id IN $memoryIds
+      RETURN node.id AS id, score
+    `, { query: sanitizedQuery, memoryIds });
+
+    return new Map(result.records.map(record => [record.get('id'), record.get('score')]));
+  }
+
+  private bestCosine(queryVector: number[], embeddings: Array<number[] | null>): number | undefined {
+    let best: number | undefined;
+    for (const embedding of embeddings) {
+      if (!Array.isArray(embedding) || embedding.length !== queryVector.length) continue;
+      const similarity = this.embeddingService.calculateSimilarity(queryVector, embedding);
+      best = best === undefined ? similarity : Math.max(best, similarity);
+    }
+    return best;
+  }
+}
+
+/**
+ * Fragments of content around query terms, terms wrapped in **
+ * Overlapping windows merge; cut ends are marked with …
+ */
+export function highlightFragments(content: string, query: string): string[] {
+  const terms = Array.from(new Set(
+    query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(term => term.length >= 2)
+  ));
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'giu');
+  const windows: Array<[number, number]> = [];
+
+  for (const hit of content.matchAll(pattern)) {
+    const start = expandToWordStart(content, Math.max(0, hit.index! - FRAGMENT_RADIUS));
+    const end = expandToWordEnd(content, Math.min(content.length, hit.index! + hit[0].length + FRAGMENT_RADIUS));
+    const last = windows[windows.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      windows.push([start, end]);
+    }
+  }
+
+  return windows.slice(0, MAX_FRAGMENTS).map(([start, end]) => {
+    const fragment = content.slice(start, end).replace(/\s+/g, ' ').trim().replace(pattern, '**$&**');
+    return `${start > 0 ? '…' : ''}${fragment}${end < content.length ? '…' : ''}`;
+  });
+}
+
+function expandToWordStart(content: string, index: number): number {
+  while (index > 0 && !/\s/.test(content[index - 1])) index--;
+  return index;
+}
+
+function expandToWordEnd(content: string, index: number): number {
+  while (index < content.length && !/\s/.test(content[index])) index++;
+  return index;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
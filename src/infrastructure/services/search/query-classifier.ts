@@ -5,6 +5,7 @@
  */
 
 import { MCPValidationError, MCPErrorCodes } from '../../errors';
+import { CompiledQuery, compileSearchQuery } from './query-language';
 
 export enum QueryType {
   WILDCARD = 'wildcard',
@@ -20,6 +21,7 @@ export interface QueryIntent {
   type: QueryType;
   confidence: number;
   preprocessing: QueryPreprocessing;
+  structured?: CompiledQuery;  // Query language syntax - type and normalized describe its free text
 }
 
 /**
@@ -58,6 +60,12 @@ export class QueryClassifier {
       };
     }
 
+    // Boolean and field-scoped syntax
+    const structured = compileSearchQuery(trimmed);
+    if (structured) {
+      return this.classifyStructured(structured);
+    }
+
     // Exact search detection (numbers/symbols only)
     if (this.isExactSearchPattern(trimmed)) {
       return {
@@ -79,6 +87,24 @@ export class QueryClassifier {
     };
   }
 
+  /**
+   * Structured queries are classified by their free text
+   * Without free text only the filter remains - a filtered listing like wildcard
+   */
+  private classifyStructured(structured: CompiledQuery): QueryIntent {
+    const normalized = structured.freeText;
+    if (!normalized) {
+      return { type: QueryType.WILDCARD, confidence: 1.0, preprocessing: { normalized }, structured };
+    }
+
+    return {
+      type: this.isExactSearchPattern(normalized) ? QueryType.EXACT_SEARCH : QueryType.SEMANTIC_SEARCH,
+      confidence: 0.9,
+      preprocessing: { normalized },
+      structured
+    };
+  }
+
   /**
    * Wildcard query detection
    */
@@ -0,0 +1,292 @@
+/**
+ * Query Language - Boolean and Field-Scoped memory_find Queries
+ * Single responsibility: Parse query syntax into an AST and compile it to parameterized Cypher and Lucene
+ *
+ *   name:"OAuth"      name contains the phrase
+ *   type:decision     memoryType equals the value
+ *   obs:timeout       some observation contains the value
+ *   AND / OR / NOT    uppercase operators, adjacent terms mean AND, parentheses group
+ *   "exact phrase"    quoted free text
+ *   -draft            exclusion, same as NOT draft
+ *
+ * The boolean structure becomes a Cypher predicate over `m` that every channel applies, like a
+ * date filter. Positive free-text terms are what gets scored: they form the semantic query and
+ * the Lucene query. User values only ever travel as parameters (qlTerm0..).
+ * Plain text without any syntax is not parsed - it keeps the classic search behaviour. So do an
+ * odd number of quotes and a field name followed by a space, unless the query has other syntax.
+ */
+
+import { SearchDateFilter } from '../../../domain/repositories/search-repository';
+import { sanitizeLuceneQuery } from '../../utilities/lucene-query';
+import { MCPValidationError, MCPErrorCodes } from '../../errors';
+
+export type QueryField = 'name' | 'type' | 'obs';
+
+export type QueryNode =
+  | { kind: 'term'; field?: QueryField; value: string; phrase: boolean }
+  | { kind: 'and'; children: QueryNode[] }
+  | { kind: 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode };
+
+export interface CompiledQuery {
+  ast: QueryNode;
+  filter: SearchDateFilter;  // Boolean structure as a predicate over `m`
+  freeText: string;          // Positive unfielded terms for semantic scoring, '' when there are none
+  lucene: string;            // Escaped Lucene query for the fulltext channel, '' when there is no free text
+}
+
+type Token =
+  | { type: 'word'; value: string; position: number }
+  | { type: 'phrase'; value: string; position: number }
+  | { type: 'field'; field: QueryField; value: string; phrase: boolean; position: number }
+  | { type: 'and' | 'or' | 'not' | 'minus' | 'lparen' | 'rparen'; position: number };
+
+const FIELDS: QueryField[] = ['name', 'type', 'obs'];
+
+// A field only counts with its value attached - "type: decision" is natural language
+const FIELD_PREFIX = /(^|[\s(])(name|type|obs):(?=[^\s)])/i;
+const OPERATOR = /(^|[\s(])(AND|OR|NOT)(?=[\s(]|$)/;
+const EXCLUSION = /(^|[\s(])-[^\s\d-]/;
+
+/**
+ * Whether the query uses any syntax of the language
+ * A lone quote (27" monitor) is an inch mark, not an unclosed phrase
+ */
+export function hasQuerySyntax(query: string): boolean {
+  const quotes = query.split('"').length - 1;
+  const hasPhrase = quotes > 0 && quotes % 2 === 0;
+  return hasPhrase || FIELD_PREFIX.test(query) || OPERATOR.test(query) || EXCLUSION.test(query);
+}
+
+/**
+ * Parse and compile a query with syntax, undefined for plain text
+ * Zero-fallback: malformed syntax throws instead of silently searching the raw string
+ */
+export function compileSearchQuery(query: string): CompiledQuery | undefined {
+  if (!hasQuerySyntax(query)) {
+    return undefined;
+  }
+
+  const ast = parseSearchQuery(query);
+  const params: Record<string, unknown> = {};
+  const cypher = toCypher(ast, params);
+  const freeTerms = collectFreeTerms(ast, false);
+
+  return {
+    ast,
+    filter: { cypher, params },
+    freeText: freeTerms.map(term => term.value).join(' ').toLowerCase(),
+    lucene: freeTerms
+      .map(term => (term.phrase ? `"${sanitizeLuceneQuery(term.value)}"` : sanitizeLuceneQuery(term.value)))
+      .join(' ')
+  };
+}
+
+/**
+ * AND the compiled query predicate into an existing constraint over `m`
+ */
+export function withQueryFilter(
+  filter: SearchDateFilter | undefined,
+  compiled: CompiledQuery | undefined
+): SearchDateFilter | undefined {
+  if (!compiled) {
+    return filter;
+  }
+
+  return {
+    cypher: filter?.cypher ? `${filter.cypher} AND ${compiled.filter.cypher}` : compiled.filter.cypher,
+    params: { ...(filter?.params || {}), ...compiled.filter.params }
+  };
+}
+
+/**
+ * Recursive descent over: or := and (OR and)*, and := unary ([AND] unary)*,
+ * unary := (NOT | -) unary | primary, primary := ( or ) | term
+ */
+export function parseSearchQuery(query: string): QueryNode {
+  const tokens = tokenize(query);
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.type === 'or') {
+      index++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    for (let next = peek(); next && next.type !== 'or' && next.type !== 'rparen'; next = peek()) {
+      if (next.type === 'and') index++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (token?.type === 'not' || token?.type === 'minus') {
+      index++;
+      return { kind: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[index++];
+    if (!token) {
+      throw invalidQuery('Query ends where a term was expected', query.length);
+    }
+
+    switch (token.type) {
+      case 'lparen': {
+        const node = parseOr();
+        if (peek()?.type !== 'rparen') {
+          throw invalidQuery('Missing closing parenthesis', token.position);
+        }
+        index++;
+        return node;
+      }
+      case 'word':
+        return { kind: 'term', value: token.value, phrase: false };
+      case 'phrase':
+        return { kind: 'term', value: token.value, phrase: true };
+      case 'field':
+        return { kind: 'term', field: token.field, value: token.value, phrase: token.phrase };
+      default:
+        throw invalidQuery(`Unexpected ${describe(token)} where a term was expected`, token.position);
+    }
+  };
+
+  const ast = parseOr();
+  if (index < tokens.length) {
+    throw invalidQuery(`Unexpected ${describe(tokens[index])}`, tokens[index].position);
+  }
+  return ast;
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readPhrase = (start: number): string => {
+    const end = query.indexOf('"', start + 1);
+    if (end === -1) {
+      throw invalidQuery('Unterminated quoted phrase', start);
+    }
+    const value = query.slice(start + 1, end).trim();
+    if (!value) {
+      throw invalidQuery('Empty quoted phrase', start);
+    }
+    i = end + 1;
+    return value;
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+    const position = i;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', position });
+      i++;
+    } else if (char === '"') {
+      tokens.push({ type: 'phrase', value: readPhrase(i), position });
+    } else if (char === '-' && i + 1 < query.length && !/[\s\d-]/.test(query[i + 1])) {
+      tokens.push({ type: 'minus', position });
+      i++;
+    } else {
+      let end = i;
+      while (end < query.length && !/[\s()"]/.test(query[end])) end++;
+      const word = query.slice(i, end);
+      i = end;
+
+      const separator = word.indexOf(':');
+      const field = separator > 0 ? word.slice(0, separator).toLowerCase() as QueryField : undefined;
+      if (field && FIELDS.includes(field)) {
+        const rest = word.slice(separator + 1);
+        if (!rest && query[i] === '"') {
+          tokens.push({ type: 'field', field, value: readPhrase(i), phrase: true, position });
+        } else if (!rest) {
+          throw invalidQuery(`${field}: needs a value`, position);
+        } else {
+          tokens.push({ type: 'field', field, value: rest, phrase: false, position });
+        }
+      } else if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ type: word.toLowerCase() as 'and' | 'or' | 'not', position });
+      } else {
+        tokens.push({ type: 'word', value: word, position });
+      }
+    }
+  }
+
+  if (tokens.length === 0) {
+    throw invalidQuery('Query has no terms', 0);
+  }
+  return tokens;
+}
+
+function toCypher(node: QueryNode, params: Record<string, unknown>): string {
+  switch (node.kind) {
+    case 'and':
+      return `(${node.children.map(child => toCypher(child, params)).join(' AND ')})`;
+    case 'or':
+      return `(${node.children.map(child => toCypher(child, params)).join(' OR ')})`;
+    case 'not':
+      return `(NOT ${toCypher(node.child, params)})`;
+    case 'term': {
+      const name = `qlTerm${Object.keys(params).length}`;
+      params[name] = node.value.toLowerCase();
+      const observation = `EXISTS { MATCH (m)-[:HAS_OBSERVATION]->(qlObs:Observation) WHERE toLower(qlObs.content) CONTAINS $${name} }`;
+
+      switch (node.field) {
+        case 'name':
+          return `toLower(m.name) CONTAINS $${name}`;
+        case 'type':
+          return `toLower(m.memoryType) = $${name}`;
+        case 'obs':
+          return observation;
+        default:
+          return `(toLower(m.name) CONTAINS $${name} OR toLower(coalesce(m.metadata, '')) CONTAINS $${name} OR ${observation})`;
+      }
+    }
+  }
+}
+
+/**
+ * Unfielded terms that are not negated - negated text narrows results but is never scored
+ */
+function collectFreeTerms(node: QueryNode, negated: boolean): Array<{ value: string; phrase: boolean }> {
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(child => collectFreeTerms(child, negated));
+    case 'not':
+      return collectFreeTerms(node.child, !negated);
+    case 'term':
+      return !negated && !node.field ? [{ value: node.value, phrase: node.phrase }] : [];
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'rparen': return "')'";
+    case 'lparen': return "'('";
+    case 'minus': return "'-'";
+    case 'and': case 'or': case 'not': return token.type.toUpperCase();
+    default: return 'term';
+  }
+}
+
+function invalidQuery(message: string, position: number): MCPValidationError {
+  return new MCPValidationError(
+    `Invalid query syntax at position ${position}: ${message}`,
+    MCPErrorCodes.INVALID_SEARCH_QUERY,
+    { position }
+  );
+}
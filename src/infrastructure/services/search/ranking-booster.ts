@@ -0,0 +1,166 @@
+/**
+ * Ranking Booster - Recency, Access Frequency and Centrality
+ * Single responsibility: Scale relevance scores by how fresh, how used and how connected a memory is
+ *
+ * multiplier = 1 − rw − aw − cw + rw × recency + aw × usage + cw × centrality
+ *   recency    = 0.5 ^ (days since the last modification or access / half-life)
+ *   usage      = accessCount / (accessCount + 10)
+ *   centrality = m.centrality stored by CentralityJob, already in [0,1]
+ * The multiplier stays in [1 − rw − aw − cw, 1], so boosting never lifts a score above its
+ * relevance - stale, unused, isolated memories sink instead. All weights at 0 is a no-op.
+ */
+
+import { Session } from 'neo4j-driver';
+import { getSearchConfig } from '../../../config';
+import { SearchBoost, SearchExplanation } from '../../../domain/repositories/search-repository';
+import { MCPValidationError, MCPErrorCodes } from '../../errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Access count at which the usage signal reaches 0.5
+const ACCESS_HALF_SATURATION = 10;
+
+export interface ResolvedBoost {
+  recencyWeight: number;
+  halfLifeDays: number;
+  accessWeight: number;
+  centralityWeight: number;
+}
+
+export interface BoostCandidate {
+  id: string;
+  score: number;
+}
+
+export type BoostSignals = NonNullable<SearchExplanation['boost']>;
+
+interface StoredSignals {
+  lastTouched?: number;
+  accessCount: number;
+  centrality: number;
+}
+
+const WEIGHT_PARAMETERS = ['recencyWeight', 'accessWeight', 'centralityWeight'] as const;
+
+/**
+ * Merge per-request overrides over SEARCH_* environment defaults
+ * Zero-fallback: weights outside [0,1], a sum above 1 or a non-positive half-life throw
+ */
+export function resolveSearchBoost(boost: SearchBoost = {}): ResolvedBoost {
+  const defaults = getSearchConfig();
+  const resolved = {
+    recencyWeight: boost.recencyWeight ?? defaults.recencyWeight,
+    halfLifeDays: boost.halfLifeDays ?? defaults.recencyHalfLifeDays,
+    accessWeight: boost.accessWeight ?? defaults.accessWeight,
+    centralityWeight: boost.centralityWeight ?? defaults.centralityWeight
+  };
+
+  for (const parameter of WEIGHT_PARAMETERS) {
+    const value = resolved[parameter];
+    if (!Number.isFinite(value) || value < 0 || value > 1) {
+      throw new MCPValidationError(
+        `Boost ${parameter} must be between 0.0 and 1.0`,
+        MCPErrorCodes.INVALID_PARAMETER,
+        { parameter, value }
+      );
+    }
+  }
+
+  if (totalWeight(resolved) > 1) {
+    throw new MCPValidationError(
+      'Boost recencyWeight, accessWeight and centralityWeight must not add up to more than 1.0',
+      MCPErrorCodes.INVALID_PARAMETER,
+      {
+        parameter: 'boost',
+        recencyWeight: resolved.recencyWeight,
+        accessWeight: resolved.accessWeight,
+        centralityWeight: resolved.centralityWeight
+      }
+    );
+  }
+
+  if (!Number.isFinite(resolved.halfLifeDays) || resolved.halfLifeDays <= 0) {
+    throw new MCPValidationError(
+      'Boost halfLifeDays must be a positive number',
+      MCPErrorCodes.INVALID_PARAMETER,
+      { parameter: 'halfLifeDays', value: resolved.halfLifeDays }
+    );
+  }
+
+  return resolved;
+}
+
+export function isBoostEnabled(boost: ResolvedBoost): boolean {
+  return totalWeight(boost) > 0;
+}
+
+function totalWeight(boost: ResolvedBoost): number {
+  return boost.recencyWeight + boost.accessWeight + boost.centralityWeight;
+}
+
+export class RankingBooster {
+  constructor(private session: Session) {}
+
+  /**
+   * Boosted copies of the candidates with their signals - order is left to the caller
+   */
+  async apply<T extends BoostCandidate>(
+    candidates: T[],
+    boost: ResolvedBoost,
+    now: number = Date.now()
+  ): Promise<Array<T & { boost?: BoostSignals }>> {
+    if (candidates.length === 0 || !isBoostEnabled(boost)) {
+      return candidates;
+    }
+
+    const signals = await this.loadSignals(candidates.map(candidate => candidate.id));
+
+    return candidates.map(candidate => {
+      const stored = signals.get(candidate.id);
+      const ageDays = stored?.lastTouched ? Math.max(now - stored.lastTouched, 0) / DAY_MS : Infinity;
+      const recency = Math.pow(0.5, ageDays / boost.halfLifeDays);
+      const accessCount = stored?.accessCount ?? 0;
+      const usage = accessCount / (accessCount + ACCESS_HALF_SATURATION);
+      const centrality = stored?.centrality ?? 0;
+      const multiplier =
+        1 - totalWeight(boost) +
+        boost.recencyWeight * recency +
+        boost.accessWeight * usage +
+        boost.centralityWeight * centrality;
+
+      return {
+        ...candidate,
+        score: candidate.score * multiplier,
+        boost: { recency, usage, centrality, multiplier }
+      };
+    });
+  }
+
+  /**
+   * Latest modification or access time, access count and stored centrality per memory
+   */
+  private async loadSignals(memoryIds: string[]): Promise<Map<string, StoredSignals>> {
+    const result = await this.session.run(`
+      MATCH (m:Memory)
+      WHERE m.id IN $memoryIds
+      RETURN m.id as id,
+             coalesce(m.modifiedAt, m.createdAt) as modifiedAt,
+             m.lastAccessed as lastAccessed,
+             toFloat(coalesce(m.accessCount, 0)) as accessCount,
+             toFloat(coalesce(m.centrality, 0)) as centrality
+    `, { memoryIds });
+
+    const signals = new Map<string, StoredSignals>();
+    for (const record of result.records) {
+      const times = [record.get('modifiedAt'), record.get('lastAccessed')]
+        .map(value => (value ? Date.parse(String(value)) : NaN))
+        .filter(time => !isNaN(time));
+      signals.set(record.get('id'), {
+        lastTouched: times.length > 0 ? Math.max(...times) : undefined,
+        accessCount: Number(record.get('accessCount')) || 0,
+        centrality: Number(record.get('centrality')) || 0
+      });
+    }
+    return signals;
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Search Scorer - Hybrid Relevance Strategies
+ * Single responsibility: Turn exact and vector evidence into one comparable score
+ *
+ * - fixed: exact hits score 0.85 plus up to 0.15 from vectors (historical behaviour)
+ * - weighted: linear blend of exact relevance and vector similarity
+ * - rrf: reciprocal rank fusion over the exact and vector rankings
+ *
+ * Exact relevance is graded, not binary: the best of name coverage and the
+ * Lucene score squashed into [0,1), so a weak substring hit no longer
+ * outranks a strong semantic match unless the weights say so.
+ */
+
+import { getSearchConfig } from '../../../config';
+import { ScoreComputation, ScoringStrategy, SearchScoring } from '../../../domain/repositories/search-repository';
+import { MCPValidationError, MCPErrorCodes } from '../../errors';
+
+export interface ScoringCandidate {
+  id: string;
+  hasExactMatch: boolean;
+  vectorScore?: number;
+  luceneScore?: number;
+  nameScore?: number;
+}
+
+export interface ScoredCandidate {
+  id: string;
+  score: number;
+  matchType: 'semantic' | 'exact';
+  computation: ScoreComputation;
+}
+
+export interface SearchScorer {
+  readonly strategy: ScoringStrategy;
+  score(candidates: ScoringCandidate[]): ScoredCandidate[];
+}
+
+interface ScoringWeights {
+  exactWeight: number;
+  vectorWeight: number;
+}
+
+/**
+ * Historical formula - exact presence dominates, vectors only break ties among exact hits
+ */
+export class FixedScorer implements SearchScorer {
+  readonly strategy = 'fixed' as const;
+
+  score(candidates: ScoringCandidate[]): ScoredCandidate[] {
+    return candidates.map((candidate): ScoredCandidate => {
+      if (candidate.hasExactMatch) {
+        const vectorBoost = candidate.vectorScore ? Math.min(candidate.vectorScore * 0.15, 0.15) : 0;
+        const score = Math.min(0.85 + vectorBoost, 1.0);
+        return {
+          id: candidate.id,
+          score,
+          matchType: 'exact',
+          computation: {
+            strategy: this.strategy,
+            formula: `0.85 + min(0.15 × ${format(candidate.vectorScore ?? 0)}, 0.15) = ${format(score)}`,
+            components: { base: 0.85, vectorBoost }
+          }
+        };
+      }
+
+      if (candidate.vectorScore) {
+        return {
+          id: candidate.id,
+          score: candidate.vectorScore,
+          matchType: 'semantic',
+          computation: {
+            strategy: this.strategy,
+            formula: `cosine = ${format(candidate.vectorScore)}`,
+            components: { cosine: candidate.vectorScore }
+          }
+        };
+      }
+
+      // Should not happen, but safety net
+      return {
+        id: candidate.id,
+        score: 0.1,
+        matchType: 'exact',
+        computation: { strategy: this.strategy, formula: 'no channel evidence, safety net = 0.1', components: {} }
+      };
+    });
+  }
+}
+
+/**
+ * Weighted average of exact relevance and vector similarity, both in [0,1]
+ */
+export class WeightedScorer implements SearchScorer {
+  readonly strategy = 'weighted' as const;
+
+  constructor(private weights: ScoringWeights) {}
+
+  score(candidates: ScoringCandidate[]): ScoredCandidate[] {
+    const { exactWeight, vectorWeight } = this.weights;
+    const totalWeight = exactWeight + vectorWeight;
+
+    return candidates.map((candidate): ScoredCandidate => {
+      const exact = exactRelevance(candidate);
+      const vector = vectorRelevance(candidate);
+      const score = (exactWeight * exact + vectorWeight * vector) / totalWeight;
+
+      return {
+        id: candidate.id,
+        score,
+        matchType: matchTypeOf(candidate),
+        computation: {
+          strategy: this.strategy,
+          formula: `(${format(exactWeight)} × ${format(exact)} + ${format(vectorWeight)} × ${format(vector)}) / ${format(totalWeight)} = ${format(score)}`,
+          components: { exactRelevance: exact, vectorRelevance: vector, exactWeight, vectorWeight }
+        }
+      };
+    });
+  }
+}
+
+/**
+ * Reciprocal rank fusion: sum of weight / (k + rank) over both channel rankings
+ * Normalized by the score of a candidate ranked first in both, keeping results in [0,1]
+ */
+export class ReciprocalRankFusionScorer implements SearchScorer {
+  readonly strategy = 'rrf' as const;
+
+  constructor(private weights: ScoringWeights, private k: number) {}
+
+  score(candidates: ScoringCandidate[]): ScoredCandidate[] {
+    const { exactWeight, vectorWeight } = this.weights;
+    const exactRanks = rankBy(candidates.filter(c => c.hasExactMatch), exactRelevance);
+    const vectorRanks = rankBy(candidates.filter(c => c.vectorScore !== undefined), vectorRelevance);
+    const bestPossible = (exactWeight + vectorWeight) / (this.k + 1);
+
+    return candidates.map((candidate): ScoredCandidate => {
+      const exactRank = exactRanks.get(candidate.id);
+      const vectorRank = vectorRanks.get(candidate.id);
+      const fused =
+        (exactRank ? exactWeight / (this.k + exactRank) : 0) +
+        (vectorRank ? vectorWeight / (this.k + vectorRank) : 0);
+      const score = fused / bestPossible;
+
+      const terms = [
+        ...(exactRank ? [`${format(exactWeight)} / (${this.k} + ${exactRank})`] : []),
+        ...(vectorRank ? [`${format(vectorWeight)} / (${this.k} + ${vectorRank})`] : [])
+      ];
+
+      return {
+        id: candidate.id,
+        score,
+        matchType: matchTypeOf(candidate),
+        computation: {
+          strategy: this.strategy,
+          formula: `(${terms.join(' + ') || '0'}) / (${format(exactWeight + vectorWeight)} / (${this.k} + 1)) = ${format(score)}`,
+          components: {
+            ...(exactRank && { exactRank }),
+            ...(vectorRank && { vectorRank }),
+            k: this.k,
+            exactWeight,
+            vectorWeight
+          }
+        }
+      };
+    });
+  }
+}
+
+/**
+ * Build scorer from per-request overrides on top of SEARCH_* environment defaults
+ */
+export function createSearchScorer(scoring: SearchScoring = {}): SearchScorer {
+  const defaults = getSearchConfig();
+  const strategy = scoring.strategy ?? defaults.scoring;
+
+  if (strategy === 'fixed') {
+    return new FixedScorer();
+  }
+
+  const weights = {
+    exactWeight: scoring.exactWeight ?? defaults.exactWeight,
+    vectorWeight: scoring.vectorWeight ?? defaults.vectorWeight
+  };
+  validateWeights(weights);
+
+  if (strategy === 'weighted') {
+    return new WeightedScorer(weights);
+  }
+
+  const k = scoring.rrfK ?? defaults.rrfK;
+  if (!Number.isFinite(k) || k < 1) {
+    throw new MCPValidationError(
+      'RRF constant must be at least 1',
+      MCPErrorCodes.INVALID_PARAMETER,
+      { parameter: 'rrfK', value: k }
+    );
+  }
+  return new ReciprocalRankFusionScorer(weights, k);
+}
+
+function validateWeights({ exactWeight, vectorWeight }: ScoringWeights): void {
+  for (const [parameter, value] of [['exactWeight', exactWeight], ['vectorWeight', vectorWeight]] as const) {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new MCPValidationError(
+        `Scoring weight ${parameter} must be a non-negative number`,
+        MCPErrorCodes.INVALID_PARAMETER,
+        { parameter, value }
+      );
+    }
+  }
+
+  if (exactWeight + vectorWeight === 0) {
+    throw new MCPValidationError(
+      'At least one scoring weight must be positive',
+      MCPErrorCodes.INVALID_PARAMETER,
+      { parameter: 'exactWeight', exactWeight, vectorWeight }
+    );
+  }
+}
+
+/**
+ * Graded exact evidence in [0,1]
+ * An exact hit without graded evidence counts as full relevance
+ */
+function exactRelevance(candidate: ScoringCandidate): number {
+  if (!candidate.hasExactMatch) return 0;
+  if (candidate.nameScore === undefined && candidate.luceneScore === undefined) return 1.0;
+
+  const lucene = candidate.luceneScore && candidate.luceneScore > 0
+    ? candidate.luceneScore / (candidate.luceneScore + 1)
+    : 0;
+  return Math.max(candidate.nameScore ?? 0, lucene);
+}
+
+/**
+ * Raw cosine clamped to [0,1] - opposite vectors are no evidence, not negative evidence
+ */
+function vectorRelevance(candidate: ScoringCandidate): number {
+  return Math.min(Math.max(candidate.vectorScore ?? 0, 0), 1);
+}
+
+function format(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+function matchTypeOf(candidate: ScoringCandidate): 'semantic' | 'exact' {
+  return candidate.hasExactMatch ? 'exact' : 'semantic';
+}
+
+/**
+ * 1-based ranks by descending relevance, ids break ties for determinism
+ */
+function rankBy(candidates: ScoringCandidate[], relevance: (c: ScoringCandidate) => number): Map<string, number> {
+  const sorted = [...candidates].sort((a, b) =>
+    relevance(b) - relevance(a) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  );
+  return new Map(sorted.map((candidate, index) => [candidate.id, index + 1]));
+}
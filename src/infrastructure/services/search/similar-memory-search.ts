@@ -0,0 +1,165 @@
+/**
+ * Similar Memory Search - "More Like This"
+ * Single responsibility: Find memories whose vectors resemble the stored vectors of one memory
+ *
+ * No text is embedded: the source memory's nameEmbedding and observation embeddings are
+ * queried through VectorSearchChannel as they are stored. Vectors from another embedding
+ * model live in a different space and are skipped - re-embed to compare them.
+ */
+
+import { Session } from 'neo4j-driver';
+import { VectorSearchChannel, VectorCandidate } from './vector-search-channel';
+import { EmbeddingService } from '../embedding-service';
+import { centroidVector } from '../embedding-provider';
+import { SearchDateFilter, SimilarityMode } from '../../../domain/repositories/search-repository';
+import { MCPResourceNotFoundError, MCPValidationError, MCPErrorCodes } from '../../errors';
+
+export interface SimilarMemoryOptions {
+  limit: number;
+  threshold: number;
+  mode?: SimilarityMode;          // Default: max
+  excludeRelated?: boolean;       // Drop memories already directly related to the source
+  memoryTypes?: string[];
+  filter?: SearchDateFilter;      // Date and metadata constraints over `m`
+}
+
+export interface SimilarMemoryCandidate extends VectorCandidate {
+  matchedVia: 'name' | 'observation' | 'centroid';  // Source vector that produced the score
+}
+
+// Max-sim runs one kNN query per source vector - memories with many observations use the newest
+const MAX_SOURCE_VECTORS = 16;
+
+interface SourceVector {
+  vector: number[];
+  via: 'name' | 'observation';
+}
+
+export class SimilarMemorySearch {
+  private vectorChannel: VectorSearchChannel;
+
+  constructor(
+    private session: Session,
+    private embeddingService: EmbeddingService,
+    database?: string
+  ) {
+    this.vectorChannel = new VectorSearchChannel(session, embeddingService, database);
+  }
+
+  /**
+   * Scored neighbours of a memory, best first - the source memory itself is never returned
+   */
+  async findSimilar(memoryId: string, options: SimilarMemoryOptions): Promise<SimilarMemoryCandidate[]> {
+    const sourceVectors = await this.loadSourceVectors(memoryId);
+    const excludeIds = await this.excludedIds(memoryId, options.excludeRelated ?? false);
+    const filter = this.withExclusions(options.filter, excludeIds);
+
+    // Exclusions are filtered after the kNN lookup - ask for enough to still fill the page
+    const candidateLimit = options.limit + excludeIds.length;
+
+    if ((options.mode ?? 'max') === 'centroid') {
+      const candidates = await this.vectorChannel.searchByVector(
+        centroidVector(sourceVectors.map(source => source.vector)),
+        candidateLimit,
+        options.threshold,
+        options.memoryTypes,
+        filter
+      );
+      return candidates
+        .slice(0, options.limit)
+        .map(candidate => ({ ...candidate, matchedVia: 'centroid' as const }));
+    }
+
+    // Max-sim: each neighbour scores by its best match against any source vector
+    const best = new Map<string, SimilarMemoryCandidate>();
+    for (const source of sourceVectors.slice(0, MAX_SOURCE_VECTORS)) {
+      const candidates = await this.vectorChannel.searchByVector(
+        source.vector,
+        candidateLimit,
+        options.threshold,
+        options.memoryTypes,
+        filter
+      );
+      for (const candidate of candidates) {
+        const existing = best.get(candidate.id);
+        if (!existing || candidate.score > existing.score) {
+          best.set(candidate.id, { ...candidate, matchedVia: source.via });
+        }
+      }
+    }
+
+    return Array.from(best.values())
+      .sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .slice(0, options.limit);
+  }
+
+  /**
+   * Stored name and observation vectors of the current embedding model
+   * Name first, then observations newest first
+   */
+  private async loadSourceVectors(memoryId: string): Promise<SourceVector[]> {
+    const result = await this.session.run(`
+      MATCH (s:Memory {id: $memoryId})
+      OPTIONAL MATCH (s)-[:HAS_OBSERVATION]->(o:Observation)
+      WHERE o.embedding IS NOT NULL
+      WITH s, o ORDER BY o.createdAt DESC
+      RETURN s.nameEmbedding as nameEmbedding,
+             s.embeddingModel as nameModel,
+             collect({embedding: o.embedding, model: o.embeddingModel}) as observations
+    `, { memoryId });
+
+    const record = result.records[0];
+    if (!record) {
+      throw new MCPResourceNotFoundError('Memory', memoryId, MCPErrorCodes.MEMORY_NOT_FOUND);
+    }
+
+    const model = this.embeddingService.getModelIdentity();
+    const vectors: SourceVector[] = [];
+
+    const nameEmbedding = record.get('nameEmbedding');
+    if (Array.isArray(nameEmbedding) && record.get('nameModel') === model) {
+      vectors.push({ vector: nameEmbedding, via: 'name' });
+    }
+
+    for (const observation of record.get('observations') || []) {
+      if (Array.isArray(observation.embedding) && observation.model === model) {
+        vectors.push({ vector: observation.embedding, via: 'observation' });
+      }
+    }
+
+    if (vectors.length === 0) {
+      throw new MCPValidationError(
+        `Memory ${memoryId} has no vectors from the current embedding model (${model}). ` +
+        'Run mcp-neo4j-memory-reembed to migrate stored vectors',
+        MCPErrorCodes.INVALID_PARAMETER,
+        { parameter: 'similarTo', memoryId, model }
+      );
+    }
+
+    return vectors;
+  }
+
+  /**
+   * Source memory plus, on request, every memory directly related to it in either direction
+   */
+  private async excludedIds(memoryId: string, excludeRelated: boolean): Promise<string[]> {
+    if (!excludeRelated) {
+      return [memoryId];
+    }
+
+    const result = await this.session.run(`
+      MATCH (s:Memory {id: $memoryId})-[:RELATES_TO]-(related:Memory)
+      RETURN DISTINCT related.id as id
+    `, { memoryId });
+
+    return [memoryId, ...result.records.map(record => record.get('id'))];
+  }
+
+  private withExclusions(filter: SearchDateFilter | undefined, excludeIds: string[]): SearchDateFilter {
+    const exclusion = 'NOT m.id IN $similarExcludeIds';
+    return {
+      cypher: filter?.cypher ? `${filter.cypher} AND ${exclusion}` : exclusion,
+      params: { ...(filter?.params || {}), similarExcludeIds: excludeIds }
+    };
+  }
+}
@@ -5,19 +5,61 @@
  * THE IMPLEMENTOR'S RULE: No truth levels, no orchestration theater, just math
  */
 
-import { Session } from 'neo4j-driver';
+import neo4j, { Session } from 'neo4j-driver';
 import { QueryClassifier, QueryIntent, QueryType } from './query-classifier';
-import { ExactSearchChannel } from './exact-search-channel';
+import { ExactSearchChannel, ExactMatchCandidate } from './exact-search-channel';
 import { VectorSearchChannel, VectorCandidate } from './vector-search-channel';
 import { WildcardSearchService } from './wildcard-search-service';
 import { EnhancedSearchResult } from '../../../types';
 import { MCPValidationError, MCPErrorCodes } from '../../errors';
+import {
+  SearchOptions,
+  SearchOrder,
+  SearchCursor,
+  SearchExplanation,
+  ScoreComputation,
+  VectorMatchSource
+} from '../../../domain/repositories/search-repository';
+import { buildKeysetClause, timestampSortKey } from '../../utilities/keyset-pagination';
+import { withMetadataFilter } from '../../utilities/metadata-properties';
+import { EmbeddingService } from '../embedding-service';
+import { createSearchScorer, ScoringCandidate, ScoredCandidate } from './search-scorer';
+import { ObservationMatcher } from './observation-matcher';
+import { MmrReranker } from './mmr-reranker';
+import { withQueryFilter } from './query-language';
+import { RankingBooster, BoostSignals, resolveSearchBoost } from './ranking-booster';
 
 export interface SimpleSearchResult extends EnhancedSearchResult {
   score: number;                    // Raw mathematical similarity (0.0-1.0)
   matchType: 'semantic' | 'exact';  // Simple binary classification
+  explanation?: SearchExplanation;  // Only with options.explain
 }
 
+/**
+ * Scoring input plus the channel evidence explain mode reports
+ */
+interface ChannelCandidate extends ScoringCandidate {
+  matchTypes?: ExactMatchCandidate['matchTypes'];
+  vectorSource?: VectorMatchSource;
+  observationId?: string;
+}
+
+interface RankedCandidate {
+  id: string;
+  score: number;
+  matchType: 'semantic' | 'exact';
+  explanation?: SearchExplanation;
+}
+
+// Relevance hits that timestamp order sorts and rrf ranks within - the same pool on every page
+const FIXED_CANDIDATE_POOL = 100;
+
+const WILDCARD_COMPUTATION: ScoreComputation = {
+  strategy: 'wildcard',
+  formula: 'wildcard match = 1.0',
+  components: {}
+};
+
 /**
  * Clean search service that eliminates truth-level complexity
  * Direct execution: Query → Classification → Search → Score → Results
@@ -27,12 +69,18 @@ export class SimplifiedSearchService {
   private exactChannel: ExactSearchChannel;
   private vectorChannel: VectorSearchChannel;
   private wildcardService: WildcardSearchService;
+  private observationMatcher: ObservationMatcher;
+  private mmrReranker: MmrReranker;
+  private rankingBooster: RankingBooster;
 
-  constructor(private session: Session) {
+  constructor(private session: Session, embeddingService: EmbeddingService, database?: string) {
     this.queryClassifier = new QueryClassifier();
     this.exactChannel = new ExactSearchChannel(session);
-    this.vectorChannel = new VectorSearchChannel(session);
+    this.vectorChannel = new VectorSearchChannel(session, embeddingService, database);
     this.wildcardService = new WildcardSearchService(session);
+    this.observationMatcher = new ObservationMatcher(session, embeddingService);
+    this.mmrReranker = new MmrReranker(session, embeddingService);
+    this.rankingBooster = new RankingBooster(session);
   }
 
   /**
@@ -43,8 +91,11 @@ export class SimplifiedSearchService {
     limit: number = 10,
     includeGraphContext: boolean = true,
     memoryTypes?: string[],
-    threshold: number = 0.1
+    threshold: number = 0.1,
+    options: SearchOptions = {}
   ): Promise<SimpleSearchResult[]> {
+    const { order, after, explain, matchedObservations } = options;
+
     // Input validation
     if (!query || typeof query !== 'string') {
       throw new MCPValidationError(
@@ -61,26 +112,50 @@ export class SimplifiedSearchService {
       );
     }
 
+    if (matchedObservations !== undefined && (!Number.isInteger(matchedObservations) || matchedObservations <= 0)) {
+      throw new MCPValidationError(
+        'matchedObservations must be a positive integer',
+        MCPErrorCodes.INVALID_PARAMETER,
+        { parameter: 'matchedObservations', value: matchedObservations }
+      );
+    }
+
+    this.validateMmrLambda(options);
+
     // Query classification
     const queryIntent = this.queryClassifier.classify(query);
 
+    // Metadata conditions and the boolean structure of a query-language query narrow the same
+    // node set as date filters - every channel applies all of them
+    const dateFilter = withQueryFilter(
+      withMetadataFilter(options.dateFilter, options.metadataFilter),
+      queryIntent.structured
+    );
+
     // Wildcard search bypass
     if (queryIntent.type === QueryType.WILDCARD) {
-      const wildcardResults = await this.wildcardService.search(
-        limit,
-        includeGraphContext,
-        memoryTypes
-      );
+      const wildcardResults = dateFilter?.cypher || order || after
+        ? await this.wildcardService.search(
+            limit,
+            includeGraphContext,
+            memoryTypes,
+            dateFilter?.cypher,
+            dateFilter?.params,
+            order,
+            after
+          )
+        : await this.wildcardService.search(limit, includeGraphContext, memoryTypes);
       
       return wildcardResults.map(result => ({
         ...result,
         score: 1.0,         // Wildcard gets perfect score
-        matchType: 'exact' as const
+        matchType: 'exact' as const,
+        ...(explain && { explanation: this.buildExplanation({ id: result.id, hasExactMatch: false }, WILDCARD_COMPUTATION) })
       }));
     }
 
     // Execute multi-channel search
-    return this.executeSearch(queryIntent, limit, threshold, memoryTypes);
+    return this.executeSearch(queryIntent, limit, threshold, memoryTypes, { ...options, dateFilter });
   }
 
   /**
@@ -90,14 +165,29 @@ export class SimplifiedSearchService {
     queryIntent: QueryIntent,
     limit: number,
     threshold: number,
-    memoryTypes?: string[]
+    memoryTypes?: string[],
+    options: SearchOptions = {}
   ): Promise<SimpleSearchResult[]> {
+    const { dateFilter, order, after, scoring, boost, boostTime, explain, matchedObservations, mmrLambda } = options;
+
+    // Fail on invalid scoring and boost overrides before touching the database
+    const scorer = createSearchScorer(scoring);
+    const resolvedBoost = resolveSearchBoost(boost);
+
+    // Later pages need a deeper candidate pool to find items past the cursor - but timestamp order
+    // sorts the pool itself and rrf scores are ranks within it, so those page through one pool
+    // that never depends on the page
+    const candidateLimit = order || scorer.strategy === 'rrf'
+      ? Math.max(FIXED_CANDIDATE_POOL, limit * 2)
+      : (limit + (after?.offset ?? 0)) * 2;
     
     // Execute exact search (always)
     const exactCandidates = await this.exactChannel.search(
       queryIntent.preprocessing.normalized,
-      limit * 2,
-      memoryTypes
+      candidateLimit,
+      memoryTypes,
+      dateFilter,
+      queryIntent.structured?.lucene
     );
 
     // Execute vector search (semantic queries only)
@@ -106,9 +196,10 @@ export class SimplifiedSearchService {
       try {
         vectorCandidates = await this.vectorChannel.search(
           queryIntent.preprocessing.normalized,
-          limit * 2,
+          candidateLimit,
           threshold,
-          memoryTypes
+          memoryTypes,
+          dateFilter
         );
       } catch (error) {
         // Vector search failed - continue with exact results only
@@ -117,17 +208,16 @@ export class SimplifiedSearchService {
     }
 
     // Combine and score candidates
-    const candidateMap = new Map<string, {
-      id: string;
-      hasExactMatch: boolean;
-      vectorScore?: number;
-    }>();
+    const candidateMap = new Map<string, ChannelCandidate>();
 
     // Process exact candidates
     for (const exact of exactCandidates) {
       candidateMap.set(exact.id, {
         id: exact.id,
-        hasExactMatch: true
+        hasExactMatch: true,
+        luceneScore: exact.luceneScore,
+        nameScore: exact.nameScore,
+        matchTypes: exact.matchTypes
       });
     }
 
@@ -136,69 +226,147 @@ export class SimplifiedSearchService {
       const existing = candidateMap.get(vector.id);
       if (existing) {
         existing.vectorScore = vector.score;
+        existing.vectorSource = vector.source;
+        existing.observationId = vector.observationId;
       } else {
         candidateMap.set(vector.id, {
           id: vector.id,
           hasExactMatch: false,
-          vectorScore: vector.score
+          vectorScore: vector.score,
+          vectorSource: vector.source,
+          observationId: vector.observationId
         });
       }
     }
 
-    // Score and filter candidates
-    const scoredCandidates = Array.from(candidateMap.values())
-      .map(candidate => this.calculateSimpleScore(candidate))
-      .filter(result => result.score >= threshold)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
+    // Score and filter candidates - the threshold applies to relevance, before boosting
+    const relevantCandidates = scorer.score(Array.from(candidateMap.values()))
+      .filter(result => result.score >= threshold);
+
+    // Freshness and usage only matter for relevance order
+    const boostedCandidates = order
+      ? relevantCandidates
+      : await this.rankingBooster.apply(relevantCandidates, resolvedBoost, boostTime);
+
+    const scoredCandidates: RankedCandidate[] = boostedCandidates
+      .sort((a, b) => b.score - a.score || this.compareIds(a.id, b.id))
+      .map(scored => explain ? this.attachExplanation(scored, candidateMap.get(scored.id)!) : this.withoutComputation(scored));
+
+    // Relevance order keeps the top scores (or the MMR pick from the pool);
+    // timestamp order is sorted, paged and limited in Cypher - only within the top relevance hits
+    const rankedCandidates = order
+      ? scoredCandidates
+      : mmrLambda !== undefined
+        ? await this.mmrReranker.rerank(scoredCandidates, mmrLambda, limit)
+        : scoredCandidates
+            .filter(candidate => !after || this.isAfterScoreCursor(candidate, after))
+            .slice(0, limit);
 
     // Enrich with full memory data
-    return this.enrichWithMemoryData(scoredCandidates, memoryTypes);
+    const results = await this.enrichWithMemoryData(rankedCandidates, memoryTypes, order, limit, after);
+    if (!matchedObservations) {
+      return results;
+    }
+
+    // Snippet mode: only the observations that matched, vectors only when the vector channel answered
+    const matched = await this.observationMatcher.match(
+      results.map(result => result.id),
+      queryIntent.preprocessing.normalized,
+      matchedObservations,
+      vectorCandidates.length > 0,
+      threshold
+    );
+    return results.map(result => ({ ...result, observations: matched.get(result.id) ?? [] }));
   }
 
   /**
-   * Calculate simple mathematical score without truth levels
+   * MMR reorders relevance results - it has no meaning for timestamp order and breaks score keysets
    */
-  private calculateSimpleScore(candidate: {
-    id: string;
-    hasExactMatch: boolean;
-    vectorScore?: number;
-  }): { id: string; score: number; matchType: 'semantic' | 'exact' } {
-    
-    if (candidate.hasExactMatch) {
-      // Exact match gets high score, boosted if also has vector similarity
-      const baseScore = 0.85;
-      const vectorBoost = candidate.vectorScore ? Math.min(candidate.vectorScore * 0.15, 0.15) : 0;
-      return {
-        id: candidate.id,
-        score: Math.min(baseScore + vectorBoost, 1.0),
-        matchType: 'exact'
-      };
+  private validateMmrLambda({ mmrLambda, order, after }: SearchOptions): void {
+    if (mmrLambda === undefined) {
+      return;
     }
 
-    if (candidate.vectorScore) {
-      // Pure semantic match
-      return {
-        id: candidate.id,
-        score: candidate.vectorScore,
-        matchType: 'semantic'
-      };
+    if (!Number.isFinite(mmrLambda) || mmrLambda < 0 || mmrLambda > 1) {
+      throw new MCPValidationError(
+        'mmrLambda must be between 0.0 and 1.0',
+        MCPErrorCodes.INVALID_PARAMETER,
+        { parameter: 'mmrLambda', value: mmrLambda }
+      );
+    }
+
+    if (order || after) {
+      throw new MCPValidationError(
+        'mmrLambda requires relevance ordering and cannot be combined with orderBy or cursor',
+        MCPErrorCodes.INVALID_PARAMETER,
+        { parameter: 'mmrLambda', value: mmrLambda }
+      );
     }
+  }
+
+  /**
+   * Keyset position check for relevance order (score DESC, id ASC)
+   */
+  private isAfterScoreCursor(candidate: { id: string; score: number }, after: SearchCursor): boolean {
+    if (candidate.score !== after.value) {
+      return candidate.score < (after.value as number);
+    }
+    return this.compareIds(candidate.id, after.id) > 0;
+  }
+
+  private compareIds(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  private withoutComputation({ id, score, matchType }: ScoredCandidate): RankedCandidate {
+    return { id, score, matchType };
+  }
+
+  private attachExplanation(scored: ScoredCandidate & { boost?: BoostSignals }, candidate: ChannelCandidate): RankedCandidate {
+    const explanation = this.buildExplanation(candidate, scored.computation);
+    return {
+      ...this.withoutComputation(scored),
+      explanation: scored.boost ? { ...explanation, boost: scored.boost } : explanation
+    };
+  }
 
-    // Should not happen, but safety net
+  /**
+   * Channel flags, raw channel scores and the score derivation for one candidate
+   */
+  private buildExplanation(candidate: ChannelCandidate, computation: ScoreComputation): SearchExplanation {
+    const hasVector = candidate.vectorScore !== undefined;
     return {
-      id: candidate.id,
-      score: 0.1,
-      matchType: 'exact'
+      channels: {
+        name: candidate.matchTypes?.exactName ?? false,
+        metadataFulltext: candidate.matchTypes?.exactMetadata ?? false,
+        observationFulltext: candidate.matchTypes?.exactContent ?? false,
+        vector: hasVector
+      },
+      scores: {
+        ...(candidate.luceneScore !== undefined && { lucene: candidate.luceneScore }),
+        ...(candidate.nameScore !== undefined && { nameCoverage: candidate.nameScore }),
+        ...(hasVector && { cosine: candidate.vectorScore })
+      },
+      ...(hasVector && candidate.vectorSource && {
+        bestVectorMatch: {
+          source: candidate.vectorSource,
+          ...(candidate.observationId && { observationId: candidate.observationId })
+        }
+      }),
+      computation
     };
   }
 
   /**
    * Enrich scored candidates with full memory data
+   * With an explicit order the Cypher sort decides result order, otherwise score order is kept
    */
   private async enrichWithMemoryData(
-    candidates: Array<{ id: string; score: number; matchType: 'semantic' | 'exact' }>,
-    memoryTypes?: string[]
+    candidates: RankedCandidate[],
+    memoryTypes?: string[],
+    order?: SearchOrder,
+    limit?: number,
+    after?: SearchCursor
   ): Promise<SimpleSearchResult[]> {
     if (candidates.length === 0) return [];
 
@@ -210,6 +378,15 @@ export class SimplifiedSearchService {
       whereClause += ' AND m.memoryType IN $memoryTypes';
     }
 
+    // Timestamp order pages in Cypher; relevance pages were already cut from the candidates
+    const sortKey = order && timestampSortKey(`m.${order.property}`);
+    const keyset = order && after
+      ? buildKeysetClause(sortKey!, 'm.id', order.direction, after)
+      : undefined;
+    if (keyset) {
+      whereClause += ` AND ${keyset.cypher}`;
+    }
+
     const cypher = `
       MATCH (m:Memory)
       ${whereClause}
@@ -258,10 +435,16 @@ export class SimplifiedSearchService {
              observations,
              ancestors,
              descendants
-      ORDER BY m.name
+      ORDER BY ${order ? `${sortKey} ${order.direction}, m.id ${order.direction}` : 'm.name'}
+      ${order ? 'LIMIT $limit' : ''}
     `;
 
-    const result = await this.session.run(cypher, { candidateIds, memoryTypes });
+    const result = await this.session.run(cypher, {
+      candidateIds,
+      memoryTypes,
+      ...(order && { limit: neo4j.int(limit ?? candidates.length) }),
+      ...keyset?.params
+    });
     
     // Create enriched results map
     const enrichedMap = new Map<string, any>();
@@ -284,14 +467,20 @@ export class SimplifiedSearchService {
     }
 
     // Merge with scored candidates maintaining order
-    return candidates
+    const orderedCandidates = order
+      ? Array.from(enrichedMap.keys())
+          .map(id => candidates.find(candidate => candidate.id === id)!)
+      : candidates;
+
+    return orderedCandidates
       .map(candidate => {
         const enriched = enrichedMap.get(candidate.id);
         if (enriched) {
           return {
             ...enriched,
             score: candidate.score,
-            matchType: candidate.matchType
+            matchType: candidate.matchType,
+            ...(candidate.explanation && { explanation: candidate.explanation })
           };
         }
         // Return stub if enrichment failed
@@ -302,7 +491,8 @@ export class SimplifiedSearchService {
           observations: [],
           metadata: {},
           score: candidate.score,
-          matchType: candidate.matchType
+          matchType: candidate.matchType,
+          ...(candidate.explanation && { explanation: candidate.explanation })
         };
       })
       .filter(result => result.id); // Remove any failed enrichments
@@ -1,46 +1,153 @@
 /**
  * Vector Search Channel - Semantic Similarity Engine 
- * Single responsibility: Vector similarity operations using Neo4j GDS
+ * Single responsibility: Vector similarity operations using the best capability the server offers
  * 
- * CORRECTED IMPLEMENTATION: GDS is REQUIRED, not optional
- * ZERO-FALLBACK POLICY: If GDS fails, search fails. Period.
+ * Strategy selection (detected once per database, re-checked every minute):
+ * - vector-index: Neo4j 5.11+ native vector indexes via db.index.vector.queryNodes (Community included)
+ * - gds: GDS brute-force cosine for servers without vector index support
  * 
- * Based on system documentation:
- * - DozerDB setup includes GDS plugin installation
- * - GDS functions are documented as standard features
- * - Verification command provided: RETURN gds.similarity.cosine([1,2,3], [2,3,4])
+ * ZERO-FALLBACK POLICY: If neither capability exists, search fails with setup instructions.
+ * A failing strategy is never silently swapped for the other one mid-query.
  */
 
 import { Session } from 'neo4j-driver';
 import neo4j from 'neo4j-driver';
-import { calculateEmbedding, Vector } from '../../utilities';
+import { EmbeddingService } from '../embedding-service';
 import { MCPServiceError, MCPErrorCodes } from '../../errors';
+import { SearchDateFilter, VectorMatchSource } from '../../../domain/repositories/search-repository';
 
 export interface VectorCandidate {
   id: string;
   score: number;
+  source?: VectorMatchSource;   // Text that produced the best score
+  observationId?: string;       // Set when source is an observation or one of its chunks
 }
 
+export type VectorSearchStrategy = 'vector-index' | 'gds';
+
+// Created by IndexManager.ensureVectorIndexes
+const MEMORY_VECTOR_INDEX = 'memory_name_vector_idx';
+const OBSERVATION_VECTOR_INDEX = 'observation_embedding_vector_idx';
+const CHUNK_VECTOR_INDEX = 'observation_chunk_vector_idx';
+
+// kNN results are filtered after the index lookup - oversample so filters do not starve the page
+const FILTERED_OVERSAMPLING = 5;
+const UNFILTERED_OVERSAMPLING = 2;
+
+// Indexes created at startup come ONLINE after population - a detection is trusted this long
+const STRATEGY_RECHECK_MS = 60 * 1000;
+
+interface DetectedStrategy {
+  strategy: VectorSearchStrategy;
+  chunkIndexOnline: boolean;
+  detectedAt: number;
+}
+
+// Channels are created per search - capabilities are a property of the database, not the channel
+const detectedStrategies = new Map<string, DetectedStrategy>();
+
 export class VectorSearchChannel {
   private gdsVerified: boolean | null = null;
+  private strategy: VectorSearchStrategy | null = null;
+  private chunkIndexOnline = false;
 
-  constructor(private session: Session) {}
+  /**
+   * database keys the shared strategy cache - without it the channel detects for itself
+   */
+  constructor(
+    private session: Session,
+    private embeddingService: EmbeddingService,
+    private database?: string
+  ) {}
 
   /**
-   * Execute vector similarity search using Neo4j GDS
-   * ZERO-FALLBACK: Either GDS works or we fail fast with setup instructions
+   * Execute vector similarity search with the detected strategy
+   * ZERO-FALLBACK: Either a capability works or we fail fast with setup instructions
    */
   async search(
     query: string,
     limit: number,
     threshold: number,
-    memoryTypes?: string[]
+    memoryTypes?: string[],
+    dateFilter?: SearchDateFilter
+  ): Promise<VectorCandidate[]> {
+    // Capability check first - no embedding work when vector search cannot run
+    await this.detectStrategy();
+
+    const queryVector = await this.embeddingService.calculateEmbedding(query);
+    return this.searchByVector(queryVector, limit, threshold, memoryTypes, dateFilter);
+  }
+
+  /**
+   * Vector similarity search for a vector that is already embedded (e.g. a stored memory vector)
+   */
+  async searchByVector(
+    queryVector: number[],
+    limit: number,
+    threshold: number,
+    memoryTypes?: string[],
+    dateFilter?: SearchDateFilter
   ): Promise<VectorCandidate[]> {
-    // Ensure GDS is available before proceeding
-    await this.ensureGDSAvailable();
-    
-    const queryVector = await calculateEmbedding(query);
-    return this.searchWithGDS(queryVector, limit, threshold, memoryTypes);
+    const strategy = await this.detectStrategy();
+
+    return strategy === 'vector-index'
+      ? this.searchWithVectorIndex(queryVector, limit, threshold, memoryTypes, dateFilter)
+      : this.searchWithGDS(queryVector, limit, threshold, memoryTypes, dateFilter);
+  }
+
+  /**
+   * Pick vector strategy from server capabilities
+   * Native indexes win; GDS is only verified when they are missing
+   */
+  private async detectStrategy(): Promise<VectorSearchStrategy> {
+    if (this.strategy) {
+      return this.strategy;
+    }
+
+    const cached = this.database !== undefined ? detectedStrategies.get(this.database) : undefined;
+    if (cached && Date.now() - cached.detectedAt < STRATEGY_RECHECK_MS) {
+      this.chunkIndexOnline = cached.chunkIndexOnline;
+      this.gdsVerified = cached.strategy === 'gds' ? true : this.gdsVerified;
+      this.strategy = cached.strategy;
+      return this.strategy;
+    }
+
+    if (await this.hasOnlineVectorIndexes()) {
+      this.strategy = 'vector-index';
+    } else {
+      await this.ensureGDSAvailable();
+      this.strategy = 'gds';
+    }
+
+    if (this.database !== undefined) {
+      detectedStrategies.set(this.database, {
+        strategy: this.strategy,
+        chunkIndexOnline: this.chunkIndexOnline,
+        detectedAt: Date.now()
+      });
+    }
+    return this.strategy;
+  }
+
+  /**
+   * Check memory and observation vector indexes exist and are ONLINE
+   * The chunk index is optional - without it chunks are simply not queried
+   */
+  private async hasOnlineVectorIndexes(): Promise<boolean> {
+    try {
+      const result = await this.session.run(`
+        SHOW INDEXES YIELD name, type, state
+        WHERE type = 'VECTOR' AND state = 'ONLINE'
+        RETURN name
+      `);
+
+      const onlineIndexes = new Set(result.records.map(record => record.get('name')));
+      this.chunkIndexOnline = onlineIndexes.has(CHUNK_VECTOR_INDEX);
+      return onlineIndexes.has(MEMORY_VECTOR_INDEX) && onlineIndexes.has(OBSERVATION_VECTOR_INDEX);
+    } catch {
+      // Servers without vector index support cannot answer - capability absent, not an error
+      return false;
+    }
   }
 
   /**
@@ -82,6 +189,87 @@ export class VectorSearchChannel {
           service: 'neo4j-gds',
           installUrl: 'https://dozerdb.org/',
           verifyCommand: 'RETURN gds.similarity.cosine([1,2,3], [2,3,4])',
+          alternative: `Neo4j 5.11+ with ONLINE vector indexes ${MEMORY_VECTOR_INDEX} and ${OBSERVATION_VECTOR_INDEX}`,
+          originalError: errorMessage
+        }
+      );
+    }
+  }
+
+  /**
+   * Execute vector search using native vector indexes
+   * Name, observation and chunk hits are merged per memory, keeping the best score -
+   * a long observation scores by its best chunk.
+   * Index scores are normalized to [0,1] for cosine - converted back to raw cosine to match GDS scoring
+   */
+  private async searchWithVectorIndex(
+    queryVector: number[],
+    limit: number,
+    threshold: number,
+    memoryTypes?: string[],
+    dateFilter?: SearchDateFilter
+  ): Promise<VectorCandidate[]> {
+    const whereClauses: string[] = ['bestScore >= $threshold'];
+    if (memoryTypes && memoryTypes.length > 0) {
+      whereClauses.push('m.memoryType IN $memoryTypes');
+    }
+    if (dateFilter?.cypher) {
+      whereClauses.push(dateFilter.cypher);
+    }
+
+    const isFiltered = whereClauses.length > 1;
+    const k = limit * (isFiltered ? FILTERED_OVERSAMPLING : UNFILTERED_OVERSAMPLING);
+
+    const chunkArm = this.chunkIndexOnline ? `
+        UNION ALL
+        CALL db.index.vector.queryNodes('${CHUNK_VECTOR_INDEX}', $k, $queryVector)
+        YIELD node, score
+        MATCH (m:Memory)-[:HAS_OBSERVATION]->(o:Observation)-[:HAS_CHUNK]->(node)
+        RETURN m, score, o.id AS observationId, 'chunk' AS source` : '';
+
+    const cypher = `
+      CALL {
+        CALL db.index.vector.queryNodes('${MEMORY_VECTOR_INDEX}', $k, $queryVector)
+        YIELD node, score
+        RETURN node AS m, score, null AS observationId, 'name' AS source
+        UNION ALL
+        CALL db.index.vector.queryNodes('${OBSERVATION_VECTOR_INDEX}', $k, $queryVector)
+        YIELD node, score
+        MATCH (m:Memory)-[:HAS_OBSERVATION]->(node)
+        RETURN m, score, node.id AS observationId, 'observation' AS source${chunkArm}
+      }
+      
+      // Best hit per memory, back on the raw cosine scale
+      WITH m, score, observationId, source
+      ORDER BY score DESC
+      WITH m, max(2 * score - 1) AS bestScore,
+           collect({observationId: observationId, source: source})[0] AS best
+      WHERE ${whereClauses.join(' AND ')}
+      RETURN m.id as id, bestScore as score, best.observationId as observationId, best.source as source
+      ORDER BY score DESC
+      LIMIT $limit
+    `;
+
+    try {
+      const result = await this.session.run(cypher, {
+        queryVector,
+        threshold,
+        k: neo4j.int(k),
+        limit: neo4j.int(limit),
+        memoryTypes,
+        ...(dateFilter?.params || {})
+      });
+
+      return result.records.map(record => this.toCandidate(record));
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new MCPServiceError(
+        `Vector index search failed: ${errorMessage}`,
+        MCPErrorCodes.VECTOR_SEARCH_ERROR,
+        {
+          service: 'vector-search',
+          indexes: [MEMORY_VECTOR_INDEX, OBSERVATION_VECTOR_INDEX, CHUNK_VECTOR_INDEX],
           originalError: errorMessage
         }
       );
@@ -93,15 +281,20 @@ export class VectorSearchChannel {
    * ASSUMES GDS is available - ensureGDSAvailable() must be called first
    */
   private async searchWithGDS(
-    queryVector: Vector,
+    queryVector: number[],
     limit: number,
     threshold: number,
-    memoryTypes?: string[]
+    memoryTypes?: string[],
+    dateFilter?: SearchDateFilter
   ): Promise<VectorCandidate[]> {
-    let whereClause = '';
+    const whereClauses: string[] = [];
     if (memoryTypes && memoryTypes.length > 0) {
-      whereClause = 'WHERE m.memoryType IN $memoryTypes';
+      whereClauses.push('m.memoryType IN $memoryTypes');
+    }
+    if (dateFilter?.cypher) {
+      whereClauses.push(dateFilter.cypher);
     }
+    const whereClause = whereClauses.length > 0 ? `WHERE ${whereClauses.join(' AND ')}` : '';
 
     const cypher = `
       MATCH (m:Memory)
@@ -115,21 +308,39 @@ export class VectorSearchChannel {
       
       // Calculate best observation embedding score using GDS
       OPTIONAL MATCH (m)-[:HAS_OBSERVATION]->(o:Observation)
-      WITH m, nameScore,
+      WITH m, nameScore, o,
            CASE WHEN o.embedding IS NOT NULL 
                 THEN gds.similarity.cosine(o.embedding, $queryVector) 
-                ELSE 0.0 END AS obsScore
+                ELSE 0.0 END AS wholeScore
       
-      // Get the maximum score between name and all observations
-      WITH m, nameScore, max(obsScore) AS maxObsScore
-      WITH m, CASE WHEN nameScore >= coalesce(maxObsScore, 0.0) 
-                   THEN nameScore 
-                   ELSE coalesce(maxObsScore, 0.0) END AS bestScore
+      // Long observations score by their best chunk
+      OPTIONAL MATCH (o)-[:HAS_CHUNK]->(c:ObservationChunk)
+      WITH m, nameScore, o, wholeScore,
+           max(CASE WHEN c.embedding IS NOT NULL 
+                    THEN gds.similarity.cosine(c.embedding, $queryVector) 
+                    ELSE 0.0 END) AS chunkScore
+      WITH m, nameScore, o,
+           CASE WHEN coalesce(chunkScore, 0.0) > wholeScore 
+                THEN chunkScore 
+                ELSE wholeScore END AS obsScore,
+           CASE WHEN coalesce(chunkScore, 0.0) > wholeScore 
+                THEN 'chunk' 
+                ELSE 'observation' END AS obsSource
+      
+      // Get the maximum score between name and all observations, remembering the best observation
+      WITH m, nameScore, o, obsScore, obsSource
+      ORDER BY obsScore DESC
+      WITH m, nameScore, collect({id: o.id, score: obsScore, source: obsSource})[0] AS bestObs
+      WITH m, nameScore, bestObs, coalesce(bestObs.score, 0.0) AS maxObsScore
+      WITH m,
+           CASE WHEN nameScore >= maxObsScore THEN nameScore ELSE maxObsScore END AS bestScore,
+           CASE WHEN nameScore >= maxObsScore THEN null ELSE bestObs.id END AS observationId,
+           CASE WHEN nameScore >= maxObsScore THEN 'name' ELSE bestObs.source END AS source
       
       WHERE bestScore >= $threshold
       ORDER BY bestScore DESC
       LIMIT $limit
-      RETURN m.id as id, bestScore as score
+      RETURN m.id as id, bestScore as score, observationId, source
     `;
 
     try {
@@ -137,13 +348,11 @@ export class VectorSearchChannel {
         queryVector,
         threshold,
         limit: neo4j.int(limit),
-        memoryTypes
+        memoryTypes,
+        ...(dateFilter?.params || {})
       });
 
-      return result.records.map(record => ({
-        id: record.get('id'),
-        score: record.get('score')
-      }));
+      return result.records.map(record => this.toCandidate(record));
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -170,10 +379,28 @@ export class VectorSearchChannel {
     }
   }
 
+  private toCandidate(record: { get(key: string): any }): VectorCandidate {
+    const source = record.get('source');
+    const observationId = record.get('observationId');
+    return {
+      id: record.get('id'),
+      score: record.get('score'),
+      ...(source && { source }),
+      ...(observationId && { observationId })
+    };
+  }
+
   /**
    * Get GDS verification status for monitoring
    */
   isGDSVerified(): boolean | null {
     return this.gdsVerified;
   }
+
+  /**
+   * Get detected vector strategy for monitoring (null until first search)
+   */
+  getStrategy(): VectorSearchStrategy | null {
+    return this.strategy;
+  }
 }
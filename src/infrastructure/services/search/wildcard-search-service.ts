@@ -7,19 +7,24 @@
 import { Session } from 'neo4j-driver';
 import neo4j from 'neo4j-driver';
 import { EnhancedSearchResult } from '../../../types';
+import { SearchOrder, SearchCursor } from '../../../domain/repositories/search-repository';
+import { buildKeysetClause, timestampSortKey } from '../../utilities/keyset-pagination';
 
 export class WildcardSearchService {
   constructor(private session: Session) {}
 
   /**
    * Execute wildcard search with graph context and date filtering
+   * Pages resume after the cursor position on (order property, id)
    */
   async search(
     limit: number,
     includeGraphContext: boolean,
     memoryTypes?: string[],
     dateFilterCypher?: string,
-    dateFilterParams?: Record<string, string>
+    dateFilterParams?: Record<string, unknown>,
+    order: SearchOrder = { property: 'createdAt', direction: 'DESC' },
+    after?: SearchCursor
   ): Promise<EnhancedSearchResult[]> {
     const whereClauses: string[] = [];
     const queryParams: Record<string, any> = {
@@ -38,18 +43,27 @@ export class WildcardSearchService {
       Object.assign(queryParams, dateFilterParams);
     }
 
+    // Add keyset pagination
+    const sortKey = timestampSortKey(`m.${order.property}`);
+    if (after) {
+      const keyset = buildKeysetClause(sortKey, 'm.id', order.direction, after);
+      whereClauses.push(keyset.cypher);
+      Object.assign(queryParams, keyset.params);
+    }
+
     const whereClause = whereClauses.length > 0 ? ' WHERE ' + whereClauses.join(' AND ') : '';
+    const orderClause = `${sortKey} ${order.direction}, m.id ${order.direction}`;
 
     const cypher = includeGraphContext 
-      ? this.buildWildcardWithContextQuery(whereClause)
-      : this.buildBasicWildcardQuery(whereClause);
+      ? this.buildWildcardWithContextQuery(whereClause, orderClause)
+      : this.buildBasicWildcardQuery(whereClause, orderClause);
 
     const result = await this.session.run(cypher, queryParams);
 
     return result.records.map(record => this.mapRecordToResult(record, includeGraphContext));
   }
 
-  private buildBasicWildcardQuery(whereClause: string): string {
+  private buildBasicWildcardQuery(whereClause: string, orderClause: string): string {
     return `
       MATCH (m:Memory)${whereClause}
       
@@ -65,12 +79,12 @@ export class WildcardSearchService {
              m.modifiedAt as modifiedAt,
              m.lastAccessed as lastAccessed,
              observations
-      ORDER BY m.createdAt DESC
+      ORDER BY ${orderClause}
       LIMIT $limit
     `;
   }
 
-  private buildWildcardWithContextQuery(whereClause: string): string {
+  private buildWildcardWithContextQuery(whereClause: string, orderClause: string): string {
     return `
       MATCH (m:Memory)${whereClause}
 
@@ -117,7 +131,7 @@ export class WildcardSearchService {
              observations,
              [rel IN ancestors WHERE rel.id IS NOT NULL] as ancestors,
              [rel IN descendants WHERE rel.id IS NOT NULL] as descendants
-      ORDER BY m.createdAt DESC
+      ORDER BY ${orderClause}
       LIMIT $limit
     `;
   }
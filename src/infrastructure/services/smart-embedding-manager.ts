@@ -1,34 +1,48 @@
 /**
  * Smart Embedding Manager - Clean Architecture Implementation
  * Single responsibility: Model lifecycle management with lazy loading
- * Features: Auto-dimensions, idle timeout, preload option
+ * Features: Auto-dimensions, worker thread pool with idle teardown, preload option
+ * This is the xenova EmbeddingProvider - inference runs in EmbeddingWorkerPool, off the event loop
  */
 
-import { pipeline } from '@xenova/transformers';
 import { getVectorConfig } from '../../config';
-import { MCPServiceError, MCPValidationError, MCPErrorCodes } from '../errors';
+import { MCPValidationError, MCPErrorCodes } from '../errors';
+import { EmbeddingProvider, cosineSimilarity, chunkTexts } from './embedding-provider';
+import { EmbeddingWorkerPool } from './embedding-worker-pool';
+
+const DEFAULT_BATCH_SIZE = 32; // Texts per pipeline call when EMBEDDING_BATCH_SIZE is unset
+const DEFAULT_WORKERS = 1;     // Worker threads when EMBEDDING_WORKERS is unset
 
 export interface EmbeddingManager {
   calculateEmbedding(text: string): Promise<number[]>;
+  calculateEmbeddings(texts: string[]): Promise<number[][]>;
   getModelDimensions(): Promise<number>;
   preloadModel(): Promise<void>;
   calculateSimilarity(vector1: number[], vector2: number[]): number;
 }
 
-export class SmartEmbeddingManager implements EmbeddingManager {
-  private model: any = null;
-  private lastUsed: number = 0;
+export class SmartEmbeddingManager implements EmbeddingManager, EmbeddingProvider {
+  readonly name = 'xenova' as const;
   private modelDimensions: number = 0;
-  private cleanupTimer: NodeJS.Timeout | null = null;
-  private loadingPromise: Promise<void> | null = null;
   private config = getVectorConfig();
+  private pool = new EmbeddingWorkerPool({
+    size: this.config.workers ?? DEFAULT_WORKERS,
+    modelName: this.config.modelName,
+    idleTimeout: this.config.idleTimeout
+  });
 
   constructor() {
     // Model loading happens only on first use or explicit preload
   }
 
+  get modelName(): string {
+    return this.config.modelName;
+  }
+
   async preloadModel(): Promise<void> {
-    await this.ensureModel();
+    // Probe request loads the model in a worker and auto-detects dimensions if not specified
+    const [probe] = await this.pool.embed(['test']);
+    this.modelDimensions = this.config.dimensions === 'auto' ? probe.length : this.config.dimensions as number;
   }
 
   async calculateEmbedding(text: string): Promise<number[]> {
@@ -39,150 +53,47 @@ export class SmartEmbeddingManager implements EmbeddingManager {
       );
     }
 
-    const model = await this.ensureModel();
-    this.resetIdleTimer();
-    
-    try {
-      const result = await model(text, {
-        pooling: 'mean',
-        normalize: true
-      });
-      
-      return Array.from(result.data);
-    } catch (error) {
-      // Zero-fallback: Fail with proper error, no console output
-      throw new MCPServiceError(
-        `Embedding calculation failed: ${error instanceof Error ? error.message : String(error)}`,
-        MCPErrorCodes.EMBEDDING_SERVICE_ERROR,
-        { originalError: error instanceof Error ? error.message : String(error) }
-      );
-    }
-  }
-
-  async getModelDimensions(): Promise<number> {
-    if (this.modelDimensions === 0) {
-      await this.ensureModel();
-    }
-    return this.modelDimensions;
+    // Zero-fallback: Pool rejects with MCPServiceError, no console output
+    const [embedding] = await this.pool.embed([text]);
+    return embedding;
   }
 
-  calculateSimilarity(vector1: number[], vector2: number[]): number {
-    // Safety checks
-    if (!vector1 || !vector2 || !Array.isArray(vector1) || !Array.isArray(vector2)) {
-      return 0;
-    }
-    
-    // Ensure same length
-    if (vector1.length !== vector2.length) {
-      return 0;
-    }
-    
-    try {
-      let dotProduct = 0;
-      let mag1 = 0;
-      let mag2 = 0;
-      
-      for (let i = 0; i < vector1.length; i++) {
-        if (typeof vector1[i] !== 'number' || typeof vector2[i] !== 'number') {
-          continue;
-        }
-        dotProduct += vector1[i] * vector2[i];
-        mag1 += vector1[i] * vector1[i];
-        mag2 += vector2[i] * vector2[i];
-      }
-      
-      mag1 = Math.sqrt(mag1);
-      mag2 = Math.sqrt(mag2);
-      
-      if (mag1 === 0 || mag2 === 0) {
-        return 0;
-      }
-      
-      return dotProduct / (mag1 * mag2);
-    } catch (error) {
-      throw new MCPServiceError(
-        `Similarity calculation failed: ${error instanceof Error ? error.message : String(error)}`,
-        MCPErrorCodes.EMBEDDING_SERVICE_ERROR,
-        { operation: 'calculateSimilarity' }
+  /**
+   * Embed many texts with one pipeline call per chunk
+   * Chunks are queued together - with several workers they run in parallel
+   */
+  async calculateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (texts.some(text => !text || text.trim() === '')) {
+      throw new MCPValidationError(
+        'Cannot calculate embedding for empty text',
+        MCPErrorCodes.VALIDATION_FAILED
       );
     }
-  }
-
-  private async ensureModel(): Promise<any> {
-    if (this.model) {
-      this.lastUsed = Date.now();
-      return this.model;
-    }
-
-    if (this.loadingPromise) {
-      await this.loadingPromise;
-      return this.model;
+    if (texts.length === 0) {
+      return [];
     }
 
-    this.loadingPromise = this.loadModel();
-    await this.loadingPromise;
-    this.loadingPromise = null;
-
-    return this.model;
+    const chunks = chunkTexts(texts, this.config.batchSize || DEFAULT_BATCH_SIZE);
+    const results = await Promise.all(chunks.map(chunk => this.pool.embed(chunk)));
+    return results.flat();
   }
 
-  private async loadModel(): Promise<void> {
-    try {
-      // Determine model name for Xenova transformers
-      const modelName = this.config.modelName.startsWith('Xenova/') 
-        ? this.config.modelName 
-        : `Xenova/${this.config.modelName.replace('sentence-transformers/', '')}`;
-      
-      this.model = await pipeline('feature-extraction', modelName);
-      
-      // Auto-detect dimensions if not specified
-      if (this.config.dimensions === 'auto') {
-        const testEmbedding = await this.model('test');
-        this.modelDimensions = testEmbedding.data.length;
-      } else {
-        this.modelDimensions = this.config.dimensions as number;
-      }
-      
-      this.lastUsed = Date.now();
-    } catch (error) {
-      // Zero-fallback: Fail immediately, no console output
-      this.model = null;
-      this.modelDimensions = 0;
-      this.loadingPromise = null;
-      throw new MCPServiceError(
-        `Failed to load embedding model: ${error instanceof Error ? error.message : String(error)}`,
-        MCPErrorCodes.EMBEDDING_SERVICE_ERROR,
-        { 
-          model: this.config.modelName,
-          originalError: error instanceof Error ? error.message : String(error)
-        }
-      );
+  async getModelDimensions(): Promise<number> {
+    if (this.modelDimensions === 0) {
+      await this.preloadModel();
     }
+    return this.modelDimensions;
   }
 
-  private resetIdleTimer(): void {
-    if (this.cleanupTimer) {
-      clearTimeout(this.cleanupTimer);
-    }
-    
-    this.cleanupTimer = setTimeout(() => {
-      if (Date.now() - this.lastUsed >= this.config.idleTimeout) {
-        this.model = null;
-        this.modelDimensions = 0;
-        this.cleanupTimer = null;
-      }
-    }, this.config.idleTimeout);
+  calculateSimilarity(vector1: number[], vector2: number[]): number {
+    return cosineSimilarity(vector1, vector2);
   }
 
   /**
-   * Clean shutdown - clear timers and free resources
+   * Clean shutdown - terminate workers, reject queued requests and clear timers
    */
   async shutdown(): Promise<void> {
-    if (this.cleanupTimer) {
-      clearTimeout(this.cleanupTimer);
-      this.cleanupTimer = null;
-    }
-    this.model = null;
+    await this.pool.shutdown();
     this.modelDimensions = 0;
   }
 }
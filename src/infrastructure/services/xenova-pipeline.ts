@@ -0,0 +1,38 @@
+/**
+ * Xenova Pipeline
+ * Single responsibility: Load the transformers feature-extraction pipeline and run it on texts
+ * Shared by the inline executor and embedding worker threads - no state, no config lookups
+ */
+
+/**
+ * Map configured model name to its Xenova ONNX export
+ */
+export function resolveXenovaModelName(modelName: string): string {
+  return modelName.startsWith('Xenova/')
+    ? modelName
+    : `Xenova/${modelName.replace('sentence-transformers/', '')}`;
+}
+
+export async function loadXenovaPipeline(modelName: string): Promise<any> {
+  // Imported on first load only - keeps sharp/onnxruntime out of processes that never embed
+  const { pipeline } = await import('@xenova/transformers');
+  return pipeline('feature-extraction', resolveXenovaModelName(modelName));
+}
+
+/**
+ * Run pipeline on texts and split the [texts, dimensions] output tensor per text
+ * A single text is passed unbatched - batching only adds padding work
+ */
+export async function embedWithPipeline(model: any, texts: string[]): Promise<number[][]> {
+  const result = await model(texts.length === 1 ? texts[0] : texts, {
+    pooling: 'mean',
+    normalize: true
+  });
+
+  const dimensions = result.data.length / texts.length;
+  const embeddings: number[][] = [];
+  for (let i = 0; i < texts.length; i++) {
+    embeddings.push(Array.from(result.data.slice(i * dimensions, (i + 1) * dimensions)));
+  }
+  return embeddings;
+}
@@ -6,12 +6,21 @@
 // DateTime utilities
 export { convertDateTimeToString, detectIdFormat } from './datetime-utils';
 
-// Embedding utilities
-export { 
-  calculateEmbedding, 
-  calculateSimilarity, 
-  type Vector 
-} from './embedding-utility';
+// Pagination utilities
+export { buildKeysetClause, timestampSortKey, MISSING_TIMESTAMP, type KeysetClause } from './keyset-pagination';
+
+// Metadata utilities
+export {
+  METADATA_PROPERTY_PREFIX,
+  METADATA_KEYS_PROPERTY,
+  metadataPropertyName,
+  toMetadataProperties,
+  buildMetadataFilterClause,
+  withMetadataFilter
+} from './metadata-properties';
+
+// Fulltext utilities
+export { sanitizeLuceneQuery } from './lucene-query';
 
 // Error handling utilities
 export { 
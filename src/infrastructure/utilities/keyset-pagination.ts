@@ -0,0 +1,41 @@
+/**
+ * Keyset Pagination Utilities
+ * Single responsibility: Build Cypher predicates that resume a sorted listing after a cursor
+ * THE IMPLEMENTOR'S RULE: Keyset, not SKIP - pages stay stable while memories are written
+ */
+
+import { SearchCursor } from '../../domain/repositories/search-repository';
+
+export interface KeysetClause {
+  cypher: string;
+  params: Record<string, any>;
+}
+
+/**
+ * Sort position of a memory without the timestamp - below every ISO timestamp
+ */
+export const MISSING_TIMESTAMP = '';
+
+/**
+ * Null-safe sort key for a timestamp property
+ * Neo4j sorts nulls last ascending and first descending, and no keyset comparison matches null -
+ * ORDER BY and the keyset predicate both use this expression so legacy memories page like the oldest ones
+ */
+export const timestampSortKey = (expression: string): string =>
+  `coalesce(${expression}, '${MISSING_TIMESTAMP}')`;
+
+/**
+ * Predicate for rows strictly after the cursor in ORDER BY sortExpression, idExpression (same direction)
+ */
+export const buildKeysetClause = (
+  sortExpression: string,
+  idExpression: string,
+  direction: 'ASC' | 'DESC',
+  after: SearchCursor
+): KeysetClause => {
+  const op = direction === 'ASC' ? '>' : '<';
+  return {
+    cypher: `(${sortExpression} ${op} $cursorValue OR (${sortExpression} = $cursorValue AND ${idExpression} ${op} $cursorId))`,
+    params: { cursorValue: after.value, cursorId: after.id }
+  };
+};
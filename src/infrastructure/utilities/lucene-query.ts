@@ -0,0 +1,49 @@
+/**
+ * Lucene Query Utilities
+ * Single responsibility: Make user text safe for db.index.fulltext.queryNodes
+ */
+
+/**
+ * Sanitize query for Lucene FULLTEXT search to prevent ParseException
+ * Escape special characters that break Lucene parser
+ * DOUBLE-ESCAPE PROTECTION: Check for existing escapes before adding new ones
+ * SECURITY FIX: Escape ALL BASE85 special characters to prevent injection
+ *
+ * Lucene special characters: + - && || ! ( ) { } [ ] ^ " ~ * ? : \ /
+ * BASE85 additional risky chars: @ . # $ % = ; _ `
+ * Lucene operators: AND, OR, NOT, TO (must be uppercase to be operators)
+ */
+export const sanitizeLuceneQuery = (query: string): string => {
+  if (!query || typeof query !== 'string') {
+    return '';
+  }
+
+  // First pass: neutralize Lucene operators by converting to lowercase
+  let neutralized = query
+    .replace(/\bAND\b/g, 'and')
+    .replace(/\bOR\b/g, 'or')
+    .replace(/\bNOT\b/g, 'not')
+    .replace(/\bTO\b/g, 'to');
+
+  // Second pass: Escape all non-alphanumeric except backslash
+  let result = '';
+
+  for (let i = 0; i < neutralized.length; i++) {
+    const char = neutralized[i];
+    const prevChar = i > 0 ? neutralized[i - 1] : '';
+
+    // Check if this is alphanumeric, space, or backslash
+    if (/^[0-9A-Za-z\s\\]$/.test(char)) {
+      result += char;
+    } else {
+      // It's a special character - escape if not already escaped
+      if (prevChar !== '\\') {
+        result += '\\' + char;
+      } else {
+        result += char;
+      }
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,203 @@
+/**
+ * Metadata Property Utilities
+ * Single responsibility: Mirror top-level metadata scalars as node properties and filter on them
+ * THE IMPLEMENTOR'S RULE: m.metadata stays the source of truth - meta_* properties are a queryable copy
+ *
+ * metadata {status: "open", priority: 2} is stored as the JSON string plus
+ * m.meta_status = "open", m.meta_priority = 2 and m.metaKeys = ["status", "priority"].
+ * metaKeys remembers what was promoted so updates can remove keys that disappeared.
+ */
+
+import {
+  MetadataCondition,
+  MetadataFilter,
+  MetadataScalar,
+  SearchDateFilter
+} from '../../domain/repositories/search-repository';
+import { MCPValidationError, MCPErrorCodes } from '../errors';
+
+export const METADATA_PROPERTY_PREFIX = 'meta_';
+export const METADATA_KEYS_PROPERTY = 'metaKeys';
+
+// Keys usable as Cypher property names without quoting
+const PROMOTABLE_KEY = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const CONDITION_OPERATORS = ['eq', 'in', 'exists', 'gt', 'gte', 'lt', 'lte'] as const;
+
+const RANGE_OPERATORS = { gt: '>', gte: '>=', lt: '<', lte: '<=' } as const;
+
+/**
+ * Node property name holding a promoted metadata key
+ */
+export const metadataPropertyName = (key: string): string => `${METADATA_PROPERTY_PREFIX}${key}`;
+
+/**
+ * Properties to SET on a Memory node for its metadata
+ * Only top-level strings, finite numbers and booleans are promoted - nested objects, arrays
+ * and keys that are not plain identifiers stay reachable through m.metadata only.
+ * Keys promoted before (previousKeys) but absent now are set to null, which removes them.
+ */
+export const toMetadataProperties = (
+  metadata: Record<string, any> | null | undefined,
+  previousKeys: string[] = []
+): Record<string, MetadataScalar | string[] | null> => {
+  const properties: Record<string, MetadataScalar | string[] | null> = {};
+
+  for (const key of previousKeys) {
+    properties[metadataPropertyName(key)] = null;
+  }
+
+  const promotedKeys: string[] = [];
+  for (const [key, value] of Object.entries(metadata || {})) {
+    if (PROMOTABLE_KEY.test(key) && isScalar(value)) {
+      properties[metadataPropertyName(key)] = value;
+      promotedKeys.push(key);
+    }
+  }
+
+  properties[METADATA_KEYS_PROPERTY] = promotedKeys;
+  return properties;
+};
+
+/**
+ * Cypher predicate for a metadata filter over a Memory variable
+ * Every key must hold (AND). Bare scalars mean equality.
+ * Zero-fallback: unknown operators and malformed values throw immediately
+ */
+export const buildMetadataFilterClause = (
+  filter: MetadataFilter,
+  variable: string = 'm'
+): SearchDateFilter => {
+  if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+    throw invalidFilter('metadataFilter must be an object of key conditions', { filter });
+  }
+
+  const clauses: string[] = [];
+  const params: Record<string, unknown> = {};
+  const bind = (value: unknown): string => {
+    const name = `metaFilter${Object.keys(params).length}`;
+    params[name] = value;
+    return `$${name}`;
+  };
+
+  for (const [key, condition] of Object.entries(filter)) {
+    if (!PROMOTABLE_KEY.test(key)) {
+      throw invalidFilter(
+        `Invalid metadata filter key: ${key}. Keys must be letters, digits and underscores, not starting with a digit`,
+        { key }
+      );
+    }
+    const property = `${variable}.${metadataPropertyName(key)}`;
+
+    if (isScalar(condition)) {
+      clauses.push(`${property} = ${bind(condition)}`);
+      continue;
+    }
+
+    if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+      throw invalidFilter(
+        `Invalid metadata filter for ${key}: expected a string, number, boolean or condition object`,
+        { key, condition }
+      );
+    }
+
+    clauses.push(...buildConditionClauses(key, property, condition, bind));
+  }
+
+  return {
+    cypher: clauses.join(' AND '),
+    params
+  };
+};
+
+/**
+ * AND a metadata filter into an existing constraint over `m` (date filter or none)
+ */
+export const withMetadataFilter = (
+  dateFilter: SearchDateFilter | undefined,
+  metadataFilter: MetadataFilter | undefined
+): SearchDateFilter | undefined => {
+  if (!metadataFilter) {
+    return dateFilter;
+  }
+
+  const metadataClause = buildMetadataFilterClause(metadataFilter);
+  if (!metadataClause.cypher) {
+    return dateFilter;
+  }
+
+  return {
+    cypher: dateFilter?.cypher ? `${dateFilter.cypher} AND ${metadataClause.cypher}` : metadataClause.cypher,
+    params: { ...(dateFilter?.params || {}), ...metadataClause.params }
+  };
+};
+
+function buildConditionClauses(
+  key: string,
+  property: string,
+  condition: MetadataCondition,
+  bind: (value: unknown) => string
+): string[] {
+  const operators = Object.keys(condition);
+  const unknown = operators.filter(op => !(CONDITION_OPERATORS as readonly string[]).includes(op));
+  if (unknown.length > 0 || operators.length === 0) {
+    throw invalidFilter(
+      `Invalid metadata filter for ${key}. Valid operators: ${CONDITION_OPERATORS.join(', ')}`,
+      { key, operators: unknown }
+    );
+  }
+
+  const clauses: string[] = [];
+
+  if (condition.eq !== undefined) {
+    if (!isScalar(condition.eq)) {
+      throw invalidFilter(`Metadata filter ${key}.eq must be a string, number or boolean`, { key, value: condition.eq });
+    }
+    clauses.push(`${property} = ${bind(condition.eq)}`);
+  }
+
+  if (condition.in !== undefined) {
+    if (!Array.isArray(condition.in) || condition.in.length === 0 || !condition.in.every(isScalar)) {
+      throw invalidFilter(`Metadata filter ${key}.in must be a non-empty array of strings, numbers or booleans`, {
+        key,
+        value: condition.in
+      });
+    }
+    clauses.push(`${property} IN ${bind(condition.in)}`);
+  }
+
+  if (condition.exists !== undefined) {
+    if (typeof condition.exists !== 'boolean') {
+      throw invalidFilter(`Metadata filter ${key}.exists must be a boolean`, { key, value: condition.exists });
+    }
+    clauses.push(`${property} IS ${condition.exists ? 'NOT NULL' : 'NULL'}`);
+  }
+
+  for (const [op, symbol] of Object.entries(RANGE_OPERATORS) as Array<[keyof typeof RANGE_OPERATORS, string]>) {
+    const bound = condition[op];
+    if (bound === undefined) continue;
+
+    // Numbers compare numerically; ISO dates compare correctly as strings
+    if (!isRangeBound(bound)) {
+      throw invalidFilter(`Metadata filter ${key}.${op} must be a number or an ISO date`, { key, value: bound });
+    }
+    clauses.push(`${property} ${symbol} ${bind(bound)}`);
+  }
+
+  return clauses;
+}
+
+function isScalar(value: unknown): value is MetadataScalar {
+  return typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value));
+}
+
+function isRangeBound(value: unknown): value is number | string {
+  if (typeof value === 'number') return Number.isFinite(value);
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value));
+}
+
+function invalidFilter(message: string, context: Record<string, unknown>): MCPValidationError {
+  return new MCPValidationError(message, MCPErrorCodes.INVALID_PARAMETER, { parameter: 'metadataFilter', ...context });
+}
@@ -15,6 +15,52 @@ export interface HandlerSet {
   databaseHandler: any;
 }
 
+/**
+ * Per-search memory_find fields - shared by a single search and each named sub-query of a batch
+ */
+const searchFieldSchemas = {
+  limit: z.number().optional().describe(ENHANCED_PARAMETER_DESCRIPTIONS.limit),
+  memoryTypes: z.array(z.string()).optional().describe(ENHANCED_PARAMETER_DESCRIPTIONS.memoryTypes),
+  threshold: z.number().min(0.01).max(1.0).optional().describe(ENHANCED_PARAMETER_DESCRIPTIONS.threshold),
+  orderBy: z.enum(["relevance", "created", "modified", "accessed"]).optional().describe("Sort order (default: 'relevance')"),
+  orderDirection: z.enum(["asc", "desc"]).optional().describe("Sort direction for created/modified/accessed (default: 'desc')"),
+  scoring: z.object({
+    strategy: z.enum(["fixed", "weighted", "rrf"]).optional().describe("fixed: exact hits dominate; weighted: linear blend; rrf: reciprocal rank fusion"),
+    exactWeight: z.number().min(0).optional().describe("Weight of exact/fulltext relevance (weighted, rrf)"),
+    vectorWeight: z.number().min(0).optional().describe("Weight of semantic similarity (weighted, rrf)"),
+    rrfK: z.number().min(1).optional().describe("RRF rank damping constant (default: 60)")
+  }).optional().describe("Hybrid scoring overrides (defaults from SEARCH_* environment settings)"),
+  boost: z.object({
+    recencyWeight: z.number().min(0).max(1).optional().describe("Share of the score that decays with time since last modification/access (0 disables)"),
+    halfLifeDays: z.number().positive().optional().describe("Days after which the recency signal halves (default: 30)"),
+    accessWeight: z.number().min(0).max(1).optional().describe("Share of the score earned by access frequency (0 disables)"),
+    centralityWeight: z.number().min(0).max(1).optional().describe("Share of the score earned by graph centrality - hubs above isolated notes (0 disables)")
+  }).optional().describe("Let fresh, frequently used, well-connected memories float up in relevance order (defaults from SEARCH_* environment settings)"),
+  matchedObservations: z.number().int().min(1).max(50).optional().describe("Return only the N best-matching observations per memory, with IDs and highlighted fragments (default: all observations)"),
+  mmrLambda: z.number().min(0).max(1).optional().describe("Diversify results with maximal marginal relevance: 1 = pure relevance, 0.5 = balanced, 0 = maximum diversity. Relevance order only, no cursor paging"),
+  explain: z.boolean().optional().describe("Add per-result explanation: matching channels, raw Lucene/cosine scores, best vector observation, score formula"),
+  metadataFilter: z.record(z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.object({
+      eq: z.union([z.string(), z.number(), z.boolean()]).optional(),
+      in: z.array(z.union([z.string(), z.number(), z.boolean()])).optional(),
+      exists: z.boolean().optional(),
+      gt: z.union([z.number(), z.string()]).optional(),
+      gte: z.union([z.number(), z.string()]).optional(),
+      lt: z.union([z.number(), z.string()]).optional(),
+      lte: z.union([z.number(), z.string()]).optional()
+    }).strict()
+  ])).optional().describe("Filter on top-level metadata keys, all ANDed: {status: 'open', priority: {gte: 2}, dueDate: {lt: '2025-07-01'}, owner: {exists: true}}. Also applies to '*' listing and traversal"),
+  
+  // Date-based filtering
+  createdAfter: z.string().optional().describe(ENHANCED_PARAMETER_DESCRIPTIONS.createdAfter),
+  createdBefore: z.string().optional().describe("ISO date or relative"),
+  modifiedSince: z.string().optional().describe("ISO date or relative"),
+  accessedSince: z.string().optional().describe("ISO date or relative")
+};
+
 /**
  * Register all memory tools with enhanced descriptions
  * Used by both stdio and HTTP servers for consistency
@@ -70,17 +116,21 @@ export function registerMemoryTools(server: McpServer, getHandlers: () => Promis
     ENHANCED_TOOL_DESCRIPTIONS.memory_find,
     {
       query: z.union([z.string(), z.array(z.string())]).describe(ENHANCED_PARAMETER_DESCRIPTIONS.query),
-      limit: z.number().optional().describe(ENHANCED_PARAMETER_DESCRIPTIONS.limit),
-      memoryTypes: z.array(z.string()).optional().describe(ENHANCED_PARAMETER_DESCRIPTIONS.memoryTypes),
+      ...searchFieldSchemas,
       includeContext: z.enum(["minimal", "full", "relations-only"]).optional().describe(ENHANCED_PARAMETER_DESCRIPTIONS.includeContext),
-      threshold: z.number().min(0.01).max(1.0).optional().describe(ENHANCED_PARAMETER_DESCRIPTIONS.threshold),
-      orderBy: z.enum(["relevance", "created", "modified", "accessed"]).optional().describe("Sort order (default: 'relevance')"),
+      cursor: z.string().optional().describe("Opaque _meta.nextCursor from the previous page (keep other parameters unchanged)"),
+      
+      // Similarity ("more like this")
+      similarTo: z.string().optional().describe("Memory ID: find memories similar to it using its stored vectors (query is ignored, pass '*'). The memory itself is never returned"),
+      similarityMode: z.enum(["max", "centroid"]).optional().describe("max: best match of any name/observation vector (default); centroid: overall resemblance"),
+      excludeRelated: z.boolean().optional().describe("With similarTo: skip memories already directly related to it (link suggestions)"),
       
-      // Date-based filtering
-      createdAfter: z.string().optional().describe(ENHANCED_PARAMETER_DESCRIPTIONS.createdAfter),
-      createdBefore: z.string().optional().describe("ISO date or relative"),
-      modifiedSince: z.string().optional().describe("ISO date or relative"),
-      accessedSince: z.string().optional().describe("ISO date or relative"),
+      // Batch search
+      queries: z.array(z.object({
+        name: z.string().min(1).describe("Group name for this sub-query's results"),
+        query: z.string().describe("Search text, query syntax or '*'"),
+        ...searchFieldSchemas
+      })).min(1).max(10).optional().describe("Named sub-queries run together, each with its own filters; results come back in groups (query is ignored, pass '*'). No cursor paging"),
       
       // Graph traversal
       traverseFrom: z.string().optional().describe(ENHANCED_PARAMETER_DESCRIPTIONS.traverseFrom),
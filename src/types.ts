@@ -26,7 +26,7 @@ export interface EnhancedSearchResult {
   id: string;
   name: string;
   type: string;
-  observations: Array<{id?: string, content: string, createdAt: string}>;
+  observations: MemoryObservation[];
   metadata: Record<string, any>;
   createdAt?: string;      
   modifiedAt?: string;     
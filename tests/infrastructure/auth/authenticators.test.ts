@@ -0,0 +1,157 @@
+/**
+ * HTTP Authenticator Tests
+ * API keys, JWT (secret and JWKS) and client certificates without a running server
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHmac, generateKeyPairSync, sign } from 'node:crypto';
+import {
+  ApiKeyAuthenticator,
+  AuthenticatorChain,
+  JwtAuthenticator,
+  MtlsAuthenticator,
+  createAuthenticatorChain,
+  parseApiKeys
+} from '../../../src/infrastructure/auth';
+
+const requestWith = (headers: Record<string, string>, socket: any = {}) => ({ headers, socket }) as any;
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const hsToken = (claims: object, secret: string, alg = 'HS256') => {
+  const data = `${encode({ alg, typ: 'JWT' })}.${encode(claims)}`;
+  const hash = `sha${alg.slice(2)}`;
+  return `${data}.${createHmac(hash, secret).update(data).digest('base64url')}`;
+};
+
+describe('HTTP Authenticators', () => {
+  describe('ApiKeyAuthenticator', () => {
+    const authenticator = new ApiKeyAuthenticator(parseApiKeys('ci-bot:key-one, alice:key-two', 'HTTP_API_KEYS'));
+
+    it('should identify the key owner and ignore requests without the header', async () => {
+      const identity = await authenticator.authenticate(requestWith({ 'x-api-key': 'key-two' }));
+
+      expect(identity).toMatchObject({ id: 'alice', method: 'api-key' });
+      expect(await authenticator.authenticate(requestWith({}))).toBeNull();
+      await expect(authenticator.authenticate(requestWith({ 'x-api-key': 'key-three' }))).rejects.toThrow('Invalid API key');
+    });
+
+    it('should reject malformed and duplicate entries', () => {
+      expect(() => parseApiKeys('no-separator', 'HTTP_API_KEYS')).toThrow('expected id:key');
+      expect(() => parseApiKeys('a:1\n# comment\na:2', 'keys.txt')).toThrow('Duplicate API key id in keys.txt: a');
+    });
+  });
+
+  describe('JwtAuthenticator', () => {
+    const now = Date.UTC(2025, 0, 1) / 1000;
+
+    it('should verify HS256 tokens and enforce expiry, issuer and audience', () => {
+      const authenticator = new JwtAuthenticator({ secret: 'shared', issuer: 'memory-idp', audience: 'mcp' });
+      const valid = { sub: 'alice', iss: 'memory-idp', aud: ['mcp'], exp: now + 60 };
+
+      expect(authenticator.verifyToken(hsToken(valid, 'shared'), now * 1000)).toMatchObject({ sub: 'alice' });
+      expect(() => authenticator.verifyToken(hsToken(valid, 'other'), now * 1000)).toThrow('Invalid signature');
+      expect(() => authenticator.verifyToken(hsToken({ ...valid, exp: now - 120 }, 'shared'), now * 1000)).toThrow('Token expired');
+      expect(() => authenticator.verifyToken(hsToken({ ...valid, iss: 'evil' }, 'shared'), now * 1000)).toThrow('Unexpected issuer');
+      expect(() => authenticator.verifyToken(hsToken({ ...valid, aud: 'other' }, 'shared'), now * 1000)).toThrow('Unexpected audience');
+      expect(() => authenticator.verifyToken(hsToken({ iss: 'memory-idp', aud: 'mcp' }, 'shared'), now * 1000)).toThrow('no sub claim');
+    });
+
+    it('should require exp unless explicitly disabled', () => {
+      const token = hsToken({ sub: 'alice' }, 'shared');
+
+      expect(() => new JwtAuthenticator({ secret: 'shared' }).verifyToken(token)).toThrow('Token has no exp claim');
+      expect(() => new JwtAuthenticator({ secret: 'shared' }).verifyToken(hsToken({ sub: 'alice', exp: 'never' }, 'shared')))
+        .toThrow('Token exp claim is not a number');
+      expect(new JwtAuthenticator({ secret: 'shared', requireExpiration: false }).verifyToken(token))
+        .toMatchObject({ sub: 'alice' });
+    });
+
+    it('should never accept unsigned tokens', () => {
+      const authenticator = new JwtAuthenticator({ secret: 'shared' });
+      const unsigned = `${encode({ alg: 'none' })}.${encode({ sub: 'mallory' })}.`;
+
+      expect(() => authenticator.verifyToken(unsigned)).toThrow('Unsupported algorithm: none');
+    });
+
+    it('should verify RS256 and ES256 tokens against JWKS keys by kid', async () => {
+      const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      const authenticator = new JwtAuthenticator({
+        jwks: {
+          keys: [
+            { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa-1' },
+            { ...ec.publicKey.export({ format: 'jwk' }), kid: 'ec-1' }
+          ]
+        }
+      });
+
+      const signed = (alg: string, kid: string, key: any, options: object = {}) => {
+        const data = `${encode({ alg, kid })}.${encode({ sub: `${kid}-user`, exp: Math.floor(Date.now() / 1000) + 60 })}`;
+        return `${data}.${sign('sha256', Buffer.from(data), { key, ...options }).toString('base64url')}`;
+      };
+
+      const rsIdentity = await authenticator.authenticate(requestWith({ authorization: `Bearer ${signed('RS256', 'rsa-1', rsa.privateKey)}` }));
+      const esToken = signed('ES256', 'ec-1', ec.privateKey, { dsaEncoding: 'ieee-p1363' });
+
+      expect(rsIdentity).toMatchObject({ id: 'rsa-1-user', method: 'jwt' });
+      expect(authenticator.verifyToken(esToken)).toMatchObject({ sub: 'ec-1-user' });
+      expect(() => authenticator.verifyToken(signed('RS256', 'missing', rsa.privateKey))).toThrow('Unknown key id: missing');
+      expect(await authenticator.authenticate(requestWith({ 'x-api-key': 'k' }))).toBeNull();
+    });
+
+    it('should report a key that cannot verify the token algorithm as an invalid signature', () => {
+      const ed = generateKeyPairSync('ed25519');
+      const authenticator = new JwtAuthenticator({ jwks: { keys: [{ ...ed.publicKey.export({ format: 'jwk' }), kid: 'ed-1' }] } });
+      const data = `${encode({ alg: 'RS256', kid: 'ed-1' })}.${encode({ sub: 'mallory', exp: Math.floor(Date.now() / 1000) + 60 })}`;
+
+      expect(() => authenticator.verifyToken(`${data}.${Buffer.alloc(64).toString('base64url')}`))
+        .toThrow(expect.objectContaining({ name: 'MCPAuthenticationError', message: 'Invalid bearer token: Invalid signature' }));
+    });
+  });
+
+  describe('MtlsAuthenticator', () => {
+    const authenticator = new MtlsAuthenticator();
+    const socket = (certificate: object, authorized: boolean) => ({
+      authorized,
+      authorizationError: authorized ? undefined : 'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+      getPeerCertificate: () => certificate
+    });
+
+    it('should identify verified certificates by subject CN', async () => {
+      const identity = await authenticator.authenticate(
+        requestWith({}, socket({ subject: { CN: 'build-agent' }, fingerprint256: 'AB:CD' }, true))
+      );
+
+      expect(identity).toMatchObject({ id: 'build-agent', method: 'mtls', fingerprint: 'AB:CD' });
+      expect(await authenticator.authenticate(requestWith({}, socket({}, false)))).toBeNull();
+      expect(await authenticator.authenticate(requestWith({}))).toBeNull();
+      await expect(authenticator.authenticate(requestWith({}, socket({ subject: { CN: 'x' } }, false))))
+        .rejects.toThrow('Client certificate rejected: UNABLE_TO_VERIFY_LEAF_SIGNATURE');
+    });
+  });
+
+  describe('AuthenticatorChain', () => {
+    it('should try methods in order and require one of them when enabled', async () => {
+      const chain = createAuthenticatorChain({
+        methods: ['api-key', 'jwt'],
+        corsOrigin: '*',
+        apiKeys: 'ci-bot:key-one',
+        jwtSecret: 'shared',
+        jwtRequireExp: true
+      });
+      const token = hsToken({ sub: 'alice', exp: Math.floor(Date.now() / 1000) + 60 }, 'shared');
+
+      expect(await chain.authenticate(requestWith({ authorization: `Bearer ${token}` })))
+        .toMatchObject({ id: 'alice', method: 'jwt' });
+      await expect(chain.authenticate(requestWith({}))).rejects.toThrow('Authentication required. Accepted methods: api-key, jwt');
+    });
+
+    it('should treat every request as anonymous when no method is enabled', async () => {
+      const chain = new AuthenticatorChain([]);
+
+      expect(chain.isEnabled()).toBe(false);
+      expect(await chain.authenticate(requestWith({}))).toMatchObject({ id: 'anonymous', method: 'anonymous' });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Database Policy Tests
+ * Per-identity read/write/switch grants and policy file validation
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  DatabasePolicy,
+  anonymousIdentity,
+  getDatabaseAccess,
+  runAsCaller
+} from '../../../src/infrastructure/auth';
+import { MCPErrorCodes, MCPPermissionError } from '../../../src/infrastructure/errors';
+
+const caller = (id: string) => ({ id, method: 'api-key' as const, authenticatedAt: new Date().toISOString() });
+
+const policy = DatabasePolicy.parse(JSON.stringify({
+  rules: [
+    { identity: 'team-a-*', read: ['team-a-*'], write: ['team-a-*'], switch: ['team-a-*'], createDatabases: true },
+    { identity: 'auditor', read: ['*'], switch: ['*'] },
+    { identity: 'team-a-lead', read: ['shared'], switch: ['shared'] }
+  ]
+}), 'policy.json');
+
+describe('DatabasePolicy', () => {
+  const originalPolicyFile = process.env.HTTP_DATABASE_POLICY_FILE;
+
+  afterEach(() => {
+    if (originalPolicyFile === undefined) {
+      delete process.env.HTTP_DATABASE_POLICY_FILE;
+    } else {
+      process.env.HTTP_DATABASE_POLICY_FILE = originalPolicyFile;
+    }
+  });
+
+  it('should grant by identity and database glob, combining every matching rule', () => {
+    expect(policy.isAllowed(caller('team-a-bot'), 'write', 'team-a-notes')).toBe(true);
+    expect(policy.isAllowed(caller('team-a-bot'), 'read', 'TEAM-A-notes')).toBe(true);
+    expect(policy.isAllowed(caller('team-a-bot'), 'read', 'team-b-notes')).toBe(false);
+    expect(policy.isAllowed(caller('team-a-lead'), 'read', 'shared')).toBe(true);
+    expect(policy.isAllowed(caller('team-a-lead'), 'write', 'shared')).toBe(false);
+    expect(policy.isAllowed(caller('auditor'), 'read', 'team-b-notes')).toBe(true);
+    expect(policy.isAllowed(caller('auditor'), 'write', 'team-b-notes')).toBe(false);
+    expect(policy.isAllowed(anonymousIdentity(), 'read', 'neo4j')).toBe(false);
+
+    expect(policy.canCreateDatabases(caller('team-a-lead'))).toBe(true);
+    expect(policy.canCreateDatabases(caller('auditor'))).toBe(false);
+  });
+
+  it('should raise a permission error naming the identity, action and database', () => {
+    try {
+      policy.assertAllowed(caller('auditor'), 'write', 'neo4j');
+      expect.fail('expected a permission error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(MCPPermissionError);
+      expect((error as MCPPermissionError).code).toBe(MCPErrorCodes.PERMISSION_DENIED);
+      expect((error as MCPPermissionError).message).toBe("Identity 'auditor' may not write database 'neo4j'");
+    }
+  });
+
+  it('should reject malformed policy files', () => {
+    expect(() => DatabasePolicy.parse('{', 'policy.json')).toThrow('Invalid database policy in policy.json');
+    expect(() => DatabasePolicy.parse('{"rules": {}}', 'policy.json')).toThrow('expected {"rules": [...]}');
+    expect(() => DatabasePolicy.parse('{"rules": [{"identity": "a", "writes": ["*"]}]}', 'policy.json'))
+      .toThrow('rule 0 has unknown keys: writes');
+    expect(() => DatabasePolicy.parse('{"rules": [{"identity": "", "read": ["*"]}]}', 'policy.json'))
+      .toThrow('rule 0 needs a non-empty identity pattern');
+    expect(() => DatabasePolicy.parse('{"rules": [{"identity": "a", "read": "*"}]}', 'policy.json'))
+      .toThrow('rule 0 read must be an array of non-empty database patterns');
+  });
+
+  it('should only restrict calls made by an identified caller under a configured policy', () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'db-policy-')), 'policy.json');
+    writeFileSync(file, JSON.stringify({ rules: [{ identity: 'alice', read: ['*'] }] }));
+
+    delete process.env.HTTP_DATABASE_POLICY_FILE;
+    expect(runAsCaller(caller('alice'), () => getDatabaseAccess())).toBeUndefined();
+
+    process.env.HTTP_DATABASE_POLICY_FILE = file;
+    expect(getDatabaseAccess()).toBeUndefined();
+
+    const access = runAsCaller(caller('alice'), () => getDatabaseAccess());
+    expect(access?.caller.id).toBe('alice');
+    expect(access?.policy.isAllowed(access.caller, 'read', 'neo4j')).toBe(true);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * CentralityJob Tests
+ * In-process PageRank and weighted degree with mocked session
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CentralityJob, pageRank, weightedDegree } from '../../../src/infrastructure/database/centrality-job';
+
+const record = (values: Record<string, any>) => ({ get: (key: string) => values[key] });
+
+// Star around an overview memory plus one isolated note
+const memories = { records: ['overview', 'api', 'db', 'ui', 'note'].map(id => record({ id })) };
+const relations = {
+  records: [
+    record({ fromId: 'api', toId: 'overview', strength: 0.9 }),
+    record({ fromId: 'db', toId: 'overview', strength: 0.9 }),
+    record({ fromId: 'overview', toId: 'ui', strength: 0.5 })
+  ]
+};
+
+describe('CentralityJob', () => {
+  let mockSession: any;
+  let job: CentralityJob;
+
+  beforeEach(() => {
+    mockSession = {
+      run: vi.fn()
+        .mockResolvedValueOnce(memories)
+        .mockResolvedValueOnce(relations)
+        .mockResolvedValue({ records: [] }),
+      close: vi.fn().mockResolvedValue(undefined)
+    };
+    job = new CentralityJob({ createSession: () => mockSession } as any);
+  });
+
+  const writtenScores = (): Record<string, number> => {
+    const rows = mockSession.run.mock.calls.slice(2).flatMap(([, params]: any) => params.rows);
+    return Object.fromEntries(rows.map((row: any) => [row.id, row.score]));
+  };
+
+  it('should store normalized PageRank with the hub on top', async () => {
+    const report = await job.run();
+
+    const scores = writtenScores();
+    expect(report).toMatchObject({ algorithm: 'pagerank', memories: 5, relations: 3 });
+    expect(report.iterations).toBeGreaterThan(0);
+    expect(scores.overview).toBe(1);
+    expect(scores.api).toBeGreaterThan(scores.ui);
+    expect(scores.ui).toBeGreaterThan(scores.note);
+    expect(scores.note).toBeGreaterThan(0);
+    expect(mockSession.close).toHaveBeenCalled();
+  });
+
+  it('should store weighted degree in batches', async () => {
+    await job.run({ algorithm: 'degree', batchSize: 2 });
+
+    const writes = mockSession.run.mock.calls.slice(2);
+    expect(writes).toHaveLength(3);
+    expect(writes[0][0]).toContain('SET m.centrality = row.score, m.centralityUpdatedAt = $computedAt');
+    expect(writtenScores()).toEqual({ overview: 1, api: 0.9 / 2.3, db: 0.9 / 2.3, ui: 0.5 / 2.3, note: 0 });
+  });
+
+  it('should reject an invalid batch size before touching the database', async () => {
+    await expect(job.run({ batchSize: 0 })).rejects.toThrow('batchSize must be a positive integer');
+    expect(mockSession.run).not.toHaveBeenCalled();
+  });
+
+  describe('pageRank', () => {
+    it('should keep the rank distribution summing to 1', () => {
+      const { scores } = pageRank(3, [{ from: 0, to: 1, weight: 1 }]);
+
+      expect(scores.reduce((sum, score) => sum + score, 0)).toBeCloseTo(1);
+      expect(scores[0]).toBeCloseTo(scores[1]);
+      expect(weightedDegree(3, [{ from: 0, to: 1, weight: 1 }])).toEqual([1, 1, 0]);
+    });
+  });
+});
@@ -49,7 +49,9 @@ describe('CleanDatabaseManager - Enhanced Coverage', () => {
     // Setup mock index manager
     mockIndexManager = {
       hasRequiredSchema: vi.fn().mockResolvedValue(true),
-      initializeSchema: vi.fn().mockResolvedValue(undefined)
+      initializeSchema: vi.fn().mockResolvedValue(undefined),
+      ensureMetadataIndexes: vi.fn().mockResolvedValue(undefined),
+      promoteLegacyMetadata: vi.fn().mockResolvedValue(0)
     };
 
     (Neo4jDriverManager as any).mockImplementation(() => mockDriverManager);
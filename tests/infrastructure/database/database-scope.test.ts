@@ -0,0 +1,73 @@
+/**
+ * Database Scope Tests
+ * Per-connection database context on top of the process-wide driver manager
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Neo4jDriverManager } from '../../../src/infrastructure/database/neo4j-driver';
+import { SessionFactory } from '../../../src/infrastructure/database/session-factory';
+import {
+  createDatabaseScope,
+  runInDatabaseScope,
+  runOutsideDatabaseScope
+} from '../../../src/infrastructure/database/database-scope';
+
+describe('Database Scope', () => {
+  let driverManager: Neo4jDriverManager;
+
+  beforeEach(() => {
+    driverManager = new Neo4jDriverManager();
+    driverManager.switchDatabase('neo4j');
+  });
+
+  it('should keep a switch inside one scope away from other scopes and the process default', async () => {
+    const sessionA = createDatabaseScope('neo4j');
+    const sessionB = createDatabaseScope('neo4j');
+
+    await runInDatabaseScope(sessionA, async () => {
+      await Promise.resolve();
+      driverManager.switchDatabase('project-a');
+    });
+
+    const seenByB = await runInDatabaseScope(sessionB, async () => {
+      await Promise.resolve();
+      return driverManager.getCurrentDatabase().database;
+    });
+
+    expect(sessionA.database).toBe('project-a');
+    expect(runInDatabaseScope(sessionA, () => driverManager.getCurrentDatabase().database)).toBe('project-a');
+    expect(seenByB).toBe('neo4j');
+    expect(driverManager.getCurrentDatabase().database).toBe('neo4j');
+  });
+
+  it('should open Neo4j sessions against the scope database', () => {
+    const opened: string[] = [];
+    (driverManager as any).driver = { session: ({ database }: { database: string }) => opened.push(database) };
+    const sessionFactory = new SessionFactory(driverManager);
+
+    runInDatabaseScope(createDatabaseScope('project-b'), () => sessionFactory.createSession());
+    sessionFactory.createSession();
+
+    expect(opened).toEqual(['project-b', 'neo4j']);
+  });
+
+  it('should remember every database switched to, in or out of a scope', () => {
+    runInDatabaseScope(createDatabaseScope(), () => driverManager.switchDatabase('project-d'));
+    driverManager.switchDatabase('stdio-db');
+    driverManager.switchDatabase('project-d');
+
+    expect(driverManager.getKnownDatabases()).toEqual(expect.arrayContaining(['neo4j', 'project-d', 'stdio-db']));
+    expect(driverManager.getKnownDatabases().filter(database => database === 'project-d')).toHaveLength(1);
+  });
+
+  it('should fall back to the process-wide database outside any scope', () => {
+    driverManager.switchDatabase('stdio-db');
+
+    const detached = runInDatabaseScope(createDatabaseScope('project-c'), () =>
+      runOutsideDatabaseScope(() => driverManager.getCurrentDatabase().database)
+    );
+
+    expect(detached).toBe('stdio-db');
+    expect(runInDatabaseScope(createDatabaseScope(), () => driverManager.getCurrentDatabase().database)).toBe('stdio-db');
+  });
+});
@@ -97,4 +97,89 @@ describe('IndexManager - Simplified Tests', () => {
       expect(mockSession.run).toHaveBeenCalled();
     });
   });
+
+  describe('Embedding Mismatch Detection', () => {
+    const vectorIndex = (name: string, dimensions: number) => ({
+      get: (key: string) => key === 'name' ? name : { indexConfig: { 'vector.dimensions': dimensions } }
+    });
+    const count = (value: number) => ({ records: [{ get: () => value }] });
+
+    it('should report consistent state when vectors and indexes match the model', async () => {
+      mockSession.run
+        .mockResolvedValueOnce({ records: [
+          vectorIndex('memory_name_vector_idx', 384),
+          vectorIndex('observation_embedding_vector_idx', 384),
+          vectorIndex('observation_chunk_vector_idx', 384)
+        ] })
+        .mockResolvedValueOnce(count(0))
+        .mockResolvedValueOnce(count(0))
+        .mockResolvedValueOnce(count(0));
+
+      const report = await indexManager.detectEmbeddingMismatch('xenova:model-a');
+
+      expect(report.consistent).toBe(true);
+      expect(report.indexDimensions).toEqual({
+        memory_name_vector_idx: 384,
+        observation_embedding_vector_idx: 384,
+        observation_chunk_vector_idx: 384
+      });
+      expect(mockSession.run.mock.calls[1][1]).toEqual({ model: 'xenova:model-a', dimensions: 384 });
+    });
+
+    it('should flag stale vectors and index dimension drift', async () => {
+      mockSession.run
+        .mockResolvedValueOnce({ records: [vectorIndex('memory_name_vector_idx', 768)] })
+        .mockResolvedValueOnce(count(3))
+        .mockResolvedValueOnce(count(7))
+        .mockResolvedValueOnce(count(2));
+
+      const report = await indexManager.detectEmbeddingMismatch('openai:text-embedding-3-small');
+
+      expect(report.consistent).toBe(false);
+      expect(report.staleMemories).toBe(3);
+      expect(report.staleObservations).toBe(7);
+      expect(report.staleChunks).toBe(2);
+      expect(report.indexDimensions).toEqual({
+        memory_name_vector_idx: 768,
+        observation_embedding_vector_idx: null,
+        observation_chunk_vector_idx: null
+      });
+      expect(mockSession.run.mock.calls[3][0]).toContain('MATCH (c:ObservationChunk)');
+      expect(mockSession.run.mock.calls[1][0]).toContain('m.embeddingModel <> $model');
+    });
+
+    it('should require vector dimensions', async () => {
+      const withoutDimensions = new IndexManager(mockSession);
+
+      await expect(withoutDimensions.detectEmbeddingMismatch('hash:fnv1a'))
+        .rejects.toThrow('Vector dimensions required');
+    });
+  });
+
+  describe('Legacy Metadata Promotion', () => {
+    it('should address memories by elementId so a memory without id is promoted', async () => {
+      mockSession.run
+        .mockResolvedValueOnce({ records: [{ get: (key: string) => (key === 'elementId' ? '4:abc:1' : '{"status":"open"}') }] })
+        .mockResolvedValueOnce({ records: [{ get: () => 1 }] })
+        .mockResolvedValueOnce({ records: [] });
+
+      const promoted = await indexManager.promoteLegacyMetadata(10);
+
+      expect(promoted).toBe(1);
+      expect(mockSession.run.mock.calls[1][0]).toContain('WHERE elementId(m) = row.elementId');
+      expect(mockSession.run.mock.calls[1][1].rows[0]).toEqual({
+        elementId: '4:abc:1',
+        properties: { meta_status: 'open', metaKeys: ['status'] }
+      });
+    });
+
+    it('should stop when a batch updates nothing', async () => {
+      mockSession.run.mockImplementation(async (cypher: string) => cypher.includes('count(m) as updated')
+        ? { records: [{ get: () => 0 }] }
+        : { records: [{ get: (key: string) => (key === 'elementId' ? '4:abc:2' : null) }] });
+
+      await expect(indexManager.promoteLegacyMetadata(10)).resolves.toBe(0);
+      expect(mockSession.run).toHaveBeenCalledTimes(2);
+    });
+  });
 });
@@ -0,0 +1,151 @@
+/**
+ * ReembeddingJob Tests
+ * Batch migration of stale vectors with mocked session
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ReembeddingJob } from '../../../src/infrastructure/database/reembedding-job';
+
+const record = (values: Record<string, any>) => ({ get: (key: string) => values[key] });
+const count = (value: number) => ({ records: [record({ stale: value })] });
+const indexes = (dimensions: number) => ({
+  records: ['memory_name_vector_idx', 'observation_embedding_vector_idx'].map(name =>
+    record({ name, options: { indexConfig: { 'vector.dimensions': dimensions } } })
+  )
+});
+
+describe('ReembeddingJob', () => {
+  let mockSession: any;
+  let mockEmbeddingService: any;
+  let job: ReembeddingJob;
+
+  beforeEach(() => {
+    mockSession = {
+      run: vi.fn(),
+      close: vi.fn().mockResolvedValue(undefined)
+    };
+    mockEmbeddingService = {
+      calculateEmbeddings: vi.fn().mockImplementation(async (texts: string[]) => texts.map(() => [0.1, 0.2, 0.3])),
+      getModelDimensions: vi.fn().mockResolvedValue(3),
+      getModelIdentity: vi.fn().mockReturnValue('hash:fnv1a')
+    };
+    job = new ReembeddingJob({ createSession: () => mockSession } as any, mockEmbeddingService);
+  });
+
+  it('should do nothing when everything matches the model', async () => {
+    mockSession.run
+      .mockResolvedValueOnce(indexes(3))
+      .mockResolvedValueOnce(count(0))
+      .mockResolvedValueOnce(count(0))
+      .mockResolvedValueOnce(count(0));
+
+    const report = await job.run();
+
+    expect(report.memoriesUpdated).toBe(0);
+    expect(report.indexesRebuilt).toBe(false);
+    expect(mockSession.run).toHaveBeenCalledTimes(4);
+    expect(mockSession.close).toHaveBeenCalled();
+  });
+
+  it('should report without writing on dry run', async () => {
+    mockSession.run
+      .mockResolvedValueOnce(indexes(384))
+      .mockResolvedValueOnce(count(2))
+      .mockResolvedValueOnce(count(1))
+      .mockResolvedValueOnce(count(0));
+
+    const report = await job.run({ dryRun: true });
+
+    expect(report.before.staleMemories).toBe(2);
+    expect(report.after).toBe(report.before);
+    expect(mockEmbeddingService.calculateEmbeddings).not.toHaveBeenCalled();
+  });
+
+  it('should drop old-dimension indexes, re-embed in batches and rebuild indexes', async () => {
+    mockSession.run.mockImplementation(async (cypher: string, params: any) => {
+      if (cypher.includes('SHOW INDEXES')) return indexes(mockSession.afterMigration ? 3 : 384);
+      if (cypher.includes('db.info')) return { records: [record({ name: 'neo4j' })] };
+      if (cypher.includes('RETURN count(m)')) return count(mockSession.afterMigration ? 0 : 3);
+      if (cypher.includes('RETURN count(o)')) return count(mockSession.afterMigration ? 0 : 1);
+      if (cypher.includes('RETURN count(c)')) return count(mockSession.afterMigration ? 0 : 2);
+      if (cypher.includes('UNWIND $rows')) return { records: [record({ updated: params.rows.length })] };
+      if (cypher.includes('MATCH (n:Memory)')) {
+        const batch = mockSession.memoryBatches.shift() ?? [];
+        return { records: batch.map((id: string) => record({ elementId: `4:${id}`, id, text: `name ${id}` })) };
+      }
+      if (cypher.includes('MATCH (n:Observation)')) {
+        const batch = mockSession.observationBatches.shift() ?? [];
+        return { records: batch.map((id: string) => record({ elementId: `4:${id}`, id, text: `content ${id}` })) };
+      }
+      if (cypher.includes('MATCH (n:ObservationChunk)')) {
+        const batch = mockSession.chunkBatches.shift() ?? [];
+        return { records: batch.map((id: string) => record({ elementId: `4:${id}`, id, text: `chunk ${id}` })) };
+      }
+      if (cypher.includes('CREATE VECTOR INDEX')) mockSession.afterMigration = true;
+      return { records: [] };
+    });
+    mockSession.memoryBatches = [['m1', 'm2'], ['m3']];
+    mockSession.observationBatches = [['o1']];
+    mockSession.chunkBatches = [['c1', 'c2'], []];
+    const progress: any[] = [];
+
+    const report = await job.run({ batchSize: 2, onProgress: p => progress.push(p) });
+
+    expect(report.memoriesUpdated).toBe(3);
+    expect(report.observationsUpdated).toBe(1);
+    expect(report.chunksUpdated).toBe(2);
+    expect(report.indexesRebuilt).toBe(true);
+    expect(report.after.consistent).toBe(true);
+
+    const statements = mockSession.run.mock.calls.map((call: any[]) => call[0]);
+    expect(statements.some((c: string) => c.includes('DROP INDEX memory_name_vector_idx'))).toBe(true);
+    expect(statements.some((c: string) => c.includes('`vector.dimensions`: 3'))).toBe(true);
+
+    const write = mockSession.run.mock.calls.find((call: any[]) => call[0].includes('UNWIND $rows'));
+    expect(write[1]).toEqual({
+      rows: [{ elementId: '4:m1', embedding: [0.1, 0.2, 0.3] }, { elementId: '4:m2', embedding: [0.1, 0.2, 0.3] }],
+      model: 'hash:fnv1a',
+      dimensions: 3
+    });
+    expect(progress[0]).toEqual({ label: 'Memory', processed: 2, remaining: 1 });
+    expect(mockEmbeddingService.calculateEmbeddings).toHaveBeenCalledWith(['name m1', 'name m2']);
+  });
+
+  it('should stop when a full batch writes nothing instead of selecting it again', async () => {
+    const staleBatch = { records: [record({ elementId: '4:a', id: null, text: 'a' }), record({ elementId: '4:b', id: null, text: 'b' })] };
+    mockSession.run.mockImplementation(async (cypher: string) => {
+      if (cypher.includes('SHOW INDEXES')) return indexes(3);
+      if (cypher.includes('db.info')) return { records: [record({ name: 'neo4j' })] };
+      if (cypher.includes('RETURN count(m)')) return count(2);
+      if (cypher.includes('RETURN count(')) return count(0);
+      if (cypher.includes('UNWIND $rows')) return { records: [record({ updated: 0 })] };
+      if (cypher.includes('MATCH (n:Memory)')) return staleBatch;
+      return { records: [] };
+    });
+
+    const report = await job.run({ batchSize: 2 });
+
+    expect(report.memoriesUpdated).toBe(0);
+    const selects = mockSession.run.mock.calls.filter((call: any[]) => call[0].includes('MATCH (n:Memory)') && call[0].includes('RETURN elementId(n)'));
+    expect(selects).toHaveLength(1);
+    expect(mockSession.run.mock.calls.find((call: any[]) => call[0].includes('UNWIND $rows'))[0])
+      .toContain('WHERE elementId(n) = row.elementId');
+  });
+
+  it('should abort when the model returns vectors of unexpected size', async () => {
+    mockSession.run
+      .mockResolvedValueOnce(indexes(3))
+      .mockResolvedValueOnce(count(1))
+      .mockResolvedValueOnce(count(0))
+      .mockResolvedValueOnce(count(0))
+      .mockResolvedValueOnce({ records: [record({ id: 'm1', text: 'name' })] });
+    mockEmbeddingService.calculateEmbeddings.mockResolvedValue([[0.1, 0.2]]);
+
+    await expect(job.run()).rejects.toThrow('Embedding for Memory m1 has 2 dimensions, expected 3');
+    expect(mockSession.close).toHaveBeenCalled();
+  });
+
+  it('should reject invalid batch size', async () => {
+    await expect(job.run({ batchSize: 0 })).rejects.toThrow('batchSize must be a positive integer');
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Event Store Tests
+ * Last-Event-ID replay and retention for the in-memory and file-backed stores
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileEventStore, InMemoryEventStore, ResumableEventStore } from '../../../src/http/event-store';
+
+const message = (id: number) => ({ jsonrpc: '2.0' as const, id, result: { value: id } });
+
+const replay = async (store: ResumableEventStore, lastEventId: string) => {
+  const sent: Array<{ eventId: string; id: unknown }> = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (eventId, sentMessage) => {
+      sent.push({ eventId, id: (sentMessage as any).id });
+    }
+  });
+  return { streamId, sent };
+};
+
+const stores: Array<[string, (maxEvents: number, maxAge: number) => ResumableEventStore]> = [
+  ['InMemoryEventStore', (maxEvents, maxAge) => new InMemoryEventStore({ maxEvents, maxAge })],
+  ['FileEventStore', (maxEvents, maxAge) =>
+    new FileEventStore(mkdtempSync(join(tmpdir(), 'event-store-')), 'session-1', { maxEvents, maxAge })]
+];
+
+describe.each(stores)('%s', (_name, createStore) => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('should replay later events of the same stream only', async () => {
+    const store = createStore(100, 60000);
+    const first = await store.storeEvent('stream-a', message(1));
+    await store.storeEvent('_GET_stream', message(2));
+    const third = await store.storeEvent('stream-a', message(3));
+
+    const result = await replay(store, first);
+
+    expect(result.streamId).toBe('stream-a');
+    expect(result.sent).toEqual([{ eventId: third, id: 3 }]);
+    expect(await store.hasEvent(first)).toBe(true);
+  });
+
+  test('should drop events beyond the retention count and age', async () => {
+    const store = createStore(2, 60000);
+    const first = await store.storeEvent('stream-a', message(1));
+    const second = await store.storeEvent('stream-a', message(2));
+    await store.storeEvent('stream-a', message(3));
+
+    expect(await store.hasEvent(first)).toBe(false);
+    await expect(replay(store, first)).rejects.toThrow(`Event not found: ${first}`);
+
+    vi.advanceTimersByTime(60001);
+    expect(await store.hasEvent(second)).toBe(false);
+  });
+
+  test('should forget every event on dispose', async () => {
+    const store = createStore(100, 60000);
+    const eventId = await store.storeEvent('stream-a', message(1));
+
+    await store.dispose();
+
+    expect(await store.hasEvent(eventId)).toBe(false);
+  });
+});
+
+describe('FileEventStore - Compaction', () => {
+  test('should keep the session file under twice the retention count', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'event-store-'));
+    const store = new FileEventStore(directory, 'session-2', { maxEvents: 3, maxAge: 60000 });
+    const eventIds: string[] = [];
+    for (let i = 1; i <= 7; i++) {
+      eventIds.push(await store.storeEvent('stream-a', message(i)));
+    }
+
+    const lines = readFileSync(join(directory, 'session-2.jsonl'), 'utf8').trim().split('\n');
+    expect(lines.length).toBeLessThan(6);
+
+    const result = await replay(store, eventIds[4]);
+    expect(result.sent.map(event => event.id)).toEqual([6, 7]);
+
+    await store.dispose();
+    expect(existsSync(join(directory, 'session-2.jsonl'))).toBe(false);
+  });
+});
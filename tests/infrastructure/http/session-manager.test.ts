@@ -140,4 +140,48 @@ describe('SessionManager - Production Coverage', () => {
       expect(sessionManager.getActiveSessionCount()).toBe(1); // Still active
     });
   });
+
+  describe('Idle Timeout and Capacity', () => {
+    test('should expire sessions after the configured idle timeout', () => {
+      const manager = new SessionManager({ idleTimeout: 60 * 1000 });
+      const sessionId = manager.createSession(mockTransport as any);
+
+      vi.advanceTimersByTime(45 * 1000);
+      manager.getSession(sessionId);
+      vi.advanceTimersByTime(45 * 1000);
+      expect(manager.getActiveSessionCount()).toBe(1);
+
+      vi.advanceTimersByTime(15 * 1000);
+      expect(manager.getActiveSessionCount()).toBe(0);
+      expect(manager.getStats()).toMatchObject({ expired: 1, evicted: 0 });
+    });
+
+    test('should evict the least recently used session at the cap', () => {
+      const manager = new SessionManager({ maxSessions: 2 });
+      const first = manager.createSession(mockTransport as any);
+      const second = manager.createSession(mockTransport as any);
+
+      manager.getSession(first);
+      const third = manager.createSession(mockTransport as any);
+
+      expect(manager.getSession(second)).toBeNull();
+      expect(manager.getSessionInfo(first)).not.toBeNull();
+      expect(manager.getSessionInfo(third)).not.toBeNull();
+      expect(manager.getStats()).toMatchObject({ active: 2, maxSessions: 2, evicted: 1 });
+    });
+
+    test('should list session metadata most recently used first', () => {
+      const manager = new SessionManager();
+      const identity = { id: 'alice', method: 'api-key' as const, authenticatedAt: new Date().toISOString() };
+      const older = manager.createSession(mockTransport as any, { clientInfo: { name: 'cli', version: '1.0.0' } }, 'older');
+      vi.advanceTimersByTime(1000);
+      manager.createSession(mockTransport as any, { identity, databaseScope: { database: 'team-a' } }, 'newer');
+
+      expect(older).toBe('older');
+      expect(manager.listSessions()).toEqual([
+        expect.objectContaining({ sessionId: 'newer', identity: { id: 'alice', method: 'api-key' }, database: 'team-a', idleMs: 0 }),
+        expect.objectContaining({ sessionId: 'older', clientInfo: { name: 'cli', version: '1.0.0' }, database: null, idleMs: 1000 })
+      ]);
+    });
+  });
 });
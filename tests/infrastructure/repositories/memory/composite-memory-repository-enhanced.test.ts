@@ -76,7 +76,7 @@ describe('CompositeMemoryRepository - Enhanced Coverage', () => {
     (ObservationRepository as any).mockImplementation(() => mockObsRepo);
     (RelationRepository as any).mockImplementation(() => mockRelRepo);
 
-    repository = new CompositeMemoryRepository(mockSessionFactory);
+    repository = new CompositeMemoryRepository(mockSessionFactory, { calculateEmbedding: vi.fn() } as any);
   });
 
   describe('Edge Cases - Empty Results Handling', () => {
@@ -77,7 +77,7 @@ describe('CompositeMemoryRepository - Production Coverage', () => {
     (ObservationRepository as any).mockImplementation(() => mockObsRepo);
     (RelationRepository as any).mockImplementation(() => mockRelRepo);
 
-    repository = new CompositeMemoryRepository(mockSessionFactory);
+    repository = new CompositeMemoryRepository(mockSessionFactory, { calculateEmbedding: vi.fn() } as any);
   });
 
   describe('Memory Creation', () => {
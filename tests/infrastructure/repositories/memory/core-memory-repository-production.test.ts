@@ -227,6 +227,21 @@ describe('Core Memory Repository - Batch Operations & Edge Cases', () => {
     });
   });
 
+  describe('Memory Retrieval by ID - getCoreMemoryData', () => {
+    it('should sort by lastAccessed before recording the access', async () => {
+      mockSession.run
+        .mockResolvedValueOnce({ records: [] })
+        .mockResolvedValueOnce({ records: [] });
+
+      await repository.getCoreMemoryData(mockSession, ['a', 'b'], { property: 'lastAccessed', direction: 'DESC' });
+
+      const [readQuery] = mockSession.run.mock.calls[0];
+      const [writeQuery] = mockSession.run.mock.calls[1];
+      expect(readQuery).toContain("ORDER BY coalesce(m.lastAccessed, '') DESC, m.name");
+      expect(writeQuery).toContain('SET m.lastAccessed = $timestamp');
+    });
+  });
+
   describe('Memory Existence Checking - memoryExists', () => {
     it('should return true for existing memory', async () => {
       mockSession.run.mockResolvedValue({
@@ -329,14 +344,14 @@ describe('Core Memory Repository - Batch Operations & Edge Cases', () => {
 
     it('should update lastAccessed timestamp on retrieval', async () => {
       mockSession.run
-        .mockResolvedValueOnce({ records: [] }) // lastAccessed update
-        .mockResolvedValueOnce({ records: [] }); // actual query
+        .mockResolvedValueOnce({ records: [] }) // actual query
+        .mockResolvedValueOnce({ records: [] }); // lastAccessed update
 
       await repository.getCoreMemoryData(mockSession, ['test-id']);
 
       expect(mockSession.run).toHaveBeenCalledTimes(2);
-      expect(mockSession.run).toHaveBeenNthCalledWith(1,
-        'MATCH (m:Memory) WHERE m.id IN $ids SET m.lastAccessed = $timestamp',
+      expect(mockSession.run).toHaveBeenNthCalledWith(2,
+        'MATCH (m:Memory) WHERE m.id IN $ids SET m.lastAccessed = $timestamp, m.accessCount = coalesce(m.accessCount, 0) + 1',
         expect.objectContaining({
           ids: ['test-id'],
           timestamp: expect.any(String)
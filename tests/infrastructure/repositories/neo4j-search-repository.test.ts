@@ -19,6 +19,7 @@ describe('Neo4jSearchRepository - Production Coverage', () => {
   let mockSessionFactory: any;
   let mockSession: any;
   let mockSearchService: any;
+  let mockEmbeddingService: any;
 
   beforeEach(() => {
     // Mock session and session factory
@@ -27,7 +28,8 @@ describe('Neo4jSearchRepository - Production Coverage', () => {
     };
     
     mockSessionFactory = {
-      createSession: vi.fn().mockReturnValue(mockSession)
+      createSession: vi.fn().mockReturnValue(mockSession),
+      getCurrentDatabase: vi.fn().mockReturnValue({ database: 'test-db' })
     };
 
     // Mock SimplifiedSearchService
@@ -37,7 +39,9 @@ describe('Neo4jSearchRepository - Production Coverage', () => {
     
     (SimplifiedSearchService as any).mockImplementation(() => mockSearchService);
 
-    repository = new Neo4jSearchRepository(mockSessionFactory);
+    mockEmbeddingService = { calculateEmbedding: vi.fn() };
+
+    repository = new Neo4jSearchRepository(mockSessionFactory, mockEmbeddingService);
   });
 
   describe('Search Execution', () => {
@@ -79,7 +83,8 @@ describe('Neo4jSearchRepository - Production Coverage', () => {
         10,
         true,
         undefined,
-        0.1
+        0.1,
+        {}
       );
       expect(mockSession.close).toHaveBeenCalledOnce();
       
@@ -121,7 +126,8 @@ describe('Neo4jSearchRepository - Production Coverage', () => {
         10,          // default limit
         true,        // default includeGraphContext
         undefined,   // no memoryTypes
-        0.1          // default threshold
+        0.1,         // default threshold
+        {}
       );
     });
 
@@ -146,7 +152,8 @@ describe('Neo4jSearchRepository - Production Coverage', () => {
         25,
         false,
         ['project', 'task'],
-        0.3
+        0.3,
+        {}
       );
     });
 
@@ -168,7 +175,8 @@ describe('Neo4jSearchRepository - Production Coverage', () => {
         10,
         false,  // Explicitly false
         undefined,
-        0.1
+        0.1,
+        {}
       );
     });
   });
@@ -222,7 +230,7 @@ describe('Neo4jSearchRepository - Production Coverage', () => {
       expect(results[0].score).toBe(0.95);
     });
 
-    it('should handle missing dates gracefully', async () => {
+    it('should leave missing dates undefined instead of inventing them', async () => {
       // Arrange
       const mockSimpleResults: SimpleSearchResult[] = [
         {
@@ -244,9 +252,9 @@ describe('Neo4jSearchRepository - Production Coverage', () => {
 
       // Assert
       const memory = results[0].memory;
-      expect(memory.createdAt).toBeInstanceOf(Date);
-      expect(memory.modifiedAt).toBeInstanceOf(Date);
-      expect(memory.lastAccessed).toBeInstanceOf(Date);
+      expect(memory.createdAt).toBeUndefined();
+      expect(memory.modifiedAt).toBeUndefined();
+      expect(memory.lastAccessed).toBeUndefined();
     });
 
     it('should handle missing score gracefully', async () => {
@@ -341,7 +349,7 @@ describe('Neo4jSearchRepository - Production Coverage', () => {
   });
 
   describe('Production Integration', () => {
-    it('should create SimplifiedSearchService with correct session', async () => {
+    it('should create SimplifiedSearchService with correct session and database', async () => {
       // Arrange
       mockSearchService.search.mockResolvedValue([]);
 
@@ -349,7 +357,8 @@ describe('Neo4jSearchRepository - Production Coverage', () => {
       await repository.search({ query: 'integration test' });
 
       // Assert
-      expect(SimplifiedSearchService).toHaveBeenCalledWith(mockSession);
+      expect(mockSessionFactory.createSession).toHaveBeenCalledWith('test-db');
+      expect(SimplifiedSearchService).toHaveBeenCalledWith(mockSession, mockEmbeddingService, 'test-db');
     });
 
     it('should handle empty search results', async () => {
@@ -397,4 +406,34 @@ describe('Neo4jSearchRepository - Production Coverage', () => {
       expect(results[1].memory.id).toBe('second');
     });
   });
+
+  describe('Batch Search', () => {
+    it('should run every request over one session and embed semantic queries once', async () => {
+      vi.mocked(SimplifiedSearchService).mockClear();
+      mockEmbeddingService.calculateEmbeddings = vi.fn().mockResolvedValue([[0.1], [0.2]]);
+      mockSearchService.search
+        .mockResolvedValueOnce([{ id: 'a', name: 'A', type: 'test', observations: [], score: 0.9, matchType: 'semantic' as const }])
+        .mockResolvedValueOnce([]);
+
+      const results = await repository.searchBatch([
+        { query: 'authentication flow', limit: 5 },
+        { query: 'database migration plans', memoryTypes: ['decision'] }
+      ]);
+
+      expect(mockSessionFactory.createSession).toHaveBeenCalledOnce();
+      expect(mockSession.close).toHaveBeenCalledOnce();
+      expect(SimplifiedSearchService).toHaveBeenCalledOnce();
+      expect(mockEmbeddingService.calculateEmbeddings).toHaveBeenCalledWith(['authentication flow', 'database migration plans']);
+      expect(mockSearchService.search).toHaveBeenNthCalledWith(2, 'database migration plans', 10, true, ['decision'], 0.1, {});
+      expect(results.map(group => group.map(result => result.memory.id))).toEqual([['a'], []]);
+    });
+
+    it('should close the session when a sub-search fails', async () => {
+      mockEmbeddingService.calculateEmbeddings = vi.fn().mockResolvedValue([]);
+      mockSearchService.search.mockRejectedValue(new Error('Search failed'));
+
+      await expect(repository.searchBatch([{ query: '*' }])).rejects.toThrow('Search failed');
+      expect(mockSession.close).toHaveBeenCalledOnce();
+    });
+  });
 });
@@ -63,6 +63,21 @@ describe('ExactSearchChannel - Current Implementation Tests', () => {
       );
     });
 
+    it('should apply date filters to fulltext and name queries', async () => {
+      mockSession.run.mockResolvedValue({ records: [] });
+
+      await channel.search('test', 10, undefined, {
+        cypher: 'm.createdAt >= $createdAfter',
+        params: { createdAfter: '2025-01-01T00:00:00.000Z' }
+      });
+
+      expect(mockSession.run).toHaveBeenCalledTimes(3);
+      for (const [query, params] of mockSession.run.mock.calls) {
+        expect(query).toContain('m.createdAt >= $createdAfter');
+        expect(params.createdAfter).toBe('2025-01-01T00:00:00.000Z');
+      }
+    });
+
     it('should combine results from different sources', async () => {
       // Mock different searches to return different results
       const metadataResult = {
@@ -106,6 +121,25 @@ describe('ExactSearchChannel - Current Implementation Tests', () => {
       expect(results.some(r => r.id === 'name-id')).toBe(true);
     });
 
+    it('should carry the best Lucene score and name coverage for scoring', async () => {
+      const record = (data: Record<string, any>) => ({ get: (key: string) => data[key] ?? null });
+
+      mockSession.run
+        .mockResolvedValueOnce({ records: [record({ id: 'shared', name: 'Test Suite', metadata: '{}', score: 0.4 })] })
+        .mockResolvedValueOnce({ records: [record({ id: 'shared', name: 'Test Suite', metadata: '{}', score: 1.7 })] })
+        .mockResolvedValueOnce({ records: [
+          record({ id: 'shared', name: 'Test Suite', metadata: '{}' }),
+          record({ id: 'exact', name: 'TEST', metadata: '{}' })
+        ] });
+
+      const results = await channel.search('test', 10);
+
+      const shared = results.find(r => r.id === 'shared')!;
+      expect(shared.luceneScore).toBe(1.7);
+      expect(shared.nameScore).toBeCloseTo(4 / 10);
+      expect(results.find(r => r.id === 'exact')!.nameScore).toBe(1.0);
+    });
+
     it('should handle Lucene query sanitization', async () => {
       mockSession.run.mockResolvedValue({ records: [] });
 
@@ -0,0 +1,67 @@
+/**
+ * MMR Reranker Tests
+ * Diversified selection from stored memory and observation vectors
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MmrReranker } from '../../../../src/infrastructure/services/search/mmr-reranker';
+import { cosineSimilarity } from '../../../../src/infrastructure/services/embedding-provider';
+
+const row = (data: Record<string, any>) => ({ get: (key: string) => data[key] ?? null });
+
+// Two near-duplicate deploy memories and one about billing
+const vectorRecords = [
+  row({ id: 'deploy-a', nameEmbedding: [1, 0, 0], observationEmbeddings: [[0.9, 0.1, 0]] }),
+  row({ id: 'deploy-b', nameEmbedding: [0.95, 0.05, 0], observationEmbeddings: [] }),
+  row({ id: 'billing', nameEmbedding: null, observationEmbeddings: [[0, 0, 1]] })
+];
+
+const candidates = [
+  { id: 'deploy-a', score: 0.9 },
+  { id: 'deploy-b', score: 0.88 },
+  { id: 'billing', score: 0.7 }
+];
+
+describe('MmrReranker', () => {
+  let mockSession: any;
+  let reranker: MmrReranker;
+
+  beforeEach(() => {
+    mockSession = { run: vi.fn().mockResolvedValue({ records: vectorRecords }) };
+    reranker = new MmrReranker(mockSession, {
+      calculateSimilarity: cosineSimilarity,
+      getModelIdentity: () => 'hash:test'
+    } as any);
+  });
+
+  it('should promote a distinct facet over a near-duplicate', async () => {
+    const results = await reranker.rerank(candidates, 0.5, 2);
+
+    expect(results.map(result => result.id)).toEqual(['deploy-a', 'billing']);
+    expect(results[1].score).toBe(0.7);
+  });
+
+  it('should keep relevance order with lambda 1 without loading vectors', async () => {
+    const results = await reranker.rerank(candidates, 1, 2);
+
+    expect(results.map(result => result.id)).toEqual(['deploy-a', 'deploy-b']);
+    expect(mockSession.run).not.toHaveBeenCalled();
+  });
+
+  it('should only use vectors of the current embedding model', async () => {
+    await reranker.rerank(candidates, 0.5, 3);
+
+    const [cypher, params] = mockSession.run.mock.calls[0];
+    expect(cypher).toContain('o.embeddingModel = $model');
+    expect(cypher).toContain('CASE WHEN m.embeddingModel = $model THEN m.nameEmbedding ELSE null END');
+    expect(params).toEqual({ memoryIds: ['deploy-a', 'deploy-b', 'billing'], model: 'hash:test' });
+  });
+
+  it('should treat memories without vectors as dissimilar', async () => {
+    mockSession.run.mockResolvedValue({ records: [] });
+
+    const results = await reranker.rerank(candidates, 0.5, 3);
+
+    expect(results.map(result => result.id)).toEqual(['deploy-a', 'deploy-b', 'billing']);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Observation Matcher Tests
+ * Top-k matched observations per memory and highlighted fragments
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ObservationMatcher, highlightFragments } from '../../../../src/infrastructure/services/search/observation-matcher';
+
+const row = (data: Record<string, any>) => ({ get: (key: string) => data[key] ?? null });
+
+describe('ObservationMatcher', () => {
+  let mockSession: any;
+  let mockEmbeddingService: any;
+  let matcher: ObservationMatcher;
+
+  beforeEach(() => {
+    mockSession = { run: vi.fn() };
+    mockEmbeddingService = {
+      calculateEmbedding: vi.fn().mockResolvedValue([1, 0]),
+      calculateSimilarity: vi.fn((a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1])
+    };
+    matcher = new ObservationMatcher(mockSession, mockEmbeddingService);
+  });
+
+  it('should return only the top-k observations matched by fulltext or vectors', async () => {
+    mockSession.run
+      .mockResolvedValueOnce({ records: [row({ id: 'obs-fulltext', score: 3 })] })
+      .mockResolvedValueOnce({ records: [
+        row({ memoryId: 'mem-1', id: 'obs-fulltext', content: 'Deploy runs nightly', createdAt: '2025-01-01', embedding: [0, 1], chunkEmbeddings: [] }),
+        row({ memoryId: 'mem-1', id: 'obs-chunk', content: 'Long note', createdAt: '2025-01-02', embedding: [0.2, 0.9], chunkEmbeddings: [[0.9, 0.1]] }),
+        row({ memoryId: 'mem-1', id: 'obs-weak', content: 'Unrelated', createdAt: '2025-01-03', embedding: [0.4, 0.6], chunkEmbeddings: [] }),
+        row({ memoryId: 'mem-1', id: 'obs-none', content: 'Nothing', createdAt: '2025-01-04', embedding: [0, 1], chunkEmbeddings: [] })
+      ] });
+
+    const matches = await matcher.match(['mem-1'], 'deploy', 2, true, 0.3);
+
+    const observations = matches.get('mem-1')!;
+    expect(observations.map(obs => obs.id)).toEqual(['obs-chunk', 'obs-fulltext']);
+    expect(observations[0].match).toEqual({ score: 0.9, channels: ['vector'], highlights: [] });
+    expect(observations[1].match).toEqual({ score: 0.75, channels: ['fulltext'], highlights: ['**Deploy** runs nightly'] });
+  });
+
+  it('should skip embeddings when vectors are not used', async () => {
+    mockSession.run
+      .mockResolvedValueOnce({ records: [] })
+      .mockResolvedValueOnce({ records: [row({ memoryId: 'mem-1', id: 'obs-1', content: 'text', createdAt: '2025-01-01' })] });
+
+    const matches = await matcher.match(['mem-1'], 'deploy', 3, false, 0.1);
+
+    expect(mockEmbeddingService.calculateEmbedding).not.toHaveBeenCalled();
+    expect(mockSession.run.mock.calls[1][0]).not.toContain('HAS_CHUNK');
+    expect(matches.size).toBe(0);
+  });
+
+  it('should sanitize the fulltext query and restrict it to result memories', async () => {
+    mockSession.run.mockResolvedValue({ records: [] });
+
+    await matcher.match(['mem-1', 'mem-2'], 'ci:deploy', 3, false, 0.1);
+
+    const [cypher, params] = mockSession.run.mock.calls[0];
+    expect(cypher).toContain("db.index.fulltext.queryNodes('observation_content_idx', $query)");
+    expect(params).toEqual({ query: 'ci\\:deploy', memoryIds: ['mem-1', 'mem-2'] });
+  });
+});
+
+describe('highlightFragments', () => {
+  it('should wrap query terms case-insensitively', () => {
+    expect(highlightFragments('Auth service uses JWT tokens', 'jwt auth'))
+      .toEqual(['**Auth** service uses **JWT** tokens']);
+  });
+
+  it('should cut long content around matches at word boundaries', () => {
+    const content = `${'alpha '.repeat(20)}needle ${'omega '.repeat(20)}`.trim();
+
+    const [fragment] = highlightFragments(content, 'needle');
+
+    expect(fragment.startsWith('…alpha')).toBe(true);
+    expect(fragment.endsWith('omega…')).toBe(true);
+    expect(fragment).toContain('**needle**');
+  });
+
+  it('should merge nearby matches and cap the fragment count', () => {
+    const separator = ' filler'.repeat(30);
+    const content = ['one two', 'one', 'one', 'one'].join(separator);
+
+    const fragments = highlightFragments(content, 'one two');
+
+    expect(fragments).toHaveLength(3);
+    expect(fragments[0]).toContain('**one** **two**');
+  });
+
+  it('should ignore single-character terms', () => {
+    expect(highlightFragments('a b c', 'a')).toEqual([]);
+  });
+});
@@ -82,6 +82,27 @@ describe('QueryClassifier', () => {
     });
   });
 
+  describe('Query Language', () => {
+    it('should classify structured queries by their free text', () => {
+      const result = classifier.classify('"Token Refresh" type:decision');
+
+      expect(result.type).toBe(QueryType.SEMANTIC_SEARCH);
+      expect(result.preprocessing.normalized).toBe('token refresh');
+      expect(result.structured!.filter.params).toMatchObject({ qlTerm1: 'decision' });
+    });
+
+    it('should classify filter-only queries as wildcard listings', () => {
+      const result = classifier.classify('type:decision -obs:draft');
+
+      expect(result.type).toBe(QueryType.WILDCARD);
+      expect(result.structured!.freeText).toBe('');
+    });
+
+    it('should not parse plain text', () => {
+      expect(classifier.classify('text query').structured).toBeUndefined();
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle empty queries', () => {
       const result = classifier.classify('');
@@ -0,0 +1,136 @@
+/**
+ * Query Language Tests
+ * Parsing, parameterized Cypher, Lucene free text and syntax errors
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compileSearchQuery,
+  hasQuerySyntax,
+  parseSearchQuery,
+  withQueryFilter
+} from '../../../../src/infrastructure/services/search/query-language';
+
+describe('Query Language', () => {
+  describe('hasQuerySyntax', () => {
+    it('should leave plain text and hyphenated words to classic search', () => {
+      expect(hasQuerySyntax('state-of-the-art auth and tokens')).toBe(false);
+      expect(hasQuerySyntax('temperature -5 degrees')).toBe(false);
+      expect(hasQuerySyntax('2025-06-01')).toBe(false);
+    });
+
+    it('should leave a lone quote and a field name followed by a space to classic search', () => {
+      expect(hasQuerySyntax('27" monitor')).toBe(false);
+      expect(hasQuerySyntax('type: decision')).toBe(false);
+      expect(hasQuerySyntax('meeting notes for name:')).toBe(false);
+      expect(compileSearchQuery('27" monitor')).toBeUndefined();
+      expect(compileSearchQuery('type: decision')).toBeUndefined();
+    });
+
+    it('should still reject a lone quote or an empty field next to other syntax', () => {
+      expect(() => compileSearchQuery('27" monitor -draft')).toThrow('Unterminated quoted phrase');
+      expect(() => compileSearchQuery('type: decision OR incident')).toThrow('type: needs a value');
+    });
+
+    it('should detect fields, operators, phrases and exclusions', () => {
+      expect(hasQuerySyntax('type:decision')).toBe(true);
+      expect(hasQuerySyntax('oauth OR saml')).toBe(true);
+      expect(hasQuerySyntax('"token refresh"')).toBe(true);
+      expect(hasQuerySyntax('auth -draft')).toBe(true);
+    });
+  });
+
+  describe('parseSearchQuery', () => {
+    it('should bind AND tighter than OR and treat adjacency as AND', () => {
+      expect(parseSearchQuery('type:decision oauth OR name:"Single Sign-On"')).toEqual({
+        kind: 'or',
+        children: [
+          {
+            kind: 'and',
+            children: [
+              { kind: 'term', field: 'type', value: 'decision', phrase: false },
+              { kind: 'term', value: 'oauth', phrase: false }
+            ]
+          },
+          { kind: 'term', field: 'name', value: 'Single Sign-On', phrase: true }
+        ]
+      });
+    });
+
+    it('should parse NOT, exclusions and groups', () => {
+      expect(parseSearchQuery('(obs:timeout OR obs:retry) -draft NOT type:note')).toEqual({
+        kind: 'and',
+        children: [
+          {
+            kind: 'or',
+            children: [
+              { kind: 'term', field: 'obs', value: 'timeout', phrase: false },
+              { kind: 'term', field: 'obs', value: 'retry', phrase: false }
+            ]
+          },
+          { kind: 'not', child: { kind: 'term', value: 'draft', phrase: false } },
+          { kind: 'not', child: { kind: 'term', field: 'type', value: 'note', phrase: false } }
+        ]
+      });
+    });
+
+    it('should reject malformed syntax with the position', () => {
+      expect(() => parseSearchQuery('"unterminated')).toThrow('position 0: Unterminated quoted phrase');
+      expect(() => parseSearchQuery('(oauth OR saml')).toThrow('Missing closing parenthesis');
+      expect(() => parseSearchQuery('oauth OR')).toThrow('Query ends where a term was expected');
+      expect(() => parseSearchQuery('AND oauth')).toThrow('Unexpected AND');
+      expect(() => parseSearchQuery('oauth)')).toThrow("position 5: Unexpected ')'");
+      expect(() => parseSearchQuery('name: oauth')).toThrow('name: needs a value');
+    });
+  });
+
+  describe('compileSearchQuery', () => {
+    it('should return undefined for plain text', () => {
+      expect(compileSearchQuery('deployment pipeline')).toBeUndefined();
+    });
+
+    it('should compile the structure to parameterized Cypher', () => {
+      const compiled = compileSearchQuery('name:"OAuth" type:Decision -obs:deprecated')!;
+
+      expect(compiled.filter.cypher).toBe(
+        '(toLower(m.name) CONTAINS $qlTerm0 AND toLower(m.memoryType) = $qlTerm1 AND ' +
+        '(NOT EXISTS { MATCH (m)-[:HAS_OBSERVATION]->(qlObs:Observation) WHERE toLower(qlObs.content) CONTAINS $qlTerm2 }))'
+      );
+      expect(compiled.filter.params).toEqual({ qlTerm0: 'oauth', qlTerm1: 'decision', qlTerm2: 'deprecated' });
+      expect(compiled.freeText).toBe('');
+      expect(compiled.lucene).toBe('');
+    });
+
+    it('should keep injection attempts inside parameters', () => {
+      const compiled = compileSearchQuery("name:x}] DETACH DELETE m //")!;
+
+      expect(compiled.filter.cypher).not.toContain('DETACH');
+      expect(Object.values(compiled.filter.params)).toContain('x}]');
+    });
+
+    it('should score only positive free text, with phrases kept for Lucene', () => {
+      const compiled = compileSearchQuery('"token refresh" rotation -legacy type:decision')!;
+
+      expect(compiled.freeText).toBe('token refresh rotation');
+      expect(compiled.lucene).toBe('"token refresh" rotation');
+      expect(compiled.filter.cypher).toContain("toLower(coalesce(m.metadata, '')) CONTAINS $qlTerm0");
+    });
+
+    it('should escape Lucene operators in free text', () => {
+      expect(compileSearchQuery('"a:b" c*')!.lucene).toBe('"a\\:b" c\\*');
+    });
+  });
+
+  describe('withQueryFilter', () => {
+    it('should AND the query predicate into an existing filter', () => {
+      const compiled = compileSearchQuery('type:decision')!;
+
+      expect(withQueryFilter({ cypher: 'm.createdAt >= $createdAfter', params: { createdAfter: '2025-01-01' } }, compiled))
+        .toEqual({
+          cypher: 'm.createdAt >= $createdAfter AND toLower(m.memoryType) = $qlTerm0',
+          params: { createdAfter: '2025-01-01', qlTerm0: 'decision' }
+        });
+      expect(withQueryFilter(undefined, undefined)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Ranking Booster Tests
+ * Recency decay, access frequency and boost override validation
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  RankingBooster,
+  resolveSearchBoost
+} from '../../../../src/infrastructure/services/search/ranking-booster';
+
+const NOW = Date.parse('2025-06-30T00:00:00.000Z');
+const daysAgo = (days: number) => new Date(NOW - days * 24 * 60 * 60 * 1000).toISOString();
+
+const row = (data: Record<string, any>) => ({ get: (key: string) => data[key] ?? null });
+
+describe('RankingBooster', () => {
+  let originalEnv: NodeJS.ProcessEnv;
+  let mockSession: any;
+  let booster: RankingBooster;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    delete process.env.SEARCH_RECENCY_WEIGHT;
+    delete process.env.SEARCH_RECENCY_HALF_LIFE_DAYS;
+    delete process.env.SEARCH_ACCESS_WEIGHT;
+    delete process.env.SEARCH_CENTRALITY_WEIGHT;
+
+    mockSession = {
+      run: vi.fn().mockResolvedValue({
+        records: [
+          row({ id: 'stale', modifiedAt: daysAgo(60), lastAccessed: daysAgo(60), accessCount: 0, centrality: 0 }),
+          row({ id: 'fresh', modifiedAt: daysAgo(90), lastAccessed: daysAgo(0), accessCount: 30, centrality: 0 }),
+          row({ id: 'hub', modifiedAt: daysAgo(0), lastAccessed: daysAgo(0), accessCount: 0, centrality: 1 })
+        ]
+      })
+    };
+    booster = new RankingBooster(mockSession);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should decay by the latest modification or access and reward usage', async () => {
+    const results = await booster.apply(
+      [{ id: 'stale', score: 0.9 }, { id: 'fresh', score: 0.8 }],
+      { recencyWeight: 0.3, halfLifeDays: 30, accessWeight: 0.2, centralityWeight: 0 },
+      NOW
+    );
+
+    const stale = results.find(result => result.id === 'stale')!;
+    const fresh = results.find(result => result.id === 'fresh')!;
+    expect(stale.boost).toEqual({ recency: 0.25, usage: 0, centrality: 0, multiplier: 0.575 });
+    expect(stale.score).toBeCloseTo(0.9 * 0.575);
+    expect(fresh.boost!.recency).toBe(1);
+    expect(fresh.boost!.usage).toBe(0.75);
+    expect(fresh.score).toBeCloseTo(0.8 * 0.95);
+    expect(fresh.score).toBeGreaterThan(stale.score);
+  });
+
+  it('should rank a hub above an isolated note of equal relevance', async () => {
+    const results = await booster.apply(
+      [{ id: 'stale', score: 0.8 }, { id: 'hub', score: 0.8 }],
+      { recencyWeight: 0, halfLifeDays: 30, accessWeight: 0, centralityWeight: 0.25 },
+      NOW
+    );
+
+    expect(results.find(result => result.id === 'hub')!.score).toBeCloseTo(0.8);
+    expect(results.find(result => result.id === 'stale')!.score).toBeCloseTo(0.6);
+  });
+
+  it('should skip the lookup when boosting is disabled', async () => {
+    const candidates = [{ id: 'stale', score: 0.9 }];
+
+    const results = await booster.apply(candidates, resolveSearchBoost(), NOW);
+
+    expect(results).toBe(candidates);
+    expect(mockSession.run).not.toHaveBeenCalled();
+  });
+
+  it('should give memories without timestamps no recency credit', async () => {
+    mockSession.run.mockResolvedValue({ records: [] });
+
+    const [result] = await booster.apply(
+      [{ id: 'unknown', score: 1 }],
+      { recencyWeight: 0.5, halfLifeDays: 30, accessWeight: 0, centralityWeight: 0 },
+      NOW
+    );
+
+    expect(result.score).toBe(0.5);
+  });
+
+  describe('resolveSearchBoost', () => {
+    it('should fall back to SEARCH_* settings per field', () => {
+      process.env.SEARCH_RECENCY_WEIGHT = '0.2';
+      process.env.SEARCH_RECENCY_HALF_LIFE_DAYS = '14';
+
+      expect(resolveSearchBoost({ accessWeight: 0.1 })).toEqual({
+        recencyWeight: 0.2,
+        halfLifeDays: 14,
+        accessWeight: 0.1,
+        centralityWeight: 0
+      });
+    });
+
+    it('should reject invalid weights and half-lives', () => {
+      expect(() => resolveSearchBoost({ recencyWeight: 1.5 }))
+        .toThrow('Boost recencyWeight must be between 0.0 and 1.0');
+      expect(() => resolveSearchBoost({ recencyWeight: 0.4, accessWeight: 0.3, centralityWeight: 0.4 }))
+        .toThrow('must not add up to more than 1.0');
+      expect(() => resolveSearchBoost({ halfLifeDays: 0 }))
+        .toThrow('Boost halfLifeDays must be a positive number');
+    });
+  });
+});
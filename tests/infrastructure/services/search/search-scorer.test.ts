@@ -0,0 +1,137 @@
+/**
+ * Search Scorer Tests
+ * Fixed, weighted and reciprocal rank fusion strategies plus override validation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  createSearchScorer,
+  FixedScorer,
+  WeightedScorer,
+  ReciprocalRankFusionScorer,
+  ScoringCandidate
+} from '../../../../src/infrastructure/services/search/search-scorer';
+
+const scoreOf = (results: Array<{ id: string; score: number }>, id: string) =>
+  results.find(result => result.id === id)!.score;
+
+// Weak substring hit against a strong semantic match
+const candidates: ScoringCandidate[] = [
+  { id: 'substring', hasExactMatch: true, nameScore: 0.1, luceneScore: 0.2 },
+  { id: 'semantic', hasExactMatch: false, vectorScore: 0.92 }
+];
+
+describe('SearchScorer', () => {
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    delete process.env.SEARCH_SCORING;
+    delete process.env.SEARCH_EXACT_WEIGHT;
+    delete process.env.SEARCH_VECTOR_WEIGHT;
+    delete process.env.SEARCH_RRF_K;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('FixedScorer', () => {
+    it('should keep the historical exact-first formula', () => {
+      const results = new FixedScorer().score([
+        ...candidates,
+        { id: 'both', hasExactMatch: true, vectorScore: 0.6 }
+      ]);
+
+      expect(scoreOf(results, 'substring')).toBe(0.85);
+      expect(scoreOf(results, 'semantic')).toBe(0.92);
+      expect(scoreOf(results, 'both')).toBeCloseTo(0.94);
+      expect(results.find(result => result.id === 'semantic')!.matchType).toBe('semantic');
+    });
+  });
+
+  describe('WeightedScorer', () => {
+    it('should let a strong semantic match outrank a weak substring hit', () => {
+      const results = new WeightedScorer({ exactWeight: 0.5, vectorWeight: 0.5 }).score(candidates);
+
+      expect(scoreOf(results, 'semantic')).toBeCloseTo(0.46);
+      expect(scoreOf(results, 'substring')).toBeCloseTo(0.5 * (0.2 / 1.2));
+      expect(results.find(result => result.id === 'substring')!.matchType).toBe('exact');
+    });
+
+    it('should score an exact name with full exact relevance', () => {
+      const results = new WeightedScorer({ exactWeight: 1, vectorWeight: 0 }).score([
+        { id: 'exact', hasExactMatch: true, nameScore: 1.0, luceneScore: 3 }
+      ]);
+
+      expect(scoreOf(results, 'exact')).toBe(1.0);
+    });
+
+    it('should not let negative cosine reduce the score', () => {
+      const results = new WeightedScorer({ exactWeight: 1, vectorWeight: 1 }).score([
+        { id: 'opposite', hasExactMatch: true, nameScore: 0.5, vectorScore: -0.4 }
+      ]);
+
+      expect(scoreOf(results, 'opposite')).toBeCloseTo(0.25);
+    });
+  });
+
+  describe('ReciprocalRankFusionScorer', () => {
+    it('should score a candidate ranked first in both channels as 1.0', () => {
+      const results = new ReciprocalRankFusionScorer({ exactWeight: 1, vectorWeight: 1 }, 60).score([
+        { id: 'top', hasExactMatch: true, luceneScore: 5, vectorScore: 0.9 },
+        { id: 'second', hasExactMatch: true, luceneScore: 1, vectorScore: 0.5 }
+      ]);
+
+      expect(scoreOf(results, 'top')).toBe(1.0);
+      expect(scoreOf(results, 'second')).toBeCloseTo(61 / 62);
+    });
+
+    it('should weight channel ranks', () => {
+      const results = new ReciprocalRankFusionScorer({ exactWeight: 1, vectorWeight: 3 }, 60).score(candidates);
+
+      expect(scoreOf(results, 'semantic')).toBeCloseTo(0.75);
+      expect(scoreOf(results, 'substring')).toBeCloseTo(0.25);
+      expect(results.find(result => result.id === 'semantic')!.computation).toEqual({
+        strategy: 'rrf',
+        formula: '(3 / (60 + 1)) / (4 / (60 + 1)) = 0.75',
+        components: { vectorRank: 1, k: 60, exactWeight: 1, vectorWeight: 3 }
+      });
+    });
+  });
+
+  describe('createSearchScorer', () => {
+    it('should default to the fixed strategy', () => {
+      expect(createSearchScorer().strategy).toBe('fixed');
+    });
+
+    it('should take the strategy and weights from the environment', () => {
+      process.env.SEARCH_SCORING = 'weighted';
+      process.env.SEARCH_EXACT_WEIGHT = '0';
+      process.env.SEARCH_VECTOR_WEIGHT = '1';
+
+      const scorer = createSearchScorer();
+
+      expect(scorer.strategy).toBe('weighted');
+      expect(scoreOf(scorer.score(candidates), 'semantic')).toBeCloseTo(0.92);
+    });
+
+    it('should prefer request overrides over environment defaults', () => {
+      process.env.SEARCH_SCORING = 'weighted';
+
+      const scorer = createSearchScorer({ strategy: 'rrf', rrfK: 10 });
+
+      expect(scorer.strategy).toBe('rrf');
+      expect(scoreOf(scorer.score(candidates), 'semantic')).toBeCloseTo(0.5);
+    });
+
+    it('should reject invalid weights and constants', () => {
+      expect(() => createSearchScorer({ strategy: 'weighted', exactWeight: -1 }))
+        .toThrow('Scoring weight exactWeight must be a non-negative number');
+      expect(() => createSearchScorer({ strategy: 'weighted', exactWeight: 0, vectorWeight: 0 }))
+        .toThrow('At least one scoring weight must be positive');
+      expect(() => createSearchScorer({ strategy: 'rrf', rrfK: 0 }))
+        .toThrow('RRF constant must be at least 1');
+    });
+  });
+});
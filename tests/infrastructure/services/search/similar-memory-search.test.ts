@@ -0,0 +1,126 @@
+/**
+ * Similar Memory Search Tests
+ * "More like this" from stored vectors: max-sim, centroid, exclusions and model checks
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SimilarMemorySearch } from '../../../../src/infrastructure/services/search/similar-memory-search';
+import { VectorSearchChannel } from '../../../../src/infrastructure/services/search/vector-search-channel';
+
+vi.mock('../../../../src/infrastructure/services/search/vector-search-channel');
+
+const row = (data: Record<string, any>) => ({ get: (key: string) => data[key] ?? null });
+
+const MODEL = 'hash:test';
+
+const sourceRecord = (overrides: Record<string, any> = {}) => row({
+  nameEmbedding: [1, 0],
+  nameModel: MODEL,
+  observations: [
+    { embedding: [0, 1], model: MODEL },
+    { embedding: [0.6, 0.8], model: 'xenova:old-model' }
+  ],
+  ...overrides
+});
+
+describe('SimilarMemorySearch', () => {
+  let mockSession: any;
+  let mockVectorChannel: any;
+  let search: SimilarMemorySearch;
+
+  beforeEach(() => {
+    mockSession = { run: vi.fn() };
+    mockVectorChannel = { searchByVector: vi.fn() };
+    (VectorSearchChannel as any).mockImplementation(() => mockVectorChannel);
+    search = new SimilarMemorySearch(mockSession, { getModelIdentity: () => MODEL } as any);
+  });
+
+  it('should score neighbours by their best match against any source vector', async () => {
+    mockSession.run.mockResolvedValueOnce({ records: [sourceRecord()] });
+    mockVectorChannel.searchByVector
+      .mockResolvedValueOnce([{ id: 'mem-a', score: 0.7, source: 'name' }, { id: 'mem-b', score: 0.5, source: 'name' }])
+      .mockResolvedValueOnce([{ id: 'mem-b', score: 0.9, source: 'observation', observationId: 'obs-1' }]);
+
+    const results = await search.findSimilar('mem-source', { limit: 5, threshold: 0.3 });
+
+    // Vectors of another model are skipped
+    expect(mockVectorChannel.searchByVector).toHaveBeenCalledTimes(2);
+    expect(mockVectorChannel.searchByVector.mock.calls[0][0]).toEqual([1, 0]);
+    expect(mockVectorChannel.searchByVector.mock.calls[1][0]).toEqual([0, 1]);
+    expect(results).toEqual([
+      { id: 'mem-b', score: 0.9, source: 'observation', observationId: 'obs-1', matchedVia: 'observation' },
+      { id: 'mem-a', score: 0.7, source: 'name', matchedVia: 'name' }
+    ]);
+  });
+
+  it('should exclude the source memory and keep caller filters', async () => {
+    mockSession.run.mockResolvedValueOnce({ records: [sourceRecord({ observations: [] })] });
+    mockVectorChannel.searchByVector.mockResolvedValue([]);
+
+    await search.findSimilar('mem-source', {
+      limit: 5,
+      threshold: 0.3,
+      memoryTypes: ['decision'],
+      filter: { cypher: 'm.meta_status = $metaFilter0', params: { metaFilter0: 'open' } }
+    });
+
+    const [, limit, threshold, memoryTypes, filter] = mockVectorChannel.searchByVector.mock.calls[0];
+    expect(limit).toBe(6);
+    expect(threshold).toBe(0.3);
+    expect(memoryTypes).toEqual(['decision']);
+    expect(filter).toEqual({
+      cypher: 'm.meta_status = $metaFilter0 AND NOT m.id IN $similarExcludeIds',
+      params: { metaFilter0: 'open', similarExcludeIds: ['mem-source'] }
+    });
+  });
+
+  it('should exclude directly related memories when requested', async () => {
+    mockSession.run
+      .mockResolvedValueOnce({ records: [sourceRecord({ observations: [] })] })
+      .mockResolvedValueOnce({ records: [row({ id: 'mem-linked' })] });
+    mockVectorChannel.searchByVector.mockResolvedValue([]);
+
+    await search.findSimilar('mem-source', { limit: 5, threshold: 0.3, excludeRelated: true });
+
+    expect(mockSession.run.mock.calls[1][0]).toContain('-[:RELATES_TO]-(related:Memory)');
+    expect(mockVectorChannel.searchByVector.mock.calls[0][4].params.similarExcludeIds)
+      .toEqual(['mem-source', 'mem-linked']);
+  });
+
+  it('should cap max-sim at the name and the 15 newest observation vectors', async () => {
+    const observations = Array.from({ length: 40 }, (_, index) => ({ embedding: [index, 1], model: MODEL }));
+    mockSession.run.mockResolvedValueOnce({ records: [sourceRecord({ observations })] });
+    mockVectorChannel.searchByVector.mockResolvedValue([]);
+
+    await search.findSimilar('mem-source', { limit: 5, threshold: 0.3 });
+
+    expect(mockSession.run.mock.calls[0][0]).toContain('ORDER BY o.createdAt DESC');
+    expect(mockVectorChannel.searchByVector).toHaveBeenCalledTimes(16);
+    expect(mockVectorChannel.searchByVector.mock.calls[0][0]).toEqual([1, 0]);
+    expect(mockVectorChannel.searchByVector.mock.calls[15][0]).toEqual([14, 1]);
+  });
+
+  it('should query once with the normalized centroid in centroid mode', async () => {
+    mockSession.run.mockResolvedValueOnce({ records: [sourceRecord({
+      nameEmbedding: [2, 0],
+      observations: [{ embedding: [0, 1], model: MODEL }]
+    })] });
+    mockVectorChannel.searchByVector.mockResolvedValue([{ id: 'mem-a', score: 0.8, source: 'name' }]);
+
+    const results = await search.findSimilar('mem-source', { limit: 5, threshold: 0.3, mode: 'centroid' });
+
+    expect(mockVectorChannel.searchByVector).toHaveBeenCalledTimes(1);
+    expect(mockVectorChannel.searchByVector.mock.calls[0][0]).toEqual([0.5, 0.5]);
+    expect(results[0].matchedVia).toBe('centroid');
+  });
+
+  it('should fail for unknown memories and memories without current vectors', async () => {
+    mockSession.run.mockResolvedValueOnce({ records: [] });
+    await expect(search.findSimilar('missing', { limit: 5, threshold: 0.3 }))
+      .rejects.toThrow('Memory not found: missing');
+
+    mockSession.run.mockResolvedValueOnce({ records: [sourceRecord({ nameModel: 'xenova:old-model', observations: [] })] });
+    await expect(search.findSimilar('mem-stale', { limit: 5, threshold: 0.3 }))
+      .rejects.toThrow('has no vectors from the current embedding model (hash:test)');
+  });
+});
@@ -43,7 +43,7 @@ describe('SimplifiedSearchService', () => {
     (VectorSearchChannel as any).mockImplementation(() => mockVectorChannel);
     (WildcardSearchService as any).mockImplementation(() => mockWildcardService);
 
-    searchService = new SimplifiedSearchService(mockSession);
+    searchService = new SimplifiedSearchService(mockSession, { calculateEmbedding: vi.fn() } as any);
   });
 
   describe('Input Validation', () => {
@@ -132,5 +132,314 @@ describe('SimplifiedSearchService', () => {
       expect(mockVectorChannel.search).toHaveBeenCalled();
       expect(results.length).toBeGreaterThan(0);
     });
+
+    it('should resume relevance paging after the cursor position', async () => {
+      const queryIntent: QueryIntent = {
+        type: QueryType.SEMANTIC_SEARCH,
+        confidence: 0.8,
+        preprocessing: { normalized: 'test query' }
+      };
+
+      mockQueryClassifier.classify.mockReturnValue(queryIntent);
+      mockExactChannel.search.mockResolvedValue([]);
+      mockVectorChannel.search.mockResolvedValue([
+        { id: 'vec-a', score: 0.9 },
+        { id: 'vec-c', score: 0.8 },
+        { id: 'vec-b', score: 0.8 },
+        { id: 'vec-d', score: 0.7 }
+      ]);
+      mockSession.run.mockResolvedValue({ records: [] });
+
+      await searchService.search('test query', 2, true, undefined, 0.1, {
+        after: { value: 0.8, id: 'vec-b', offset: 2 }
+      });
+
+      // Candidate pool covers pages already returned
+      expect(mockExactChannel.search).toHaveBeenCalledWith('test query', 8, undefined, undefined, undefined);
+      const [, params] = mockSession.run.mock.calls[0];
+      expect(params.candidateIds).toEqual(['vec-c', 'vec-d']);
+    });
+
+    it('should page timestamp order through the same top relevance hits on every page', async () => {
+      mockQueryClassifier.classify.mockReturnValue({
+        type: QueryType.SEMANTIC_SEARCH,
+        confidence: 0.8,
+        preprocessing: { normalized: 'test query' }
+      });
+      mockExactChannel.search.mockResolvedValue([]);
+      mockVectorChannel.search.mockResolvedValue([
+        { id: 'vec-a', score: 0.9 },
+        { id: 'vec-b', score: 0.8 },
+        { id: 'vec-c', score: 0.7 }
+      ]);
+      mockSession.run.mockResolvedValue({ records: [] });
+      const order = { property: 'createdAt' as const, direction: 'DESC' as const };
+
+      await searchService.search('test query', 2, true, undefined, 0.1, { order });
+      await searchService.search('test query', 2, true, undefined, 0.1, {
+        order,
+        after: { value: '2025-01-02T00:00:00.000Z', id: 'vec-b', offset: 2 }
+      });
+
+      // Pool size ignores the cursor offset - the keyset cuts the same date-sorted pool
+      expect(mockExactChannel.search.mock.calls.map((call: any[]) => call[1])).toEqual([100, 100]);
+      expect(mockVectorChannel.search.mock.calls.map((call: any[]) => call[1])).toEqual([100, 100]);
+      const [firstPage, secondPage] = mockSession.run.mock.calls;
+      expect(secondPage[1].candidateIds).toEqual(firstPage[1].candidateIds);
+      expect(secondPage[0]).toContain("coalesce(m.createdAt, '')");
+    });
+
+    it('should rank with the requested scoring strategy', async () => {
+      mockQueryClassifier.classify.mockReturnValue({
+        type: QueryType.SEMANTIC_SEARCH,
+        confidence: 0.8,
+        preprocessing: { normalized: 'test' }
+      });
+      mockExactChannel.search.mockResolvedValue([{
+        id: 'substring',
+        name: 'A long memory name mentioning test',
+        metadata: {},
+        matchTypes: { exactName: true, exactMetadata: false, exactContent: false },
+        nameScore: 0.12
+      }]);
+      mockVectorChannel.search.mockResolvedValue([{ id: 'semantic', score: 0.8 }]);
+      mockSession.run.mockResolvedValue({ records: [] });
+
+      await searchService.search('test', 10, true, undefined, 0.1);
+      expect(mockSession.run.mock.calls[0][1].candidateIds).toEqual(['substring', 'semantic']);
+
+      await searchService.search('test', 10, true, undefined, 0.1, {
+        scoring: { strategy: 'weighted', exactWeight: 0.5, vectorWeight: 0.5 }
+      });
+      expect(mockSession.run.mock.calls[1][1].candidateIds).toEqual(['semantic']);
+    });
+
+    it('should continue an rrf page without repeating or skipping memories', async () => {
+      // e5 has the weakest Lucene score of the top five but a full name match - the best exact rank
+      const ranked = [
+        { id: 'e1', luceneScore: 10 },
+        { id: 'e2', luceneScore: 9 },
+        { id: 'e3', luceneScore: 8 },
+        { id: 'e4', luceneScore: 7 },
+        { id: 'e5', luceneScore: 6, nameScore: 1.0 },
+        { id: 'e6', luceneScore: 5 }
+      ].map(hit => ({ ...hit, name: hit.id, metadata: {}, matchTypes: { exactName: true, exactMetadata: false, exactContent: false } }));
+      mockQueryClassifier.classify.mockReturnValue({
+        type: QueryType.EXACT_SEARCH,
+        confidence: 0.9,
+        preprocessing: { normalized: 'deploy' }
+      });
+      mockExactChannel.search.mockImplementation(async (_query: string, k: number) => ranked.slice(0, k));
+      mockSession.run.mockImplementation(async (_cypher: string, params: any) => ({
+        records: params.candidateIds.map((id: string) => ({ get: (key: string) => (key === 'id' || key === 'name' ? id : null) }))
+      }));
+      const options = { scoring: { strategy: 'rrf' as const } };
+
+      const first = await searchService.search('deploy', 2, true, undefined, 0.1, options);
+      const last = first[first.length - 1];
+      const second = await searchService.search('deploy', 2, true, undefined, 0.1, {
+        ...options,
+        after: { value: last.score, id: last.id, offset: 2 }
+      });
+
+      expect(first.map(result => result.id)).toEqual(['e5', 'e1']);
+      expect(second.map(result => result.id)).toEqual(['e2', 'e3']);
+    });
+
+    it('should explain channels, raw scores and score computation when requested', async () => {
+      mockQueryClassifier.classify.mockReturnValue({
+        type: QueryType.SEMANTIC_SEARCH,
+        confidence: 0.8,
+        preprocessing: { normalized: 'deploy' }
+      });
+      mockExactChannel.search.mockResolvedValue([{
+        id: 'both',
+        name: 'Deploy notes',
+        metadata: {},
+        matchTypes: { exactName: true, exactMetadata: false, exactContent: true },
+        luceneScore: 2.5,
+        nameScore: 0.5
+      }]);
+      mockVectorChannel.search.mockResolvedValue([
+        { id: 'both', score: 0.6, source: 'chunk', observationId: 'obs-7' }
+      ]);
+      mockSession.run.mockResolvedValue({ records: [] });
+
+      const [result] = await searchService.search('deploy', 10, true, undefined, 0.1, { explain: true });
+
+      expect(result.explanation).toEqual({
+        channels: { name: true, metadataFulltext: false, observationFulltext: true, vector: true },
+        scores: { lucene: 2.5, nameCoverage: 0.5, cosine: 0.6 },
+        bestVectorMatch: { source: 'chunk', observationId: 'obs-7' },
+        computation: {
+          strategy: 'fixed',
+          formula: '0.85 + min(0.15 × 0.6, 0.15) = 0.94',
+          components: { base: 0.85, vectorBoost: expect.closeTo(0.09) }
+        }
+      });
+    });
+
+    it('should replace observations with matched ones in snippet mode', async () => {
+      mockQueryClassifier.classify.mockReturnValue({
+        type: QueryType.SEMANTIC_SEARCH,
+        confidence: 0.8,
+        preprocessing: { normalized: 'deploy' }
+      });
+      mockExactChannel.search.mockResolvedValue([]);
+      mockVectorChannel.search.mockResolvedValue([{ id: 'mem-1', score: 0.8 }]);
+      const enriched = {
+        id: 'mem-1', name: 'Ops', type: 'project', metadata: null, ancestors: [], descendants: [],
+        observations: [
+          { id: 'obs-1', content: 'Deploy runs nightly', createdAt: '2025-01-01' },
+          { id: 'obs-2', content: 'Office plants', createdAt: '2025-01-02' }
+        ]
+      };
+      mockSession.run
+        .mockResolvedValueOnce({ records: [{ get: (key: string) => (enriched as any)[key] ?? null }] })
+        .mockResolvedValueOnce({ records: [{ get: (key: string) => ({ id: 'obs-1', score: 1 } as any)[key] }] })
+        .mockResolvedValueOnce({ records: [{
+          get: (key: string) => ({ memoryId: 'mem-1', id: 'obs-1', content: 'Deploy runs nightly', createdAt: '2025-01-01', chunkEmbeddings: [] } as any)[key] ?? null
+        }] });
+
+      const [result] = await searchService.search('deploy', 10, true, undefined, 0.1, { matchedObservations: 1 });
+
+      expect(result.observations).toEqual([{
+        id: 'obs-1',
+        content: 'Deploy runs nightly',
+        createdAt: '2025-01-01',
+        match: { score: 0.5, channels: ['fulltext'], highlights: ['**Deploy** runs nightly'] }
+      }]);
+    });
+
+    it('should apply metadata filters together with date filters in every channel', async () => {
+      mockQueryClassifier.classify.mockReturnValue({
+        type: QueryType.SEMANTIC_SEARCH,
+        confidence: 0.8,
+        preprocessing: { normalized: 'deploy' }
+      });
+      mockExactChannel.search.mockResolvedValue([]);
+      mockVectorChannel.search.mockResolvedValue([]);
+      mockSession.run.mockResolvedValue({ records: [] });
+
+      await searchService.search('deploy', 10, true, undefined, 0.1, {
+        dateFilter: { cypher: 'm.createdAt >= $createdAfter', params: { createdAfter: '2025-01-01T00:00:00.000Z' } },
+        metadataFilter: { status: 'open', priority: { gte: 2 } }
+      });
+
+      const expectedFilter = {
+        cypher: 'm.createdAt >= $createdAfter AND m.meta_status = $metaFilter0 AND m.meta_priority >= $metaFilter1',
+        params: { createdAfter: '2025-01-01T00:00:00.000Z', metaFilter0: 'open', metaFilter1: 2 }
+      };
+      expect(mockExactChannel.search).toHaveBeenCalledWith('deploy', 20, undefined, expectedFilter, undefined);
+      expect(mockVectorChannel.search).toHaveBeenCalledWith('deploy', 20, 0.1, undefined, expectedFilter);
+    });
+
+    it('should let a fresh, frequently used memory outrank a stale one when boosting', async () => {
+      mockQueryClassifier.classify.mockReturnValue({
+        type: QueryType.SEMANTIC_SEARCH,
+        confidence: 0.8,
+        preprocessing: { normalized: 'deploy' }
+      });
+      mockExactChannel.search.mockResolvedValue([]);
+      mockVectorChannel.search.mockResolvedValue([
+        { id: 'stale', score: 0.9, source: 'name' },
+        { id: 'fresh', score: 0.8, source: 'name' }
+      ]);
+      const now = new Date().toISOString();
+      mockSession.run
+        .mockResolvedValueOnce({ records: [
+          { get: (key: string) => ({ id: 'stale', modifiedAt: '2020-01-01T00:00:00.000Z', lastAccessed: null, accessCount: 0 } as any)[key] },
+          { get: (key: string) => ({ id: 'fresh', modifiedAt: now, lastAccessed: now, accessCount: 40 } as any)[key] }
+        ] })
+        .mockResolvedValue({ records: [] });
+
+      const results = await searchService.search('deploy', 10, true, undefined, 0.1, {
+        boost: { recencyWeight: 0.3, accessWeight: 0.2 },
+        explain: true
+      });
+
+      expect(results.map(result => result.id)).toEqual(['fresh', 'stale']);
+      expect(results[1].score).toBeCloseTo(0.9 * 0.5);
+      expect(results[0].explanation!.boost!.usage).toBe(0.8);
+    });
+
+    it('should apply the query-language filter and score only its free text', async () => {
+      const { QueryClassifier: ActualQueryClassifier } = await vi.importActual<
+        typeof import('../../../../src/infrastructure/services/search/query-classifier')
+      >('../../../../src/infrastructure/services/search/query-classifier');
+      mockQueryClassifier.classify.mockImplementation(
+        (query: string) => new ActualQueryClassifier().classify(query)
+      );
+      mockExactChannel.search.mockResolvedValue([]);
+      mockVectorChannel.search.mockResolvedValue([]);
+
+      await searchService.search('"token refresh" -legacy type:decision', 10, true, undefined, 0.1);
+
+      const [text, , , filter, lucene] = mockExactChannel.search.mock.calls[0];
+      expect(text).toBe('token refresh');
+      expect(lucene).toBe('"token refresh"');
+      expect(filter.params).toEqual({ qlTerm0: 'token refresh', qlTerm1: 'legacy', qlTerm2: 'decision' });
+      expect(mockVectorChannel.search).toHaveBeenCalledWith('token refresh', 20, 0.1, undefined, filter);
+    });
+
+    it('should pick a diverse page from the scored pool when mmrLambda is set', async () => {
+      mockQueryClassifier.classify.mockReturnValue({
+        type: QueryType.SEMANTIC_SEARCH,
+        confidence: 0.8,
+        preprocessing: { normalized: 'deploy' }
+      });
+      mockExactChannel.search.mockResolvedValue([]);
+      mockVectorChannel.search.mockResolvedValue([
+        { id: 'deploy-a', score: 0.9 },
+        { id: 'deploy-b', score: 0.88 },
+        { id: 'billing', score: 0.7 }
+      ]);
+      const service = new SimplifiedSearchService(mockSession, {
+        calculateEmbedding: vi.fn(),
+        calculateSimilarity: (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1],
+        getModelIdentity: () => 'hash:test'
+      } as any);
+      mockSession.run
+        .mockResolvedValueOnce({ records: [
+          { get: (key: string) => ({ id: 'deploy-a', nameEmbedding: [1, 0], observationEmbeddings: [] } as any)[key] },
+          { get: (key: string) => ({ id: 'deploy-b', nameEmbedding: [1, 0], observationEmbeddings: [] } as any)[key] },
+          { get: (key: string) => ({ id: 'billing', nameEmbedding: [0, 1], observationEmbeddings: [] } as any)[key] }
+        ] })
+        .mockResolvedValue({ records: [] });
+
+      await service.search('deploy', 2, true, undefined, 0.1, { mmrLambda: 0.5 });
+
+      const [, params] = mockSession.run.mock.calls[1];
+      expect(params.candidateIds).toEqual(['deploy-a', 'billing']);
+    });
+
+    it('should reject mmrLambda outside 0-1 or with timestamp order', async () => {
+      await expect(searchService.search('deploy', 10, true, undefined, 0.1, { mmrLambda: 1.5 }))
+        .rejects.toThrow('mmrLambda must be between 0.0 and 1.0');
+      await expect(searchService.search('deploy', 10, true, undefined, 0.1, {
+        mmrLambda: 0.5,
+        order: { property: 'createdAt', direction: 'DESC' }
+      })).rejects.toThrow('mmrLambda requires relevance ordering');
+    });
+
+    it('should reject a non-positive matchedObservations count', async () => {
+      await expect(searchService.search('deploy', 10, true, undefined, 0.1, { matchedObservations: 0 }))
+        .rejects.toThrow('matchedObservations must be a positive integer');
+    });
+
+    it('should not explain unless requested', async () => {
+      mockQueryClassifier.classify.mockReturnValue({
+        type: QueryType.SEMANTIC_SEARCH,
+        confidence: 0.8,
+        preprocessing: { normalized: 'deploy' }
+      });
+      mockExactChannel.search.mockResolvedValue([]);
+      mockVectorChannel.search.mockResolvedValue([{ id: 'vec', score: 0.6, source: 'name' }]);
+      mockSession.run.mockResolvedValue({ records: [] });
+
+      const [result] = await searchService.search('deploy');
+
+      expect(result).not.toHaveProperty('explanation');
+    });
   });
 });
@@ -6,6 +6,18 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { VectorSearchChannel } from '../../../../src/infrastructure/services/search/vector-search-channel';
 
+// SHOW INDEXES result without vector indexes - forces GDS strategy
+const noVectorIndexes = { records: [] };
+const onlineVectorIndexes = {
+  records: [
+    { get: () => 'memory_name_vector_idx' },
+    { get: () => 'observation_embedding_vector_idx' }
+  ]
+};
+const onlineVectorIndexesWithChunks = {
+  records: [...onlineVectorIndexes.records, { get: () => 'observation_chunk_vector_idx' }]
+};
+
 describe('VectorSearchChannel - Mock Tests', () => {
   let channel: VectorSearchChannel;
   let mockSession: any;
@@ -14,20 +26,28 @@ describe('VectorSearchChannel - Mock Tests', () => {
     mockSession = {
       run: vi.fn()
     };
-    channel = new VectorSearchChannel(mockSession);
+    // Embedding model is out of scope for channel tests
+    const mockEmbeddingService = {
+      calculateEmbedding: vi.fn().mockResolvedValue([0.1, 0.2, 0.3])
+    } as any;
+    channel = new VectorSearchChannel(mockSession, mockEmbeddingService);
   });
 
   describe('GDS Detection Logic', () => {
     it('should require GDS for vector operations', async () => {
       // Mock GDS check to fail
-      mockSession.run.mockRejectedValueOnce(new Error('GDS not available'));
+      mockSession.run
+        .mockResolvedValueOnce(noVectorIndexes)
+        .mockRejectedValueOnce(new Error('GDS not available'));
 
       await expect(channel.search('test query', 10, 0.5))
         .rejects.toThrow('Neo4j Graph Data Science (GDS) plugin is required');
     });
 
     it('should provide setup instructions when GDS unavailable', async () => {
-      mockSession.run.mockRejectedValueOnce(new Error('Unknown function'));
+      mockSession.run
+        .mockResolvedValueOnce(noVectorIndexes)
+        .mockRejectedValueOnce(new Error('Unknown function'));
 
       await expect(channel.search('test', 10, 0.5))
         .rejects.toThrow('Neo4j Graph Data Science (GDS) plugin');
@@ -42,9 +62,11 @@ describe('VectorSearchChannel - Mock Tests', () => {
 
     it('should handle invalid GDS responses', async () => {
       // Mock invalid response from GDS check
-      mockSession.run.mockResolvedValueOnce({ 
-        records: [{ get: () => null }] 
-      });
+      mockSession.run
+        .mockResolvedValueOnce(noVectorIndexes)
+        .mockResolvedValueOnce({ 
+          records: [{ get: () => null }] 
+        });
 
       await expect(channel.search('test', 10, 0.5))
         .rejects.toThrow('Neo4j Graph Data Science (GDS) plugin');
@@ -55,6 +77,7 @@ describe('VectorSearchChannel - Mock Tests', () => {
     it('should construct proper GDS queries when available', async () => {
       // Mock successful GDS verification
       mockSession.run
+        .mockResolvedValueOnce(noVectorIndexes)
         .mockResolvedValueOnce({ records: [{ get: () => 0.5 }] }) // GDS check
         .mockResolvedValueOnce({ records: [] }); // Search query
 
@@ -84,6 +107,7 @@ describe('VectorSearchChannel - Mock Tests', () => {
 
     it('should include memory type filtering in queries', async () => {
       mockSession.run
+        .mockResolvedValueOnce(noVectorIndexes)
         .mockResolvedValueOnce({ records: [{ get: () => 0.8 }] }) // GDS check
         .mockResolvedValueOnce({ records: [] }); // Search query
 
@@ -103,6 +127,108 @@ describe('VectorSearchChannel - Mock Tests', () => {
     });
   });
 
+  describe('Native Vector Index Strategy', () => {
+    it('should query both vector indexes when they are online', async () => {
+      mockSession.run
+        .mockResolvedValueOnce(onlineVectorIndexes)
+        .mockResolvedValueOnce({ records: [] }); // Search query
+
+      await channel.search('test', 10, 0.5);
+
+      const [cypher, params] = mockSession.run.mock.calls[1];
+      expect(cypher).toContain("db.index.vector.queryNodes('memory_name_vector_idx', $k, $queryVector)");
+      expect(cypher).toContain("db.index.vector.queryNodes('observation_embedding_vector_idx', $k, $queryVector)");
+      expect(cypher).toContain('max(2 * score - 1) AS bestScore');
+      expect(cypher).not.toContain('gds.similarity.cosine');
+      expect(params.k.toNumber()).toBe(20);
+      expect(channel.getStrategy()).toBe('vector-index');
+      expect(channel.isGDSVerified()).toBe(null); // GDS never probed
+      expect(cypher).not.toContain('observation_chunk_vector_idx');
+    });
+
+    it('should score observations by their best chunk when chunk index is online', async () => {
+      mockSession.run
+        .mockResolvedValueOnce(onlineVectorIndexesWithChunks)
+        .mockResolvedValueOnce({ records: [] });
+
+      await channel.search('test', 10, 0.5);
+
+      const [cypher] = mockSession.run.mock.calls[1];
+      expect(cypher).toContain("db.index.vector.queryNodes('observation_chunk_vector_idx', $k, $queryVector)");
+      expect(cypher).toContain('MATCH (m:Memory)-[:HAS_OBSERVATION]->(o:Observation)-[:HAS_CHUNK]->(node)');
+    });
+
+    it('should report which observation produced the best score', async () => {
+      const row = (data: Record<string, any>) => ({ get: (key: string) => data[key] ?? null });
+      mockSession.run
+        .mockResolvedValueOnce(onlineVectorIndexes)
+        .mockResolvedValueOnce({ records: [
+          row({ id: 'mem-1', score: 0.9, observationId: 'obs-1', source: 'observation' }),
+          row({ id: 'mem-2', score: 0.7, source: 'name' })
+        ] });
+
+      const results = await channel.search('test', 10, 0.5);
+
+      const [cypher] = mockSession.run.mock.calls[1];
+      expect(cypher).toContain('collect({observationId: observationId, source: source})[0] AS best');
+      expect(results).toEqual([
+        { id: 'mem-1', score: 0.9, observationId: 'obs-1', source: 'observation' },
+        { id: 'mem-2', score: 0.7, source: 'name' }
+      ]);
+    });
+
+    it('should oversample and filter after index lookup', async () => {
+      mockSession.run
+        .mockResolvedValueOnce(onlineVectorIndexes)
+        .mockResolvedValueOnce({ records: [] });
+
+      await channel.search('test', 10, 0.5, ['project']);
+
+      const [cypher, params] = mockSession.run.mock.calls[1];
+      expect(cypher).toContain('WHERE bestScore >= $threshold AND m.memoryType IN $memoryTypes');
+      expect(params.k.toNumber()).toBe(50);
+    });
+
+    it('should fall back to GDS when vector indexes are missing', async () => {
+      mockSession.run
+        .mockResolvedValueOnce(noVectorIndexes)
+        .mockResolvedValueOnce({ records: [{ get: () => 0.5 }] }) // GDS check
+        .mockResolvedValueOnce({ records: [] });
+
+      await channel.search('test', 10, 0.5);
+
+      expect(mockSession.run.mock.calls[2][0]).toContain('gds.similarity.cosine');
+      expect(mockSession.run.mock.calls[2][0]).toContain('OPTIONAL MATCH (o)-[:HAS_CHUNK]->(c:ObservationChunk)');
+      expect(channel.getStrategy()).toBe('gds');
+    });
+
+    it('should report index query failures without switching strategy', async () => {
+      mockSession.run
+        .mockResolvedValueOnce(onlineVectorIndexes)
+        .mockRejectedValueOnce(new Error('Index is still populating'));
+
+      await expect(channel.search('test', 10, 0.5))
+        .rejects.toThrow('Vector index search failed: Index is still populating');
+      expect(mockSession.run).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Strategy Cache', () => {
+    it('should detect the strategy once per database across channels', async () => {
+      const embeddingService = { calculateEmbedding: vi.fn().mockResolvedValue([0.1, 0.2, 0.3]) } as any;
+      mockSession.run.mockImplementation(async (cypher: string) =>
+        cypher.includes('SHOW INDEXES') ? onlineVectorIndexesWithChunks : { records: [] });
+
+      await new VectorSearchChannel(mockSession, embeddingService, 'cache-db-a').search('first', 10, 0.5);
+      await new VectorSearchChannel(mockSession, embeddingService, 'cache-db-a').search('second', 10, 0.5);
+      await new VectorSearchChannel(mockSession, embeddingService, 'cache-db-b').search('third', 10, 0.5);
+
+      const probes = mockSession.run.mock.calls.filter(([cypher]: [string]) => cypher.includes('SHOW INDEXES'));
+      expect(probes).toHaveLength(2);
+      expect(mockSession.run.mock.calls[2][0]).toContain('observation_chunk_vector_idx');
+    });
+  });
+
   describe('Zero-Fallback Architecture', () => {
     it('should fail fast rather than provide degraded service', async () => {
       mockSession.run.mockRejectedValue(new Error('GDS unavailable'));
@@ -486,6 +486,44 @@ describe('WildcardSearchService', () => {
       expect(cypherQuery).toContain('OPTIONAL MATCH path2 = (m)-[rel2:RELATES_TO*1..2]->(descendant:Memory)');
     });
 
+    it('should order by creation date descending by default', async () => {
+      const mockResult = { records: [] };
+      (mockSession.run as any).mockResolvedValue(mockResult);
+
+      await service.search(10, false);
+
+      const [cypherQuery] = (mockSession.run as any).mock.calls[0];
+      expect(cypherQuery).toContain("ORDER BY coalesce(m.createdAt, '') DESC");
+    });
+
+    it('should apply requested order in both query variants', async () => {
+      const mockResult = { records: [] };
+      (mockSession.run as any).mockResolvedValue(mockResult);
+      const order = { property: 'lastAccessed' as const, direction: 'ASC' as const };
+
+      await service.search(10, false, undefined, undefined, undefined, order);
+      await service.search(10, true, undefined, undefined, undefined, order);
+
+      const [basicQuery] = (mockSession.run as any).mock.calls[0];
+      const [contextQuery] = (mockSession.run as any).mock.calls[1];
+      expect(basicQuery).toContain("ORDER BY coalesce(m.lastAccessed, '') ASC");
+      expect(contextQuery).toContain("ORDER BY coalesce(m.lastAccessed, '') ASC");
+    });
+
+    it('should resume after cursor position with id tie-breaker', async () => {
+      const mockResult = { records: [] };
+      (mockSession.run as any).mockResolvedValue(mockResult);
+      const after = { value: '2025-01-01T00:00:00.000Z', id: 'mem-9', offset: 10 };
+
+      await service.search(10, false, undefined, undefined, undefined, undefined, after);
+
+      const [cypherQuery, params] = (mockSession.run as any).mock.calls[0];
+      expect(cypherQuery).toContain("(coalesce(m.createdAt, '') < $cursorValue OR (coalesce(m.createdAt, '') = $cursorValue AND m.id < $cursorId))");
+      expect(cypherQuery).toContain("ORDER BY coalesce(m.createdAt, '') DESC, m.id DESC");
+      expect(params.cursorValue).toBe('2025-01-01T00:00:00.000Z');
+      expect(params.cursorId).toBe('mem-9');
+    });
+
     it('should pass correct parameters to Neo4j session', async () => {
       const mockResult = { records: [] };
       (mockSession.run as any).mockResolvedValue(mockResult);
@@ -34,7 +34,13 @@ describe('HTTP Server E2E - Production Integration', () => {
       expect(response.body).toEqual({
         status: 'healthy',
         sessions: 0,
-        transport: 'streamable-http'
+        transport: 'streamable-http',
+        maxSessions: 100,
+        idleTimeoutMs: 1800000,
+        expiredSessions: 0,
+        evictedSessions: 0,
+        embeddingCache: { size: 0, maxSize: 1000, hits: 0, misses: 0, hitRate: 0 },
+        embeddingConsistency: null
       });
     });
   });
@@ -47,7 +53,7 @@ describe('HTTP Server E2E - Production Integration', () => {
 
       expect(response.headers['access-control-allow-origin']).toBe('*');
       expect(response.headers['access-control-allow-methods']).toBe('GET, POST, DELETE, OPTIONS');
-      expect(response.headers['access-control-allow-headers']).toBe('Content-Type, Accept, Mcp-Session-Id');
+      expect(response.headers['access-control-allow-headers']).toBe('Content-Type, Accept, Mcp-Session-Id, Last-Event-ID');
     });
 
     it('should include CORS headers in all responses', async () => {
@@ -0,0 +1,36 @@
+/**
+ * CLI Argument Parsing Tests
+ * Flags shared by the reembed and centrality CLIs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseArgs, FlagHandler } from '../../../src/cli/args';
+
+interface Options {
+  database?: string;
+  dryRun: boolean;
+}
+
+const FLAGS: Record<string, FlagHandler<Options>> = {
+  '--database': (options, value) => {
+    options.database = value();
+  },
+  '--dry-run': (options) => {
+    options.dryRun = true;
+  }
+};
+
+describe('parseArgs', () => {
+  it('should apply flags over the defaults', () => {
+    expect(parseArgs<Options>(['--database', 'team-a', '--dry-run'], { dryRun: false }, FLAGS))
+      .toEqual({ database: 'team-a', dryRun: true });
+    expect(parseArgs<Options>([], { dryRun: false }, FLAGS)).toEqual({ dryRun: false });
+  });
+
+  it('should reject unknown flags and flags without a value', () => {
+    expect(() => parseArgs<Options>(['--force'], { dryRun: false }, FLAGS)).toThrow('Unknown argument: --force');
+    expect(() => parseArgs<Options>(['toString'], { dryRun: false }, FLAGS)).toThrow('Unknown argument: toString');
+    expect(() => parseArgs<Options>(['--database'], { dryRun: false }, FLAGS)).toThrow('--database requires a value');
+    expect(() => parseArgs<Options>(['--database', '--dry-run'], { dryRun: false }, FLAGS)).toThrow('--database requires a value');
+  });
+});
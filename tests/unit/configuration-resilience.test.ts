@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { getEnvironmentConfig, getNeo4jConfig, getVectorConfig, getLimitsConfig } from '../../src/config/environment';
+import { getEnvironmentConfig, getNeo4jConfig, getVectorConfig, getLimitsConfig, getHttpAuthConfig, getHttpSessionConfig } from '../../src/config/environment';
 
 describe('Configuration Resilience Tests', () => {
   let originalEnv: NodeJS.ProcessEnv;
@@ -119,6 +119,202 @@ describe('Configuration Resilience Tests', () => {
       config = getEnvironmentConfig();
       expect(config.vector.preload).toBe(true); // Only 'false' string should disable
     });
+
+    it('should default to xenova embedding provider with local OpenAI-compatible URL', () => {
+      process.env.NEO4J_URI = 'bolt://localhost:7687';
+      process.env.NEO4J_USERNAME = 'neo4j';
+      process.env.NEO4J_PASSWORD = 'password';
+      delete process.env.EMBEDDING_PROVIDER;
+      delete process.env.EMBEDDING_API_URL;
+      delete process.env.EMBEDDING_API_KEY;
+
+      const config = getEnvironmentConfig();
+      expect(config.vector.provider).toBe('xenova');
+      expect(config.vector.apiUrl).toBe('http://localhost:11434/v1');
+      expect(config.vector.apiKey).toBeUndefined();
+    });
+
+    it('should parse embedding provider settings', () => {
+      process.env.NEO4J_URI = 'bolt://localhost:7687';
+      process.env.NEO4J_USERNAME = 'neo4j';
+      process.env.NEO4J_PASSWORD = 'password';
+      process.env.EMBEDDING_PROVIDER = 'OpenAI';
+      process.env.EMBEDDING_API_URL = 'https://api.openai.com/v1/';
+      process.env.EMBEDDING_API_KEY = 'sk-test';
+
+      const config = getEnvironmentConfig();
+      expect(config.vector.provider).toBe('openai');
+      expect(config.vector.apiUrl).toBe('https://api.openai.com/v1');
+      expect(config.vector.apiKey).toBe('sk-test');
+    });
+
+    it('should parse embedding cache settings', () => {
+      process.env.NEO4J_URI = 'bolt://localhost:7687';
+      process.env.NEO4J_USERNAME = 'neo4j';
+      process.env.NEO4J_PASSWORD = 'password';
+      delete process.env.EMBEDDING_CACHE_SIZE;
+      delete process.env.EMBEDDING_CACHE_FILE;
+
+      let config = getEnvironmentConfig();
+      expect(config.vector.cacheSize).toBe(1000);
+      expect(config.vector.cacheFile).toBeUndefined();
+
+      process.env.EMBEDDING_CACHE_SIZE = '0';
+      process.env.EMBEDDING_CACHE_FILE = '/tmp/embeddings.json';
+      config = getEnvironmentConfig();
+      expect(config.vector.cacheSize).toBe(0);
+      expect(config.vector.cacheFile).toBe('/tmp/embeddings.json');
+
+      process.env.EMBEDDING_CACHE_SIZE = 'lots';
+      expect(getEnvironmentConfig().vector.cacheSize).toBe(1000);
+    });
+
+    it('should reject unknown embedding providers', () => {
+      process.env.NEO4J_URI = 'bolt://localhost:7687';
+      process.env.NEO4J_USERNAME = 'neo4j';
+      process.env.NEO4J_PASSWORD = 'password';
+      process.env.EMBEDDING_PROVIDER = 'cohere';
+
+      expect(() => getEnvironmentConfig()).toThrow('Invalid EMBEDDING_PROVIDER: cohere');
+    });
+
+    it('should parse observation chunking settings', () => {
+      process.env.NEO4J_URI = 'bolt://localhost:7687';
+      process.env.NEO4J_USERNAME = 'neo4j';
+      process.env.NEO4J_PASSWORD = 'password';
+      delete process.env.OBSERVATION_CHUNKING;
+      delete process.env.OBSERVATION_CHUNK_SIZE;
+      delete process.env.OBSERVATION_CHUNK_OVERLAP;
+
+      let config = getEnvironmentConfig();
+      expect(config.vector.chunkStrategy).toBe('sentence');
+      expect(config.vector.chunkSize).toBe(80);
+      expect(config.vector.chunkOverlap).toBe(16);
+
+      process.env.OBSERVATION_CHUNKING = 'Token';
+      process.env.OBSERVATION_CHUNK_SIZE = '200';
+      process.env.OBSERVATION_CHUNK_OVERLAP = '0';
+      config = getEnvironmentConfig();
+      expect(config.vector.chunkStrategy).toBe('token');
+      expect(config.vector.chunkSize).toBe(200);
+      expect(config.vector.chunkOverlap).toBe(0);
+
+      process.env.OBSERVATION_CHUNKING = 'paragraph';
+      expect(() => getEnvironmentConfig()).toThrow('Invalid OBSERVATION_CHUNKING: paragraph');
+
+      process.env.OBSERVATION_CHUNKING = 'sentence';
+      process.env.OBSERVATION_CHUNK_OVERLAP = '200';
+      expect(() => getEnvironmentConfig()).toThrow('must be smaller than OBSERVATION_CHUNK_SIZE');
+    });
+
+    it('should parse search scoring settings', () => {
+      process.env.NEO4J_URI = 'bolt://localhost:7687';
+      process.env.NEO4J_USERNAME = 'neo4j';
+      process.env.NEO4J_PASSWORD = 'password';
+      delete process.env.SEARCH_SCORING;
+      delete process.env.SEARCH_EXACT_WEIGHT;
+      delete process.env.SEARCH_VECTOR_WEIGHT;
+      delete process.env.SEARCH_RRF_K;
+      delete process.env.METADATA_INDEXED_KEYS;
+      delete process.env.SEARCH_RECENCY_WEIGHT;
+      delete process.env.SEARCH_RECENCY_HALF_LIFE_DAYS;
+      delete process.env.SEARCH_ACCESS_WEIGHT;
+      delete process.env.SEARCH_CENTRALITY_WEIGHT;
+      delete process.env.CENTRALITY_ALGORITHM;
+      delete process.env.CENTRALITY_REFRESH_INTERVAL;
+
+      let config = getEnvironmentConfig();
+      expect(config.search).toEqual({
+        scoring: 'fixed', exactWeight: 0.5, vectorWeight: 0.5, rrfK: 60,
+        recencyWeight: 0, recencyHalfLifeDays: 30, accessWeight: 0, centralityWeight: 0,
+        centralityAlgorithm: 'pagerank', centralityRefreshInterval: 0, metadataIndexedKeys: []
+      });
+
+      process.env.SEARCH_SCORING = 'RRF';
+      process.env.SEARCH_EXACT_WEIGHT = '0.3';
+      process.env.SEARCH_VECTOR_WEIGHT = '0.7';
+      process.env.SEARCH_RRF_K = '20';
+      process.env.METADATA_INDEXED_KEYS = 'status, project,status';
+      process.env.SEARCH_RECENCY_WEIGHT = '0.2';
+      process.env.SEARCH_RECENCY_HALF_LIFE_DAYS = '7';
+      process.env.SEARCH_ACCESS_WEIGHT = '0.1';
+      process.env.SEARCH_CENTRALITY_WEIGHT = '0.15';
+      process.env.CENTRALITY_ALGORITHM = 'Degree';
+      process.env.CENTRALITY_REFRESH_INTERVAL = '3600000';
+      config = getEnvironmentConfig();
+      expect(config.search).toEqual({
+        scoring: 'rrf', exactWeight: 0.3, vectorWeight: 0.7, rrfK: 20,
+        recencyWeight: 0.2, recencyHalfLifeDays: 7, accessWeight: 0.1, centralityWeight: 0.15,
+        centralityAlgorithm: 'degree', centralityRefreshInterval: 3600000, metadataIndexedKeys: ['status', 'project']
+      });
+
+      process.env.SEARCH_RECENCY_HALF_LIFE_DAYS = '0';
+      expect(getEnvironmentConfig().search.recencyHalfLifeDays).toBe(30);
+
+      process.env.SEARCH_EXACT_WEIGHT = '-1';
+      expect(getEnvironmentConfig().search.exactWeight).toBe(0.5);
+
+      process.env.SEARCH_SCORING = 'bm25';
+      expect(() => getEnvironmentConfig()).toThrow('Invalid SEARCH_SCORING: bm25');
+
+      process.env.SEARCH_SCORING = 'fixed';
+      process.env.CENTRALITY_ALGORITHM = 'betweenness';
+      expect(() => getEnvironmentConfig()).toThrow('Invalid CENTRALITY_ALGORITHM: betweenness');
+
+      process.env.CENTRALITY_ALGORITHM = 'pagerank';
+      process.env.METADATA_INDEXED_KEYS = 'status,due-date';
+      expect(() => getEnvironmentConfig()).toThrow('Invalid METADATA_INDEXED_KEYS: due-date');
+    });
+  });
+
+  describe('HTTP Authentication Configuration', () => {
+    it('should leave HTTP open by default without requiring Neo4j settings', () => {
+      delete process.env.NEO4J_URI;
+      delete process.env.HTTP_AUTH;
+      delete process.env.HTTP_CORS_ORIGIN;
+
+      expect(getHttpAuthConfig()).toMatchObject({ methods: [], corsOrigin: '*' });
+
+      process.env.HTTP_AUTH = 'none';
+      expect(getHttpAuthConfig().methods).toEqual([]);
+    });
+
+    it('should parse methods in order and fail when a method has no credentials source', () => {
+      process.env.HTTP_AUTH = 'JWT, api-key';
+      process.env.HTTP_JWT_SECRET = 'shared';
+      process.env.HTTP_API_KEYS = 'ci:key';
+      expect(getHttpAuthConfig().methods).toEqual(['jwt', 'api-key']);
+
+      delete process.env.HTTP_API_KEYS;
+      delete process.env.HTTP_API_KEYS_FILE;
+      expect(() => getHttpAuthConfig()).toThrow('HTTP_AUTH api-key needs HTTP_API_KEYS or HTTP_API_KEYS_FILE');
+
+      process.env.HTTP_AUTH = 'mtls';
+      expect(() => getHttpAuthConfig()).toThrow('HTTP_AUTH mtls needs HTTP_TLS_CERT, HTTP_TLS_KEY and HTTP_TLS_CLIENT_CA');
+
+      process.env.HTTP_AUTH = 'basic';
+      expect(() => getHttpAuthConfig()).toThrow('Invalid HTTP_AUTH: basic');
+    });
+  });
+
+  describe('HTTP Session Configuration', () => {
+    it('should default to an in-memory event store and require a directory for the file store', () => {
+      delete process.env.HTTP_EVENT_STORE;
+      delete process.env.HTTP_EVENT_STORE_DIR;
+      expect(getHttpSessionConfig()).toMatchObject({
+        idleTimeout: 1800000,
+        maxSessions: 100,
+        eventStore: 'memory',
+        eventRetentionCount: 1000,
+        eventRetentionMs: 300000
+      });
+
+      process.env.HTTP_EVENT_STORE = 'file';
+      expect(() => getHttpSessionConfig()).toThrow('HTTP_EVENT_STORE file needs HTTP_EVENT_STORE_DIR');
+
+      process.env.HTTP_EVENT_STORE = 'redis';
+      expect(() => getHttpSessionConfig()).toThrow('Invalid HTTP_EVENT_STORE: redis');
+    });
   });
 
   describe('Configuration Getters', () => {
@@ -6,7 +6,7 @@
  * No mocks - validates actual component initialization and connectivity
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { DIContainer } from '../../../src/container/di-container';
 
 describe('DIContainer - Production Architecture', () => {
@@ -146,6 +146,34 @@ describe('DIContainer - Production Architecture', () => {
       expect(newDb).toBe('test-context');
       expect(newDb).not.toBe(originalDb);
     });
+
+    it('should refresh centrality in the default and every switched-to database', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      process.env.CENTRALITY_REFRESH_INTERVAL = '3600000';
+      const refreshed: string[] = [];
+      vi.spyOn(container, 'createCentralityJob').mockImplementation(() => ({
+        run: async () => {
+          refreshed.push(container.getCurrentDatabase().database);
+          return {} as any;
+        }
+      }) as any);
+      const defaultDb = container.getCurrentDatabase().database;
+      container.switchDatabase('project-a');
+      container.switchDatabase('project-b');
+
+      try {
+        // Act
+        (container as any).scheduleCentralityRefresh();
+        await vi.advanceTimersByTimeAsync(200);
+      } finally {
+        delete process.env.CENTRALITY_REFRESH_INTERVAL;
+        vi.useRealTimers();
+      }
+
+      // Assert
+      expect(refreshed).toEqual([defaultDb, 'project-a', 'project-b']);
+    });
   });
 
   describe('Production Architecture Validation', () => {
@@ -3,109 +3,149 @@
  * Single responsibility: Verify embedding service functionality
  */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { XenovaEmbeddingService } from '../../src/infrastructure/services/embedding-service';
-
-// Mock the SmartEmbeddingManager
-vi.mock('../../src/infrastructure/services/smart-embedding-manager', () => ({
-  SmartEmbeddingManager: vi.fn().mockImplementation(() => ({
-    calculateEmbedding: vi.fn(),
-    calculateSimilarity: vi.fn(),
-    getModelDimensions: vi.fn()
-  }))
-}));
-
-// Import the mocked class
-import { SmartEmbeddingManager } from '../../src/infrastructure/services/smart-embedding-manager';
-
-describe('XenovaEmbeddingService', () => {
-  let embeddingService: XenovaEmbeddingService;
-  let mockEmbeddingManager: any;
+import { ProviderEmbeddingService, PrecomputedEmbeddingService } from '../../src/infrastructure/services/embedding-service';
+import { EmbeddingCache } from '../../src/infrastructure/services/embedding-cache';
+
+describe('ProviderEmbeddingService', () => {
+  let embeddingService: ProviderEmbeddingService;
+  let mockProvider: any;
   
   beforeEach(() => {
     vi.clearAllMocks();
-    embeddingService = new XenovaEmbeddingService();
-    mockEmbeddingManager = (embeddingService as any).embeddingManager;
+    mockProvider = {
+      name: 'openai',
+      calculateEmbedding: vi.fn(),
+      getModelDimensions: vi.fn(),
+      preloadModel: vi.fn().mockResolvedValue(undefined),
+      shutdown: vi.fn().mockResolvedValue(undefined)
+    };
+    embeddingService = new ProviderEmbeddingService(mockProvider);
   });
   
   describe('calculateEmbedding', () => {
-    it('should call the underlying manager with the provided text', async () => {
+    it('should call the underlying provider with the provided text', async () => {
       // Arrange
       const text = 'Test text for embedding';
       const mockEmbedding = [0.1, 0.2, 0.3, 0.4];
-      mockEmbeddingManager.calculateEmbedding.mockResolvedValue(mockEmbedding);
+      mockProvider.calculateEmbedding.mockResolvedValue(mockEmbedding);
       
       // Act
       const result = await embeddingService.calculateEmbedding(text);
       
       // Assert
-      expect(mockEmbeddingManager.calculateEmbedding).toHaveBeenCalledWith(text);
+      expect(mockProvider.calculateEmbedding).toHaveBeenCalledWith(text);
       expect(result).toEqual(mockEmbedding);
     });
     
-    it('should propagate errors from the underlying manager', async () => {
+    it('should propagate errors from the underlying provider', async () => {
       // Arrange
       const text = 'Test text for embedding';
       const error = new Error('Embedding calculation failed');
-      mockEmbeddingManager.calculateEmbedding.mockRejectedValue(error);
+      mockProvider.calculateEmbedding.mockRejectedValue(error);
       
       // Act & Assert
       await expect(embeddingService.calculateEmbedding(text)).rejects.toThrow(error);
-      expect(mockEmbeddingManager.calculateEmbedding).toHaveBeenCalledWith(text);
+      expect(mockProvider.calculateEmbedding).toHaveBeenCalledWith(text);
     });
   });
   
   describe('calculateSimilarity', () => {
-    it('should call the underlying manager with the provided vectors', () => {
+    it('should compute cosine similarity independent of provider', () => {
       // Arrange
-      const vector1 = [0.1, 0.2, 0.3];
-      const vector2 = [0.4, 0.5, 0.6];
-      const expectedSimilarity = 0.974;
-      mockEmbeddingManager.calculateSimilarity.mockReturnValue(expectedSimilarity);
-      
-      // Act
-      const result = embeddingService.calculateSimilarity(vector1, vector2);
+      const vector1 = [1, 0, 0];
+      const vector2 = [1, 0, 0];
+      const vector3 = [0, 1, 0];
       
-      // Assert
-      expect(mockEmbeddingManager.calculateSimilarity).toHaveBeenCalledWith(vector1, vector2);
-      expect(result).toBe(expectedSimilarity);
+      // Act & Assert
+      expect(embeddingService.calculateSimilarity(vector1, vector2)).toBeCloseTo(1);
+      expect(embeddingService.calculateSimilarity(vector1, vector3)).toBeCloseTo(0);
     });
     
-    it('should handle edge cases by delegating to the underlying manager', () => {
+    it('should return 0 for vectors of different length', () => {
       // Arrange
       const vector1 = [0.1, 0.2, 0.3];
       const vector2 = [0.4, 0.5]; // Different length
-      mockEmbeddingManager.calculateSimilarity.mockReturnValue(0);
       
       // Act
       const result = embeddingService.calculateSimilarity(vector1, vector2);
       
       // Assert
-      expect(mockEmbeddingManager.calculateSimilarity).toHaveBeenCalledWith(vector1, vector2);
       expect(result).toBe(0);
     });
   });
   
-  describe('integration with manager', () => {
-    it('should provide a clean interface to the embedding functionality', async () => {
-      // Arrange
-      const text = 'Test text for embedding';
-      const mockEmbedding = [0.1, 0.2, 0.3, 0.4];
-      const vector1 = [0.1, 0.2, 0.3];
-      const vector2 = [0.4, 0.5, 0.6];
-      const expectedSimilarity = 0.974;
-      
-      mockEmbeddingManager.calculateEmbedding.mockResolvedValue(mockEmbedding);
-      mockEmbeddingManager.calculateSimilarity.mockReturnValue(expectedSimilarity);
-      
-      // Act
-      const embedding = await embeddingService.calculateEmbedding(text);
-      const similarity = embeddingService.calculateSimilarity(vector1, vector2);
-      
-      // Assert
-      expect(embedding).toEqual(mockEmbedding);
-      expect(similarity).toBe(expectedSimilarity);
-      expect(mockEmbeddingManager.calculateEmbedding).toHaveBeenCalledWith(text);
-      expect(mockEmbeddingManager.calculateSimilarity).toHaveBeenCalledWith(vector1, vector2);
+  describe('provider lifecycle', () => {
+    it('should expose provider name and delegate dimensions, preload and shutdown', async () => {
+      mockProvider.getModelDimensions.mockResolvedValue(1536);
+
+      expect(embeddingService.providerName).toBe('openai');
+      expect(await embeddingService.getModelDimensions()).toBe(1536);
+
+      await embeddingService.preloadModel();
+      await embeddingService.shutdown();
+
+      expect(mockProvider.preloadModel).toHaveBeenCalled();
+      expect(mockProvider.shutdown).toHaveBeenCalled();
     });
   });
+
+  describe('embedding cache', () => {
+    it('should serve repeated text from cache and report stats', async () => {
+      mockProvider.modelName = 'text-embedding-3-small';
+      mockProvider.calculateEmbedding.mockResolvedValue([0.1, 0.2]);
+      const cachedService = new ProviderEmbeddingService(mockProvider, new EmbeddingCache(10));
+
+      await cachedService.calculateEmbedding('repeated query');
+      const second = await cachedService.calculateEmbedding('repeated  query ');
+
+      expect(second).toEqual([0.1, 0.2]);
+      expect(mockProvider.calculateEmbedding).toHaveBeenCalledTimes(1);
+      expect(cachedService.getCacheStats()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5 });
+    });
+
+    it('should embed only uncached, distinct texts in batch mode', async () => {
+      mockProvider.modelName = 'text-embedding-3-small';
+      mockProvider.calculateEmbedding.mockResolvedValue([9, 9]);
+      mockProvider.calculateEmbeddings = vi.fn().mockImplementation(async (texts: string[]) =>
+        texts.map(text => [text.length, 0])
+      );
+      const cachedService = new ProviderEmbeddingService(mockProvider, new EmbeddingCache(10));
+      await cachedService.calculateEmbedding('cached');
+
+      const result = await cachedService.calculateEmbeddings(['cached', 'new', 'newer', 'new']);
+
+      expect(result).toEqual([[9, 9], [3, 0], [5, 0], [3, 0]]);
+      expect(mockProvider.calculateEmbeddings).toHaveBeenCalledWith(['new', 'newer']);
+    });
+
+    it('should report no stats without cache', () => {
+      expect(embeddingService.getCacheStats()).toBeNull();
+    });
+  });
+});
+
+describe('PrecomputedEmbeddingService', () => {
+  it('should embed distinct texts once and delegate unknown ones', async () => {
+    const inner: any = {
+      calculateEmbeddings: vi.fn().mockImplementation(async (texts: string[]) => texts.map(text => [text.length])),
+      calculateEmbedding: vi.fn().mockResolvedValue([0])
+    };
+
+    const precomputed = await PrecomputedEmbeddingService.prepare(inner, ['oauth', 'db', 'oauth']);
+
+    expect(await precomputed.calculateEmbedding('oauth')).toEqual([5]);
+    expect(await precomputed.calculateEmbedding('db')).toEqual([2]);
+    expect(await precomputed.calculateEmbedding('other')).toEqual([0]);
+    expect(inner.calculateEmbeddings).toHaveBeenCalledOnce();
+    expect(inner.calculateEmbeddings).toHaveBeenCalledWith(['oauth', 'db']);
+    expect(inner.calculateEmbedding).toHaveBeenCalledWith('other');
+  });
+
+  it('should not call the provider for an empty batch', async () => {
+    const inner: any = { calculateEmbeddings: vi.fn() };
+
+    await PrecomputedEmbeddingService.prepare(inner, []);
+
+    expect(inner.calculateEmbeddings).not.toHaveBeenCalled();
+  });
 });
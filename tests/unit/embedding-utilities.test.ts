@@ -3,7 +3,7 @@
  * Single responsibility: Test vector embedding operations
  */
 import { describe, it, expect } from 'vitest';
-import { calculateSimilarity } from '../../src/infrastructure/utilities';
+import { cosineSimilarity as calculateSimilarity } from '../../src/infrastructure/services/embedding-provider';
 
 describe('Embedding Utilities', () => {
   describe('calculateSimilarity', () => {
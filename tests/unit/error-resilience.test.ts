@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { XenovaEmbeddingService } from '../../src/infrastructure/services/embedding-service';
+import { ProviderEmbeddingService } from '../../src/infrastructure/services/embedding-service';
 import { QueryClassifier } from '../../src/infrastructure/services/search/query-classifier';
 import { ContextLevelProcessor } from '../../src/application/unified-handlers/services/context-level-processor';
 import { DateFilterProcessor } from '../../src/application/unified-handlers/services/date-filter-processor';
@@ -15,35 +15,27 @@ import { generateCompactId } from '../../src/id_generator';
 describe('Error Resilience - Production Edge Cases', () => {
   
   describe('Embedding Service Error Paths', () => {
-    let embeddingService: XenovaEmbeddingService;
-
-    beforeEach(() => {
-      embeddingService = new XenovaEmbeddingService();
+    const createProvider = (overrides: Record<string, any>) => ({
+      name: 'hash' as const,
+      calculateEmbedding: vi.fn(),
+      getModelDimensions: vi.fn(),
+      preloadModel: vi.fn(),
+      shutdown: vi.fn(),
+      ...overrides
     });
 
     it('should handle model loading failures gracefully', async () => {
-      // Mock the embedding manager to throw error
-      const mockManager = vi.spyOn(embeddingService as any, 'embeddingManager', 'get');
-      mockManager.mockReturnValue({
-        calculateEmbedding: vi.fn().mockRejectedValue(new Error('Model failed to load')),
-        calculateSimilarity: vi.fn(),
-        getModelDimensions: vi.fn(),
-        preloadModel: vi.fn(),
-        shutdown: vi.fn()
-      });
+      const embeddingService = new ProviderEmbeddingService(createProvider({
+        calculateEmbedding: vi.fn().mockRejectedValue(new Error('Model failed to load'))
+      }));
 
       await expect(embeddingService.calculateEmbedding('test')).rejects.toThrow('Model failed to load');
     });
 
     it('should handle dimension calculation failures', async () => {
-      const mockManager = vi.spyOn(embeddingService as any, 'embeddingManager', 'get');
-      mockManager.mockReturnValue({
-        calculateEmbedding: vi.fn(),
-        calculateSimilarity: vi.fn(),
-        getModelDimensions: vi.fn().mockRejectedValue(new Error('Dimension calculation failed')),
-        preloadModel: vi.fn(),
-        shutdown: vi.fn()
-      });
+      const embeddingService = new ProviderEmbeddingService(createProvider({
+        getModelDimensions: vi.fn().mockRejectedValue(new Error('Dimension calculation failed'))
+      }));
 
       await expect(embeddingService.getModelDimensions()).rejects.toThrow('Dimension calculation failed');
     });
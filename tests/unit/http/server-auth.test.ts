@@ -0,0 +1,68 @@
+/**
+ * HTTP Server Authentication Tests
+ * Real SimpleHTTPServer with API keys - no Neo4j needed before the first tool call
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import { SimpleHTTPServer } from '../../../src/http/server';
+
+const initialize = {
+  jsonrpc: '2.0',
+  method: 'initialize',
+  params: {
+    protocolVersion: '2024-11-05',
+    capabilities: {},
+    clientInfo: { name: 'auth-test', version: '1.0.0' }
+  },
+  id: 1
+};
+
+describe('SimpleHTTPServer - Authentication', () => {
+  const savedEnv = { ...process.env };
+  let app: any;
+
+  beforeAll(() => {
+    process.env.HTTP_AUTH = 'api-key';
+    process.env.HTTP_API_KEYS = 'alice:alice-key,bob:bob-key';
+    app = (new SimpleHTTPServer() as any).app;
+  });
+
+  afterAll(() => {
+    process.env = savedEnv;
+  });
+
+  it('should reject /mcp requests without valid credentials but keep /health open', async () => {
+    const missing = await request(app).post('/mcp').send(initialize).expect(401);
+    const invalid = await request(app).post('/mcp').set('X-API-Key', 'nope').send(initialize).expect(401);
+
+    expect(missing.body.error).toMatchObject({ code: -32001, message: 'Authentication required. Accepted methods: api-key' });
+    expect(invalid.body.error.message).toBe('Invalid API key');
+    await request(app).get('/health').expect(200);
+  });
+
+  it('should announce the API key header in CORS preflight', async () => {
+    const response = await request(app).options('/mcp').expect(200);
+
+    expect(response.headers['access-control-allow-headers']).toBe('Content-Type, Accept, Mcp-Session-Id, Last-Event-ID, X-API-Key');
+  });
+
+  it('should bind the session to the caller that initialized it', async () => {
+    const init = await request(app)
+      .post('/mcp')
+      .set('X-API-Key', 'alice-key')
+      .set('Accept', 'application/json, text/event-stream')
+      .send(initialize)
+      .expect(200);
+    const sessionId = init.headers['mcp-session-id'];
+
+    const hijack = await request(app)
+      .delete('/mcp')
+      .set('X-API-Key', 'bob-key')
+      .set('Mcp-Session-Id', sessionId)
+      .expect(403);
+
+    expect(hijack.body.error).toMatchObject({ code: -32002, message: 'Session belongs to another caller' });
+    await request(app).delete('/mcp').set('X-API-Key', 'alice-key').set('Mcp-Session-Id', sessionId).expect(204);
+  });
+});
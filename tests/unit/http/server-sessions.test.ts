@@ -0,0 +1,209 @@
+/**
+ * HTTP Server Session Lifecycle Tests
+ * Real SimpleHTTPServer with a session cap - eviction, /health, /admin/sessions and resumable streams
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import { SimpleHTTPServer } from '../../../src/http/server';
+import { DIContainer } from '../../../src/container/di-container';
+
+const initialize = (name: string) => ({
+  jsonrpc: '2.0',
+  method: 'initialize',
+  params: {
+    protocolVersion: '2024-11-05',
+    capabilities: {},
+    clientInfo: { name, version: '1.0.0' }
+  },
+  id: 1
+});
+
+describe('SimpleHTTPServer - Session Lifecycle', () => {
+  const savedEnv = { ...process.env };
+  let app: any;
+
+  beforeAll(() => {
+    process.env.HTTP_AUTH = 'api-key';
+    process.env.HTTP_API_KEYS = 'alice:alice-key,ops:ops-key';
+    process.env.HTTP_ADMIN_IDENTITIES = 'ops';
+    process.env.HTTP_MAX_SESSIONS = '1';
+    process.env.HTTP_SESSION_IDLE_TIMEOUT = '60000';
+    app = (new SimpleHTTPServer() as any).app;
+  });
+
+  afterAll(() => {
+    process.env = savedEnv;
+  });
+
+  const open = async (client: string) => {
+    const response = await request(app)
+      .post('/mcp')
+      .set('X-API-Key', 'alice-key')
+      .set('Accept', 'application/json, text/event-stream')
+      .send(initialize(client))
+      .expect(200);
+    return response.headers['mcp-session-id'] as string;
+  };
+
+  it('should evict the least recently used session at HTTP_MAX_SESSIONS and report it on /health', async () => {
+    const first = await open('first-client');
+    const second = await open('second-client');
+
+    await request(app).delete('/mcp').set('X-API-Key', 'alice-key').set('Mcp-Session-Id', first).expect(404);
+
+    const health = await request(app).get('/health').expect(200);
+    expect(health.body).toMatchObject({
+      sessions: 1,
+      maxSessions: 1,
+      idleTimeoutMs: 60000,
+      evictedSessions: 1
+    });
+
+    await request(app).delete('/mcp').set('X-API-Key', 'alice-key').set('Mcp-Session-Id', second).expect(204);
+  });
+
+  it('should answer 404 for an evicted session id and 400 without one', async () => {
+    const evicted = await open('evicted-client');
+    const current = await open('current-client');
+    const ping = { jsonrpc: '2.0', method: 'ping', id: 7 };
+
+    const notFound = await request(app)
+      .post('/mcp')
+      .set('X-API-Key', 'alice-key')
+      .set('Accept', 'application/json, text/event-stream')
+      .set('Mcp-Session-Id', evicted)
+      .send(ping)
+      .expect(404);
+    expect(notFound.body).toEqual({ jsonrpc: '2.0', error: { code: -32001, message: 'Session not found' }, id: 7 });
+
+    const missing = await request(app)
+      .post('/mcp')
+      .set('X-API-Key', 'alice-key')
+      .set('Accept', 'application/json, text/event-stream')
+      .send(ping)
+      .expect(400);
+    expect(missing.body.error).toMatchObject({ code: -32600, message: 'Missing session ID' });
+
+    await request(app).delete('/mcp').set('X-API-Key', 'alice-key').set('Mcp-Session-Id', current).expect(204);
+  });
+
+  it('should list sessions with client and caller for admin identities only', async () => {
+    const sessionId = await open('listed-client');
+
+    await request(app).get('/admin/sessions').expect(401);
+    const denied = await request(app).get('/admin/sessions').set('X-API-Key', 'alice-key').expect(403);
+    expect(denied.body.error).toMatchObject({ code: -32004, message: "Identity 'alice' is not an admin" });
+
+    const listing = await request(app).get('/admin/sessions').set('X-API-Key', 'ops-key').expect(200);
+    expect(listing.body.sessions).toEqual([
+      expect.objectContaining({
+        sessionId,
+        clientInfo: { name: 'listed-client', version: '1.0.0' },
+        identity: { id: 'alice', method: 'api-key' },
+        database: null
+      })
+    ]);
+    expect(listing.body).toMatchObject({ active: 1, maxSessions: 1, idleTimeout: 60000 });
+  });
+
+  it('should number SSE events for resumption and reject replay from unknown event ids', async () => {
+    const init = await request(app)
+      .post('/mcp')
+      .set('X-API-Key', 'alice-key')
+      .set('Accept', 'application/json, text/event-stream')
+      .send(initialize('resuming-client'))
+      .expect(200);
+    const sessionId = init.headers['mcp-session-id'];
+
+    expect(init.text).toMatch(/^id: [0-9a-f-]+#1$/m);
+
+    const missing = await request(app)
+      .get('/mcp')
+      .set('X-API-Key', 'alice-key')
+      .set('Accept', 'text/event-stream')
+      .set('Mcp-Session-Id', sessionId)
+      .set('Last-Event-ID', 'unknown#1')
+      .expect(404);
+    expect(missing.body.error).toMatchObject({ code: -30009, data: { lastEventId: 'unknown#1' } });
+
+    await request(app).delete('/mcp').set('X-API-Key', 'alice-key').set('Mcp-Session-Id', sessionId).expect(204);
+  });
+});
+
+describe('SimpleHTTPServer - Independent Sessions', () => {
+  const savedEnv = { ...process.env };
+  let server: any;
+
+  beforeAll(() => {
+    process.env.HTTP_AUTH = 'api-key';
+    process.env.HTTP_API_KEYS = 'alice:alice-key';
+    process.env.HTTP_MAX_SESSIONS = '10';
+    server = new SimpleHTTPServer() as any;
+  });
+
+  afterAll(() => {
+    process.env = savedEnv;
+  });
+
+  const post = (body: unknown, sessionId?: string) => {
+    const pending = request(server.app)
+      .post('/mcp')
+      .set('X-API-Key', 'alice-key')
+      .set('Accept', 'application/json, text/event-stream');
+    return (sessionId ? pending.set('Mcp-Session-Id', sessionId) : pending).send(body);
+  };
+
+  it('should keep answering a live session after another session expires', async () => {
+    const expiring = (await post(initialize('expiring-client')).expect(200)).headers['mcp-session-id'];
+    const live = (await post(initialize('live-client')).expect(200)).headers['mcp-session-id'];
+
+    // The idle-timeout path - closes the expiring session's transport
+    expect(server.sessionManager.terminateSession(expiring)).toBe(true);
+
+    const ping = await post({ jsonrpc: '2.0', method: 'ping', id: 8 }, live).expect(200);
+    expect(ping.text).toContain('"id":8');
+    expect(ping.text).toContain('"result":{}');
+
+    await request(server.app).delete('/mcp').set('X-API-Key', 'alice-key').set('Mcp-Session-Id', live).expect(204);
+  });
+});
+
+describe('SimpleHTTPServer - Embedding Health', () => {
+  const savedEnv = { ...process.env };
+
+  afterAll(() => {
+    (DIContainer as any).instance = undefined;
+    process.env = savedEnv;
+  });
+
+  it('should report embedding cache hits, misses and hit rate on /health', async () => {
+    process.env.EMBEDDING_PROVIDER = 'hash';
+    process.env.EMBEDDING_CACHE_SIZE = '10';
+    (DIContainer as any).instance = undefined;
+    const embeddings = DIContainer.getInstance().getEmbeddingService();
+    await embeddings.calculateEmbedding('release checklist');
+    await embeddings.calculateEmbedding('release checklist');
+
+    const health = await request((new SimpleHTTPServer() as any).app).get('/health').expect(200);
+
+    expect(health.body.embeddingCache).toEqual({ size: 1, maxSize: 10, hits: 1, misses: 1, hitRate: 0.5 });
+  });
+
+  it('should report the startup embedding mismatch on /health', async () => {
+    const report = {
+      expectedModel: 'hash:hash-384',
+      expectedDimensions: 384,
+      indexDimensions: { memory_name_vector_idx: 768 },
+      staleMemories: 3,
+      staleObservations: 5,
+      staleChunks: 0,
+      consistent: false
+    };
+    (DIContainer.getInstance() as any).embeddingConsistency = report;
+
+    const health = await request((new SimpleHTTPServer() as any).app).get('/health').expect(200);
+
+    expect(health.body.embeddingConsistency).toEqual(report);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Embedding Cache Tests
+ * LRU behaviour, key normalization, stats and file persistence
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EmbeddingCache } from '../../../../src/infrastructure/services/embedding-cache';
+
+describe('EmbeddingCache', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'embedding-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return cached vectors for normalized text of the same model', async () => {
+    const cache = new EmbeddingCache(10);
+    await cache.set('hash:fnv1a', 'Project   deadline\n', [0.1, 0.2]);
+
+    expect(await cache.get('hash:fnv1a', '  Project deadline')).toEqual([0.1, 0.2]);
+    expect(await cache.get('hash:fnv1a', 'project deadline')).toBeUndefined(); // case matters
+    expect(await cache.get('openai:text-embedding-3-small', 'Project deadline')).toBeUndefined();
+  });
+
+  it('should evict least recently used entries', async () => {
+    const cache = new EmbeddingCache(2);
+    await cache.set('m', 'a', [1]);
+    await cache.set('m', 'b', [2]);
+    await cache.get('m', 'a');          // a becomes most recent
+    await cache.set('m', 'c', [3]);     // evicts b
+
+    expect(await cache.get('m', 'a')).toEqual([1]);
+    expect(await cache.get('m', 'b')).toBeUndefined();
+    expect(await cache.get('m', 'c')).toEqual([3]);
+    expect(cache.getStats().size).toBe(2);
+  });
+
+  it('should not let callers mutate cached vectors', async () => {
+    const cache = new EmbeddingCache(5);
+    const vector = [0.5, 0.5];
+    await cache.set('m', 'text', vector);
+    vector[0] = 9;
+
+    const cached = await cache.get('m', 'text');
+    cached![1] = 9;
+
+    expect(await cache.get('m', 'text')).toEqual([0.5, 0.5]);
+  });
+
+  it('should report hit rate', async () => {
+    const cache = new EmbeddingCache(5);
+    await cache.get('m', 'x');
+    await cache.set('m', 'x', [1]);
+    await cache.get('m', 'x');
+    await cache.get('m', 'x');
+
+    expect(cache.getStats()).toEqual({ size: 1, maxSize: 5, hits: 2, misses: 1, hitRate: 2 / 3 });
+  });
+
+  it('should be disabled with size 0', async () => {
+    const cache = new EmbeddingCache(0);
+    await cache.set('m', 'x', [1]);
+
+    expect(await cache.get('m', 'x')).toBeUndefined();
+    expect(cache.getStats().misses).toBe(0);
+  });
+
+  it('should persist to and reload from file', async () => {
+    const filePath = join(tempDir, 'nested', 'cache.json');
+    const cache = new EmbeddingCache(5, filePath);
+    await cache.set('m', 'persisted text', [0.3, 0.4]);
+    await cache.persist();
+
+    expect(JSON.parse(readFileSync(filePath, 'utf8')).entries).toHaveLength(1);
+
+    const reloaded = new EmbeddingCache(5, filePath);
+    expect(await reloaded.get('m', 'persisted text')).toEqual([0.3, 0.4]);
+  });
+
+  it('should start cold when the cache file is unreadable', async () => {
+    const filePath = join(tempDir, 'cache.json');
+    writeFileSync(filePath, '{not json');
+    const cache = new EmbeddingCache(5, filePath);
+
+    expect(await cache.get('m', 'anything')).toBeUndefined();
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Embedding Provider Tests
+ * Covers the hash and OpenAI-compatible backends plus provider selection
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { HashEmbeddingProvider } from '../../../../src/infrastructure/services/hash-embedding-provider';
+import { OpenAICompatibleEmbeddingProvider } from '../../../../src/infrastructure/services/openai-embedding-provider';
+import { createEmbeddingProvider } from '../../../../src/infrastructure/services/embedding-provider-factory';
+import { cosineSimilarity } from '../../../../src/infrastructure/services/embedding-provider';
+import { MCPValidationError, MCPServiceError } from '../../../../src/infrastructure/errors/mcp-errors';
+import { MCPErrorCodes } from '../../../../src/infrastructure/errors/error-codes';
+
+const baseConfig = {
+  provider: 'xenova' as const,
+  modelName: 'text-embedding-3-small',
+  dimensions: 'auto' as const,
+  idleTimeout: 600000,
+  preload: true,
+  batchSize: 32,
+  cacheSize: 0,
+  workers: 0,
+  apiUrl: 'http://localhost:11434/v1',
+  apiKey: undefined as string | undefined,
+  apiTimeout: 30000
+};
+
+const embeddingsResponse = (vectors: number[][]) => ({
+  ok: true,
+  status: 200,
+  json: vi.fn().mockResolvedValue({
+    data: vectors.map((embedding, index) => ({ index, embedding })).reverse()
+  }),
+  text: vi.fn()
+});
+
+describe('HashEmbeddingProvider', () => {
+  it('should produce deterministic normalized vectors of configured size', async () => {
+    const provider = new HashEmbeddingProvider(64);
+
+    const first = await provider.calculateEmbedding('Neo4j memory graph');
+    const second = await provider.calculateEmbedding('Neo4j memory graph');
+
+    expect(first).toHaveLength(64);
+    expect(first).toEqual(second);
+    expect(Math.sqrt(first.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1, 5);
+    expect(await provider.getModelDimensions()).toBe(64);
+  });
+
+  it('should score texts sharing words above unrelated texts', async () => {
+    const provider = new HashEmbeddingProvider();
+
+    const base = await provider.calculateEmbedding('project deadline planning');
+    const related = await provider.calculateEmbedding('planning the project deadline');
+    const unrelated = await provider.calculateEmbedding('banana smoothie recipe');
+
+    expect(cosineSimilarity(base, related)).toBeGreaterThan(cosineSimilarity(base, unrelated));
+  });
+
+  it('should reject empty text and invalid dimensions', async () => {
+    const provider = new HashEmbeddingProvider();
+
+    await expect(provider.calculateEmbedding('   ')).rejects.toThrow(MCPValidationError);
+    expect(() => new HashEmbeddingProvider(0)).toThrow('positive integer');
+  });
+});
+
+describe('OpenAICompatibleEmbeddingProvider', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should POST model and input with bearer token', async () => {
+    fetchMock.mockResolvedValue(embeddingsResponse([[0.1, 0.2, 0.3]]));
+    const provider = new OpenAICompatibleEmbeddingProvider({
+      apiUrl: 'https://api.example.com/v1',
+      apiKey: 'sk-test',
+      modelName: 'text-embedding-3-small',
+      dimensions: 'auto'
+    });
+
+    const embedding = await provider.calculateEmbedding('hello world');
+
+    expect(embedding).toEqual([0.1, 0.2, 0.3]);
+    expect(fetchMock).toHaveBeenCalledWith('https://api.example.com/v1/embeddings', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ model: 'text-embedding-3-small', input: ['hello world'] })
+    }));
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers.Authorization).toBe('Bearer sk-test');
+  });
+
+  it('should omit authorization header when no key is configured', async () => {
+    fetchMock.mockResolvedValue(embeddingsResponse([[1, 0]]));
+    const provider = new OpenAICompatibleEmbeddingProvider({
+      apiUrl: 'http://localhost:11434/v1',
+      modelName: 'nomic-embed-text',
+      dimensions: 'auto'
+    });
+
+    await provider.calculateEmbedding('local model');
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers.Authorization).toBeUndefined();
+  });
+
+  it('should auto-detect dimensions once and honour configured dimensions', async () => {
+    fetchMock.mockResolvedValue(embeddingsResponse([[0.1, 0.2, 0.3, 0.4]]));
+    const autoProvider = new OpenAICompatibleEmbeddingProvider({
+      apiUrl: 'http://localhost:11434/v1',
+      modelName: 'nomic-embed-text',
+      dimensions: 'auto'
+    });
+
+    expect(await autoProvider.getModelDimensions()).toBe(4);
+    expect(await autoProvider.getModelDimensions()).toBe(4);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const fixedProvider = new OpenAICompatibleEmbeddingProvider({
+      apiUrl: 'http://localhost:11434/v1',
+      modelName: 'text-embedding-3-large',
+      dimensions: 3072
+    });
+    expect(await fixedProvider.getModelDimensions()).toBe(3072);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should surface HTTP failures as embedding service errors', async () => {
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 401,
+      json: vi.fn(),
+      text: vi.fn().mockResolvedValue('invalid api key')
+    });
+    const provider = new OpenAICompatibleEmbeddingProvider({
+      apiUrl: 'https://api.example.com/v1',
+      modelName: 'text-embedding-3-small',
+      dimensions: 'auto'
+    });
+
+    const error = await provider.calculateEmbedding('hello').catch(e => e);
+
+    expect(error).toBeInstanceOf(MCPServiceError);
+    expect(error.code).toBe(MCPErrorCodes.EMBEDDING_SERVICE_ERROR);
+    expect(error.message).toContain('returned 401: invalid api key');
+  });
+
+  it('should surface unreachable endpoints and malformed responses', async () => {
+    const provider = new OpenAICompatibleEmbeddingProvider({
+      apiUrl: 'http://localhost:11434/v1',
+      modelName: 'nomic-embed-text',
+      dimensions: 'auto'
+    });
+
+    fetchMock.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+    await expect(provider.calculateEmbedding('hello')).rejects.toThrow('Embedding endpoint unreachable: ECONNREFUSED');
+
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: vi.fn().mockResolvedValue({ data: [] }), text: vi.fn() });
+    await expect(provider.calculateEmbedding('hello')).rejects.toThrow('malformed response');
+
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: vi.fn().mockRejectedValue(new SyntaxError('Unexpected token < in JSON')),
+      text: vi.fn()
+    });
+    const invalid = await provider.calculateEmbedding('hello').catch(error => error);
+    expect(invalid).toBeInstanceOf(MCPServiceError);
+    expect(invalid.message).toBe('Embedding endpoint returned invalid JSON: Unexpected token < in JSON');
+  });
+
+  it('should abort requests after the configured timeout', async () => {
+    fetchMock.mockImplementation((_url: string, init: any) => new Promise((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => reject(init.signal.reason));
+    }));
+    const provider = new OpenAICompatibleEmbeddingProvider({
+      apiUrl: 'http://localhost:11434/v1',
+      modelName: 'nomic-embed-text',
+      dimensions: 'auto',
+      timeout: 20
+    });
+
+    await expect(provider.calculateEmbedding('hello'))
+      .rejects.toThrow('Embedding endpoint unreachable: no response within 20ms');
+  });
+
+  it('should send batches in chunks and keep input order', async () => {
+    fetchMock.mockImplementation(async (_url: string, init: any) => {
+      const { input } = JSON.parse(init.body);
+      return embeddingsResponse(input.map((text: string) => [text.length]));
+    });
+    const provider = new OpenAICompatibleEmbeddingProvider({
+      apiUrl: 'http://localhost:11434/v1',
+      modelName: 'nomic-embed-text',
+      dimensions: 'auto',
+      batchSize: 2
+    });
+
+    const result = await provider.calculateEmbeddings(['a', 'bb', 'ccc']);
+
+    expect(result).toEqual([[1], [2], [3]]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject empty text before calling the endpoint', async () => {
+    const provider = new OpenAICompatibleEmbeddingProvider({
+      apiUrl: 'http://localhost:11434/v1',
+      modelName: 'nomic-embed-text',
+      dimensions: 'auto'
+    });
+
+    await expect(provider.calculateEmbedding('')).rejects.toThrow(MCPValidationError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('HashEmbeddingProvider batch', () => {
+  it('should match single-text embeddings', async () => {
+    const provider = new HashEmbeddingProvider(32);
+
+    const [first, second] = await provider.calculateEmbeddings(['alpha beta', 'gamma']);
+
+    expect(first).toEqual(await provider.calculateEmbedding('alpha beta'));
+    expect(second).toEqual(await provider.calculateEmbedding('gamma'));
+  });
+});
+
+describe('createEmbeddingProvider', () => {
+  it('should select provider by configuration', () => {
+    expect(createEmbeddingProvider({ ...baseConfig, provider: 'openai' }).name).toBe('openai');
+    expect(createEmbeddingProvider({ ...baseConfig, provider: 'hash' }).name).toBe('hash');
+    expect(createEmbeddingProvider(baseConfig).name).toBe('xenova');
+  });
+
+  it('should pass numeric dimensions to the hash provider', async () => {
+    const provider = createEmbeddingProvider({ ...baseConfig, provider: 'hash', dimensions: 128 });
+
+    expect(await provider.getModelDimensions()).toBe(128);
+  });
+});
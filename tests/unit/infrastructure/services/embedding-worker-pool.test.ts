@@ -0,0 +1,191 @@
+/**
+ * Embedding Worker Pool Tests
+ * Covers queueing, concurrency limit, idle teardown and error propagation with fake executors
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EmbeddingWorkerPool, EmbeddingExecutor } from '../../../../src/infrastructure/services/embedding-worker-pool';
+import { MCPServiceError } from '../../../../src/infrastructure/errors/mcp-errors';
+import { MCPErrorCodes } from '../../../../src/infrastructure/errors/error-codes';
+
+interface Deferred {
+  texts: string[];
+  resolve: (embeddings: number[][]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Executor whose requests settle only when the test says so
+ */
+class FakeExecutor implements EmbeddingExecutor {
+  pending: Deferred[] = [];
+  alive = true;
+  terminated = false;
+
+  embed(texts: string[]): Promise<number[][]> {
+    return new Promise((resolve, reject) => this.pending.push({ texts, resolve, reject }));
+  }
+
+  isAlive(): boolean {
+    return this.alive;
+  }
+
+  async terminate(): Promise<void> {
+    this.terminated = true;
+    this.alive = false;
+  }
+
+  respond(): void {
+    const request = this.pending.shift()!;
+    request.resolve(request.texts.map(text => [text.length]));
+  }
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('EmbeddingWorkerPool', () => {
+  let pool: EmbeddingWorkerPool;
+  let executors: FakeExecutor[];
+
+  const createPool = (size: number, idleTimeout = 60000) => {
+    executors = [];
+    pool = new EmbeddingWorkerPool({
+      size,
+      modelName: 'test-model',
+      idleTimeout,
+      createExecutor: () => {
+        const executor = new FakeExecutor();
+        executors.push(executor);
+        return executor;
+      }
+    });
+    return pool;
+  };
+
+  afterEach(async () => {
+    await pool?.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('should spawn executors lazily up to pool size and queue the rest', async () => {
+    createPool(2);
+    expect(executors).toHaveLength(0);
+
+    const results = [pool.embed(['a']), pool.embed(['bb']), pool.embed(['ccc'])];
+    expect(executors).toHaveLength(2);
+    expect(pool.getStats()).toEqual({ workers: 2, busy: 2, queued: 1 });
+
+    executors[0].respond();
+    await flush();
+    // Freed executor picks up the queued request
+    expect(executors[0].pending[0].texts).toEqual(['ccc']);
+
+    executors[0].respond();
+    executors[1].respond();
+    expect(await Promise.all(results)).toEqual([[[1]], [[2]], [[3]]]);
+  });
+
+  it('should use a single executor when size is 0', async () => {
+    createPool(0);
+
+    const first = pool.embed(['a']);
+    const second = pool.embed(['b']);
+    expect(executors).toHaveLength(1);
+    expect(pool.getStats().queued).toBe(1);
+
+    executors[0].respond();
+    await flush();
+    executors[0].respond();
+    await expect(Promise.all([first, second])).resolves.toHaveLength(2);
+  });
+
+  it('should tear down executors after idle timeout', async () => {
+    vi.useFakeTimers();
+    createPool(1, 1000);
+
+    const result = pool.embed(['a']);
+    executors[0].respond();
+    await result;
+    await vi.advanceTimersByTimeAsync(0);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(executors[0].terminated).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(executors[0].terminated).toBe(true);
+    expect(pool.getStats().workers).toBe(0);
+
+    // Next request starts a fresh executor
+    pool.embed(['b']);
+    expect(executors).toHaveLength(2);
+  });
+
+  it('should not tear down while requests are in flight', async () => {
+    vi.useFakeTimers();
+    createPool(1, 1000);
+
+    const first = pool.embed(['a']);
+    executors[0].respond();
+    await first;
+    await vi.advanceTimersByTimeAsync(500);
+
+    pool.embed(['b']);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(executors[0].terminated).toBe(false);
+  });
+
+  it('should wrap executor failures in MCPServiceError', async () => {
+    createPool(1);
+
+    const result = pool.embed(['a']);
+    executors[0].pending[0].reject(new Error('worker exploded'));
+
+    await expect(result).rejects.toThrow(MCPServiceError);
+    await expect(result).rejects.toMatchObject({
+      code: MCPErrorCodes.EMBEDDING_SERVICE_ERROR,
+      message: 'Embedding calculation failed: worker exploded'
+    });
+  });
+
+  it('should replace crashed executors', async () => {
+    createPool(1);
+
+    const first = pool.embed(['a']);
+    executors[0].alive = false;
+    executors[0].pending[0].reject(new Error('Embedding worker exited with code 1'));
+    await expect(first).rejects.toThrow(MCPServiceError);
+
+    const second = pool.embed(['b']);
+    expect(executors).toHaveLength(2);
+    executors[1].respond();
+    await expect(second).resolves.toEqual([[1]]);
+  });
+
+  it('should reject requests when executor cannot start', async () => {
+    pool = new EmbeddingWorkerPool({
+      size: 1,
+      modelName: 'test-model',
+      idleTimeout: 60000,
+      createExecutor: () => { throw new Error('script missing'); }
+    });
+
+    await expect(pool.embed(['a'])).rejects.toThrow('Embedding calculation failed: script missing');
+    expect(pool.getStats()).toEqual({ workers: 0, busy: 0, queued: 0 });
+  });
+
+  it('should reject queued requests on shutdown', async () => {
+    createPool(1);
+
+    pool.embed(['a']).catch(() => {});
+    const queued = pool.embed(['b']);
+
+    await pool.shutdown();
+    await expect(queued).rejects.toThrow('Embedding worker pool shut down before request was processed');
+    expect(executors[0].terminated).toBe(true);
+  });
+
+  it('should reject invalid pool sizes', () => {
+    expect(() => new EmbeddingWorkerPool({ size: -1, modelName: 'm', idleTimeout: 1000 }))
+      .toThrow(MCPServiceError);
+  });
+});
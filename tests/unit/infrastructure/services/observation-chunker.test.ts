@@ -0,0 +1,74 @@
+/**
+ * Observation Chunker Tests
+ * Sentence packing, token windows and overlap handling
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ObservationChunker } from '../../../../src/infrastructure/services/observation-chunker';
+
+const words = (count: number, prefix = 'w') =>
+  Array.from({ length: count }, (_, index) => `${prefix}${index}`).join(' ');
+
+describe('ObservationChunker', () => {
+  it('should not chunk content that fits in one window', () => {
+    const chunker = new ObservationChunker({ strategy: 'sentence', chunkSize: 10, overlap: 2 });
+
+    expect(chunker.split(words(10))).toEqual([]);
+  });
+
+  it('should not chunk when strategy is none', () => {
+    const chunker = new ObservationChunker({ strategy: 'none', chunkSize: 10, overlap: 2 });
+
+    expect(chunker.split(words(100))).toEqual([]);
+  });
+
+  describe('token strategy', () => {
+    it('should slide fixed windows with overlap', () => {
+      const chunker = new ObservationChunker({ strategy: 'token', chunkSize: 4, overlap: 1 });
+
+      expect(chunker.split('a b c d e f g h')).toEqual(['a b c d', 'd e f g', 'g h']);
+    });
+
+    it('should stop when the last window reaches the end', () => {
+      const chunker = new ObservationChunker({ strategy: 'token', chunkSize: 4, overlap: 0 });
+
+      expect(chunker.split('a b c d e f g h')).toEqual(['a b c d', 'e f g h']);
+    });
+  });
+
+  describe('sentence strategy', () => {
+    it('should pack whole sentences into chunks', () => {
+      const chunker = new ObservationChunker({ strategy: 'sentence', chunkSize: 6, overlap: 0 });
+
+      const chunks = chunker.split('Alpha beta gamma. Delta epsilon zeta. Eta theta iota.');
+
+      expect(chunks).toEqual(['Alpha beta gamma. Delta epsilon zeta.', 'Eta theta iota.']);
+    });
+
+    it('should repeat trailing sentences that fit the overlap', () => {
+      const chunker = new ObservationChunker({ strategy: 'sentence', chunkSize: 6, overlap: 3 });
+
+      const chunks = chunker.split('One two three. Four five. Six seven eight. Nine ten.');
+
+      expect(chunks).toEqual([
+        'One two three. Four five.',
+        'Four five. Six seven eight.',
+        'Six seven eight. Nine ten.'
+      ]);
+    });
+
+    it('should treat line breaks as sentence boundaries', () => {
+      const chunker = new ObservationChunker({ strategy: 'sentence', chunkSize: 3, overlap: 0 });
+
+      expect(chunker.split('first line here\nsecond line here')).toEqual(['first line here', 'second line here']);
+    });
+
+    it('should window sentences longer than a chunk', () => {
+      const chunker = new ObservationChunker({ strategy: 'sentence', chunkSize: 4, overlap: 0 });
+
+      const chunks = chunker.split(`${words(8)}. Short one.`);
+
+      expect(chunks).toEqual(['w0 w1 w2 w3', 'w4 w5 w6 w7.', 'Short one.']);
+    });
+  });
+});
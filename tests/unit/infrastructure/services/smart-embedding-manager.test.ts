@@ -18,7 +18,8 @@ vi.mock('../../../../src/config/index', () => ({
   getVectorConfig: vi.fn(() => ({
     modelName: 'all-MiniLM-L6-v2',
     dimensions: 384,
-    idleTimeout: 300000 // 5 minutes
+    idleTimeout: 300000, // 5 minutes
+    workers: 0 // Inline executor - pipeline mock lives on this thread
   }))
 }));
 
@@ -127,6 +128,42 @@ describe('SmartEmbeddingManager', () => {
     });
   });
 
+  describe('calculateEmbeddings', () => {
+    it('should embed texts in pipeline chunks and split the output tensor', async () => {
+      mockModel.mockImplementation((input: string | string[]) => {
+        const texts = Array.isArray(input) ? input : [input];
+        // Two dimensions per text, first value identifies the text
+        return { data: Float32Array.from(texts.flatMap(text => [text.length, 0.5])) };
+      });
+      const texts = Array.from({ length: 35 }, (_, i) => 'x'.repeat(i + 1));
+
+      const result = await embeddingManager.calculateEmbeddings(texts);
+
+      expect(result).toHaveLength(35);
+      expect(result[0]).toEqual([1, 0.5]);
+      expect(result[34]).toEqual([35, 0.5]);
+      // Default chunk size 32: one call for auto-dimension probe, then 32 + 3
+      const batchCalls = mockModel.mock.calls.filter(call => Array.isArray(call[0]));
+      expect(batchCalls.map(call => call[0].length)).toEqual([32, 3]);
+    });
+
+    it('should reject batches containing empty text before loading the model', async () => {
+      await expect(embeddingManager.calculateEmbeddings(['ok', ' '])).rejects.toThrow(MCPValidationError);
+      expect(mockPipeline).not.toHaveBeenCalled();
+    });
+
+    it('should return empty array for empty input', async () => {
+      expect(await embeddingManager.calculateEmbeddings([])).toEqual([]);
+    });
+
+    it('should wrap model failures in service error', async () => {
+      await embeddingManager.preloadModel();
+      mockModel.mockImplementation(() => { throw new Error('out of memory'); });
+
+      await expect(embeddingManager.calculateEmbeddings(['a', 'b'])).rejects.toThrow(MCPServiceError);
+    });
+  });
+
   describe('getModelDimensions', () => {
     it('should return model dimensions after loading', async () => {
       const dimensions = await embeddingManager.getModelDimensions();
@@ -269,7 +306,8 @@ describe('SmartEmbeddingManager', () => {
       (getVectorConfig as any).mockReturnValueOnce({
         modelName: 'sentence-transformers/all-MiniLM-L6-v2',
         dimensions: 384,
-        idleTimeout: 300000
+        idleTimeout: 300000,
+        workers: 0
       });
       
       const manager = new SmartEmbeddingManager();
@@ -286,7 +324,8 @@ describe('SmartEmbeddingManager', () => {
       (getVectorConfig as any).mockReturnValueOnce({
         modelName: 'all-MiniLM-L6-v2',
         dimensions: 'auto',
-        idleTimeout: 300000
+        idleTimeout: 300000,
+        workers: 0
       });
       
       const manager = new SmartEmbeddingManager();
@@ -301,7 +340,8 @@ describe('SmartEmbeddingManager', () => {
       (getVectorConfig as any).mockReturnValueOnce({
         modelName: 'all-MiniLM-L6-v2',
         dimensions: 512,
-        idleTimeout: 300000
+        idleTimeout: 300000,
+        workers: 0
       });
       
       const manager = new SmartEmbeddingManager();
@@ -5,9 +5,14 @@
  * Test Coverage Target: 90%+ (Critical MCP functionality)
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { McpDatabaseHandler } from '../../../src/application/mcp-handlers/mcp-database-handler';
 import { DIContainer } from '../../../src/container/di-container';
+import { runAsCaller } from '../../../src/infrastructure/auth';
+import { MCPDatabaseError, MCPErrorCodes } from '../../../src/infrastructure/errors';
 
 // Mock DIContainer to avoid database dependencies
 vi.mock('../../../src/container/di-container');
@@ -119,4 +124,53 @@ describe('McpDatabaseHandler - Database Operations', () => {
         .toThrow('Database name must be a non-empty string');
     });
   });
+
+  describe('database policy', () => {
+    const originalPolicyFile = process.env.HTTP_DATABASE_POLICY_FILE;
+    const asCaller = <T>(id: string, operation: () => T) =>
+      runAsCaller({ id, method: 'api-key', authenticatedAt: new Date().toISOString() }, operation);
+
+    beforeEach(() => {
+      const file = join(mkdtempSync(join(tmpdir(), 'db-policy-')), 'policy.json');
+      writeFileSync(file, JSON.stringify({
+        rules: [
+          { identity: 'alice', switch: ['team-a-*'] },
+          { identity: 'admin', switch: ['*'], createDatabases: true }
+        ]
+      }));
+      process.env.HTTP_DATABASE_POLICY_FILE = file;
+      mockDatabaseManager.normalizeDatabaseName = vi.fn((name: string) => name.toLowerCase().replace(/\s+/g, '-'));
+    });
+
+    afterEach(() => {
+      if (originalPolicyFile === undefined) {
+        delete process.env.HTTP_DATABASE_POLICY_FILE;
+      } else {
+        process.env.HTTP_DATABASE_POLICY_FILE = originalPolicyFile;
+      }
+    });
+
+    it('should check the switch grant against the normalized name before touching the database', async () => {
+      await expect(asCaller('alice', () => handler.handleDatabaseSwitch('Team B Notes')))
+        .rejects
+        .toMatchObject({ code: MCPErrorCodes.PERMISSION_DENIED, message: "Identity 'alice' may not switch database 'team-b-notes'" });
+      expect(mockContainer.initializeDatabase).not.toHaveBeenCalled();
+      expect(mockDatabaseManager.switchDatabase).not.toHaveBeenCalled();
+    });
+
+    it('should only let identities granted createDatabases create missing databases', async () => {
+      mockDatabaseManager.switchDatabase.mockRejectedValue(
+        new MCPDatabaseError("Database 'team-a-new' does not exist", MCPErrorCodes.DATABASE_NOT_FOUND)
+      );
+
+      await expect(asCaller('alice', () => handler.handleDatabaseSwitch('team-a-new')))
+        .rejects
+        .toMatchObject({ code: MCPErrorCodes.PERMISSION_DENIED, message: "Identity 'alice' may not create database 'team-a-new'" });
+      expect(mockDatabaseManager.switchDatabase).toHaveBeenCalledWith('team-a-new', { createIfMissing: false });
+
+      mockDatabaseManager.switchDatabase.mockResolvedValue({ previousDatabase: 'neo4j', currentDatabase: 'team-a-new', created: true });
+      await asCaller('admin', () => handler.handleDatabaseSwitch('team-a-new'));
+      expect(mockDatabaseManager.switchDatabase).toHaveBeenLastCalledWith('team-a-new', { createIfMissing: true });
+    });
+  });
 });
@@ -31,7 +31,8 @@ describe('McpMemoryHandler - Integration Layer', () => {
     };
 
     mockSearchUseCase = {
-      execute: vi.fn()
+      execute: vi.fn(),
+      executeBatch: vi.fn()
     };
 
     mockCreateUseCase = {
@@ -280,6 +281,30 @@ describe('McpMemoryHandler - Integration Layer', () => {
     });
   });
 
+  describe('Memory Search Batch', () => {
+    it('should return one stripped result group per search', async () => {
+      mockSearchUseCase.executeBatch.mockResolvedValue([
+        [{ memory: { id: 'mem-1', name: 'First', nameEmbedding: [0.1], observations: [] }, score: 0.9 }],
+        []
+      ]);
+
+      const result = await handler.handleMemorySearchBatch([
+        { query: 'first', limit: 5, includeGraphContext: true, threshold: 0.1, options: { explain: true } },
+        { query: 'second', limit: 10, includeGraphContext: true }
+      ]);
+
+      expect(mockSearchUseCase.executeBatch).toHaveBeenCalledWith([
+        { query: 'first', limit: 5, includeGraphContext: true, memoryTypes: undefined, threshold: 0.1, explain: true },
+        { query: 'second', limit: 10, includeGraphContext: true, memoryTypes: undefined, threshold: undefined }
+      ]);
+      expect(result.results).toEqual([
+        { memories: [{ id: 'mem-1', name: 'First', observations: [], score: 0.9 }], total: 1 },
+        { memories: [], total: 0 }
+      ]);
+      expect(result._meta.database).toBe('test-db');
+    });
+  });
+
   describe('Embedding Stripping', () => {
     it('should strip nameEmbedding from memory objects', async () => {
       const memoryWithEmbedding = {
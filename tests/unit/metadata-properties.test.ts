@@ -0,0 +1,121 @@
+/**
+ * Metadata Property Utilities Tests
+ * Promotion of top-level metadata to meta_* properties and the filter predicates over them
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  toMetadataProperties,
+  buildMetadataFilterClause,
+  withMetadataFilter
+} from '../../src/infrastructure/utilities/metadata-properties';
+
+describe('Metadata Property Utilities', () => {
+  describe('toMetadataProperties', () => {
+    it('should promote top-level scalars and record the promoted keys', () => {
+      const properties = toMetadataProperties({
+        status: 'open',
+        priority: 2,
+        archived: false,
+        tags: ['a', 'b'],
+        owner: { name: 'sam' },
+        'due-date': '2025-07-01',
+        missing: null
+      });
+
+      expect(properties).toEqual({
+        meta_status: 'open',
+        meta_priority: 2,
+        meta_archived: false,
+        metaKeys: ['status', 'priority', 'archived']
+      });
+    });
+
+    it('should remove previously promoted keys that disappeared', () => {
+      const properties = toMetadataProperties({ status: 'closed' }, ['status', 'project']);
+
+      expect(properties).toEqual({
+        meta_status: 'closed',
+        meta_project: null,
+        metaKeys: ['status']
+      });
+    });
+
+    it('should handle absent metadata', () => {
+      expect(toMetadataProperties(undefined)).toEqual({ metaKeys: [] });
+    });
+  });
+
+  describe('buildMetadataFilterClause', () => {
+    it('should build equality, in, exists and range predicates', () => {
+      const clause = buildMetadataFilterClause({
+        status: 'open',
+        project: { in: ['billing', 'auth'] },
+        owner: { exists: true },
+        reviewer: { exists: false },
+        priority: { gte: 2, lt: 5 },
+        dueDate: { lte: '2025-07-01' }
+      });
+
+      expect(clause.cypher).toBe([
+        'm.meta_status = $metaFilter0',
+        'm.meta_project IN $metaFilter1',
+        'm.meta_owner IS NOT NULL',
+        'm.meta_reviewer IS NULL',
+        'm.meta_priority >= $metaFilter2',
+        'm.meta_priority < $metaFilter3',
+        'm.meta_dueDate <= $metaFilter4'
+      ].join(' AND '));
+      expect(clause.params).toEqual({
+        metaFilter0: 'open',
+        metaFilter1: ['billing', 'auth'],
+        metaFilter2: 2,
+        metaFilter3: 5,
+        metaFilter4: '2025-07-01'
+      });
+    });
+
+    it('should target the given variable', () => {
+      expect(buildMetadataFilterClause({ status: { eq: 'open' } }, 'end').cypher)
+        .toBe('end.meta_status = $metaFilter0');
+    });
+
+    it('should reject keys that are not identifiers', () => {
+      expect(() => buildMetadataFilterClause({ 'status) OR true //': 'x' }))
+        .toThrow('Invalid metadata filter key');
+    });
+
+    it('should reject unknown operators and malformed values', () => {
+      expect(() => buildMetadataFilterClause({ status: { like: 'op%' } as any }))
+        .toThrow('Valid operators: eq, in, exists, gt, gte, lt, lte');
+      expect(() => buildMetadataFilterClause({ status: { in: [] } }))
+        .toThrow('status.in must be a non-empty array');
+      expect(() => buildMetadataFilterClause({ priority: { gt: 'high' } }))
+        .toThrow('priority.gt must be a number or an ISO date');
+      expect(() => buildMetadataFilterClause({ owner: { exists: 'yes' as any } }))
+        .toThrow('owner.exists must be a boolean');
+      expect(() => buildMetadataFilterClause({ tags: ['a'] as any }))
+        .toThrow('expected a string, number, boolean or condition object');
+    });
+  });
+
+  describe('withMetadataFilter', () => {
+    it('should AND the metadata clause into the date filter', () => {
+      const filter = withMetadataFilter(
+        { cypher: 'm.createdAt >= $createdAfter', params: { createdAfter: '2025-01-01' } },
+        { status: 'open' }
+      );
+
+      expect(filter).toEqual({
+        cypher: 'm.createdAt >= $createdAfter AND m.meta_status = $metaFilter0',
+        params: { createdAfter: '2025-01-01', metaFilter0: 'open' }
+      });
+    });
+
+    it('should leave the date filter untouched without metadata conditions', () => {
+      const dateFilter = { cypher: 'm.createdAt >= $createdAfter', params: { createdAfter: '2025-01-01' } };
+
+      expect(withMetadataFilter(dateFilter, undefined)).toBe(dateFilter);
+      expect(withMetadataFilter(undefined, {})).toBeUndefined();
+    });
+  });
+});
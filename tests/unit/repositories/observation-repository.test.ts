@@ -10,6 +10,8 @@ import { Neo4jDriverManager } from '../../../src/infrastructure/database/neo4j-d
 import { SessionFactory } from '../../../src/infrastructure/database/session-factory';
 import { ObservationRepository, ObservationData } from '../../../src/infrastructure/repositories/memory/observation-repository';
 import { generateCompactId } from '../../../src/id_generator';
+import { ProviderEmbeddingService } from '../../../src/infrastructure/services/embedding-service';
+import { HashEmbeddingProvider } from '../../../src/infrastructure/services/hash-embedding-provider';
 
 describe('ObservationRepository - Production Coverage', () => {
   let driverManager: Neo4jDriverManager;
@@ -23,7 +25,7 @@ describe('ObservationRepository - Production Coverage', () => {
     driverManager = new Neo4jDriverManager();
     sessionFactory = new SessionFactory(driverManager);
     session = sessionFactory.createSession();
-    repository = new ObservationRepository();
+    repository = new ObservationRepository(new ProviderEmbeddingService(new HashEmbeddingProvider()));
 
     // Create test memory for observations
     testMemoryId = generateCompactId();
@@ -124,6 +124,19 @@ describe('ContextLevelProcessor - Production Coverage', () => {
       });
       expect(result[0]).not.toHaveProperty('score');
     });
+
+    it('should keep a requested explanation', () => {
+      const explanation = {
+        channels: { name: true, metadataFulltext: false, observationFulltext: false, vector: false },
+        scores: { nameCoverage: 1 },
+        computation: { strategy: 'fixed' as const, formula: '0.85 + min(0.15 × 0, 0.15) = 0.85', components: {} }
+      };
+
+      const result = processor.applyContextLevel([{ ...fullMemoryResult, explanation }], 'minimal');
+
+      expect(result[0].explanation).toEqual(explanation);
+      expect(result[0]).not.toHaveProperty('observations');
+    });
   });
 
   describe('Full Context Level', () => {
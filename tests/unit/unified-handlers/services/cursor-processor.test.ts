@@ -0,0 +1,105 @@
+/**
+ * Cursor Processor Tests
+ * Single responsibility: Test opaque keyset cursor encoding for memory_find pagination
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CursorProcessor } from '../../../../src/application/unified-handlers/services/cursor-processor';
+
+describe('CursorProcessor', () => {
+  let processor: CursorProcessor;
+
+  beforeEach(() => {
+    processor = new CursorProcessor();
+  });
+
+  describe('Encoding and Decoding', () => {
+    it('should round-trip keyset positions', () => {
+      // Arrange
+      const position = { value: 0.875, id: 'mem-123', offset: 20 };
+
+      // Act
+      const cursor = processor.encodeCursor('relevance', position);
+      const decoded = processor.decodeCursor(cursor, 'relevance');
+
+      // Assert
+      expect(cursor).not.toContain('mem-123'); // Opaque to clients
+      expect(decoded).toEqual(position);
+    });
+
+    it('should reject malformed cursors', () => {
+      // Act & Assert
+      expect(() => processor.decodeCursor('not-a-cursor', 'relevance'))
+        .toThrow('Invalid cursor');
+      expect(() => processor.decodeCursor(Buffer.from('{"s":"relevance"}').toString('base64url'), 'relevance'))
+        .toThrow('Invalid cursor');
+    });
+
+    it('should reject cursors issued for another ordering', () => {
+      // Arrange
+      const cursor = processor.encodeCursor('createdAt', { value: '2025-01-01T00:00:00.000Z', id: 'mem-1', offset: 10 });
+
+      // Act & Assert
+      expect(() => processor.decodeCursor(cursor, 'relevance'))
+        .toThrow("Invalid cursor: issued for 'createdAt' ordering, request uses 'relevance'");
+    });
+  });
+
+  describe('Next Cursor', () => {
+    it('should not build cursor for a short page', () => {
+      // Act
+      const cursor = processor.buildNextCursor('relevance', 3, 10, { value: 0.5, id: 'mem-3' });
+
+      // Assert
+      expect(cursor).toBeUndefined();
+    });
+
+    it('should build cursor for a full page and accumulate offset', () => {
+      // Arrange
+      const previous = { value: '2025-02-01T00:00:00.000Z', id: 'mem-10', offset: 10 };
+
+      // Act
+      const cursor = processor.buildNextCursor(
+        'createdAt',
+        10,
+        10,
+        { value: new Date('2025-01-01T00:00:00.000Z'), id: 'mem-20' },
+        previous
+      );
+
+      // Assert
+      expect(processor.decodeCursor(cursor!, 'createdAt')).toEqual({
+        value: '2025-01-01T00:00:00.000Z',
+        id: 'mem-20',
+        offset: 20
+      });
+    });
+
+    it('should resume after a memory without the timestamp at the missing-timestamp position', () => {
+      // Act
+      const cursor = processor.buildNextCursor('lastAccessed', 2, 2, { value: null, id: 'mem-2' });
+
+      // Assert
+      expect(processor.decodeCursor(cursor!, 'lastAccessed')).toEqual({ value: '', id: 'mem-2', offset: 2 });
+    });
+
+    it('should carry the boost reference time to every following page', () => {
+      // Act
+      const second = processor.buildNextCursor('relevance', 2, 2, { value: 0.7, id: 'mem-2' }, undefined, 1700000000000);
+      const decoded = processor.decodeCursor(second!, 'relevance');
+      const third = processor.buildNextCursor('relevance', 2, 2, { value: 0.5, id: 'mem-4' }, decoded, decoded.boostTime);
+
+      // Assert
+      expect(decoded).toEqual({ value: 0.7, id: 'mem-2', offset: 2, boostTime: 1700000000000 });
+      expect(processor.decodeCursor(third!, 'relevance').boostTime).toBe(1700000000000);
+    });
+
+    it('should not build cursor when the score is missing', () => {
+      // Act
+      const cursor = processor.buildNextCursor('relevance', 2, 2, { value: undefined, id: 'mem-2' });
+
+      // Assert
+      expect(cursor).toBeUndefined();
+    });
+  });
+});
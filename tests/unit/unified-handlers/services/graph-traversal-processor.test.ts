@@ -111,6 +111,64 @@ describe('GraphTraversalProcessor - Production Coverage', () => {
       expect(result.params.relationTypes).toEqual(['INFLUENCES', 'DEPENDS_ON']);
     });
 
+    it('should order by memory timestamp when order is provided', () => {
+      // Arrange
+      const options = {
+        traverseFrom: 'test-memory-id',
+        traverseDirection: 'inbound' as const,
+        order: { property: 'modifiedAt' as const, direction: 'ASC' as const }
+      };
+
+      // Act
+      const result = processor.processTraversal(options);
+
+      // Assert
+      expect(result.cypher).toContain("coalesce(start.modifiedAt, '') as orderValue");
+      expect(result.cypher).toContain('ORDER BY orderValue ASC, start.id ASC');
+      expect(result.cypher).not.toContain('ORDER BY distance ASC, start.name ASC');
+    });
+
+    it('should page by distance and id after a cursor', () => {
+      // Arrange
+      const options = {
+        traverseFrom: 'test-memory-id',
+        traverseDirection: 'outbound' as const,
+        limit: 20,
+        after: { value: 1, id: 'mem-5', offset: 20 }
+      };
+
+      // Act
+      const result = processor.processTraversal(options);
+
+      // Assert
+      expect(result.cypher).toContain('WHERE (distance > $cursorValue OR (distance = $cursorValue AND end.id > $cursorId))');
+      expect(result.cypher).toContain('ORDER BY distance ASC, end.id ASC');
+      expect(result.cypher).toContain('LIMIT $limit');
+      expect(result.params.limit.toNumber()).toBe(20);
+      expect(result.params.cursorValue).toBe(1);
+      expect(result.params.cursorId).toBe('mem-5');
+    });
+
+    it('should filter reached memories by metadata', () => {
+      // Arrange
+      const options = {
+        traverseFrom: 'test-memory-id',
+        traverseDirection: 'both' as const,
+        metadataFilter: { status: 'open', priority: { gte: 2 } }
+      };
+
+      // Act
+      const result = processor.processTraversal(options);
+
+      // Assert
+      expect(result.cypher).toContain(
+        'connected.id IS NOT NULL AND connected.meta_status = $metaFilter0 AND connected.meta_priority >= $metaFilter1'
+      );
+      expect(result.params.metaFilter0).toBe('open');
+      expect(result.params.metaFilter1).toBe(2);
+      expect(result.params.startId).toBe('test-memory-id');
+    });
+
     it('should enforce maximum depth limits', () => {
       // Arrange
       const options = {
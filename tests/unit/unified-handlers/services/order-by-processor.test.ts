@@ -0,0 +1,47 @@
+/**
+ * Order By Processor Tests
+ * Single responsibility: Test orderBy/orderDirection mapping for memory_find
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OrderByProcessor } from '../../../../src/application/unified-handlers/services/order-by-processor';
+
+describe('OrderByProcessor', () => {
+  let processor: OrderByProcessor;
+
+  beforeEach(() => {
+    processor = new OrderByProcessor();
+  });
+
+  describe('Order Processing', () => {
+    it('should return undefined for relevance or missing orderBy', () => {
+      // Act & Assert
+      expect(processor.processOrderBy()).toBeUndefined();
+      expect(processor.processOrderBy('relevance')).toBeUndefined();
+      expect(processor.processOrderBy('relevance', 'asc')).toBeUndefined();
+    });
+
+    it('should map timestamp orderings to memory properties', () => {
+      // Act & Assert
+      expect(processor.processOrderBy('created')?.property).toBe('createdAt');
+      expect(processor.processOrderBy('modified')?.property).toBe('modifiedAt');
+      expect(processor.processOrderBy('accessed')?.property).toBe('lastAccessed');
+    });
+
+    it('should default to descending direction', () => {
+      // Act
+      const result = processor.processOrderBy('created');
+
+      // Assert
+      expect(result).toEqual({ property: 'createdAt', direction: 'DESC' });
+    });
+
+    it('should honour ascending direction', () => {
+      // Act
+      const result = processor.processOrderBy('modified', 'asc');
+
+      // Assert
+      expect(result).toEqual({ property: 'modifiedAt', direction: 'ASC' });
+    });
+  });
+});
@@ -5,6 +5,9 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { UnifiedMemoryFindHandler } from '../../../src/application/unified-handlers/unified-memory-find-handler';
 import { McpMemoryHandler } from '../../../src/application/mcp-handlers';
 
@@ -12,10 +15,14 @@ import { McpMemoryHandler } from '../../../src/application/mcp-handlers';
 vi.mock('../../../src/application/mcp-handlers');
 vi.mock('../../../src/container/di-container');
 vi.mock('../../../src/infrastructure/services/search/wildcard-search-service');
+vi.mock('../../../src/infrastructure/services/search/similar-memory-search');
 
 // Import mocked modules
 import { DIContainer } from '../../../src/container/di-container';
 import { WildcardSearchService } from '../../../src/infrastructure/services/search/wildcard-search-service';
+import { SimilarMemorySearch } from '../../../src/infrastructure/services/search/similar-memory-search';
+import { runAsCaller } from '../../../src/infrastructure/auth';
+import { MCPErrorCodes } from '../../../src/infrastructure/errors';
 
 describe('UnifiedMemoryFindHandler - Production Coverage', () => {
   let handler: UnifiedMemoryFindHandler;
@@ -28,6 +35,7 @@ describe('UnifiedMemoryFindHandler - Production Coverage', () => {
     const mockContainer = {
       getCurrentDatabase: vi.fn().mockReturnValue({ database: 'test-db' }),
       initializeDatabase: vi.fn().mockResolvedValue(undefined), // Add missing method
+      getEmbeddingService: vi.fn().mockReturnValue({}),
       getSessionFactory: vi.fn().mockReturnValue({
         createSession: vi.fn().mockReturnValue({
           run: vi.fn(),
@@ -41,6 +49,7 @@ describe('UnifiedMemoryFindHandler - Production Coverage', () => {
     mockMemoryHandler = {
       handleMemoryRetrieve: vi.fn(),
       handleMemorySearch: vi.fn(),
+      handleMemorySearchBatch: vi.fn(),
       container: mockContainer  // Add container reference
     };
 
@@ -65,7 +74,7 @@ describe('UnifiedMemoryFindHandler - Production Coverage', () => {
       const result = await handler.handleMemoryFind(request);
 
       // Assert
-      expect(mockMemoryHandler.handleMemoryRetrieve).toHaveBeenCalledWith(['memory-id-1', 'memory-id-2']);
+      expect(mockMemoryHandler.handleMemoryRetrieve).toHaveBeenCalledWith(['memory-id-1', 'memory-id-2'], undefined);
       expect(result.memories).toHaveLength(2);
       expect(result._meta.query).toEqual(['memory-id-1', 'memory-id-2']);
     });
@@ -86,7 +95,7 @@ describe('UnifiedMemoryFindHandler - Production Coverage', () => {
       const result = await handler.handleMemoryFind(request);
 
       // Assert
-      expect(mockMemoryHandler.handleMemoryRetrieve).toHaveBeenCalledWith(['memory-id-1', 'memory-id-2']);
+      expect(mockMemoryHandler.handleMemoryRetrieve).toHaveBeenCalledWith(['memory-id-1', 'memory-id-2'], undefined);
     });
 
     it('should route semantic search to handleMemorySearch', async () => {
@@ -112,7 +121,8 @@ describe('UnifiedMemoryFindHandler - Production Coverage', () => {
         5,
         true, // includeGraphContext
         undefined, // memoryTypes
-        0.7 // threshold
+        0.7, // threshold
+        { boostTime: expect.any(Number) } // recency reference time only
       );
     });
 
@@ -263,6 +273,93 @@ describe('UnifiedMemoryFindHandler - Production Coverage', () => {
     });
   });
 
+  describe('Similarity Search', () => {
+    it('should return scored neighbours in similarity order', async () => {
+      const mockSimilarSearch = {
+        findSimilar: vi.fn().mockResolvedValue([
+          { id: 'mem-b', score: 0.93, matchedVia: 'observation' },
+          { id: 'mem-a', score: 0.81, matchedVia: 'name' }
+        ])
+      };
+      vi.mocked(SimilarMemorySearch).mockImplementation(() => mockSimilarSearch as any);
+      mockMemoryHandler.handleMemoryRetrieve.mockResolvedValue({
+        memories: [
+          { id: 'mem-a', name: 'Alpha', memoryType: 'note', observations: [] },
+          { id: 'mem-b', name: 'Beta', memoryType: 'note', observations: [] }
+        ]
+      });
+
+      const result = await handler.handleMemoryFind({
+        query: '*',
+        similarTo: 'mem-source',
+        similarityMode: 'centroid',
+        excludeRelated: true,
+        limit: 5,
+        metadataFilter: { status: 'open' }
+      });
+
+      expect(result.memories.map((memory: any) => [memory.id, memory.score])).toEqual([['mem-b', 0.93], ['mem-a', 0.81]]);
+      const [memoryId, options] = mockSimilarSearch.findSimilar.mock.calls[0];
+      expect(memoryId).toBe('mem-source');
+      expect(options).toMatchObject({ limit: 5, mode: 'centroid', excludeRelated: true });
+      expect(options.filter.cypher).toContain('m.meta_status = $metaFilter0');
+      expect(mockMemoryHandler.handleMemorySearch).not.toHaveBeenCalled();
+    });
+
+    it('should reject similarity options without similarTo and combined with traversal', async () => {
+      await expect(handler.handleMemoryFind({ query: '*', excludeRelated: true }))
+        .rejects.toThrow('similarTo is required when using similarityMode or excludeRelated');
+      await expect(handler.handleMemoryFind({ query: '*', similarTo: 'mem-1', traverseFrom: 'mem-2' }))
+        .rejects.toThrow('similarTo and traverseFrom cannot be combined');
+    });
+  });
+
+  describe('Batch Search', () => {
+    it('should run named sub-queries with their own filters and group the results', async () => {
+      mockMemoryHandler.handleMemorySearchBatch.mockResolvedValue({
+        results: [
+          { memories: [{ id: 'mem-1', name: 'OAuth flow', memoryType: 'decision', observations: [], score: 0.9 }], total: 1 },
+          { memories: [], total: 0 }
+        ]
+      });
+
+      const result = await handler.handleMemoryFind({
+        query: '*',
+        includeContext: 'minimal',
+        queries: [
+          { name: 'decisions', query: 'authentication', memoryTypes: ['decision'], limit: 3 },
+          { name: 'recent', query: 'deployment', createdAfter: '7d', orderBy: 'created' }
+        ]
+      });
+
+      const [searches] = mockMemoryHandler.handleMemorySearchBatch.mock.calls[0];
+      expect(searches[0]).toEqual({
+        query: 'authentication', limit: 3, includeGraphContext: false, memoryTypes: ['decision'], threshold: 0.1, options: undefined
+      });
+      expect(searches[1].options.dateFilter.cypher).toContain('m.createdAt >= $createdAfter');
+      expect(searches[1].options.order).toMatchObject({ property: 'createdAt', direction: 'DESC' });
+      expect(result.memories).toEqual([]);
+      expect(result.groups!.map(group => [group.name, group.total])).toEqual([['decisions', 1], ['recent', 0]]);
+      expect(result.groups![0].memories[0]).not.toHaveProperty('observations');
+      expect(result._meta.total).toBe(1);
+      expect(mockMemoryHandler.handleMemorySearch).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed batches before searching', async () => {
+      await expect(handler.handleMemoryFind({ query: '*', queries: [] }))
+        .rejects.toThrow('queries must be an array of 1 to 10 named sub-queries');
+      await expect(handler.handleMemoryFind({
+        query: '*',
+        queries: [{ name: 'a', query: 'x' }, { name: 'a', query: 'y' }]
+      })).rejects.toThrow('Duplicate sub-query name: a');
+      await expect(handler.handleMemoryFind({ query: '*', similarTo: 'mem-1', queries: [{ name: 'a', query: 'x' }] }))
+        .rejects.toThrow('queries cannot be combined with similarTo, traverseFrom or cursor');
+      await expect(handler.handleMemoryFind({ query: '*', queries: [{ name: 'a', query: 'x', threshold: 2 }] }))
+        .rejects.toThrow('threshold must be between 0.0 and 1.0');
+      expect(mockMemoryHandler.handleMemorySearchBatch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Graph Traversal', () => {
     it('should handle graph traversal request', async () => {
       // Arrange - mock DIContainer and sessionFactory for graph traversal
@@ -324,7 +421,7 @@ describe('UnifiedMemoryFindHandler - Production Coverage', () => {
 
       // Assert
       expect(mockSession.run).toHaveBeenCalled();
-      expect(mockMemoryHandler.handleMemoryRetrieve).toHaveBeenCalledWith(['related-memory-1']);
+      expect(mockMemoryHandler.handleMemoryRetrieve).toHaveBeenCalledWith(['related-memory-1'], undefined);
       expect(result.memories).toHaveLength(1);
       expect(result.memories[0].related).toBeDefined();
     });
@@ -422,6 +519,89 @@ describe('UnifiedMemoryFindHandler - Production Coverage', () => {
       expect(result.memories[0].name).toBe('Recent Memory');
     });
 
+    it('should pass date filters to semantic search', async () => {
+      // Arrange
+      mockMemoryHandler.handleMemorySearch.mockResolvedValue({ memories: [] });
+
+      const request = {
+        query: 'auth decisions',
+        createdAfter: '7d'
+      };
+
+      // Act
+      await handler.handleMemoryFind(request);
+
+      // Assert
+      const { dateFilter } = mockMemoryHandler.handleMemorySearch.mock.calls[0][5];
+      expect(dateFilter.cypher).toBe('m.createdAt >= $createdAfter');
+      expect(new Date(dateFilter.params.createdAfter).getTime()).toBeLessThan(Date.now());
+    });
+
+    it('should pass timestamp ordering to search and retrieval', async () => {
+      // Arrange
+      mockMemoryHandler.handleMemorySearch.mockResolvedValue({ memories: [] });
+      mockMemoryHandler.handleMemoryRetrieve.mockResolvedValue({ memories: [] });
+
+      // Act
+      await handler.handleMemoryFind({ query: 'auth decisions', orderBy: 'modified', orderDirection: 'asc' });
+      await handler.handleMemoryFind({ query: ['mem-1', 'mem-2'], orderBy: 'created' });
+
+      // Assert
+      const { order } = mockMemoryHandler.handleMemorySearch.mock.calls[0][5];
+      expect(order).toEqual({ property: 'modifiedAt', direction: 'ASC' });
+      expect(mockMemoryHandler.handleMemoryRetrieve).toHaveBeenCalledWith(
+        ['mem-1', 'mem-2'],
+        { property: 'createdAt', direction: 'DESC' }
+      );
+    });
+
+    it('should pass scoring and boost overrides and explain to semantic search', async () => {
+      mockMemoryHandler.handleMemorySearch.mockResolvedValue({ memories: [] });
+
+      await handler.handleMemoryFind({
+        query: 'auth decisions',
+        scoring: { strategy: 'rrf', rrfK: 20 },
+        boost: { recencyWeight: 0.2, halfLifeDays: 14 },
+        explain: true
+      });
+
+      const options = mockMemoryHandler.handleMemorySearch.mock.calls[0][5];
+      expect(options.scoring).toEqual({ strategy: 'rrf', rrfK: 20 });
+      expect(options.boost).toEqual({ recencyWeight: 0.2, halfLifeDays: 14 });
+      expect(options.explain).toBe(true);
+    });
+
+    it('should pass metadata filters to search and wildcard listing', async () => {
+      const mockWildcardService = { search: vi.fn().mockResolvedValue([]) };
+      vi.mocked(WildcardSearchService).mockImplementation(() => mockWildcardService as any);
+      mockMemoryHandler.handleMemorySearch.mockResolvedValue({ memories: [] });
+      const metadataFilter = { status: 'open', project: { in: ['billing', 'auth'] } };
+
+      await handler.handleMemoryFind({ query: 'auth decisions', metadataFilter });
+      await handler.handleMemoryFind({ query: '*', createdAfter: '7d', metadataFilter });
+
+      expect(mockMemoryHandler.handleMemorySearch.mock.calls[0][5].metadataFilter).toEqual(metadataFilter);
+
+      const [, , , cypher, params] = mockWildcardService.search.mock.calls[0];
+      expect(cypher).toBe('m.createdAt >= $createdAfter AND m.meta_status = $metaFilter0 AND m.meta_project IN $metaFilter1');
+      expect(params).toMatchObject({ metaFilter0: 'open', metaFilter1: ['billing', 'auth'] });
+    });
+
+    it('should list filter-only query-language queries like wildcard', async () => {
+      const mockWildcardService = { search: vi.fn().mockResolvedValue([]) };
+      vi.mocked(WildcardSearchService).mockImplementation(() => mockWildcardService as any);
+
+      await handler.handleMemoryFind({ query: 'type:decision -obs:draft', createdAfter: '7d' });
+
+      expect(mockMemoryHandler.handleMemorySearch).not.toHaveBeenCalled();
+      const [, , , cypher, params] = mockWildcardService.search.mock.calls[0];
+      expect(cypher).toBe(
+        'm.createdAt >= $createdAfter AND (toLower(m.memoryType) = $qlTerm0 AND ' +
+        '(NOT EXISTS { MATCH (m)-[:HAS_OBSERVATION]->(qlObs:Observation) WHERE toLower(qlObs.content) CONTAINS $qlTerm1 }))'
+      );
+      expect(params).toMatchObject({ qlTerm0: 'decision', qlTerm1: 'draft' });
+    });
+
     it('should validate date filter parameters', async () => {
       // Arrange
       const invalidRequest = {
@@ -485,7 +665,8 @@ describe('UnifiedMemoryFindHandler - Production Coverage', () => {
         10, // default limit
         true, // includeGraphContext
         ['knowledge', 'insight'], // memoryTypes passed through
-        0.1 // default threshold
+        0.1, // default threshold
+        { boostTime: expect.any(Number) } // recency reference time only
       );
     });
   });
@@ -533,6 +714,37 @@ describe('UnifiedMemoryFindHandler - Production Coverage', () => {
         orderBy: 'invalid' as any 
       })).rejects.toThrow('Invalid orderBy: invalid');
     });
+
+    it('should validate orderDirection options', async () => {
+      // Act & Assert
+      await expect(handler.handleMemoryFind({
+        query: 'test',
+        orderBy: 'created',
+        orderDirection: 'sideways' as any
+      })).rejects.toThrow('Invalid orderDirection: sideways');
+    });
+
+    it('should deny reads of the active database without a policy grant', async () => {
+      // Arrange
+      const file = join(mkdtempSync(join(tmpdir(), 'db-policy-')), 'policy.json');
+      writeFileSync(file, JSON.stringify({ rules: [{ identity: 'alice', read: ['team-a-*'] }] }));
+      const originalPolicyFile = process.env.HTTP_DATABASE_POLICY_FILE;
+      process.env.HTTP_DATABASE_POLICY_FILE = file;
+      const alice = { id: 'alice', method: 'api-key' as const, authenticatedAt: new Date().toISOString() };
+
+      try {
+        // Act & Assert
+        await expect(runAsCaller(alice, () => handler.handleMemoryFind({ query: 'test' })))
+          .rejects.toMatchObject({ code: MCPErrorCodes.PERMISSION_DENIED, message: "Identity 'alice' may not read database 'test-db'" });
+        expect(mockMemoryHandler.handleMemorySearch).not.toHaveBeenCalled();
+      } finally {
+        if (originalPolicyFile === undefined) {
+          delete process.env.HTTP_DATABASE_POLICY_FILE;
+        } else {
+          process.env.HTTP_DATABASE_POLICY_FILE = originalPolicyFile;
+        }
+      }
+    });
   });
 
   describe('Response Formatting', () => {
@@ -561,6 +773,43 @@ describe('UnifiedMemoryFindHandler - Production Coverage', () => {
       expect(result._meta.queryTime).toBeGreaterThanOrEqual(0);
     });
 
+    it('should return nextCursor for a full page and accept it back', async () => {
+      // Arrange
+      mockMemoryHandler.handleMemorySearch.mockResolvedValue({
+        memories: [
+          { id: 'mem-1', name: 'First', memoryType: 'test', score: 0.9 },
+          { id: 'mem-2', name: 'Second', memoryType: 'test', score: 0.8 }
+        ]
+      });
+
+      // Act
+      const firstPage = await handler.handleMemoryFind({ query: 'paged search', limit: 2 });
+      await handler.handleMemoryFind({ query: 'paged search', limit: 2, cursor: firstPage._meta.nextCursor });
+
+      // Assert
+      expect(firstPage._meta.nextCursor).toEqual(expect.any(String));
+      const firstOptions = mockMemoryHandler.handleMemorySearch.mock.calls[0][5];
+      const { after, boostTime } = mockMemoryHandler.handleMemorySearch.mock.calls[1][5];
+      expect(after).toEqual({ value: 0.8, id: 'mem-2', offset: 2, boostTime: firstOptions.boostTime });
+      expect(boostTime).toBe(firstOptions.boostTime);
+    });
+
+    it('should reject cursor from a different ordering', async () => {
+      // Arrange
+      mockMemoryHandler.handleMemorySearch.mockResolvedValue({
+        memories: [{ id: 'mem-1', name: 'First', memoryType: 'test', score: 0.9 }]
+      });
+      const firstPage = await handler.handleMemoryFind({ query: 'paged search', limit: 1 });
+
+      // Act & Assert
+      await expect(handler.handleMemoryFind({
+        query: 'paged search',
+        limit: 1,
+        orderBy: 'created',
+        cursor: firstPage._meta.nextCursor
+      })).rejects.toThrow("Invalid cursor: issued for 'relevance' ordering");
+    });
+
     it('should handle empty results gracefully', async () => {
       // Arrange
       const request = {
@@ -18,29 +18,43 @@ vi.mock('../../../src/id_generator');
 import { DIContainer } from '../../../src/container/di-container';
 import { getLimitsConfig } from '../../../src/config';
 import { generateCompactId } from '../../../src/id_generator';
+import { ObservationChunker } from '../../../src/infrastructure/services/observation-chunker';
 
 describe('UnifiedMemoryStoreHandler - Production Coverage', () => {
   let handler: UnifiedMemoryStoreHandler;
   let mockMemoryHandler: any;
   let mockRelationHandler: any;
+  let mockTx: any;
+  let mockEmbeddingService: any;
 
   beforeEach(() => {
     // Reset all mocks
     vi.clearAllMocks();
     
     // Mock DIContainer
+    mockTx = {
+      run: vi.fn().mockResolvedValue({ records: [] }),
+      commit: vi.fn(),
+      rollback: vi.fn()
+    };
+    mockEmbeddingService = {
+      calculateEmbeddings: vi.fn().mockImplementation(async (texts: string[]) =>
+        texts.map((_, index) => [index, 0.5])
+      ),
+      getModelIdentity: vi.fn().mockReturnValue('hash:fnv1a')
+    };
     const mockContainer = {
       getCurrentDatabase: vi.fn().mockReturnValue({ database: 'test-db' }),
       getSessionFactory: vi.fn().mockReturnValue({
         createSession: vi.fn().mockReturnValue({
-          beginTransaction: vi.fn().mockReturnValue({
-            run: vi.fn(),
-            commit: vi.fn(),
-            rollback: vi.fn()
-          }),
+          beginTransaction: vi.fn().mockReturnValue(mockTx),
           close: vi.fn()
         })
-      })
+      }),
+      getEmbeddingService: vi.fn().mockReturnValue(mockEmbeddingService),
+      getObservationChunker: vi.fn().mockReturnValue(
+        new ObservationChunker({ strategy: 'token', chunkSize: 4, overlap: 1 })
+      )
     };
     vi.mocked(DIContainer.getInstance).mockReturnValue(mockContainer);
 
@@ -437,4 +451,88 @@ describe('UnifiedMemoryStoreHandler - Production Coverage', () => {
       });
     });
   });
+
+  describe('Transactional Batch Embedding', () => {
+    it('should embed all names and observations in one batch and store vectors', async () => {
+      const request = {
+        memories: [
+          { name: 'Alpha', memoryType: 'project', observations: ['first', 'second'] },
+          { name: 'Beta', memoryType: 'project', observations: ['third'] }
+        ]
+      };
+
+      const result = await handler.handleMemoryStore(request);
+
+      expect(result.success).toBe(true);
+      expect(mockEmbeddingService.calculateEmbeddings).toHaveBeenCalledTimes(1);
+      expect(mockEmbeddingService.calculateEmbeddings).toHaveBeenCalledWith(
+        ['Alpha', 'first', 'second', 'Beta', 'third']
+      );
+
+      const params = mockTx.run.mock.calls.map((call: any[]) => call[1]);
+      expect(params[0]).toMatchObject({ name: 'Alpha', nameEmbedding: [0, 0.5], embeddingModel: 'hash:fnv1a', embeddingDimensions: 2 });
+      expect(params[2]).toMatchObject({ content: 'second', embedding: [2, 0.5] });
+      expect(params[3]).toMatchObject({ name: 'Beta', nameEmbedding: [3, 0.5] });
+      expect(params[4]).toMatchObject({ content: 'third', embedding: [4, 0.5] });
+      expect(mockTx.commit).toHaveBeenCalled();
+    });
+
+    it('should embed chunks of long observations in the same batch and link them', async () => {
+      const result = await handler.handleMemoryStore({
+        memories: [{ name: 'Alpha', memoryType: 'project', observations: ['one two three four five six'] }]
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockEmbeddingService.calculateEmbeddings).toHaveBeenCalledWith(
+        ['Alpha', 'one two three four five six', 'one two three four', 'four five six']
+      );
+
+      const [cypher, params] = mockTx.run.mock.calls[1];
+      expect(cypher).toContain('CREATE (o)-[:HAS_CHUNK]->(:ObservationChunk');
+      expect(params.embedding).toEqual([1, 0.5]);
+      expect(params.chunks).toEqual([
+        { id: expect.any(String), position: 0, content: 'one two three four', embedding: [2, 0.5] },
+        { id: expect.any(String), position: 1, content: 'four five six', embedding: [3, 0.5] }
+      ]);
+    });
+
+    it('should fail without opening a transaction when embedding fails', async () => {
+      mockEmbeddingService.calculateEmbeddings.mockRejectedValue(new Error('model unavailable'));
+      const sessionFactory = vi.mocked(DIContainer.getInstance)().getSessionFactory();
+
+      const result = await handler.handleMemoryStore({
+        memories: [{ name: 'Alpha', memoryType: 'project', observations: ['first'] }]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('model unavailable');
+      expect(sessionFactory.createSession).not.toHaveBeenCalled();
+      expect(mockTx.run).not.toHaveBeenCalled();
+    });
+
+    it('should calculate embeddings before beginning the transaction', async () => {
+      const session = vi.mocked(DIContainer.getInstance)().getSessionFactory().createSession();
+      vi.mocked(session.beginTransaction).mockImplementation(() => {
+        expect(mockEmbeddingService.calculateEmbeddings).toHaveBeenCalled();
+        return mockTx;
+      });
+
+      const result = await handler.handleMemoryStore({
+        memories: [{ name: 'Alpha', memoryType: 'project', observations: ['first'] }]
+      });
+
+      expect(result.success).toBe(true);
+      expect(session.beginTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject empty observations before embedding', async () => {
+      const result = await handler.handleMemoryStore({
+        memories: [{ name: 'Alpha', memoryType: 'project', observations: ['ok', '  '] }]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('empty observation');
+      expect(mockEmbeddingService.calculateEmbeddings).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -16,7 +16,8 @@ describe('SearchMemoriesUseCase', () => {
     vi.clearAllMocks();
     
     mockSearchRepository = {
-      search: vi.fn()
+      search: vi.fn(),
+      searchBatch: vi.fn()
     };
 
     searchUseCase = new SearchMemoriesUseCase(mockSearchRepository);
@@ -144,4 +145,23 @@ describe('SearchMemoriesUseCase', () => {
       expect(mockSearchRepository.search).toHaveBeenCalledWith(request);
     });
   });
+
+  describe('Batch Search', () => {
+    it('should validate every request before running the batch', async () => {
+      await expect(searchUseCase.executeBatch([{ query: 'valid' }, { query: 'valid', limit: 0 }]))
+        .rejects.toThrow('Search limit must be positive');
+      await expect(searchUseCase.executeBatch([])).rejects.toThrow('Batch search needs at least one query');
+      expect(mockSearchRepository.searchBatch).not.toHaveBeenCalled();
+    });
+
+    it('should pass the requests to the repository in order', async () => {
+      const requests: SearchRequest[] = [{ query: 'first' }, { query: 'second', memoryTypes: ['note'] }];
+      mockSearchRepository.searchBatch.mockResolvedValue([[], []]);
+
+      const results = await searchUseCase.executeBatch(requests);
+
+      expect(mockSearchRepository.searchBatch).toHaveBeenCalledWith(requests);
+      expect(results).toEqual([[], []]);
+    });
+  });
 });
@@ -6,7 +6,14 @@ export default defineConfig({
   outExtension: () => ({
     js: ".mjs",
   }),
-  entry: ["src/index.ts", "src/http/server.ts"],
+  entry: {
+    index: "src/index.ts",
+    "http/server": "src/http/server.ts",
+    "cli/reembed": "src/cli/reembed.ts",
+    "cli/centrality": "src/cli/centrality.ts",
+    // Worker thread script - resolved at runtime relative to dist/
+    "embedding-worker": "src/infrastructure/services/embedding-worker.ts",
+  },
   clean: true,
   sourcemap: false,
   dts: false,